@@ -0,0 +1,151 @@
+import { Request, Response } from 'express';
+import { isValidCanvasCoordinate } from '@libs/utils';
+import { rollbackPlacements, RollbackCriteria, ROLLBACK_PREVIEW_LIMIT } from '../../services/rollback.service';
+import { isValidRole, setUserRole } from '../../services/role.service';
+
+const sendBadRequest = (res: Response, message: string): void => {
+  res.status(400).json({
+    error: 'Bad Request',
+    message,
+    statusCode: 400,
+  });
+};
+
+/**
+ * Parse a timestamp given either as ms since epoch or as an ISO 8601 string
+ */
+const parseTimestamp = (value: unknown): Date | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? new Date(value) : null;
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+
+  const date = /^\d+$/.test(value) ? new Date(parseInt(value, 10)) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Validate a rollback request body; sends a 400 response and returns null when invalid
+ */
+const parseRollbackCriteria = (req: Request, res: Response): RollbackCriteria | null => {
+  const { userId, region, from, to } = req.body ?? {};
+  const board = req.board!;
+  const criteria: RollbackCriteria = {};
+
+  if (userId !== undefined) {
+    if (typeof userId !== 'string' || userId.trim() === '') {
+      sendBadRequest(res, 'userId must be a non-empty string');
+      return null;
+    }
+    criteria.userId = userId;
+  }
+
+  if (region !== undefined) {
+    const { minX, minY, maxX, maxY } = region ?? {};
+    if (
+      !isValidCanvasCoordinate(minX, minY, board.width, board.height) ||
+      !isValidCanvasCoordinate(maxX, maxY, board.width, board.height) ||
+      minX > maxX ||
+      minY > maxY
+    ) {
+      sendBadRequest(res, 'region must be a rectangle of canvas coordinates with minX <= maxX and minY <= maxY');
+      return null;
+    }
+    criteria.region = { minX, minY, maxX, maxY };
+  }
+
+  if (from !== undefined || to !== undefined) {
+    const fromDate = parseTimestamp(from);
+    const toDate = parseTimestamp(to);
+    if (!fromDate || !toDate) {
+      sendBadRequest(res, 'from and to must both be ISO 8601 dates or timestamps in milliseconds');
+      return null;
+    }
+    if (fromDate > toDate) {
+      sendBadRequest(res, 'from must be less than or equal to to');
+      return null;
+    }
+    criteria.from = fromDate;
+    criteria.to = toDate;
+  }
+
+  // A rectangle alone would wipe an area's whole history
+  if (!criteria.userId && !(criteria.region && criteria.from)) {
+    sendBadRequest(res, 'Specify a userId, or a region together with a from/to time window');
+    return null;
+  }
+
+  return criteria;
+};
+
+export const rollback = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const criteria = parseRollbackCriteria(req, res);
+    if (!criteria) return;
+
+    const dryRun = req.body.dryRun === true;
+    const board = req.board!;
+    console.log(`⏪ ${req.user!.userId} ${dryRun ? 'previews' : 'runs'} a rollback on board ${board.id}:`, criteria);
+
+    const result = await rollbackPlacements(board, criteria, { dryRun, revertedBy: req.user!.userId });
+
+    res.json({
+      boardId: board.id,
+      dryRun,
+      events: result.events,
+      pixels: result.changes.length,
+      preview: result.changes.slice(0, ROLLBACK_PREVIEW_LIMIT),
+    });
+
+  } catch (error) {
+    console.error('❌ Error rolling back placements:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to roll back placements',
+      statusCode: 500,
+    });
+  }
+};
+
+export const setRole = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const { role } = req.body ?? {};
+
+    if (!isValidRole(role)) {
+      sendBadRequest(res, 'role must be one of user, moderator or admin');
+      return;
+    }
+
+    // Keeps at least one admin around
+    if (userId === req.user!.userId) {
+      sendBadRequest(res, 'Admins cannot change their own role');
+      return;
+    }
+
+    const user = await setUserRole(userId, role);
+    if (!user) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `User ${userId} not found`,
+        statusCode: 404,
+      });
+      return;
+    }
+
+    res.json({
+      userId: user.userId,
+      role: user.role,
+    });
+
+  } catch (error) {
+    console.error('❌ Error changing user role:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to change user role',
+      statusCode: 500,
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,246 @@
+import { Request, Response } from 'express';
+import { BoardInfo, BoardVisibility } from '@libs/common-types';
+import { MAX_BOARD_SIZE, isValidBoardId, isValidBoardSize } from '@libs/utils';
+import {
+  BoardFields,
+  findBoard,
+  listPublicBoards,
+  listAllBoards,
+  createStoredBoard,
+  updateStoredBoard,
+  hasPixelsOutside,
+} from '../../services/board.service';
+import { refreshPixelRepository } from '../../services/pixelRepository';
+import { getWebSocketService } from '../../ws/WebSocketService';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_PALETTE_SIZE = 256;
+const BOARD_VISIBILITIES: BoardVisibility[] = ['public', 'unlisted'];
+
+const sendBadRequest = (res: Response, message: string): void => {
+  res.status(400).json({
+    error: 'Bad Request',
+    message,
+    statusCode: 400,
+  });
+};
+
+/**
+ * Validate the board fields of a request body; sends a 400 response and returns null when invalid.
+ * Name, width and height are only required when creating a board.
+ */
+const parseBoardFields = (req: Request, res: Response, partial: boolean): Partial<BoardFields> | null => {
+  const { name, width, height, palette, visibility } = req.body ?? {};
+  const fields: Partial<BoardFields> = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || name.trim() === '' || name.length > MAX_NAME_LENGTH) {
+      sendBadRequest(res, `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters`);
+      return null;
+    }
+    fields.name = name.trim();
+  }
+
+  if (width !== undefined || height !== undefined || !partial) {
+    // A resize may change one edge; the other keeps its current size
+    const newWidth = width ?? req.board?.width;
+    const newHeight = height ?? req.board?.height;
+    if (!isValidBoardSize(newWidth, newHeight)) {
+      sendBadRequest(res, `width and height must be integers between 1 and ${MAX_BOARD_SIZE}`);
+      return null;
+    }
+    fields.width = newWidth;
+    fields.height = newHeight;
+  }
+
+  if (palette !== undefined) {
+    if (
+      !Array.isArray(palette) ||
+      palette.length > MAX_PALETTE_SIZE ||
+      !palette.every((color) => typeof color === 'string' && /^#[0-9A-F]{6}$/i.test(color))
+    ) {
+      sendBadRequest(res, `palette must be an array of at most ${MAX_PALETTE_SIZE} #RRGGBB colors (empty allows any color)`);
+      return null;
+    }
+    fields.palette = [...new Set(palette.map((color: string) => color.toUpperCase()))];
+  }
+
+  if (visibility !== undefined) {
+    if (!BOARD_VISIBILITIES.includes(visibility)) {
+      sendBadRequest(res, 'visibility must be public or unlisted');
+      return null;
+    }
+    fields.visibility = visibility;
+  }
+
+  return fields;
+};
+
+/**
+ * Make the running services and connections use a changed board definition
+ */
+const applyBoardChange = (board: BoardInfo): void => {
+  refreshPixelRepository(board);
+  getWebSocketService()?.refreshBoard(board);
+};
+
+export const getBoards = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const boards = await listPublicBoards();
+
+    res.json({
+      boards,
+    });
+
+  } catch (error) {
+    console.error('❌ Error listing boards:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to list boards',
+      statusCode: 500,
+    });
+  }
+};
+
+export const getBoard = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const board = await findBoard(req.params.boardId);
+
+    if (!board) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Board ${req.params.boardId} not found`,
+        statusCode: 404,
+      });
+      return;
+    }
+
+    res.json({
+      board,
+    });
+
+  } catch (error) {
+    console.error('❌ Error fetching board:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch board',
+      statusCode: 500,
+    });
+  }
+};
+
+export const getPalette = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const board = req.board!;
+
+    res.json({
+      boardId: board.id,
+      colors: board.palette,
+      locked: board.palette.length > 0,
+    });
+
+  } catch (error) {
+    console.error('❌ Error fetching palette:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch palette',
+      statusCode: 500,
+    });
+  }
+};
+
+export const getAllBoards = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const boards = await listAllBoards();
+
+    res.json({
+      boards,
+    });
+
+  } catch (error) {
+    console.error('❌ Error listing all boards:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to list boards',
+      statusCode: 500,
+    });
+  }
+};
+
+export const createBoard = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.body ?? {};
+    if (!isValidBoardId(id)) {
+      sendBadRequest(res, 'id must be 1-32 characters of a-z, 0-9 and dashes, not starting with a dash');
+      return;
+    }
+    const fields = parseBoardFields(req, res, false);
+    if (!fields) return;
+
+    const board = await createStoredBoard(id, {
+      name: fields.name!,
+      width: fields.width!,
+      height: fields.height!,
+      palette: fields.palette ?? [],
+      visibility: fields.visibility ?? 'public',
+    });
+    if (!board) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: `Board ${id} already exists`,
+        statusCode: 409,
+      });
+      return;
+    }
+
+    res.status(201).json({ board });
+
+  } catch (error) {
+    console.error('❌ Error creating board:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create board',
+      statusCode: 500,
+    });
+  }
+};
+
+export const updateBoard = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const current = req.board!;
+    const fields = parseBoardFields(req, res, true);
+    if (!fields) return;
+
+    // Shrinking must not cut off placed pixels; roll them back first
+    const { width = current.width, height = current.height } = fields;
+    if ((width < current.width || height < current.height) && await hasPixelsOutside(current.id, width, height)) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: `Board ${current.id} has pixels outside ${width}x${height}`,
+        statusCode: 409,
+      });
+      return;
+    }
+
+    const board = await updateStoredBoard(current.id, fields);
+    if (!board) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Board ${current.id} not found`,
+        statusCode: 404,
+      });
+      return;
+    }
+
+    applyBoardChange(board);
+    res.json({ board });
+
+  } catch (error) {
+    console.error('❌ Error updating board:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update board',
+      statusCode: 500,
+    });
+  }
+};
\ No newline at end of file
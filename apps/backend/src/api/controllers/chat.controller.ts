@@ -0,0 +1,140 @@
+import { Request, Response } from 'express';
+import {
+  getChatHistory as loadChatHistory,
+  deleteChatMessage as removeChatMessage,
+  setSlowMode as applySlowMode,
+  MAX_SLOW_MODE_MS,
+} from '../../services/chat.service';
+import { PageCursor, decodePageCursor } from '../../services/pageCursor';
+
+const DEFAULT_CHAT_LIMIT = 50;
+const MAX_CHAT_LIMIT = 200;
+
+const sendBadRequest = (res: Response, message: string): void => {
+  res.status(400).json({
+    error: 'Bad Request',
+    message,
+    statusCode: 400,
+  });
+};
+
+/**
+ * Parse a timestamp given either as ms since epoch or as an ISO 8601 string
+ */
+const parseTimestamp = (value: unknown): Date | null => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+
+  const date = /^\d+$/.test(value) ? new Date(parseInt(value, 10)) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const getChatHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const board = req.board!;
+
+    let limit = DEFAULT_CHAT_LIMIT;
+    if (req.query.limit !== undefined) {
+      limit = parseInt(req.query.limit as string, 10);
+      if (isNaN(limit) || limit < 1) {
+        sendBadRequest(res, 'limit must be a positive integer');
+        return;
+      }
+      limit = Math.min(limit, MAX_CHAT_LIMIT);
+    }
+
+    let before: Date | undefined;
+    if (req.query.before !== undefined) {
+      const parsed = parseTimestamp(req.query.before);
+      if (!parsed) {
+        sendBadRequest(res, 'before must be an ISO 8601 date or a timestamp in milliseconds');
+        return;
+      }
+      before = parsed;
+    }
+
+    let cursor: PageCursor | undefined;
+    if (req.query.cursor !== undefined) {
+      const decoded = decodePageCursor(String(req.query.cursor));
+      if (!decoded) {
+        sendBadRequest(res, 'cursor is invalid');
+        return;
+      }
+      cursor = decoded;
+    }
+
+    const page = await loadChatHistory(board.id, limit, before, cursor);
+
+    console.log(`💬 Retrieved ${page.messages.length} chat messages of board ${board.id}`);
+
+    res.json({
+      boardId: board.id,
+      messages: page.messages,
+      nextCursor: page.nextCursor,
+    });
+
+  } catch (error) {
+    console.error('❌ Error fetching chat history:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch chat history',
+      statusCode: 500,
+    });
+  }
+};
+
+export const deleteChatMessage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { messageId } = req.params;
+
+    const message = await removeChatMessage(messageId, req.user!.userId);
+    if (!message) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Chat message ${messageId} not found`,
+        statusCode: 404,
+      });
+      return;
+    }
+
+    console.log(`🗑️ ${req.user!.userId} deleted chat message ${messageId} of ${message.userId} on board ${message.boardId}`);
+    res.status(204).send();
+
+  } catch (error) {
+    console.error('❌ Error deleting chat message:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete chat message',
+      statusCode: 500,
+    });
+  }
+};
+
+export const setSlowMode = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const board = req.board!;
+    const { intervalMs } = req.body ?? {};
+
+    if (!Number.isInteger(intervalMs) || intervalMs < 0 || intervalMs > MAX_SLOW_MODE_MS) {
+      sendBadRequest(res, `intervalMs must be an integer between 0 and ${MAX_SLOW_MODE_MS}`);
+      return;
+    }
+
+    applySlowMode(board.id, intervalMs);
+    console.log(`🐢 ${req.user!.userId} set slow mode of board ${board.id} to ${intervalMs}ms`);
+
+    res.json({
+      boardId: board.id,
+      intervalMs,
+    });
+
+  } catch (error) {
+    console.error('❌ Error setting slow mode:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to set slow mode',
+      statusCode: 500,
+    });
+  }
+};
\ No newline at end of file
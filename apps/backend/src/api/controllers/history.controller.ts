@@ -0,0 +1,388 @@
+import { Request, Response } from 'express';
+import { once } from 'events';
+import { Pixel, ACTIVE_PIXEL_FILTER } from '../../models/pixel.model';
+import { isValidCanvasCoordinate, encodePixelEvents } from '@libs/utils';
+import { PixelEventData } from '@libs/common-types';
+import { encodePageCursor, decodePageCursor } from '../../services/pageCursor';
+
+const DEFAULT_HISTORY_LIMIT = 100;
+const MAX_HISTORY_LIMIT = 1000;
+const DEFAULT_EVENTS_LIMIT = 1000;
+const MAX_EVENTS_LIMIT = 10000;
+const REPLAY_CHUNK_EVENTS = 4096; // Events encoded per streamed chunk
+
+/**
+ * Parse a timestamp given either as ms since epoch or as an ISO 8601 string
+ */
+const parseTimestamp = (value: unknown): Date | null => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+
+  const date = /^\d+$/.test(value) ? new Date(parseInt(value, 10)) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Parse an optional page size, clamped to [1, max]
+ */
+const parseLimit = (value: unknown, defaultLimit: number, maxLimit: number): number | null => {
+  if (value === undefined) {
+    return defaultLimit;
+  }
+
+  const limit = parseInt(value as string, 10);
+  if (isNaN(limit) || limit < 1) {
+    return null;
+  }
+  return Math.min(limit, maxLimit);
+};
+
+/**
+ * Event stream cursors encode the (timestamp, _id) of the last event of a page
+ */
+const encodeCursor = (event: { timestamp: Date; _id: any }): string => encodePageCursor(event.timestamp, event._id);
+
+const toEventData = (event: any): PixelEventData => ({
+  x: event.x,
+  y: event.y,
+  color: event.color,
+  userId: event.userId,
+  timestamp: new Date(event.timestamp).toISOString(),
+});
+
+const sendBadRequest = (res: Response, message: string): void => {
+  res.status(400).json({
+    error: 'Bad Request',
+    message,
+    statusCode: 400,
+  });
+};
+
+/**
+ * Validate the `at` query parameter shared by the snapshot endpoints
+ */
+const parseSnapshotTime = (req: Request, res: Response): Date | null => {
+  const at = parseTimestamp(req.query.at);
+  if (!at) {
+    sendBadRequest(res, 'at query parameter must be an ISO 8601 date or a timestamp in milliseconds');
+  }
+  return at;
+};
+
+/**
+ * Validate the query parameters shared by the event stream endpoints
+ */
+const parseEventsQuery = (req: Request, res: Response): {
+  from: Date;
+  to: Date;
+  limit: number;
+  after?: { timestamp: Date; id: string };
+} | null => {
+  const from = parseTimestamp(req.query.from);
+  const to = parseTimestamp(req.query.to);
+  if (!from || !to) {
+    sendBadRequest(res, 'from and to query parameters must be ISO 8601 dates or timestamps in milliseconds');
+    return null;
+  }
+
+  if (from > to) {
+    sendBadRequest(res, 'from must be less than or equal to to');
+    return null;
+  }
+
+  const limit = parseLimit(req.query.limit, DEFAULT_EVENTS_LIMIT, MAX_EVENTS_LIMIT);
+  if (limit === null) {
+    sendBadRequest(res, 'limit must be a positive integer');
+    return null;
+  }
+
+  let after: { timestamp: Date; id: string } | undefined;
+  if (req.query.cursor !== undefined) {
+    const decoded = decodePageCursor(String(req.query.cursor));
+    if (!decoded) {
+      sendBadRequest(res, 'cursor is invalid');
+      return null;
+    }
+    after = decoded;
+  }
+
+  return { from, to, limit, after };
+};
+
+export const getCanvasSnapshot = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const at = parseSnapshotTime(req, res);
+    if (!at) return;
+
+    const board = req.board!;
+    console.log(`🕰️ Fetching canvas state of board ${board.id} as of ${at.toISOString()}...`);
+
+    const pixels = await (Pixel as any).getCanvasStateAt(board.id, at);
+
+    console.log(`✅ Retrieved ${pixels.length} pixels for snapshot`);
+
+    res.json({
+      at: at.toISOString(),
+      pixels: pixels.map((pixel: any) => ({
+        x: pixel.x,
+        y: pixel.y,
+        color: pixel.color,
+      })),
+    });
+
+  } catch (error) {
+    console.error('❌ Error fetching canvas snapshot:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch canvas snapshot',
+      statusCode: 500,
+    });
+  }
+};
+
+export const getCanvasSnapshotBinary = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const at = parseSnapshotTime(req, res);
+    if (!at) return;
+
+    const board = req.board!;
+    console.log(`🕰️ Fetching canvas state of board ${board.id} as of ${at.toISOString()} in binary format...`);
+
+    const pixels = await (Pixel as any).getCanvasStateAt(board.id, at);
+    const buffer = Buffer.from(encodePixelEvents(pixels.map((pixel: any) => ({
+      x: pixel.x,
+      y: pixel.y,
+      color: pixel.color,
+      timestamp: new Date(pixel.timestamp).getTime(),
+    }))));
+
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('X-Pixel-Count', pixels.length.toString());
+    res.setHeader('X-Snapshot-At', at.toISOString());
+    res.setHeader('Content-Length', buffer.length.toString());
+
+    res.send(buffer);
+
+  } catch (error) {
+    console.error('❌ Error fetching canvas snapshot (binary):', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch canvas snapshot in binary format',
+      statusCode: 500,
+    });
+  }
+};
+
+export const getPixelHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const board = req.board!;
+    const x = parseInt(req.query.x as string, 10);
+    const y = parseInt(req.query.y as string, 10);
+
+    if (isNaN(x) || isNaN(y) || !isValidCanvasCoordinate(x, y, board.width, board.height)) {
+      sendBadRequest(res, `x and y query parameters must be coordinates within board bounds (0-${board.width - 1}, 0-${board.height - 1})`);
+      return;
+    }
+
+    const limit = parseLimit(req.query.limit, DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT);
+    if (limit === null) {
+      sendBadRequest(res, 'limit must be a positive integer');
+      return;
+    }
+
+    // A cursor from nextBefore, or a point in time
+    let before: Date | { timestamp: Date; id: string } | undefined;
+    if (req.query.before !== undefined) {
+      const parsed = decodePageCursor(String(req.query.before)) ?? parseTimestamp(req.query.before);
+      if (!parsed) {
+        sendBadRequest(res, 'before must be a nextBefore cursor, an ISO 8601 date or a timestamp in milliseconds');
+        return;
+      }
+      before = parsed;
+    }
+
+    console.log(`🕰️ Fetching placement history of (${x},${y})...`);
+
+    const events = await (Pixel as any).getCoordinateHistory(board.id, x, y, limit, before);
+
+    console.log(`✅ Retrieved ${events.length} history events for (${x},${y})`);
+
+    res.json({
+      x,
+      y,
+      events: events.map(toEventData),
+      nextBefore: events.length === limit ? encodeCursor(events[events.length - 1]) : null,
+    });
+
+  } catch (error) {
+    console.error('❌ Error fetching pixel history:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch pixel history',
+      statusCode: 500,
+    });
+  }
+};
+
+export const getPixelEvents = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query = parseEventsQuery(req, res);
+    if (!query) return;
+
+    const board = req.board!;
+    const { from, to, limit, after } = query;
+    console.log(`🕰️ Fetching pixel events of board ${board.id} between ${from.toISOString()} and ${to.toISOString()}...`);
+
+    const events = await (Pixel as any).getEventsBetween(board.id, from, to, limit, after);
+
+    console.log(`✅ Retrieved ${events.length} pixel events`);
+
+    res.json({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      events: events.map(toEventData),
+      nextCursor: events.length === limit ? encodeCursor(events[events.length - 1]) : null,
+    });
+
+  } catch (error) {
+    console.error('❌ Error fetching pixel events:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch pixel events',
+      statusCode: 500,
+    });
+  }
+};
+
+export const getPixelEventsBinary = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query = parseEventsQuery(req, res);
+    if (!query) return;
+
+    const board = req.board!;
+    const { from, to, limit, after } = query;
+    console.log(`🕰️ Fetching pixel events of board ${board.id} between ${from.toISOString()} and ${to.toISOString()} in binary format...`);
+
+    const events = await (Pixel as any).getEventsBetween(board.id, from, to, limit, after);
+    const buffer = Buffer.from(encodePixelEvents(events.map((event: any) => ({
+      x: event.x,
+      y: event.y,
+      color: event.color,
+      timestamp: new Date(event.timestamp).getTime(),
+    }))));
+
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('X-Pixel-Count', events.length.toString());
+    if (events.length === limit) {
+      res.setHeader('X-Next-Cursor', encodeCursor(events[events.length - 1]));
+    }
+    res.setHeader('Content-Length', buffer.length.toString());
+
+    res.send(buffer);
+
+  } catch (error) {
+    console.error('❌ Error fetching pixel events (binary):', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch pixel events in binary format',
+      statusCode: 500,
+    });
+  }
+};
+
+export const streamReplay = async (req: Request, res: Response): Promise<void> => {
+  // Optional time window; defaults to the whole log
+  const from = req.query.from !== undefined ? parseTimestamp(req.query.from) : new Date(0);
+  const to = req.query.to !== undefined ? parseTimestamp(req.query.to) : new Date();
+  if (!from || !to) {
+    sendBadRequest(res, 'from and to query parameters must be ISO 8601 dates or timestamps in milliseconds');
+    return;
+  }
+
+  const board = req.board!;
+  const filter = { boardId: board.id, timestamp: { $gte: from, $lte: to }, ...ACTIVE_PIXEL_FILTER };
+  let cursor: any = null;
+  let aborted = false;
+  const abort = new AbortController();
+  // The response closes when the client goes away, also while a write is waiting to drain
+  res.on('close', () => {
+    if (res.writableFinished) return;
+    aborted = true;
+    abort.abort();
+    cursor?.close().catch(() => undefined);
+  });
+
+  try {
+    const total = await Pixel.countDocuments(filter);
+    console.log(`🎬 Streaming ${total} pixel events of board ${board.id} for replay (${from.toISOString()} - ${to.toISOString()})`);
+
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('X-Pixel-Count', total.toString());
+    res.setHeader('Cache-Control', 'no-store');
+
+    cursor = Pixel.find(filter)
+      .sort({ timestamp: 1, _id: 1 })
+      .select({ _id: 0, x: 1, y: 1, color: 1, timestamp: 1 })
+      .lean()
+      .cursor({ batchSize: REPLAY_CHUNK_EVENTS });
+
+    let chunk: Array<{ x: number; y: number; color: string; timestamp: number }> = [];
+    let streamed = 0;
+
+    const writeChunk = async (): Promise<void> => {
+      const buffer = Buffer.from(encodePixelEvents(chunk));
+      streamed += chunk.length;
+      chunk = [];
+      // Respect backpressure from slow clients
+      if (!res.write(buffer)) {
+        try {
+          await once(res, 'drain', { signal: abort.signal });
+        } catch (error) {
+          if (!aborted) throw error;
+        }
+      }
+    };
+
+    for await (const event of cursor) {
+      if (aborted) break;
+
+      chunk.push({
+        x: event.x,
+        y: event.y,
+        color: event.color,
+        timestamp: new Date(event.timestamp).getTime(),
+      });
+
+      if (chunk.length >= REPLAY_CHUNK_EVENTS) {
+        await writeChunk();
+      }
+    }
+
+    if (aborted) {
+      console.log(`🎬 Replay stream aborted by client after ${streamed} events`);
+      return;
+    }
+
+    if (chunk.length > 0) {
+      await writeChunk();
+    }
+
+    res.end();
+    console.log(`✅ Replay stream complete: ${streamed} events`);
+
+  } catch (error) {
+    console.error('❌ Error streaming replay:', error);
+
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to stream replay',
+        statusCode: 500,
+      });
+    } else {
+      // Body is already partially sent; cut the stream so the client sees a failure
+      res.destroy(error as Error);
+    }
+  }
+};
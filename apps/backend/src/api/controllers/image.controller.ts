@@ -0,0 +1,136 @@
+import { Request, Response } from 'express';
+import { Pixel } from '../../models/pixel.model';
+import { getPixelRepository } from '../../services/pixelRepository';
+import { getImageSize, renderPixelsToPng, ImageRegion } from '../../services/imageRenderer';
+
+const MAX_SCALE = 32;
+const MAX_IMAGE_PIXELS = 5000 * 5000; // The full main board at scale 1
+
+const sendBadRequest = (res: Response, message: string): void => {
+  res.status(400).json({
+    error: 'Bad Request',
+    message,
+    statusCode: 400,
+  });
+};
+
+/**
+ * Parse an optional integer query parameter
+ */
+const parseOptionalInt = (value: unknown, defaultValue: number): number | null => {
+  if (value === undefined) {
+    return defaultValue;
+  }
+  return /^\d+$/.test(String(value)) ? parseInt(String(value), 10) : null;
+};
+
+/**
+ * Validate the region, scale, time and background query parameters
+ */
+const parseImageQuery = (req: Request, res: Response): {
+  region: ImageRegion;
+  scale: number;
+  at: Date | null;
+  background: string | null;
+} | null => {
+  const minX = parseOptionalInt(req.query.minX, 0);
+  const minY = parseOptionalInt(req.query.minY, 0);
+  const board = req.board!;
+  const maxX = parseOptionalInt(req.query.maxX, board.width - 1);
+  const maxY = parseOptionalInt(req.query.maxY, board.height - 1);
+
+  if (minX === null || minY === null || maxX === null || maxY === null) {
+    sendBadRequest(res, 'Coordinates must be valid integers');
+    return null;
+  }
+
+  if (maxX >= board.width || maxY >= board.height) {
+    sendBadRequest(res, `Coordinates must be within board bounds (0-${board.width - 1}, 0-${board.height - 1})`);
+    return null;
+  }
+
+  if (minX > maxX || minY > maxY) {
+    sendBadRequest(res, 'Min coordinates must be less than or equal to max coordinates');
+    return null;
+  }
+
+  const scale = parseOptionalInt(req.query.scale, 1);
+  if (scale === null || scale < 1 || scale > MAX_SCALE) {
+    sendBadRequest(res, `scale must be an integer between 1 and ${MAX_SCALE}`);
+    return null;
+  }
+
+  const region = { minX, minY, maxX, maxY };
+  const { width, height } = getImageSize(region, scale);
+  if (width * height > MAX_IMAGE_PIXELS) {
+    sendBadRequest(res, `Image would be ${width}x${height}; reduce the region or scale (max ${MAX_IMAGE_PIXELS} pixels)`);
+    return null;
+  }
+
+  let at: Date | null = null;
+  if (req.query.at !== undefined) {
+    const value = String(req.query.at);
+    at = /^\d+$/.test(value) ? new Date(parseInt(value, 10)) : new Date(value);
+    if (isNaN(at.getTime())) {
+      sendBadRequest(res, 'at must be an ISO 8601 date or a timestamp in milliseconds');
+      return null;
+    }
+  }
+
+  let background: string | null = null;
+  if (req.query.background !== undefined) {
+    const value = String(req.query.background);
+    background = value.startsWith('#') ? value : `#${value}`;
+    if (!/^#[0-9A-F]{6}$/i.test(background)) {
+      sendBadRequest(res, 'background must be a hex color (#RRGGBB)');
+      return null;
+    }
+  }
+
+  return { region, scale, at, background };
+};
+
+export const getCanvasImage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query = parseImageQuery(req, res);
+    if (!query) return;
+
+    const board = req.board!;
+    const { region, scale, at, background } = query;
+    const { minX, minY, maxX, maxY } = region;
+    console.log(`🖼️ Rendering image of board ${board.id} (${minX},${minY}) to (${maxX},${maxY}) at ${scale}x${at ? ` as of ${at.toISOString()}` : ''}...`);
+
+    let pixels: Array<{ x: number; y: number; color: string }>;
+    if (at) {
+      pixels = await (Pixel as any).getRegionStateAt(board.id, at, minX, minY, maxX, maxY);
+    } else {
+      // Prefer in-memory cache for current canvas state
+      const cached = getPixelRepository(board.id).getPixelsInRegion(minX, minY, maxX, maxY);
+      pixels = cached.length
+        ? cached
+        : await (Pixel as any).getPixelsInRegion(board.id, minX, minY, maxX, maxY);
+    }
+
+    const png = await renderPixelsToPng(pixels, { region, scale, background });
+
+    console.log(`✅ Rendered ${pixels.length} pixels into a ${png.length} byte PNG`);
+
+    res.setHeader('Content-Type', 'image/png');
+    res.setHeader('Content-Length', png.length.toString());
+    res.setHeader('Content-Disposition', 'inline; filename="canvas.png"');
+    // Historical states only change through moderation; the live canvas changes constantly
+    res.setHeader('Cache-Control', at ? 'public, max-age=86400' : 'public, max-age=60');
+    // Allow embedding the image on other sites
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+
+    res.send(png);
+
+  } catch (error) {
+    console.error('❌ Error rendering canvas image:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to render canvas image',
+      statusCode: 500,
+    });
+  }
+};
@@ -1,17 +1,46 @@
 import { Request, Response } from 'express';
 import { Pixel } from '../../models/pixel.model';
 import { getPixelRepository } from '../../services/pixelRepository';
+import { getChunkBounds, isValidChunkCoordinate, CHUNK_SIZE } from '@libs/utils';
+
+/**
+ * Encode pixels as 8-byte records: x (u16), y (u16), r, g, b, padding - little-endian
+ */
+const encodePixelsBinary = (pixels: Array<{ x: number; y: number; color: string }>): Buffer => {
+  const buffer = Buffer.allocUnsafe(pixels.length * 8);
+
+  pixels.forEach((pixel, index) => {
+    const offset = index * 8;
+
+    // Parse hex color to RGB
+    const color = pixel.color.replace('#', '');
+    const r = parseInt(color.substr(0, 2), 16);
+    const g = parseInt(color.substr(2, 2), 16);
+    const b = parseInt(color.substr(4, 2), 16);
+
+    // Write to buffer in little-endian format
+    buffer.writeUInt16LE(pixel.x, offset);
+    buffer.writeUInt16LE(pixel.y, offset + 2);
+    buffer.writeUInt8(r, offset + 4);
+    buffer.writeUInt8(g, offset + 5);
+    buffer.writeUInt8(b, offset + 6);
+    buffer.writeUInt8(0, offset + 7); // padding byte for 8-byte alignment
+  });
+
+  return buffer;
+};
 
 export const getPixels = async (req: Request, res: Response): Promise<void> => {
   try {
-    console.log('📊 Fetching current canvas state...');
+    const board = req.board!;
+    console.log(`📊 Fetching current canvas state of board ${board.id}...`);
     
     // Prefer in-memory cache for current canvas state
-    const repo = getPixelRepository();
+    const repo = getPixelRepository(board.id);
     const cached = repo.getCanvasState();
     const pixels = cached.length
       ? cached
-      : await (Pixel as any).getCurrentCanvasState();
+      : await (Pixel as any).getCurrentCanvasState(board.id);
     
     console.log(`✅ Retrieved ${pixels.length} pixels from canvas`);
     
@@ -38,36 +67,19 @@ export const getPixels = async (req: Request, res: Response): Promise<void> => {
 
 export const getPixelsBinary = async (req: Request, res: Response): Promise<void> => {
   try {
-    console.log('📊 Fetching current canvas state in binary format...');
+    const board = req.board!;
+    console.log(`📊 Fetching current canvas state of board ${board.id} in binary format...`);
     
-    const repo = getPixelRepository();
+    const repo = getPixelRepository(board.id);
     const cached = repo.getCanvasState();
     const pixels = cached.length
       ? cached
-      : await (Pixel as any).getCurrentCanvasState();
+      : await (Pixel as any).getCurrentCanvasState(board.id);
     
     console.log(`✅ Retrieved ${pixels.length} pixels from canvas (binary mode)`);
     
     // Create 8-byte aligned buffer
-    const buffer = Buffer.allocUnsafe(pixels.length * 8);
-    
-    pixels.forEach((pixel: any, index: number) => {
-      const offset = index * 8;
-      
-      // Parse hex color to RGB
-      const color = pixel.color.replace('#', '');
-      const r = parseInt(color.substr(0, 2), 16);
-      const g = parseInt(color.substr(2, 2), 16);
-      const b = parseInt(color.substr(4, 2), 16);
-      
-      // Write to buffer in little-endian format
-      buffer.writeUInt16LE(pixel.x, offset);
-      buffer.writeUInt16LE(pixel.y, offset + 2);
-      buffer.writeUInt8(r, offset + 4);
-      buffer.writeUInt8(g, offset + 5);
-      buffer.writeUInt8(b, offset + 6);
-      buffer.writeUInt8(0, offset + 7); // padding byte for 8-byte alignment
-    });
+    const buffer = encodePixelsBinary(pixels);
     
     // Set appropriate headers
     res.setHeader('Content-Type', 'application/octet-stream');
@@ -88,6 +100,7 @@ export const getPixelsBinary = async (req: Request, res: Response): Promise<void
 
 export const getPixelsInRegion = async (req: Request, res: Response): Promise<void> => {
   try {
+    const board = req.board!;
     const { minX, minY, maxX, maxY } = req.query;
     
     // Validate query parameters
@@ -115,10 +128,10 @@ export const getPixelsInRegion = async (req: Request, res: Response): Promise<vo
       return;
     }
     
-    if (minXNum < 0 || minYNum < 0 || maxXNum >= 5000 || maxYNum >= 5000) {
+    if (minXNum < 0 || minYNum < 0 || maxXNum >= board.width || maxYNum >= board.height) {
       res.status(400).json({
         error: 'Bad Request',
-        message: 'Coordinates must be within canvas bounds (0-4999)',
+        message: `Coordinates must be within board bounds (0-${board.width - 1}, 0-${board.height - 1})`,
         statusCode: 400,
       });
       return;
@@ -136,11 +149,11 @@ export const getPixelsInRegion = async (req: Request, res: Response): Promise<vo
     console.log(`📊 Fetching pixels in region: (${minXNum},${minYNum}) to (${maxXNum},${maxYNum})`);
     
     // Get pixels in the specified region (prefer cache)
-    const repo = getPixelRepository();
+    const repo = getPixelRepository(board.id);
     const cached = repo.getPixelsInRegion(minXNum, minYNum, maxXNum, maxYNum);
     const pixels = cached.length
       ? cached
-      : await (Pixel as any).getPixelsInRegion(minXNum, minYNum, maxXNum, maxYNum);
+      : await (Pixel as any).getPixelsInRegion(board.id, minXNum, minYNum, maxXNum, maxYNum);
     
     console.log(`✅ Retrieved ${pixels.length} pixels from region`);
     
@@ -164,3 +177,47 @@ export const getPixelsInRegion = async (req: Request, res: Response): Promise<vo
     });
   }
 };
+
+export const getPixelChunk = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const board = req.board!;
+    const cx = parseInt(req.params.cx, 10);
+    const cy = parseInt(req.params.cy, 10);
+
+    if (!/^\d+$/.test(req.params.cx) || !/^\d+$/.test(req.params.cy) || !isValidChunkCoordinate(cx, cy, board.width, board.height)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Chunk coordinates must be integers within the chunk grid',
+        statusCode: 400,
+      });
+      return;
+    }
+
+    // Prefer in-memory cache; fall back to the database only before the cache is loaded
+    const repo = getPixelRepository(board.id);
+    let pixels: Array<{ x: number; y: number; color: string }>;
+    if (repo.getStats().count > 0) {
+      pixels = repo.getChunk(cx, cy);
+    } else {
+      const { minX, minY, maxX, maxY } = getChunkBounds(cx, cy, board.width, board.height);
+      pixels = await (Pixel as any).getPixelsInRegion(board.id, minX, minY, maxX, maxY);
+    }
+
+    const buffer = encodePixelsBinary(pixels);
+
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('X-Pixel-Count', pixels.length.toString());
+    res.setHeader('X-Chunk-Size', CHUNK_SIZE.toString());
+    res.setHeader('Content-Length', buffer.length.toString());
+
+    res.send(buffer);
+
+  } catch (error) {
+    console.error('❌ Error fetching pixel chunk:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch pixel chunk',
+      statusCode: 500,
+    });
+  }
+};
@@ -0,0 +1,175 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { validateRegionShape } from '@libs/utils';
+import { isValidRole } from '../../services/role.service';
+import {
+  ProtectedRegionFields,
+  listProtectedRegions,
+  createProtectedRegion,
+  updateProtectedRegion,
+  deleteProtectedRegion,
+  toProtectedRegionInfos,
+} from '../../services/protectedRegion.service';
+
+const MAX_NAME_LENGTH = 100;
+
+const sendBadRequest = (res: Response, message: string): void => {
+  res.status(400).json({
+    error: 'Bad Request',
+    message,
+    statusCode: 400,
+  });
+};
+
+const sendRegionNotFound = (res: Response, regionId: string): void => {
+  res.status(404).json({
+    error: 'Not Found',
+    message: `Protected region ${regionId} not found`,
+    statusCode: 404,
+  });
+};
+
+/**
+ * Validate the region fields of a request body; sends a 400 response and returns null when invalid.
+ * Name and shape are only required when creating a region.
+ */
+const parseRegionFields = (req: Request, res: Response, partial: boolean): Partial<ProtectedRegionFields> | null => {
+  const { name, shape, allowedUserIds, allowedRoles } = req.body ?? {};
+  const board = req.board!;
+  const fields: Partial<ProtectedRegionFields> = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || name.trim() === '' || name.length > MAX_NAME_LENGTH) {
+      sendBadRequest(res, `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters`);
+      return null;
+    }
+    fields.name = name.trim();
+  }
+
+  if (shape !== undefined || !partial) {
+    const shapeError = validateRegionShape(shape, board.width, board.height);
+    if (shapeError) {
+      sendBadRequest(res, shapeError);
+      return null;
+    }
+    fields.shape = shape.type === 'rect'
+      ? { type: 'rect', minX: shape.minX, minY: shape.minY, maxX: shape.maxX, maxY: shape.maxY }
+      : { type: 'polygon', points: shape.points.map(({ x, y }: { x: number; y: number }) => ({ x, y })) };
+  }
+
+  if (allowedUserIds !== undefined) {
+    if (!Array.isArray(allowedUserIds) || !allowedUserIds.every((id) => typeof id === 'string' && id.trim() !== '')) {
+      sendBadRequest(res, 'allowedUserIds must be an array of user IDs');
+      return null;
+    }
+    fields.allowedUserIds = [...new Set<string>(allowedUserIds)];
+  }
+
+  if (allowedRoles !== undefined) {
+    if (!Array.isArray(allowedRoles) || !allowedRoles.every(isValidRole)) {
+      sendBadRequest(res, 'allowedRoles must be an array of user, moderator or admin');
+      return null;
+    }
+    fields.allowedRoles = [...new Set(allowedRoles)];
+  }
+
+  return fields;
+};
+
+export const getRegions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const board = req.board!;
+    const regions = await listProtectedRegions(board.id);
+
+    res.json({
+      boardId: board.id,
+      regions: await toProtectedRegionInfos(regions),
+    });
+
+  } catch (error) {
+    console.error('❌ Error fetching protected regions:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch protected regions',
+      statusCode: 500,
+    });
+  }
+};
+
+export const createRegion = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const fields = parseRegionFields(req, res, false);
+    if (!fields) return;
+
+    const region = await createProtectedRegion(
+      req.board!.id,
+      {
+        name: fields.name!,
+        shape: fields.shape!,
+        allowedUserIds: fields.allowedUserIds ?? [],
+        allowedRoles: fields.allowedRoles ?? [],
+      },
+      req.user!.userId
+    );
+
+    const [info] = await toProtectedRegionInfos([region]);
+    res.status(201).json({ region: info });
+
+  } catch (error) {
+    console.error('❌ Error creating protected region:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create protected region',
+      statusCode: 500,
+    });
+  }
+};
+
+export const updateRegion = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { regionId } = req.params;
+    const fields = parseRegionFields(req, res, true);
+    if (!fields) return;
+
+    const region = mongoose.isValidObjectId(regionId)
+      ? await updateProtectedRegion(req.board!.id, regionId, fields)
+      : null;
+    if (!region) {
+      sendRegionNotFound(res, regionId);
+      return;
+    }
+
+    const [info] = await toProtectedRegionInfos([region]);
+    res.json({ region: info });
+
+  } catch (error) {
+    console.error('❌ Error updating protected region:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update protected region',
+      statusCode: 500,
+    });
+  }
+};
+
+export const deleteRegion = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { regionId } = req.params;
+
+    const deleted = mongoose.isValidObjectId(regionId) && await deleteProtectedRegion(req.board!.id, regionId);
+    if (!deleted) {
+      sendRegionNotFound(res, regionId);
+      return;
+    }
+
+    res.status(204).send();
+
+  } catch (error) {
+    console.error('❌ Error deleting protected region:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to delete protected region',
+      statusCode: 500,
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,140 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { User } from '../../models/user.model';
+import { hasRole } from '../../services/role.service';
+import {
+  createSanction as issueSanction,
+  liftSanction as revokeSanction,
+  listActiveSanctions,
+  isValidSanctionType,
+  toSanctionInfo,
+} from '../../services/sanction.service';
+
+const MAX_REASON_LENGTH = 500;
+
+const sendBadRequest = (res: Response, message: string): void => {
+  res.status(400).json({
+    error: 'Bad Request',
+    message,
+    statusCode: 400,
+  });
+};
+
+export const getSanctions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.query;
+    if (userId !== undefined && (typeof userId !== 'string' || userId.trim() === '')) {
+      sendBadRequest(res, 'userId must be a non-empty string');
+      return;
+    }
+
+    const sanctions = await listActiveSanctions(userId as string | undefined);
+    res.json({
+      sanctions: sanctions.map(toSanctionInfo),
+    });
+
+  } catch (error) {
+    console.error('❌ Error fetching sanctions:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to fetch sanctions',
+      statusCode: 500,
+    });
+  }
+};
+
+export const createSanction = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId, type, reason, durationMs } = req.body ?? {};
+    const moderator = req.user!;
+
+    if (typeof userId !== 'string' || userId.trim() === '') {
+      sendBadRequest(res, 'userId must be a non-empty string');
+      return;
+    }
+    if (!isValidSanctionType(type)) {
+      sendBadRequest(res, 'type must be ban or mute');
+      return;
+    }
+    if (typeof reason !== 'string' || reason.trim() === '' || reason.length > MAX_REASON_LENGTH) {
+      sendBadRequest(res, `reason must be a non-empty string of at most ${MAX_REASON_LENGTH} characters`);
+      return;
+    }
+    if (durationMs !== undefined && (!Number.isInteger(durationMs) || durationMs <= 0)) {
+      sendBadRequest(res, 'durationMs must be a positive integer (omit it for a permanent sanction)');
+      return;
+    }
+
+    if (userId === moderator.userId) {
+      sendBadRequest(res, 'Moderators cannot sanction themselves');
+      return;
+    }
+
+    const user = await User.findOne({ userId });
+    if (!user) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `User ${userId} not found`,
+        statusCode: 404,
+      });
+      return;
+    }
+
+    // Moderators cannot sanction each other; only admins can sanction moderators
+    if (hasRole(user.role, moderator.role)) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: `Cannot sanction a user with the ${user.role} role`,
+        statusCode: 403,
+      });
+      return;
+    }
+
+    const sanction = await issueSanction(userId, type, reason.trim(), {
+      durationMs,
+      createdBy: moderator.userId,
+    });
+
+    res.status(201).json({
+      sanction: toSanctionInfo(sanction),
+    });
+
+  } catch (error) {
+    console.error('❌ Error creating sanction:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to create sanction',
+      statusCode: 500,
+    });
+  }
+};
+
+export const liftSanction = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { sanctionId } = req.params;
+
+    const sanction = mongoose.isValidObjectId(sanctionId)
+      ? await revokeSanction(sanctionId, req.user!.userId)
+      : null;
+    if (!sanction) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `No active sanction ${sanctionId}`,
+        statusCode: 404,
+      });
+      return;
+    }
+
+    res.json({
+      sanction: toSanctionInfo(sanction),
+    });
+
+  } catch (error) {
+    console.error('❌ Error lifting sanction:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to lift sanction',
+      statusCode: 500,
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { Request, Response } from 'express';
+import { getTileService } from '../../services/tile.service';
+
+export const getTile = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { z, x, y } = req.params;
+
+    if (![z, x, y].every((value) => /^\d+$/.test(value))) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Tile coordinates must be non-negative integers',
+        statusCode: 400,
+      });
+      return;
+    }
+
+    const zoom = parseInt(z, 10);
+    const tileX = parseInt(x, 10);
+    const tileY = parseInt(y, 10);
+
+    const tileService = getTileService(req.board!.id);
+    if (!tileService.isValidTile(zoom, tileX, tileY)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Tile ${zoom}/${tileX}/${tileY} is outside the canvas`,
+        statusCode: 404,
+      });
+      return;
+    }
+
+    const tile = await tileService.getTile(zoom, tileX, tileY);
+
+    res.setHeader('Content-Type', 'image/png');
+    res.setHeader('ETag', tile.etag);
+    if (tile.lastModified) {
+      res.setHeader('Last-Modified', tile.lastModified.toUTCString());
+    }
+    // Tiles change whenever a pixel in them does, so clients must revalidate
+    res.setHeader('Cache-Control', 'public, no-cache');
+    // Allow third-party map viewers to load tiles
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+
+    // Compares If-None-Match / If-Modified-Since against the headers set above
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+
+    res.setHeader('Content-Length', tile.png.length.toString());
+    res.send(tile.png);
+
+  } catch (error) {
+    console.error('❌ Error rendering tile:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to render tile',
+      statusCode: 500,
+    });
+  }
+};
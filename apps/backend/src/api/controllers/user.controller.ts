@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { User } from '../../models/user.model';
 import { generateRandomNickname, generateRandomColor, generateUserId } from '@libs/utils';
+import { SESSION_COOKIE_NAME } from '../../services/session.service';
+import { getActiveSanctions, toSanctionInfo } from '../../services/sanction.service';
 
 export const createUser = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -21,7 +23,7 @@ export const createUser = async (req: Request, res: Response): Promise<void> =>
     await user.save();
     
     // Set session cookie
-    res.cookie('userId', userId, {
+    res.cookie(SESSION_COOKIE_NAME, userId, {
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: 'lax',
@@ -60,7 +62,7 @@ export const createUser = async (req: Request, res: Response): Promise<void> =>
 
 export const getCurrentUser = async (req: Request, res: Response): Promise<void> => {
   try {
-    const userId = req.cookies.userId;
+    const userId = req.cookies[SESSION_COOKIE_NAME];
     
     if (!userId) {
       res.status(401).json({
@@ -82,10 +84,15 @@ export const getCurrentUser = async (req: Request, res: Response): Promise<void>
       return;
     }
     
+    const { ban, mute } = await getActiveSanctions(user.userId);
+
     res.json({
       userId: user.userId,
       nickname: user.nickname,
       color: user.color,
+      role: user.role,
+      ban: ban ? toSanctionInfo(ban) : null,
+      mute: mute ? toSanctionInfo(mute) : null,
     });
     
   } catch (error) {
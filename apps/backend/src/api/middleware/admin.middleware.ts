@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from 'express';
+import { UserRole } from '@libs/common-types';
+import { IUser } from '../../models/user.model';
+import { SESSION_COOKIE_NAME, findSessionUser } from '../../services/session.service';
+import { hasRole } from '../../services/role.service';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: IUser; // Set by requireRole
+    }
+  }
+}
+
+/**
+ * Only let session users with at least the given role through:
+ * 401 without a valid session, 403 when the role is insufficient
+ */
+export const requireRole = (requiredRole: UserRole) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      // Nested guards reuse the user resolved by the outer one
+      const userId = req.cookies?.[SESSION_COOKIE_NAME];
+      const user = req.user ?? (userId ? await findSessionUser(userId) : null);
+
+      if (!user) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'A valid user session is required',
+          statusCode: 401,
+        });
+        return;
+      }
+
+      if (!hasRole(user.role, requiredRole)) {
+        console.warn(`🚫 User ${user.userId} (${user.role}) denied access to ${req.method} ${req.originalUrl}`);
+        res.status(403).json({
+          error: 'Forbidden',
+          message: `The ${requiredRole} role is required`,
+          statusCode: 403,
+        });
+        return;
+      }
+
+      req.user = user;
+      next();
+
+    } catch (error) {
+      console.error('❌ Error checking user role:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to check user role',
+        statusCode: 500,
+      });
+    }
+  };
+};
\ No newline at end of file
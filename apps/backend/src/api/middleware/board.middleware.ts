@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from 'express';
+import { BoardInfo } from '@libs/common-types';
+import { DEFAULT_BOARD_ID } from '@libs/utils';
+import { findBoard } from '../../services/board.service';
+import { initializePixelRepository } from '../../services/pixelRepository';
+
+declare global {
+  namespace Express {
+    interface Request {
+      board?: BoardInfo; // Set by resolveBoard
+    }
+  }
+}
+
+/**
+ * Resolve the :boardId route parameter (the main board on unscoped routes)
+ * and make sure the board's cache and tiles are initialized
+ */
+export const resolveBoard = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const boardId = req.params.boardId ?? DEFAULT_BOARD_ID;
+    const board = await findBoard(boardId);
+
+    if (!board) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Board ${boardId} not found`,
+        statusCode: 404,
+      });
+      return;
+    }
+
+    initializePixelRepository(board);
+    req.board = board;
+    next();
+
+  } catch (error) {
+    console.error('❌ Error resolving board:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to resolve board',
+      statusCode: 500,
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { requireRole } from '../middleware/admin.middleware';
+import { resolveBoard } from '../middleware/board.middleware';
+import { rollback, setRole } from '../controllers/admin.controller';
+import { getSanctions, createSanction, liftSanction } from '../controllers/sanction.controller';
+import { deleteChatMessage, setSlowMode } from '../controllers/chat.controller';
+import { getAllBoards, createBoard, updateBoard } from '../controllers/board.controller';
+
+const router = Router();
+
+// Every admin route needs at least a moderator; admin-only routes add requireRole('admin')
+router.use(requireRole('moderator'));
+
+// PUT /api/admin/users/:userId/role - Change a user's role (admins only)
+router.put('/users/:userId/role', requireRole('admin'), setRole);
+
+// GET /api/admin/sanctions - List active bans and mutes (?userId= for one user)
+router.get('/sanctions', getSanctions);
+
+// POST /api/admin/sanctions - Ban or mute a user, optionally for durationMs
+router.post('/sanctions', createSanction);
+
+// DELETE /api/admin/sanctions/:sanctionId - Lift a ban or mute early
+router.delete('/sanctions/:sanctionId', liftSanction);
+
+// DELETE /api/admin/chat/messages/:messageId - Delete a chat message for everyone
+router.delete('/chat/messages/:messageId', deleteChatMessage);
+
+// GET /api/admin/boards - List every board, unlisted ones included (admins only)
+router.get('/boards', requireRole('admin'), getAllBoards);
+
+// POST /api/admin/boards - Create a board with its size, palette and visibility (admins only)
+router.post('/boards', requireRole('admin'), createBoard);
+
+// PUT /api/admin/boards/:boardId - Rename, resize, re-palette or hide a board (admins only)
+router.put('/boards/:boardId', requireRole('admin'), resolveBoard, updateBoard);
+
+// PUT /api/admin/chat/slow-mode - Set the slow mode of the main board's chat (lasts until restart)
+router.put('/chat/slow-mode', resolveBoard, setSlowMode);
+
+// PUT /api/admin/boards/:boardId/chat/slow-mode - Set the slow mode of one board's chat
+router.put('/boards/:boardId/chat/slow-mode', resolveBoard, setSlowMode);
+
+// POST /api/admin/rollback - Revert placements on the main board (dryRun previews the result)
+router.post('/rollback', resolveBoard, rollback);
+
+// POST /api/admin/boards/:boardId/rollback - Revert placements on one board
+router.post('/boards/:boardId/rollback', resolveBoard, rollback);
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { getBoards, getBoard } from '../controllers/board.controller';
+import pixelRoutes from './pixel.routes';
+import tileRoutes from './tile.routes';
+import paletteRoutes from './palette.routes';
+import regionRoutes from './region.routes';
+import chatRoutes from './chat.routes';
+
+const router = Router();
+
+// GET /api/boards - List the public boards
+router.get('/', getBoards);
+
+// GET /api/boards/:boardId - Get a board's dimensions, palette and visibility
+router.get('/:boardId', getBoard);
+
+// /api/boards/:boardId/pixels/* - Pixel routes of one board (same as /api/pixels/*)
+router.use('/:boardId/pixels', pixelRoutes);
+
+// /api/boards/:boardId/tiles/* - Tile routes of one board (same as /api/tiles/*)
+router.use('/:boardId/tiles', tileRoutes);
+
+// /api/boards/:boardId/palette - Palette of one board (same as /api/palette)
+router.use('/:boardId/palette', paletteRoutes);
+
+// /api/boards/:boardId/regions - Protected regions of one board (same as /api/regions)
+router.use('/:boardId/regions', regionRoutes);
+
+// /api/boards/:boardId/chat - Chat history of one board (same as /api/chat)
+router.use('/:boardId/chat', chatRoutes);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { resolveBoard } from '../middleware/board.middleware';
+import { getChatHistory } from '../controllers/chat.controller';
+
+// Mounted both unscoped (main board) and under /api/boards/:boardId
+const router = Router({ mergeParams: true });
+
+router.use(resolveBoard);
+
+// GET /api/chat - Get a page of the board's chat history (?before=&limit=)
+router.get('/', getChatHistory);
+
+export default router;
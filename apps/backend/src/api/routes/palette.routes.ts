@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { resolveBoard } from '../middleware/board.middleware';
+import { getPalette } from '../controllers/board.controller';
+
+// Mounted both unscoped (main board) and under /api/boards/:boardId
+const router = Router({ mergeParams: true });
+
+router.use(resolveBoard);
+
+// GET /api/palette - Get the colors that may be placed on the board
+router.get('/', getPalette);
+
+export default router;
@@ -1,7 +1,20 @@
 import { Router } from 'express';
-import { getPixels, getPixelsInRegion, getPixelsBinary } from '../controllers/pixel.controller';
+import { resolveBoard } from '../middleware/board.middleware';
+import { getPixels, getPixelsInRegion, getPixelsBinary, getPixelChunk } from '../controllers/pixel.controller';
+import {
+  getCanvasSnapshot,
+  getCanvasSnapshotBinary,
+  getPixelHistory,
+  getPixelEvents,
+  getPixelEventsBinary,
+  streamReplay,
+} from '../controllers/history.controller';
+import { getCanvasImage } from '../controllers/image.controller';
 
-const router = Router();
+// Mounted both unscoped (main board) and under /api/boards/:boardId
+const router = Router({ mergeParams: true });
+
+router.use(resolveBoard);
 
 // GET /api/pixels - Get the current state of the entire canvas
 router.get('/', getPixels);
@@ -12,4 +25,28 @@ router.get('/binary', getPixelsBinary);
 // GET /api/pixels/region - Get pixels in a specific region (query params: minX, minY, maxX, maxY)
 router.get('/region', getPixelsInRegion);
 
+// GET /api/pixels/chunks/:cx/:cy - Get the pixels of one fixed-size chunk in binary format
+router.get('/chunks/:cx/:cy', getPixelChunk);
+
+// GET /api/pixels/snapshot - Get the canvas state as of a point in time (query params: at)
+router.get('/snapshot', getCanvasSnapshot);
+
+// GET /api/pixels/snapshot/binary - Get the canvas state as of a point in time in binary format
+router.get('/snapshot/binary', getCanvasSnapshotBinary);
+
+// GET /api/pixels/history - Get the placement history of one coordinate (query params: x, y, limit, before)
+router.get('/history', getPixelHistory);
+
+// GET /api/pixels/events - Get the ordered event stream between two timestamps (query params: from, to, limit, cursor)
+router.get('/events', getPixelEvents);
+
+// GET /api/pixels/events/binary - Get the ordered event stream in binary format
+router.get('/events/binary', getPixelEventsBinary);
+
+// GET /api/pixels/replay - Stream all placements in time order as binary records (query params: from, to)
+router.get('/replay', streamReplay);
+
+// GET /api/pixels/image.png - Render the canvas or a region as a PNG (query params: minX, minY, maxX, maxY, scale, at, background)
+router.get('/image.png', getCanvasImage);
+
 export default router;
\ No newline at end of file
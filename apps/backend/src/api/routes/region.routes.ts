@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { resolveBoard } from '../middleware/board.middleware';
+import { requireRole } from '../middleware/admin.middleware';
+import { getRegions, createRegion, updateRegion, deleteRegion } from '../controllers/region.controller';
+
+// Mounted both unscoped (main board) and under /api/boards/:boardId
+const router = Router({ mergeParams: true });
+
+router.use(resolveBoard);
+
+// GET /api/regions - List the protected regions of the board
+router.get('/', getRegions);
+
+// POST /api/regions - Protect a rectangle or polygon (admins only)
+router.post('/', requireRole('admin'), createRegion);
+
+// PUT /api/regions/:regionId - Change a region's name, shape or allow-list (admins only)
+router.put('/:regionId', requireRole('admin'), updateRegion);
+
+// DELETE /api/regions/:regionId - Remove a protected region (admins only)
+router.delete('/:regionId', requireRole('admin'), deleteRegion);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { resolveBoard } from '../middleware/board.middleware';
+import { getTile } from '../controllers/tile.controller';
+
+// Mounted both unscoped (main board) and under /api/boards/:boardId
+const router = Router({ mergeParams: true });
+
+router.use(resolveBoard);
+
+// GET /api/tiles/:z/:x/:y.png - Get a 256x256 tile of the canvas zoom pyramid (zoom 0 is the whole canvas)
+router.get('/:z/:x/:y.png', getTile);
+
+export default router;
@@ -9,6 +9,12 @@ import config from './config';
 // Import routes
 import userRoutes from './api/routes/user.routes';
 import pixelRoutes from './api/routes/pixel.routes';
+import tileRoutes from './api/routes/tile.routes';
+import boardRoutes from './api/routes/board.routes';
+import paletteRoutes from './api/routes/palette.routes';
+import regionRoutes from './api/routes/region.routes';
+import chatRoutes from './api/routes/chat.routes';
+import adminRoutes from './api/routes/admin.routes';
 
 const app = express();
 
@@ -30,6 +36,7 @@ app.use(helmet());
 app.use(cors({
   origin: true, // Allow all origins for development
   credentials: true, // Allow cookies
+  exposedHeaders: ['X-Pixel-Count', 'X-Snapshot-At', 'X-Next-Cursor', 'X-Chunk-Size'], // Metadata of binary responses
 }));
 
 // Body parsing middleware
@@ -54,6 +61,12 @@ app.get('/health', (req, res) => {
 // API routes
 app.use('/api/users', userRoutes);
 app.use('/api/pixels', pixelRoutes);
+app.use('/api/tiles', tileRoutes);
+app.use('/api/boards', boardRoutes);
+app.use('/api/palette', paletteRoutes);
+app.use('/api/regions', regionRoutes);
+app.use('/api/chat', chatRoutes);
+app.use('/api/admin', adminRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -11,6 +11,21 @@ interface Config {
   sentryDsn?: string;
   sentryEnvironment?: string;
   debug: boolean;
+  pixelRateLimit: {
+    capacity: number; // Burst size: pixels that can be placed back-to-back
+    windowMs: number; // Time for a fully drained bucket to refill
+  };
+  pixelBatchMaxSize: number; // Most pixels a single DRAW_PIXELS message may carry
+  broadcastHistorySize: number; // PIXEL_UPDATE batches kept for reconnecting clients
+  chatHistorySize: number; // Chat messages sent to clients when they connect
+  chatRateLimit: {
+    capacity: number; // Chat messages that can be sent back-to-back
+    windowMs: number; // Time for a fully drained budget to refill
+  };
+  chatBlockedWords: string[]; // Masked with asterisks in chat messages
+  palette: string[]; // Default palette of boards without their own; empty allows any color
+  adminUserIds: string[]; // Users promoted to admin on startup
+  signalingUrl?: string; // Signaling service told about ban and mute changes; unset skips that
 }
 
 const config: Config = {
@@ -21,6 +36,30 @@ const config: Config = {
   sentryDsn: process.env.SENTRY_DSN_BACKEND,
   sentryEnvironment: process.env.SENTRY_ENVIRONMENT || process.env.NODE_ENV || 'development',
   debug: process.env.DEBUG === 'true',
+  pixelRateLimit: {
+    capacity: parseInt(process.env.PIXEL_RATE_CAPACITY || '20', 10),
+    windowMs: parseInt(process.env.PIXEL_RATE_WINDOW_MS || '2000', 10),
+  },
+  pixelBatchMaxSize: parseInt(process.env.PIXEL_BATCH_MAX_SIZE || '100', 10),
+  broadcastHistorySize: parseInt(process.env.BROADCAST_HISTORY_SIZE || '600', 10),
+  chatHistorySize: parseInt(process.env.CHAT_HISTORY_SIZE || '50', 10),
+  chatRateLimit: {
+    capacity: parseInt(process.env.CHAT_RATE_CAPACITY || '5', 10),
+    windowMs: parseInt(process.env.CHAT_RATE_WINDOW_MS || '10000', 10),
+  },
+  chatBlockedWords: (process.env.CHAT_BLOCKED_WORDS || '')
+    .split(',')
+    .map((word) => word.trim().toLowerCase())
+    .filter((word) => word.length > 0),
+  palette: (process.env.CANVAS_PALETTE || '')
+    .split(',')
+    .map((color) => color.trim().toUpperCase())
+    .filter((color) => color.length > 0),
+  adminUserIds: (process.env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map((userId) => userId.trim())
+    .filter((userId) => userId.length > 0),
+  signalingUrl: process.env.SIGNALING_URL || undefined,
 };
 
 // Validate required configuration
@@ -28,4 +67,9 @@ if (!config.mongodbUri) {
   throw new Error('MONGODB_URI environment variable is required');
 }
 
+const invalidColors = config.palette.filter((color) => !/^#[0-9A-F]{6}$/.test(color));
+if (invalidColors.length > 0) {
+  throw new Error(`CANVAS_PALETTE must list #RRGGBB colors, got: ${invalidColors.join(', ')}`);
+}
+
 export default config;
\ No newline at end of file
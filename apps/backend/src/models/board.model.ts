@@ -0,0 +1,72 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { BoardVisibility } from '@libs/common-types';
+import { MAX_BOARD_SIZE } from '@libs/utils';
+
+export interface IBoard extends Document {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  palette: string[];
+  visibility: BoardVisibility;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const boardSchema = new Schema<IBoard>({
+  id: {
+    type: String,
+    required: true,
+    unique: true,
+    match: /^[a-z0-9][a-z0-9-]{0,31}$/, // Used in URLs
+  },
+  name: {
+    type: String,
+    required: true,
+    maxlength: 100,
+  },
+  width: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: MAX_BOARD_SIZE, // Coordinates are uint16 in the binary formats
+    validate: {
+      validator: Number.isInteger,
+      message: 'Width must be an integer',
+    },
+  },
+  height: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: MAX_BOARD_SIZE,
+    validate: {
+      validator: Number.isInteger,
+      message: 'Height must be an integer',
+    },
+  },
+  palette: {
+    type: [{ type: String, match: /^#[0-9A-F]{6}$/i }],
+    default: [], // Empty palette allows any color
+  },
+  visibility: {
+    type: String,
+    enum: ['public', 'unlisted'],
+    default: 'public',
+  },
+}, {
+  id: false, // The board ID is a stored field, not the _id virtual
+  timestamps: true,
+  collection: 'boards',
+});
+
+// Transform output to remove MongoDB-specific fields
+boardSchema.set('toJSON', {
+  transform: (doc, ret) => {
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const Board = mongoose.model<IBoard>('Board', boardSchema);
\ No newline at end of file
@@ -0,0 +1,77 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { MAX_CHAT_MESSAGE_LENGTH } from '@libs/utils';
+
+export interface IChatMessage extends Document {
+  boardId: string;
+  messageId: string; // Picked by the sender, shared with the WebRTC mirror of the message
+  userId: string;
+  nickname: string; // Nickname and color at the time the message was sent
+  color: string;
+  message: string; // Blocked words are already masked
+  replyTo: string | null; // messageId of the message this one answers
+  mentions: string[]; // Parsed from the masked message
+  deletedAt?: Date; // Set when a moderator deletes the message
+  deletedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const chatMessageSchema = new Schema<IChatMessage>({
+  boardId: {
+    type: String,
+    required: true,
+  },
+  messageId: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  userId: {
+    type: String,
+    required: true,
+  },
+  nickname: {
+    type: String,
+    required: true,
+  },
+  color: {
+    type: String,
+    required: true,
+  },
+  message: {
+    type: String,
+    required: true,
+    maxlength: MAX_CHAT_MESSAGE_LENGTH,
+  },
+  replyTo: {
+    type: String,
+    default: null,
+  },
+  mentions: {
+    type: [String],
+    default: [],
+  },
+  deletedAt: {
+    type: Date,
+  },
+  deletedBy: {
+    type: String,
+  },
+}, {
+  timestamps: true,
+  collection: 'chat_messages',
+});
+
+// History is read newest first, one board at a time
+chatMessageSchema.index({ boardId: 1, createdAt: -1 });
+
+// Transform output to remove MongoDB-specific fields
+chatMessageSchema.set('toJSON', {
+  transform: (doc, ret) => {
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const ChatMessage = mongoose.model<IChatMessage>('ChatMessage', chatMessageSchema);
\ No newline at end of file
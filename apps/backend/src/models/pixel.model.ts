@@ -1,19 +1,30 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { DEFAULT_BOARD_ID, MAX_BOARD_SIZE } from '@libs/utils';
 
 export interface IPixel extends Document {
+  boardId: string;
   x: number;
   y: number;
   color: string;
   timestamp: Date;
   userId: string;
+  revertedAt?: Date; // Set when a moderator rolled the placement back
+  revertedBy?: string;
+  undo?: boolean; // Set when the placement undid the user's own previous placement
 }
 
 const pixelSchema = new Schema<IPixel>({
+  boardId: {
+    type: String,
+    required: true,
+    default: DEFAULT_BOARD_ID,
+    ref: 'Board',
+  },
   x: {
     type: Number,
     required: true,
     min: 0,
-    max: 4999, // Canvas is 5000x5000 (0-4999)
+    max: MAX_BOARD_SIZE - 1, // Board bounds are checked by the callers
     validate: {
       validator: Number.isInteger,
       message: 'X coordinate must be an integer',
@@ -23,7 +34,7 @@ const pixelSchema = new Schema<IPixel>({
     type: Number,
     required: true,
     min: 0,
-    max: 4999, // Canvas is 5000x5000 (0-4999)
+    max: MAX_BOARD_SIZE - 1,
     validate: {
       validator: Number.isInteger,
       message: 'Y coordinate must be an integer',
@@ -44,15 +55,28 @@ const pixelSchema = new Schema<IPixel>({
     required: true,
     ref: 'User', // Reference to User model
   },
+  // Rolled back placements stay in the log but no longer count
+  revertedAt: {
+    type: Date,
+  },
+  revertedBy: {
+    type: String,
+  },
+  // Undo placements are ordinary events, flagged for moderation and statistics
+  undo: {
+    type: Boolean,
+  },
 }, {
   collection: 'pixels',
 });
 
 // Indexes for efficient queries
-pixelSchema.index({ x: 1, y: 1 }); // Coordinate lookup
-pixelSchema.index({ timestamp: -1 }); // Time-based queries
+// Every query is scoped to one board
+pixelSchema.index({ boardId: 1, x: 1, y: 1 }); // Coordinate lookup
+pixelSchema.index({ boardId: 1, timestamp: -1 }); // Time-based queries
 pixelSchema.index({ userId: 1 }); // User-based queries
-pixelSchema.index({ x: 1, y: 1, timestamp: -1 }); // Canvas state queries (last-write-wins)
+pixelSchema.index({ boardId: 1, x: 1, y: 1, timestamp: -1 }); // Canvas state queries (last-write-wins)
+pixelSchema.index({ boardId: 1, timestamp: 1, _id: 1 }); // Ordered event stream paging
 
 // Transform output to remove MongoDB-specific fields
 pixelSchema.set('toJSON', {
@@ -63,72 +87,163 @@ pixelSchema.set('toJSON', {
   },
 });
 
+// Matches placements that have not been rolled back
+export const ACTIVE_PIXEL_FILTER = { revertedAt: { $exists: false } };
+
+/**
+ * Aggregation stages reducing a (filtered) event log to the latest pixel per coordinate
+ */
+const latestPixelPerCoordinateStages = (): any[] => [
+  {
+    $match: ACTIVE_PIXEL_FILTER
+  },
+  {
+    $sort: { x: 1, y: 1, timestamp: -1 }
+  },
+  {
+    $group: {
+      _id: { x: '$x', y: '$y' },
+      latestPixel: { $first: '$$ROOT' }
+    }
+  },
+  {
+    $replaceRoot: { newRoot: '$latestPixel' }
+  },
+  {
+    $project: {
+      _id: 0,
+      x: 1,
+      y: 1,
+      color: 1,
+      timestamp: 1,
+      userId: 1
+    }
+  },
+  {
+    $sort: { x: 1, y: 1 }
+  }
+];
+
 // Static method to get current canvas state
-pixelSchema.statics.getCurrentCanvasState = async function() {
+pixelSchema.statics.getCurrentCanvasState = async function(boardId: string) {
   // Aggregate to get the latest pixel for each coordinate
   return this.aggregate([
     {
-      $sort: { x: 1, y: 1, timestamp: -1 }
+      $match: { boardId }
     },
-    {
-      $group: {
-        _id: { x: '$x', y: '$y' },
-        latestPixel: { $first: '$$ROOT' }
-      }
-    },
-    {
-      $replaceRoot: { newRoot: '$latestPixel' }
-    },
-    {
-      $project: {
-        _id: 0,
-        x: 1,
-        y: 1,
-        color: 1,
-        timestamp: 1,
-        userId: 1
-      }
-    },
-    {
-      $sort: { x: 1, y: 1 }
-    }
+    ...latestPixelPerCoordinateStages()
   ]);
 };
 
 // Static method to get pixels in a specific region
-pixelSchema.statics.getPixelsInRegion = async function(minX: number, minY: number, maxX: number, maxY: number) {
+pixelSchema.statics.getPixelsInRegion = async function(boardId: string, minX: number, minY: number, maxX: number, maxY: number) {
   return this.aggregate([
     {
       $match: {
+        boardId,
         x: { $gte: minX, $lte: maxX },
         y: { $gte: minY, $lte: maxY }
       }
     },
+    ...latestPixelPerCoordinateStages()
+  ]);
+};
+
+// Static method to get the canvas state as it was at a point in time
+pixelSchema.statics.getCanvasStateAt = async function(boardId: string, at: Date) {
+  return this.aggregate([
     {
-      $sort: { x: 1, y: 1, timestamp: -1 }
+      $match: { boardId, timestamp: { $lte: at } }
     },
+    ...latestPixelPerCoordinateStages()
+  ]);
+};
+
+// Static method to get a region of the canvas as it was at a point in time
+pixelSchema.statics.getRegionStateAt = async function(boardId: string, at: Date, minX: number, minY: number, maxX: number, maxY: number) {
+  return this.aggregate([
     {
-      $group: {
-        _id: { x: '$x', y: '$y' },
-        latestPixel: { $first: '$$ROOT' }
+      $match: {
+        boardId,
+        timestamp: { $lte: at },
+        x: { $gte: minX, $lte: maxX },
+        y: { $gte: minY, $lte: maxY }
       }
     },
+    ...latestPixelPerCoordinateStages()
+  ]);
+};
+
+// Static method to get the placement history of one coordinate (newest first).
+// `before` is a point in time or the (timestamp, _id) of the last event of the previous page.
+pixelSchema.statics.getCoordinateHistory = async function(
+  boardId: string,
+  x: number,
+  y: number,
+  limit: number,
+  before?: Date | { timestamp: Date; id: string }
+) {
+  const filter: Record<string, any> = { boardId, x, y, ...ACTIVE_PIXEL_FILTER };
+  if (before instanceof Date) {
+    filter.timestamp = { $lt: before };
+  } else if (before) {
+    filter.$or = [
+      { timestamp: { $lt: before.timestamp } },
+      { timestamp: before.timestamp, _id: { $lt: new mongoose.Types.ObjectId(before.id) } }
+    ];
+  }
+
+  return this.find(filter)
+    .sort({ timestamp: -1, _id: -1 })
+    .limit(limit)
+    .select({ x: 1, y: 1, color: 1, timestamp: 1, userId: 1 })
+    .lean();
+};
+
+// Static method to page through the event log in placement order.
+// `after` is the (timestamp, _id) of the last event of the previous page.
+pixelSchema.statics.getEventsBetween = async function(
+  boardId: string,
+  from: Date,
+  to: Date,
+  limit: number,
+  after?: { timestamp: Date; id: string }
+) {
+  const filter: Record<string, any> = {
+    boardId,
+    timestamp: { $gte: from, $lte: to },
+    ...ACTIVE_PIXEL_FILTER
+  };
+  if (after) {
+    filter.$or = [
+      { timestamp: { $gt: after.timestamp } },
+      { timestamp: after.timestamp, _id: { $gt: new mongoose.Types.ObjectId(after.id) } }
+    ];
+  }
+
+  return this.find(filter)
+    .sort({ timestamp: 1, _id: 1 })
+    .limit(limit)
+    .select({ x: 1, y: 1, color: 1, timestamp: 1, userId: 1 })
+    .lean();
+};
+
+// Static method to get the latest pixel of some coordinates, optionally narrowing the events
+// considered (e.g. the state coordinates return to once some events are rolled back)
+pixelSchema.statics.getCoordinatesState = async function(
+  boardId: string,
+  coordinates: Array<{ x: number; y: number }>,
+  match: Record<string, any> = {}
+) {
+  return this.aggregate([
     {
-      $replaceRoot: { newRoot: '$latestPixel' }
-    },
-    {
-      $project: {
-        _id: 0,
-        x: 1,
-        y: 1,
-        color: 1,
-        timestamp: 1,
-        userId: 1
+      $match: {
+        ...match,
+        boardId,
+        $or: coordinates.map(({ x, y }) => ({ x, y }))
       }
     },
-    {
-      $sort: { x: 1, y: 1 }
-    }
+    ...latestPixelPerCoordinateStages()
   ]);
 };
 
@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ProtectedRegionShape, UserRole } from '@libs/common-types';
+
+export interface IProtectedRegion extends Document {
+  boardId: string;
+  name: string;
+  shape: ProtectedRegionShape; // Validated with validateRegionShape before saving
+  allowedUserIds: string[];
+  allowedRoles: UserRole[];
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const protectedRegionSchema = new Schema<IProtectedRegion>({
+  boardId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  name: {
+    type: String,
+    required: true,
+    maxlength: 100,
+  },
+  shape: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+  allowedUserIds: {
+    type: [String],
+    default: [],
+  },
+  allowedRoles: {
+    type: [{ type: String, enum: ['user', 'moderator', 'admin'] }],
+    default: [],
+  },
+  createdBy: {
+    type: String,
+    required: true,
+  },
+}, {
+  timestamps: true,
+  collection: 'protected_regions',
+});
+
+// Transform output to remove MongoDB-specific fields
+protectedRegionSchema.set('toJSON', {
+  transform: (doc, ret) => {
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const ProtectedRegion = mongoose.model<IProtectedRegion>('ProtectedRegion', protectedRegionSchema);
\ No newline at end of file
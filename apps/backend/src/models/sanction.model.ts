@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { SanctionType } from '@libs/common-types';
+
+export interface ISanction extends Document {
+  userId: string;
+  type: SanctionType;
+  reason: string;
+  expiresAt: Date | null; // null for permanent sanctions
+  createdBy: string; // Moderator who issued the sanction
+  liftedAt?: Date; // Set when a moderator lifts the sanction early
+  liftedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sanctionSchema = new Schema<ISanction>({
+  userId: {
+    type: String,
+    required: true,
+  },
+  type: {
+    type: String,
+    enum: ['ban', 'mute'],
+    required: true,
+  },
+  reason: {
+    type: String,
+    required: true,
+    maxlength: 500,
+  },
+  expiresAt: {
+    type: Date,
+    default: null,
+  },
+  createdBy: {
+    type: String,
+    required: true,
+  },
+  liftedAt: {
+    type: Date,
+  },
+  liftedBy: {
+    type: String,
+  },
+}, {
+  timestamps: true,
+  collection: 'sanctions',
+});
+
+// Active sanctions of a user are looked up on every connection
+sanctionSchema.index({ userId: 1, type: 1 });
+
+// Transform output to remove MongoDB-specific fields
+sanctionSchema.set('toJSON', {
+  transform: (doc, ret) => {
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const Sanction = mongoose.model<ISanction>('Sanction', sanctionSchema);
\ No newline at end of file
@@ -1,9 +1,11 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { UserRole } from '@libs/common-types';
 
 export interface IUser extends Document {
   userId: string;
   nickname: string;
   color: string;
+  role: UserRole;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -25,6 +27,11 @@ const userSchema = new Schema<IUser>({
     required: true,
     match: /^#[0-9A-F]{6}$/i, // Validate hex color format
   },
+  role: {
+    type: String,
+    enum: ['user', 'moderator', 'admin'],
+    default: 'user',
+  },
 }, {
   timestamps: true, // Automatically adds createdAt and updatedAt
   collection: 'users',
@@ -0,0 +1,35 @@
+import mongoose from 'mongoose';
+import { connectToDatabase } from '../services/database.service';
+import { isValidRole, setUserRole, USER_ROLES } from '../services/role.service';
+
+/**
+ * Change a user's role from the command line (e.g. to create the first admin):
+ *   npm run set-role -- <userId> <role>
+ * or, from a build, node dist/scripts/setRole.js <userId> <role>
+ */
+async function main(): Promise<number> {
+  const [userId, role] = process.argv.slice(2);
+  if (!userId || !isValidRole(role)) {
+    console.error(`Usage: set-role <userId> <${USER_ROLES.join('|')}>`);
+    return 1;
+  }
+
+  await connectToDatabase();
+  try {
+    const user = await setUserRole(userId, role);
+    if (!user) {
+      console.error(`❌ User ${userId} not found`);
+      return 1;
+    }
+    return 0;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error('❌ Failed to change role:', error);
+    process.exit(1);
+  });
\ No newline at end of file
@@ -3,6 +3,8 @@ import app from './app';
 import config from './config';
 import { connectToDatabase } from './services/database.service';
 import { initializePixelRepository } from './services/pixelRepository';
+import { findBoard, migrateLegacyPixels, DEFAULT_BOARD } from './services/board.service';
+import { bootstrapAdmins } from './services/role.service';
 import { initializeWebSocketServer } from './ws/WebSocketService';
 import { initializeSentry } from './config/sentry';
 
@@ -16,8 +18,16 @@ async function startServer() {
     // Connect to database
     await connectToDatabase();
     console.log('✅ Database connected successfully');
-    // Initialize pixel repository + in-memory cache (with periodic reload)
-    initializePixelRepository();
+
+    // Pixels stored before boards existed belong to the main board
+    await migrateLegacyPixels();
+
+    // Local admin bootstrap (ADMIN_USER_IDS)
+    await bootstrapAdmins(config.adminUserIds);
+
+    // Initialize pixel repository + in-memory cache (with periodic reload) of the main board;
+    // other boards are initialized on first use
+    initializePixelRepository((await findBoard(DEFAULT_BOARD.id)) ?? DEFAULT_BOARD);
     console.log('✅ Pixel repository + cache initialized');
     
     // Create HTTP server
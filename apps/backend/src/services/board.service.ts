@@ -0,0 +1,147 @@
+import { BoardInfo, BoardVisibility } from '@libs/common-types';
+import { DEFAULT_BOARD_ID, CANVAS_SIZE, isValidBoardId } from '@libs/utils';
+import { Board, IBoard } from '../models/board.model';
+import { Pixel, ACTIVE_PIXEL_FILTER } from '../models/pixel.model';
+import config from '../config';
+
+/**
+ * The main board exists even before it is stored, so deployments without any
+ * board documents keep serving the original 5000x5000 canvas
+ */
+export const DEFAULT_BOARD: BoardInfo = {
+  id: DEFAULT_BOARD_ID,
+  name: 'Main canvas',
+  width: CANVAS_SIZE,
+  height: CANVAS_SIZE,
+  palette: [...config.palette],
+  visibility: 'public',
+};
+
+export interface BoardFields {
+  name: string;
+  width: number;
+  height: number;
+  palette: string[]; // Empty falls back to the deployment palette
+  visibility: BoardVisibility;
+}
+
+// Boards without their own palette fall back to the deployment palette
+const toBoardInfo = (board: IBoard): BoardInfo => ({
+  id: board.id,
+  name: board.name,
+  width: board.width,
+  height: board.height,
+  palette: board.palette.length > 0 ? [...board.palette] : [...config.palette],
+  visibility: board.visibility,
+});
+
+/**
+ * Resolve a board ID to its definition.
+ * Returns null for malformed or unknown IDs.
+ */
+export async function findBoard(boardId: string): Promise<BoardInfo | null> {
+  if (!isValidBoardId(boardId)) {
+    return null;
+  }
+
+  const board = await Board.findOne({ id: boardId });
+  if (board) {
+    return toBoardInfo(board);
+  }
+  return boardId === DEFAULT_BOARD_ID ? DEFAULT_BOARD : null;
+}
+
+/**
+ * List the public boards, main board first
+ */
+export async function listPublicBoards(): Promise<BoardInfo[]> {
+  const boards = (await Board.find({ visibility: 'public' }).sort({ createdAt: 1 })).map(toBoardInfo);
+
+  const main = boards.find((board) => board.id === DEFAULT_BOARD_ID);
+  const others = boards.filter((board) => board !== main);
+  if (main) {
+    return [main, ...others];
+  }
+  // An unstored main board uses the public defaults
+  const hasStoredMain = await Board.exists({ id: DEFAULT_BOARD_ID });
+  return hasStoredMain ? others : [DEFAULT_BOARD, ...others];
+}
+
+/**
+ * List every board, unlisted ones included, main board first
+ */
+export async function listAllBoards(): Promise<BoardInfo[]> {
+  const boards = (await Board.find().sort({ createdAt: 1 })).map(toBoardInfo);
+
+  const main = boards.find((board) => board.id === DEFAULT_BOARD_ID) ?? DEFAULT_BOARD;
+  return [main, ...boards.filter((board) => board.id !== DEFAULT_BOARD_ID)];
+}
+
+/**
+ * Store a new board.
+ * Returns null when the ID is taken (the main board always exists).
+ */
+export async function createStoredBoard(boardId: string, fields: BoardFields): Promise<BoardInfo | null> {
+  if (boardId === DEFAULT_BOARD_ID) {
+    return null;
+  }
+
+  try {
+    const board = await Board.create({ id: boardId, ...fields });
+    console.log(`🆕 Created board "${boardId}" (${fields.width}x${fields.height}, ${fields.visibility})`);
+    return toBoardInfo(board);
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Change a stored board; the main board is stored on its first change.
+ * Returns null for unknown boards.
+ */
+export async function updateStoredBoard(boardId: string, fields: Partial<BoardFields>): Promise<BoardInfo | null> {
+  const board = await Board.findOneAndUpdate({ id: boardId }, { $set: fields }, { new: true, runValidators: true });
+  if (board) {
+    console.log(`🛠️ Updated board "${boardId}": ${Object.keys(fields).join(', ')}`);
+    return toBoardInfo(board);
+  }
+  if (boardId !== DEFAULT_BOARD_ID) {
+    return null;
+  }
+
+  const { name, width, height, visibility } = DEFAULT_BOARD;
+  const main = await Board.create({ id: DEFAULT_BOARD_ID, name, width, height, palette: [], visibility, ...fields });
+  console.log(`🛠️ Stored main board with ${Object.keys(fields).join(', ')}`);
+  return toBoardInfo(main);
+}
+
+/**
+ * Whether a board has placements that a resize to width x height would cut off;
+ * rolled back placements don't count
+ */
+export async function hasPixelsOutside(boardId: string, width: number, height: number): Promise<boolean> {
+  const outside = await Pixel.exists({
+    boardId,
+    ...ACTIVE_PIXEL_FILTER,
+    $or: [{ x: { $gte: width } }, { y: { $gte: height } }],
+  });
+  return outside !== null;
+}
+
+/**
+ * Assign pixels stored before boards existed to the main board
+ */
+export async function migrateLegacyPixels(): Promise<number> {
+  const result = await Pixel.updateMany(
+    { boardId: { $exists: false } },
+    { $set: { boardId: DEFAULT_BOARD_ID } }
+  );
+
+  if (result.modifiedCount > 0) {
+    console.log(`🧳 Assigned ${result.modifiedCount} legacy pixels to board "${DEFAULT_BOARD_ID}"`);
+  }
+  return result.modifiedCount;
+}
\ No newline at end of file
@@ -0,0 +1,143 @@
+import mongoose from 'mongoose';
+import { ChatMessageData } from '@libs/common-types';
+import { maskBlockedWords, parseMentions } from '@libs/utils';
+import { ChatMessage, IChatMessage } from '../models/chatMessage.model';
+import { getWebSocketService } from '../ws/WebSocketService';
+import { PageCursor, encodePageCursor } from './pageCursor';
+import config from '../config';
+
+export const MAX_SLOW_MODE_MS = 60 * 60 * 1000;
+
+// Slow mode interval per board; a temporary measure, so it lasts until the server restarts
+const slowModes = new Map<string, number>();
+
+export interface ChatAuthor {
+  userId: string;
+  nickname: string;
+  color: string;
+}
+
+export interface ChatHistoryPage {
+  messages: ChatMessageData[]; // Oldest first
+  nextCursor: string | null; // Points past the oldest message when older ones may exist
+}
+
+export function toChatMessageData(message: IChatMessage): ChatMessageData {
+  return {
+    id: message.messageId,
+    userId: message.userId,
+    nickname: message.nickname,
+    message: message.message,
+    timestamp: message.createdAt.getTime(),
+    color: message.color,
+    replyTo: message.replyTo ?? null,
+    mentions: message.mentions ?? [],
+  };
+}
+
+/**
+ * Store a chat message with its blocked words masked.
+ * Returns null when a message with this ID was already stored (e.g. a resend after reconnecting).
+ */
+export async function saveChatMessage(
+  boardId: string,
+  author: ChatAuthor,
+  messageId: string,
+  message: string,
+  replyTo: string | null = null
+): Promise<ChatMessageData | null> {
+  try {
+    const masked = maskBlockedWords(message, config.chatBlockedWords);
+    const saved = await ChatMessage.create({
+      boardId,
+      messageId,
+      ...author,
+      message: masked,
+      replyTo,
+      mentions: parseMentions(masked),
+    });
+    return toChatMessageData(saved);
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether a message that has not been deleted exists on a board (replies need one)
+ */
+export async function chatMessageExists(boardId: string, messageId: string): Promise<boolean> {
+  return (await ChatMessage.exists({ boardId, messageId, deletedAt: { $exists: false } })) !== null;
+}
+
+/**
+ * Get a page of a board's chat history: the latest `limit` messages strictly before `before`
+ * and older than `cursor`, the (createdAt, _id) of the last message handed out
+ */
+export async function getChatHistory(
+  boardId: string,
+  limit: number,
+  before?: Date,
+  cursor?: PageCursor
+): Promise<ChatHistoryPage> {
+  const filter: Record<string, any> = {
+    boardId,
+    deletedAt: { $exists: false },
+    ...(before ? { createdAt: { $lt: before } } : {}),
+  };
+  if (cursor) {
+    filter.$or = [
+      { createdAt: { $lt: cursor.timestamp } },
+      { createdAt: cursor.timestamp, _id: { $lt: new mongoose.Types.ObjectId(cursor.id) } }
+    ];
+  }
+  const found = await ChatMessage.find(filter).sort({ createdAt: -1, _id: -1 }).limit(limit);
+
+  const oldest = found[found.length - 1];
+  return {
+    messages: found.reverse().map(toChatMessageData),
+    nextCursor: found.length === limit ? encodePageCursor(oldest.createdAt, oldest._id) : null,
+  };
+}
+
+/**
+ * Delete a message and remove it from every connected chat.
+ * Returns null when no such message exists (or it was already deleted).
+ */
+export async function deleteChatMessage(messageId: string, deletedBy: string): Promise<IChatMessage | null> {
+  const message = await ChatMessage.findOneAndUpdate(
+    { messageId, deletedAt: { $exists: false } },
+    { $set: { deletedAt: new Date(), deletedBy } },
+    { new: true }
+  );
+
+  if (message) {
+    getWebSocketService()?.broadcastChatDelete(message.boardId, messageId);
+  }
+  return message;
+}
+
+export function getSlowModeMs(boardId: string): number {
+  return slowModes.get(boardId) ?? 0;
+}
+
+/**
+ * Set the minimum time between two messages of a user on a board (0 turns slow mode off)
+ */
+export function setSlowMode(boardId: string, intervalMs: number): void {
+  if (intervalMs > 0) {
+    slowModes.set(boardId, intervalMs);
+  } else {
+    slowModes.delete(boardId);
+  }
+  getWebSocketService()?.broadcastChatSettings(boardId);
+}
+
+/**
+ * Turn slow mode off everywhere (for testing)
+ */
+export function resetSlowModes(): void {
+  slowModes.clear();
+}
\ No newline at end of file
@@ -0,0 +1,186 @@
+import { deflate } from 'zlib';
+import { promisify } from 'util';
+import { hexToRgb } from '@libs/utils';
+
+const deflateAsync = promisify(deflate);
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const BYTES_PER_PIXEL = 4; // RGBA
+
+export interface ImageRegion {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface RenderImageOptions {
+  region: ImageRegion;
+  scale: number; // Output pixels per canvas pixel
+  background?: string | null; // "#RRGGBB", transparent when omitted
+}
+
+export interface RenderablePixel {
+  x: number;
+  y: number;
+  color: string;
+}
+
+// CRC32 lookup table (polynomial 0xEDB88320), as required by PNG chunks
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (buffers: Buffer[]): number => {
+  let crc = 0xffffffff;
+  for (const buffer of buffers) {
+    for (let i = 0; i < buffer.length; i++) {
+      crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer): Buffer => {
+  const typeBuffer = Buffer.from(type, 'ascii');
+  const header = Buffer.alloc(4);
+  header.writeUInt32BE(data.length, 0);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32([typeBuffer, data]), 0);
+  return Buffer.concat([header, typeBuffer, data, crc]);
+};
+
+/**
+ * Output dimensions of a region rendered at a given scale
+ */
+export function getImageSize(region: ImageRegion, scale: number): { width: number; height: number } {
+  return {
+    width: (region.maxX - region.minX + 1) * scale,
+    height: (region.maxY - region.minY + 1) * scale,
+  };
+}
+
+/**
+ * Encode raw scanlines (each prefixed with filter byte 0) as an RGBA PNG
+ */
+export async function encodePng(width: number, height: number, scanlines: Buffer): Promise<Buffer> {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.writeUInt8(8, 8); // Bit depth
+  header.writeUInt8(6, 9); // Color type: truecolor with alpha
+  header.writeUInt8(0, 10); // Compression: deflate
+  header.writeUInt8(0, 11); // Filter method
+  header.writeUInt8(0, 12); // No interlacing
+
+  // Compress off the event loop; full-canvas images are large
+  const compressed = await deflateAsync(scanlines);
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', compressed),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Render pixels of a canvas region into a PNG.
+ * Pixels outside the region are ignored; unpainted pixels are transparent
+ * unless a background color is given.
+ */
+export async function renderPixelsToPng(pixels: RenderablePixel[], options: RenderImageOptions): Promise<Buffer> {
+  const { region, scale } = options;
+  const { width, height } = getImageSize(region, scale);
+  const stride = 1 + width * BYTES_PER_PIXEL;
+  const scanlines = Buffer.alloc(stride * height); // Zeroed: filter 0, fully transparent
+
+  if (options.background) {
+    const [r, g, b] = hexToRgb(options.background);
+    const fill = Buffer.from([r, g, b, 255]);
+    for (let row = 0; row < height; row++) {
+      scanlines.fill(fill, row * stride + 1, (row + 1) * stride);
+    }
+  }
+
+  for (const pixel of pixels) {
+    if (pixel.x < region.minX || pixel.x > region.maxX || pixel.y < region.minY || pixel.y > region.maxY) {
+      continue;
+    }
+
+    const [r, g, b] = hexToRgb(pixel.color);
+    const left = (pixel.x - region.minX) * scale;
+    const top = (pixel.y - region.minY) * scale;
+
+    for (let dy = 0; dy < scale; dy++) {
+      let offset = (top + dy) * stride + 1 + left * BYTES_PER_PIXEL;
+      for (let dx = 0; dx < scale; dx++) {
+        scanlines[offset] = r;
+        scanlines[offset + 1] = g;
+        scanlines[offset + 2] = b;
+        scanlines[offset + 3] = 255;
+        offset += BYTES_PER_PIXEL;
+      }
+    }
+  }
+
+  return encodePng(width, height, scanlines);
+}
+
+/**
+ * Render a region shrunk by an integer factor into a PNG.
+ * Each output pixel box-filters a factor x factor block: its color is the average
+ * of the painted pixels and its alpha the fraction of the block that is painted.
+ */
+export async function renderDownsampledPixelsToPng(
+  pixels: RenderablePixel[],
+  region: ImageRegion,
+  factor: number
+): Promise<Buffer> {
+  if (factor === 1) {
+    return renderPixelsToPng(pixels, { region, scale: 1 });
+  }
+
+  const width = Math.ceil((region.maxX - region.minX + 1) / factor);
+  const height = Math.ceil((region.maxY - region.minY + 1) / factor);
+  const sums = new Uint32Array(width * height * 3);
+  const counts = new Uint32Array(width * height);
+
+  for (const pixel of pixels) {
+    if (pixel.x < region.minX || pixel.x > region.maxX || pixel.y < region.minY || pixel.y > region.maxY) {
+      continue;
+    }
+
+    const [r, g, b] = hexToRgb(pixel.color);
+    const index = Math.floor((pixel.y - region.minY) / factor) * width + Math.floor((pixel.x - region.minX) / factor);
+    sums[index * 3] += r;
+    sums[index * 3 + 1] += g;
+    sums[index * 3 + 2] += b;
+    counts[index]++;
+  }
+
+  const stride = 1 + width * BYTES_PER_PIXEL;
+  const scanlines = Buffer.alloc(stride * height);
+  const blockSize = factor * factor;
+
+  for (let index = 0; index < counts.length; index++) {
+    const count = counts[index];
+    if (count === 0) continue;
+
+    const offset = Math.floor(index / width) * stride + 1 + (index % width) * BYTES_PER_PIXEL;
+    scanlines[offset] = Math.round(sums[index * 3] / count);
+    scanlines[offset + 1] = Math.round(sums[index * 3 + 1] / count);
+    scanlines[offset + 2] = Math.round(sums[index * 3 + 2] / count);
+    scanlines[offset + 3] = Math.round((255 * count) / blockSize);
+  }
+
+  return encodePng(width, height, scanlines);
+}
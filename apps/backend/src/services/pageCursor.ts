@@ -0,0 +1,23 @@
+/**
+ * Opaque paging cursors for lists ordered by (timestamp, _id).
+ * The _id breaks ties, so entries sharing a millisecond are never skipped at a page boundary.
+ */
+export interface PageCursor {
+  timestamp: Date;
+  id: string; // ObjectId hex string
+}
+
+export function encodePageCursor(timestamp: Date, id: { toString(): string }): string {
+  return Buffer.from(`${timestamp.getTime()}:${id.toString()}`).toString('base64url');
+}
+
+/**
+ * Returns null for cursors this server did not hand out
+ */
+export function decodePageCursor(cursor: string): PageCursor | null {
+  const [ms, id] = Buffer.from(cursor, 'base64url').toString().split(':');
+  if (!/^\d+$/.test(ms ?? '') || !/^[0-9a-f]{24}$/i.test(id ?? '')) {
+    return null;
+  }
+  return { timestamp: new Date(parseInt(ms, 10)), id };
+}
@@ -1,4 +1,7 @@
 import { Pixel } from '../models/pixel.model';
+import { BoardInfo } from '@libs/common-types';
+import { getChunkForPixel, getChunkKey, getChunksInRect } from '@libs/utils';
+import { DEFAULT_BOARD } from './board.service';
 
 export interface PixelRecord {
   x: number;
@@ -8,25 +11,41 @@ export interface PixelRecord {
   timestamp: Date;
 }
 
+// Pixels grouped by chunk key, then by coordinate key
+type PixelBuffer = Map<string, Map<string, PixelRecord>>;
+
+// A coordinate emptied by a rollback, replayed like an update after a reload
+interface ClearedPixel {
+  x: number;
+  y: number;
+  cleared: true;
+}
+
 /**
  * PixelCacheService
  * - Maintains a thread-safe (event-loop safe) double-buffered in-memory cache
  * - Full reload from DB every 15 minutes (configurable)
  * - Atomic buffer swap; reads are always from the active buffer
  * - Writes are mirrored to memory (active buffer) and DB by repository
+ * - Pixels are bucketed by chunk so region reads only touch overlapping chunks
+ * - One cache per board
  */
 export class PixelCacheService {
-  private buffers: [Map<string, PixelRecord>, Map<string, PixelRecord>] = [
+  private buffers: [PixelBuffer, PixelBuffer] = [
     new Map(),
     new Map(),
   ];
   private activeIndex = 0; // 0 or 1
   private reloadTimer: NodeJS.Timeout | null = null;
   private isLoading = false;
-  private pendingSinceReload: PixelRecord[] = [];
+  private hasLoaded = false; // A load from the database has completed
+  private currentLoad: Promise<void> | null = null;
+  private pendingSinceReload: Array<PixelRecord | ClearedPixel> = [];
   private reloadIntervalMs: number;
+  private board: BoardInfo;
 
-  constructor(reloadIntervalMs = 15 * 60 * 1000) {
+  constructor(board: BoardInfo = DEFAULT_BOARD, reloadIntervalMs = 15 * 60 * 1000) {
+    this.board = board;
     this.reloadIntervalMs = reloadIntervalMs;
   }
 
@@ -42,6 +61,15 @@ export class PixelCacheService {
         console.error('❌ Scheduled pixel cache reload failed:', e);
       });
     }, this.reloadIntervalMs);
+    // Caches are created on demand per board; they must not keep the process alive on their own
+    this.reloadTimer.unref();
+  }
+
+  /**
+   * Follow a change of the board definition (e.g. a resize)
+   */
+  public setBoard(board: BoardInfo): void {
+    this.board = board;
   }
 
   public stop(): void {
@@ -56,11 +84,8 @@ export class PixelCacheService {
    * queue it to be replayed onto the new buffer before swap to prevent loss.
    */
   public applyUpdate(update: PixelRecord): void {
-    const key = this.key(update.x, update.y);
-
     // Update active buffer
-    const active = this.buffers[this.activeIndex];
-    active.set(key, update);
+    this.setPixel(this.buffers[this.activeIndex], update);
 
     // If reloading, keep a record to replay onto the incoming buffer
     if (this.isLoading) {
@@ -68,44 +93,102 @@ export class PixelCacheService {
     }
   }
 
+  /**
+   * Empty a coordinate (its placements were rolled back with nothing before them)
+   */
+  public removePixel(x: number, y: number): void {
+    this.deletePixel(this.buffers[this.activeIndex], x, y);
+
+    if (this.isLoading) {
+      this.pendingSinceReload.push({ x, y, cleared: true });
+    }
+  }
+
+  /**
+   * Get the cached pixel at a coordinate, or null when it is empty
+   */
+  public getPixel(x: number, y: number): PixelRecord | null {
+    const { cx, cy } = getChunkForPixel(x, y);
+    return this.buffers[this.activeIndex].get(getChunkKey(cx, cy))?.get(this.key(x, y)) ?? null;
+  }
+
   public getAll(): PixelRecord[] {
-    const active = this.buffers[this.activeIndex];
-    return Array.from(active.values());
+    const result: PixelRecord[] = [];
+    this.buffers[this.activeIndex].forEach((chunk) => {
+      chunk.forEach((p) => result.push(p));
+    });
+    return result;
   }
 
   public getRegion(minX: number, minY: number, maxX: number, maxY: number): PixelRecord[] {
     const active = this.buffers[this.activeIndex];
     const result: PixelRecord[] = [];
-    active.forEach((p) => {
-      if (p.x >= minX && p.x <= maxX && p.y >= minY && p.y <= maxY) {
-        result.push(p);
-      }
-    });
+    for (const { cx, cy } of getChunksInRect(minX, minY, maxX, maxY, this.board.width, this.board.height)) {
+      active.get(getChunkKey(cx, cy))?.forEach((p) => {
+        if (p.x >= minX && p.x <= maxX && p.y >= minY && p.y <= maxY) {
+          result.push(p);
+        }
+      });
+    }
     return result;
   }
 
+  /**
+   * Get every cached pixel of one chunk
+   */
+  public getChunk(cx: number, cy: number): PixelRecord[] {
+    const chunk = this.buffers[this.activeIndex].get(getChunkKey(cx, cy));
+    return chunk ? Array.from(chunk.values()) : [];
+  }
+
   public getStats(): { count: number; activeIndex: number; isLoading: boolean } {
     return {
-      count: this.buffers[this.activeIndex].size,
+      count: this.countPixels(this.buffers[this.activeIndex]),
       activeIndex: this.activeIndex,
       isLoading: this.isLoading,
     };
   }
 
+  /**
+   * Resolve once the cache holds the board; reads before that would see an empty canvas.
+   * A failed initial load is tried again.
+   */
+  public async whenLoaded(): Promise<void> {
+    if (!this.hasLoaded) {
+      await this.reloadFromDatabase();
+    }
+  }
+
   /**
    * Full reload from DB with double-buffer swap and replay of in-flight updates.
+   * Callers during a reload share it.
    */
-  public async reloadFromDatabase(): Promise<void> {
-    if (this.isLoading) return;
+  public reloadFromDatabase(): Promise<void> {
+    if (!this.currentLoad) {
+      this.currentLoad = this.loadFromDatabase().finally(() => {
+        this.currentLoad = null;
+      });
+    }
+    return this.currentLoad;
+  }
 
+  private async loadFromDatabase(): Promise<void> {
     this.isLoading = true;
-    console.log('🔄 Reloading pixel cache from database...');
+    console.log(`🔄 Reloading pixel cache of board "${this.board.id}" from database...`);
 
     const standbyIndex = this.activeIndex ^ 1;
-    const newBuffer = new Map<string, PixelRecord>();
+    const newBuffer: PixelBuffer = new Map();
 
     // Load latest per-coordinate pixels
-    const rows = await (Pixel as any).getCurrentCanvasState();
+    let rows: any[];
+    try {
+      rows = await (Pixel as any).getCurrentCanvasState(this.board.id);
+    } catch (error) {
+      // The active buffer already holds the updates queued meanwhile
+      this.pendingSinceReload = [];
+      this.isLoading = false;
+      throw error;
+    }
     for (const row of rows as any[]) {
       const rec: PixelRecord = {
         x: row.x,
@@ -114,22 +197,52 @@ export class PixelCacheService {
         userId: row.userId,
         timestamp: row.timestamp,
       };
-      newBuffer.set(this.key(rec.x, rec.y), rec);
+      this.setPixel(newBuffer, rec);
     }
 
     // Replay any updates that happened during load
     const pending = this.pendingSinceReload;
     this.pendingSinceReload = [];
     for (const upd of pending) {
-      newBuffer.set(this.key(upd.x, upd.y), upd);
+      if ('cleared' in upd) {
+        this.deletePixel(newBuffer, upd.x, upd.y);
+      } else {
+        this.setPixel(newBuffer, upd);
+      }
     }
 
     // Swap buffers atomically
     this.buffers[standbyIndex] = newBuffer;
     this.activeIndex = standbyIndex;
     this.isLoading = false;
+    this.hasLoaded = true;
+
+    console.log(`✅ Pixel cache of board "${this.board.id}" reloaded: ${this.countPixels(newBuffer)} pixels (replayed ${pending.length} updates)`);
+  }
+
+  private setPixel(buffer: PixelBuffer, pixel: PixelRecord): void {
+    const { cx, cy } = getChunkForPixel(pixel.x, pixel.y);
+    const chunkKey = getChunkKey(cx, cy);
+
+    let chunk = buffer.get(chunkKey);
+    if (!chunk) {
+      chunk = new Map();
+      buffer.set(chunkKey, chunk);
+    }
+    chunk.set(this.key(pixel.x, pixel.y), pixel);
+  }
 
-    console.log(`✅ Pixel cache reloaded: ${newBuffer.size} pixels (replayed ${pending.length} updates)`);
+  private deletePixel(buffer: PixelBuffer, x: number, y: number): void {
+    const { cx, cy } = getChunkForPixel(x, y);
+    buffer.get(getChunkKey(cx, cy))?.delete(this.key(x, y));
+  }
+
+  private countPixels(buffer: PixelBuffer): number {
+    let count = 0;
+    buffer.forEach((chunk) => {
+      count += chunk.size;
+    });
+    return count;
   }
 
   private key(x: number, y: number): string {
@@ -137,21 +250,31 @@ export class PixelCacheService {
   }
 }
 
-// Global singleton
-let pixelCacheService: PixelCacheService | null = null;
+// One cache per board, created on first use
+const pixelCacheServices: Map<string, PixelCacheService> = new Map();
 
-export function initializePixelCacheService(): PixelCacheService {
+export function initializePixelCacheService(board: BoardInfo = DEFAULT_BOARD): PixelCacheService {
+  let pixelCacheService = pixelCacheServices.get(board.id);
   if (!pixelCacheService) {
-    pixelCacheService = new PixelCacheService();
+    pixelCacheService = new PixelCacheService(board);
     pixelCacheService.start();
+    pixelCacheServices.set(board.id, pixelCacheService);
   }
   return pixelCacheService;
 }
 
-export function getPixelCacheService(): PixelCacheService {
+export function getPixelCacheService(boardId: string = DEFAULT_BOARD.id): PixelCacheService {
+  const pixelCacheService = pixelCacheServices.get(boardId);
   if (!pixelCacheService) {
-    throw new Error('PixelCacheService not initialized');
+    throw new Error(`PixelCacheService not initialized for board ${boardId}`);
   }
   return pixelCacheService;
 }
 
+/**
+ * Stop the reload timers of every board cache (e.g. on shutdown)
+ */
+export function stopAllPixelCacheServices(): void {
+  pixelCacheServices.forEach((pixelCacheService) => pixelCacheService.stop());
+}
+
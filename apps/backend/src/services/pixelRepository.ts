@@ -1,10 +1,26 @@
+import { BoardInfo } from '@libs/common-types';
 import { Pixel } from '../models/pixel.model';
 import { getPixelCacheService, initializePixelCacheService } from './pixelCache.service';
+import { getTileService, initializeTileService } from './tile.service';
+import { DEFAULT_BOARD } from './board.service';
 
 export class PixelRepository {
-  constructor() {
-    // Ensure cache service is initialized
-    initializePixelCacheService();
+  public board: BoardInfo; // Replaced by setBoard when the board definition changes
+
+  constructor(board: BoardInfo = DEFAULT_BOARD) {
+    this.board = board;
+    // Ensure cache and tile services of the board are initialized
+    initializePixelCacheService(board);
+    initializeTileService(board);
+  }
+
+  /**
+   * Follow a change of the board definition in the repository, its cache and its tiles
+   */
+  public setBoard(board: BoardInfo): void {
+    this.board = board;
+    getPixelCacheService(board.id).setBoard(board);
+    getTileService(board.id).setBoard(board);
   }
 
   /**
@@ -12,43 +28,90 @@ export class PixelRepository {
    */
   public async recordPixel(x: number, y: number, color: string, userId: string, timestamp: Date = new Date()): Promise<void> {
     // Persist event (append-only log)
-    const pixel = new Pixel({ x, y, color, userId, timestamp });
+    const pixel = new Pixel({ boardId: this.board.id, x, y, color, userId, timestamp });
     await pixel.save();
 
     // Mirror to memory cache (last-write-wins)
-    getPixelCacheService().applyUpdate({ x, y, color, userId, timestamp });
+    getPixelCacheService(this.board.id).applyUpdate({ x, y, color, userId, timestamp });
+
+    // Re-render only the tiles containing this pixel
+    getTileService(this.board.id).invalidatePixel(x, y);
+  }
+
+  /**
+   * Record several pixel updates of one user with a single bulk insert, then mirror them to the cache.
+   * Undo placements are flagged as such in the event log.
+   */
+  public async recordPixels(
+    pixels: Array<{ x: number; y: number; color: string }>,
+    userId: string,
+    timestamp: Date = new Date(),
+    undo = false
+  ): Promise<void> {
+    // Ordered, so a failure leaves no later placement behind without its predecessors
+    await Pixel.insertMany(
+      pixels.map(({ x, y, color }) => ({ boardId: this.board.id, x, y, color, userId, timestamp, ...(undo && { undo: true }) })),
+      { ordered: true }
+    );
+
+    const cache = getPixelCacheService(this.board.id);
+    const tiles = getTileService(this.board.id);
+    pixels.forEach(({ x, y, color }) => {
+      cache.applyUpdate({ x, y, color, userId, timestamp });
+      tiles.invalidatePixel(x, y);
+    });
+  }
+
+  /**
+   * Get the current pixel at a coordinate from memory cache, or null when it is empty
+   */
+  public getPixel(x: number, y: number) {
+    return getPixelCacheService(this.board.id).getPixel(x, y);
   }
 
   /**
    * Get latest canvas state from memory cache (fast path)
    */
   public getCanvasState(): Array<{ x: number; y: number; color: string; userId: string; timestamp: Date }> {
-    return getPixelCacheService().getAll();
+    return getPixelCacheService(this.board.id).getAll();
   }
 
   public getPixelsInRegion(minX: number, minY: number, maxX: number, maxY: number) {
-    return getPixelCacheService().getRegion(minX, minY, maxX, maxY);
+    return getPixelCacheService(this.board.id).getRegion(minX, minY, maxX, maxY);
+  }
+
+  public getChunk(cx: number, cy: number) {
+    return getPixelCacheService(this.board.id).getChunk(cx, cy);
   }
 
   public getStats() {
-    return getPixelCacheService().getStats();
+    return getPixelCacheService(this.board.id).getStats();
   }
 }
 
-// Singleton accessors
-let pixelRepository: PixelRepository | null = null;
+// One repository per board, created on first use
+const pixelRepositories: Map<string, PixelRepository> = new Map();
 
-export function initializePixelRepository(): PixelRepository {
+export function initializePixelRepository(board: BoardInfo = DEFAULT_BOARD): PixelRepository {
+  let pixelRepository = pixelRepositories.get(board.id);
   if (!pixelRepository) {
-    pixelRepository = new PixelRepository();
+    pixelRepository = new PixelRepository(board);
+    pixelRepositories.set(board.id, pixelRepository);
   }
   return pixelRepository;
 }
 
-export function getPixelRepository(): PixelRepository {
+export function getPixelRepository(boardId: string = DEFAULT_BOARD.id): PixelRepository {
+  const pixelRepository = pixelRepositories.get(boardId);
   if (!pixelRepository) {
-    throw new Error('PixelRepository not initialized');
+    throw new Error(`PixelRepository not initialized for board ${boardId}`);
   }
   return pixelRepository;
 }
 
+/**
+ * Apply a changed board definition to the board's repository, if it is in use
+ */
+export function refreshPixelRepository(board: BoardInfo): void {
+  pixelRepositories.get(board.id)?.setBoard(board);
+}
\ No newline at end of file
@@ -0,0 +1,141 @@
+import { ProtectedRegionInfo, ProtectedRegionShape, UserRole } from '@libs/common-types';
+import { getRegionShapeBounds, isPixelInRegionShape } from '@libs/utils';
+import { ProtectedRegion, IProtectedRegion } from '../models/protectedRegion.model';
+import { User } from '../models/user.model';
+import { hasRole } from './role.service';
+
+export interface ProtectedRegionFields {
+  name: string;
+  shape: ProtectedRegionShape;
+  allowedUserIds: string[];
+  allowedRoles: UserRole[];
+}
+
+/**
+ * Region with its bounds precomputed for placement checks
+ */
+interface CachedRegion {
+  region: IProtectedRegion;
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+}
+
+// Regions of every board checked so far; reloaded after any change to the board's regions
+const regionCache = new Map<string, Promise<CachedRegion[]>>();
+
+const loadRegions = (boardId: string): Promise<CachedRegion[]> => {
+  let regions = regionCache.get(boardId);
+  if (!regions) {
+    regions = ProtectedRegion.find({ boardId }).then((found) =>
+      found.map((region) => ({ region, bounds: getRegionShapeBounds(region.shape) }))
+    );
+    // A failed load is retried by the next placement
+    regions.catch(() => regionCache.delete(boardId));
+    regionCache.set(boardId, regions);
+  }
+  return regions;
+};
+
+/**
+ * Whether a user may paint inside a region: listed users, listed roles (and the roles above them), and admins
+ */
+export function canPaintInRegion(region: IProtectedRegion, userId: string, role: UserRole): boolean {
+  return (
+    hasRole(role, 'admin') ||
+    region.allowedUserIds.includes(userId) ||
+    region.allowedRoles.some((allowedRole) => hasRole(role, allowedRole))
+  );
+}
+
+/**
+ * Find a protected region that keeps the user from painting a pixel.
+ * Returns null when the placement is allowed.
+ */
+export async function findBlockingRegion(
+  boardId: string,
+  x: number,
+  y: number,
+  userId: string,
+  role: UserRole
+): Promise<IProtectedRegion | null> {
+  const regions = await loadRegions(boardId);
+  const blocking = regions.find(({ region, bounds }) =>
+    x >= bounds.minX && x <= bounds.maxX && y >= bounds.minY && y <= bounds.maxY &&
+    isPixelInRegionShape(x, y, region.shape) &&
+    !canPaintInRegion(region, userId, role)
+  );
+  return blocking?.region ?? null;
+}
+
+/**
+ * Convert regions to their API form, resolving the nicknames of the allowed users
+ */
+export async function toProtectedRegionInfos(regions: IProtectedRegion[]): Promise<ProtectedRegionInfo[]> {
+  const userIds = [...new Set(regions.flatMap((region) => region.allowedUserIds))];
+  const users = userIds.length > 0 ? await User.find({ userId: { $in: userIds } }).select({ userId: 1, nickname: 1 }) : [];
+  const nicknames = new Map(users.map((user) => [user.userId, user.nickname]));
+
+  return regions.map((region) => ({
+    id: region._id.toString(),
+    boardId: region.boardId,
+    name: region.name,
+    shape: region.shape,
+    allowedUsers: region.allowedUserIds.map((userId) => ({ userId, nickname: nicknames.get(userId) ?? null })),
+    allowedRoles: region.allowedRoles,
+    createdBy: region.createdBy,
+    createdAt: region.createdAt.toISOString(),
+  }));
+}
+
+export async function listProtectedRegions(boardId: string): Promise<IProtectedRegion[]> {
+  return ProtectedRegion.find({ boardId }).sort({ createdAt: 1 });
+}
+
+export async function createProtectedRegion(
+  boardId: string,
+  fields: ProtectedRegionFields,
+  createdBy: string
+): Promise<IProtectedRegion> {
+  const region = await ProtectedRegion.create({ boardId, ...fields, createdBy });
+  regionCache.delete(boardId);
+  console.log(`🛡️ ${createdBy} protected region "${region.name}" on board ${boardId}`);
+  return region;
+}
+
+/**
+ * Change some fields of a region.
+ * Returns null when the region does not exist on the board.
+ */
+export async function updateProtectedRegion(
+  boardId: string,
+  regionId: string,
+  fields: Partial<ProtectedRegionFields>
+): Promise<IProtectedRegion | null> {
+  const region = await ProtectedRegion.findOneAndUpdate({ _id: regionId, boardId }, fields, { new: true });
+  if (region) {
+    regionCache.delete(boardId);
+    console.log(`🛡️ Updated protected region "${region.name}" on board ${boardId}`);
+  }
+  return region;
+}
+
+/**
+ * Remove a region; returns false when it does not exist on the board
+ */
+export async function deleteProtectedRegion(boardId: string, regionId: string): Promise<boolean> {
+  const region = await ProtectedRegion.findOne({ _id: regionId, boardId });
+  if (!region) {
+    return false;
+  }
+
+  await region.deleteOne();
+  regionCache.delete(boardId);
+  console.log(`🛡️ Removed protected region "${region.name}" from board ${boardId}`);
+  return true;
+}
+
+/**
+ * Forget the cached regions of every board (for tests)
+ */
+export function resetProtectedRegionCache(): void {
+  regionCache.clear();
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { UserRole } from '@libs/common-types';
+import { User, IUser } from '../models/user.model';
+
+export const USER_ROLES: UserRole[] = ['user', 'moderator', 'admin'];
+
+export function isValidRole(role: unknown): role is UserRole {
+  return USER_ROLES.includes(role as UserRole);
+}
+
+/**
+ * Check whether a role grants the permissions of another (admins can moderate)
+ */
+export function hasRole(role: UserRole, requiredRole: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(requiredRole);
+}
+
+/**
+ * Change the role of a stored user.
+ * Returns null when the user does not exist.
+ */
+export async function setUserRole(userId: string, role: UserRole): Promise<IUser | null> {
+  const user = await User.findOneAndUpdate({ userId }, { role }, { new: true });
+  if (user) {
+    console.log(`🛡️ User ${userId} is now ${role}`);
+  }
+  return user;
+}
+
+/**
+ * Promote the users listed in ADMIN_USER_IDS to admin (run on startup)
+ */
+export async function bootstrapAdmins(userIds: string[]): Promise<number> {
+  let promoted = 0;
+  for (const userId of userIds) {
+    const user = await User.findOne({ userId });
+    if (!user) {
+      console.warn(`⚠️ Admin bootstrap: user ${userId} not found; create the session first, then restart`);
+      continue;
+    }
+    if (user.role !== 'admin') {
+      await setUserRole(userId, 'admin');
+      promoted++;
+    }
+  }
+  return promoted;
+}
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { BoardInfo, RollbackPixelChange } from '@libs/common-types';
+import { Pixel, ACTIVE_PIXEL_FILTER } from '../models/pixel.model';
+import { getPixelCacheService, PixelRecord } from './pixelCache.service';
+import { getTileService } from './tile.service';
+import { getBroadcastService } from '../ws/broadcast';
+
+export const ROLLBACK_PREVIEW_LIMIT = 500;
+const ROLLBACK_STATE_BATCH = 500; // Coordinates recomputed per query
+
+/**
+ * Placements to revert: a user's, the ones inside a rectangle during a time window,
+ * or both restrictions combined
+ */
+export interface RollbackCriteria {
+  userId?: string;
+  region?: { minX: number; minY: number; maxX: number; maxY: number };
+  from?: Date;
+  to?: Date;
+}
+
+export interface RollbackResult {
+  events: number; // Placements reverted
+  changes: RollbackPixelChange[]; // Coordinates whose pixel changes
+}
+
+const sameEvent = (a: PixelRecord, b: PixelRecord): boolean => {
+  return (
+    a.color === b.color &&
+    a.userId === b.userId &&
+    new Date(a.timestamp).getTime() === new Date(b.timestamp).getTime()
+  );
+};
+
+/**
+ * Revert the matching placements of a board.
+ * Reverted events stay in the pixel log (marked with revertedAt) and every coordinate
+ * falls back to its latest remaining placement, or becomes empty without one.
+ * The cache, tiles and connected clients are updated unless dryRun is set.
+ */
+export async function rollbackPlacements(
+  board: BoardInfo,
+  criteria: RollbackCriteria,
+  options: { dryRun: boolean; revertedBy: string }
+): Promise<RollbackResult> {
+  const criteriaFilter: Record<string, any> = {};
+  if (criteria.userId !== undefined) {
+    criteriaFilter.userId = criteria.userId;
+  }
+  if (criteria.region) {
+    criteriaFilter.x = { $gte: criteria.region.minX, $lte: criteria.region.maxX };
+    criteriaFilter.y = { $gte: criteria.region.minY, $lte: criteria.region.maxY };
+  }
+  if (criteria.from || criteria.to) {
+    criteriaFilter.timestamp = {
+      ...(criteria.from ? { $gte: criteria.from } : {}),
+      ...(criteria.to ? { $lte: criteria.to } : {}),
+    };
+  }
+  const filter = { boardId: board.id, ...ACTIVE_PIXEL_FILTER, ...criteriaFilter };
+
+  // Mark the placements first so the remaining state is simply the active log;
+  // a dry run leaves them alone and skips them while recomputing instead
+  let targets: Array<{ x: number; y: number }>;
+  let remainingMatch: Record<string, any> = {};
+  if (options.dryRun) {
+    targets = await Pixel.find(filter).select({ _id: 0, x: 1, y: 1 }).lean();
+    remainingMatch = { $nor: [criteriaFilter] };
+  } else {
+    const revertedAt = new Date();
+    const { modifiedCount } = await Pixel.updateMany(filter, { $set: { revertedAt, revertedBy: options.revertedBy } });
+    targets = modifiedCount === 0
+      ? []
+      : await Pixel.find({ boardId: board.id, revertedAt, revertedBy: options.revertedBy }).select({ _id: 0, x: 1, y: 1 }).lean();
+  }
+  if (targets.length === 0) {
+    return { events: 0, changes: [] };
+  }
+
+  // Latest remaining placement of every touched coordinate
+  const coordinates = new Map<string, { x: number; y: number }>();
+  targets.forEach(({ x, y }) => coordinates.set(`${x},${y}`, { x, y }));
+
+  const remaining = new Map<string, PixelRecord>();
+  const touched = Array.from(coordinates.values());
+  for (let i = 0; i < touched.length; i += ROLLBACK_STATE_BATCH) {
+    const batch = touched.slice(i, i + ROLLBACK_STATE_BATCH);
+    const rows = await (Pixel as any).getCoordinatesState(board.id, batch, remainingMatch);
+    for (const row of rows as PixelRecord[]) {
+      remaining.set(`${row.x},${row.y}`, row);
+    }
+  }
+
+  // Coordinates whose current pixel is one of the reverted placements
+  const cache = getPixelCacheService(board.id);
+  const changes: RollbackPixelChange[] = [];
+  const restored: Array<{ x: number; y: number; pixel: PixelRecord | null }> = [];
+  coordinates.forEach(({ x, y }, key) => {
+    const current = cache.getPixel(x, y);
+    const pixel = remaining.get(key) ?? null;
+    if (!current || (pixel && sameEvent(current, pixel))) {
+      return;
+    }
+
+    changes.push({ x, y, color: current.color, restoredColor: pixel?.color ?? null });
+    restored.push({ x, y, pixel });
+  });
+
+  if (options.dryRun) {
+    return { events: targets.length, changes };
+  }
+
+  const tiles = getTileService(board.id);
+  const broadcastService = getBroadcastService();
+  restored.forEach(({ x, y, pixel }) => {
+    if (pixel) {
+      cache.applyUpdate(pixel);
+    } else {
+      cache.removePixel(x, y);
+    }
+    tiles.invalidatePixel(x, y);
+
+    broadcastService?.queuePixelUpdate({
+      boardId: board.id,
+      x,
+      y,
+      color: pixel?.color ?? '#000000',
+      userId: pixel?.userId ?? options.revertedBy,
+      timestamp: pixel?.timestamp ?? new Date(),
+      ...(pixel ? {} : { erased: true }),
+    });
+  });
+
+  console.log(`⏪ Rolled back ${targets.length} placements on board ${board.id}, restoring ${changes.length} pixels`);
+  return { events: targets.length, changes };
+}
@@ -0,0 +1,133 @@
+import { SanctionInfo, SanctionType } from '@libs/common-types';
+import { Sanction, ISanction } from '../models/sanction.model';
+import { getWebSocketService } from '../ws/WebSocketService';
+import config from '../config';
+
+export const SANCTION_TYPES: SanctionType[] = ['ban', 'mute'];
+
+export interface ActiveSanctions {
+  ban: ISanction | null;
+  mute: ISanction | null;
+}
+
+export function isValidSanctionType(type: unknown): type is SanctionType {
+  return SANCTION_TYPES.includes(type as SanctionType);
+}
+
+/**
+ * Whether a sanction still applies at the given time (not lifted, not expired)
+ */
+export function isSanctionActive(sanction: ISanction, now: Date = new Date()): boolean {
+  return !sanction.liftedAt && (sanction.expiresAt === null || sanction.expiresAt > now);
+}
+
+/**
+ * Filter matching the sanctions that still apply
+ */
+const activeSanctionFilter = (now: Date) => ({
+  liftedAt: { $exists: false },
+  $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+});
+
+export function toSanctionInfo(sanction: ISanction): SanctionInfo {
+  return {
+    id: sanction._id.toString(),
+    userId: sanction.userId,
+    type: sanction.type,
+    reason: sanction.reason,
+    expiresAt: sanction.expiresAt ? sanction.expiresAt.toISOString() : null,
+    createdBy: sanction.createdBy,
+    createdAt: sanction.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Get the active ban and mute of a user.
+ * When several overlap, the one lasting longest wins.
+ */
+export async function getActiveSanctions(userId: string): Promise<ActiveSanctions> {
+  const sanctions = await Sanction.find({ userId, ...activeSanctionFilter(new Date()) });
+  const result: ActiveSanctions = { ban: null, mute: null };
+
+  sanctions.forEach((sanction) => {
+    const current = result[sanction.type];
+    if (
+      !current ||
+      (current.expiresAt !== null && (sanction.expiresAt === null || sanction.expiresAt > current.expiresAt))
+    ) {
+      result[sanction.type] = sanction;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * List active sanctions, newest first
+ */
+export async function listActiveSanctions(userId?: string): Promise<ISanction[]> {
+  return Sanction.find({
+    ...(userId ? { userId } : {}),
+    ...activeSanctionFilter(new Date()),
+  }).sort({ createdAt: -1 });
+}
+
+/**
+ * Ban or mute a user; permanent without a duration.
+ * Connected sockets of the user are updated right away.
+ */
+export async function createSanction(
+  userId: string,
+  type: SanctionType,
+  reason: string,
+  options: { durationMs?: number; createdBy: string }
+): Promise<ISanction> {
+  const expiresAt = options.durationMs !== undefined ? new Date(Date.now() + options.durationMs) : null;
+  const sanction = await Sanction.create({ userId, type, reason, expiresAt, createdBy: options.createdBy });
+
+  console.log(`🔨 ${options.createdBy} issued a ${type} for ${userId} until ${expiresAt?.toISOString() ?? 'forever'}: ${reason}`);
+  await getWebSocketService()?.refreshSanctions(userId);
+  void notifySignaling(userId);
+  return sanction;
+}
+
+/**
+ * Lift an active sanction early.
+ * Returns null when the sanction does not exist or no longer applies.
+ */
+export async function liftSanction(sanctionId: string, liftedBy: string): Promise<ISanction | null> {
+  const sanction = await Sanction.findById(sanctionId);
+  if (!sanction || !isSanctionActive(sanction)) {
+    return null;
+  }
+
+  sanction.liftedAt = new Date();
+  sanction.liftedBy = liftedBy;
+  await sanction.save();
+
+  console.log(`🕊️ ${liftedBy} lifted the ${sanction.type} of ${sanction.userId}`);
+  await getWebSocketService()?.refreshSanctions(sanction.userId);
+  void notifySignaling(sanction.userId);
+  return sanction;
+}
+
+/**
+ * Let the signaling service re-check a user whose sanctions changed, so peer chat
+ * follows a new mute or ban without waiting for the user to rejoin
+ */
+async function notifySignaling(userId: string): Promise<void> {
+  if (!config.signalingUrl) return;
+
+  try {
+    const response = await fetch(`${config.signalingUrl}/api/sanctions/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId }),
+    });
+    if (!response.ok) {
+      console.warn(`⚠️ Signaling service answered ${response.status} to the sanction change of ${userId}`);
+    }
+  } catch (error) {
+    console.warn(`⚠️ Could not tell the signaling service about the sanction change of ${userId}:`, error);
+  }
+}
\ No newline at end of file
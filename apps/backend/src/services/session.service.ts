@@ -0,0 +1,50 @@
+import { User, IUser } from '../models/user.model';
+
+/**
+ * Name of the cookie that carries the user session (set by POST /api/users)
+ */
+export const SESSION_COOKIE_NAME = 'userId';
+
+/**
+ * Parse a raw Cookie header into a name/value map.
+ * Used where cookie-parser middleware is not available (e.g. WebSocket upgrades).
+ */
+export function parseCookieHeader(header?: string): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) {
+    return cookies;
+  }
+
+  for (const part of header.split(';')) {
+    const separatorIndex = part.indexOf('=');
+    if (separatorIndex === -1) continue;
+
+    const name = part.slice(0, separatorIndex).trim();
+    const rawValue = part.slice(separatorIndex + 1).trim().replace(/^"(.*)"$/, '$1');
+    if (!name || name in cookies) continue;
+
+    try {
+      cookies[name] = decodeURIComponent(rawValue);
+    } catch {
+      cookies[name] = rawValue;
+    }
+  }
+
+  return cookies;
+}
+
+/**
+ * Extract the session user ID from a raw Cookie header
+ */
+export function getSessionUserId(cookieHeader?: string): string | undefined {
+  const userId = parseCookieHeader(cookieHeader)[SESSION_COOKIE_NAME];
+  return userId || undefined;
+}
+
+/**
+ * Resolve a session user ID to a stored user.
+ * Returns null when the ID does not belong to a known user (forged or expired session).
+ */
+export async function findSessionUser(userId: string): Promise<IUser | null> {
+  return User.findOne({ userId });
+}
@@ -0,0 +1,196 @@
+import { createHash } from 'crypto';
+import { BoardInfo } from '@libs/common-types';
+import { getPixelCacheService } from './pixelCache.service';
+import { renderDownsampledPixelsToPng } from './imageRenderer';
+import { DEFAULT_BOARD } from './board.service';
+
+export const TILE_SIZE = 256; // Tile edge in output pixels
+
+/**
+ * Deepest zoom level of a board; at that zoom one canvas pixel is one tile pixel
+ */
+export function getMaxTileZoom(width: number, height: number): number {
+  return Math.max(0, Math.ceil(Math.log2(Math.max(width, height) / TILE_SIZE)));
+}
+
+// Deepest zoom level of the main board
+export const MAX_TILE_ZOOM = getMaxTileZoom(DEFAULT_BOARD.width, DEFAULT_BOARD.height);
+
+export interface Tile {
+  png: Buffer;
+  etag: string;
+  lastModified: Date | null; // Latest placement in the tile; null for empty tiles
+}
+
+/**
+ * TileService
+ * - Renders the canvas as a zoom pyramid of 256x256 PNG tiles from the pixel cache
+ * - Zoom 0 is a single tile covering the whole board; each level doubles the resolution
+ * - Tiles are rendered on demand and cached until a placement touches them
+ * - One pyramid per board; the zoom depth follows the longer board edge
+ */
+export class TileService {
+  private board: BoardInfo;
+  private maxZoom: number;
+  private tiles: Map<string, Tile> = new Map();
+  private pending: Map<string, Promise<Tile>> = new Map();
+  private generations: Map<string, number> = new Map(); // Bumped on invalidation
+
+  constructor(board: BoardInfo = DEFAULT_BOARD) {
+    this.board = board;
+    this.maxZoom = getMaxTileZoom(board.width, board.height);
+  }
+
+  /**
+   * Follow a change of the board definition; a resize changes the pyramid, so every tile is dropped
+   */
+  public setBoard(board: BoardInfo): void {
+    this.board = board;
+    this.maxZoom = getMaxTileZoom(board.width, board.height);
+    this.invalidateAll();
+  }
+
+  public getMaxZoom(): number {
+    return this.maxZoom;
+  }
+
+  /**
+   * Canvas pixels covered by one tile pixel at a zoom level
+   */
+  public getPixelSpan(z: number): number {
+    return 2 ** (this.maxZoom - z);
+  }
+
+  /**
+   * Number of tile columns and rows at a zoom level
+   */
+  public getTileGridSize(z: number): { columns: number; rows: number } {
+    const tileCanvasSize = TILE_SIZE * this.getPixelSpan(z);
+    return {
+      columns: Math.ceil(this.board.width / tileCanvasSize),
+      rows: Math.ceil(this.board.height / tileCanvasSize),
+    };
+  }
+
+  public isValidTile(z: number, x: number, y: number): boolean {
+    if (!Number.isInteger(z) || z < 0 || z > this.maxZoom) {
+      return false;
+    }
+    const { columns, rows } = this.getTileGridSize(z);
+    return Number.isInteger(x) && Number.isInteger(y) && x >= 0 && y >= 0 && x < columns && y < rows;
+  }
+
+  /**
+   * Get a tile, rendering it if it isn't cached. Concurrent requests share one render.
+   */
+  public async getTile(z: number, x: number, y: number): Promise<Tile> {
+    const key = this.key(z, x, y);
+
+    const cached = this.tiles.get(key);
+    if (cached) return cached;
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const generation = this.generations.get(key) ?? 0;
+    const render = this.renderTile(z, x, y)
+      .then((tile) => {
+        // Don't cache a tile that was invalidated while it was being rendered
+        if ((this.generations.get(key) ?? 0) === generation) {
+          this.tiles.set(key, tile);
+        }
+        return tile;
+      })
+      .finally(() => {
+        this.pending.delete(key);
+      });
+
+    this.pending.set(key, render);
+    return render;
+  }
+
+  /**
+   * Drop the tiles containing a canvas pixel, at every zoom level
+   */
+  public invalidatePixel(x: number, y: number): void {
+    for (let z = 0; z <= this.maxZoom; z++) {
+      const tileCanvasSize = TILE_SIZE * this.getPixelSpan(z);
+      const key = this.key(z, Math.floor(x / tileCanvasSize), Math.floor(y / tileCanvasSize));
+
+      this.tiles.delete(key);
+      this.generations.set(key, (this.generations.get(key) ?? 0) + 1);
+    }
+  }
+
+  /**
+   * Drop every cached tile (e.g. after the canvas changed in bulk)
+   */
+  public invalidateAll(): void {
+    this.tiles.clear();
+    this.pending.forEach((_render, key) => {
+      this.generations.set(key, (this.generations.get(key) ?? 0) + 1);
+    });
+  }
+
+  public getStats(): { cachedTiles: number; pendingRenders: number } {
+    return {
+      cachedTiles: this.tiles.size,
+      pendingRenders: this.pending.size,
+    };
+  }
+
+  private async renderTile(z: number, x: number, y: number): Promise<Tile> {
+    const span = this.getPixelSpan(z);
+    const tileCanvasSize = TILE_SIZE * span;
+    const region = {
+      minX: x * tileCanvasSize,
+      minY: y * tileCanvasSize,
+      maxX: (x + 1) * tileCanvasSize - 1,
+      maxY: (y + 1) * tileCanvasSize - 1,
+    };
+
+    // A tile rendered before the cache is loaded would be cached empty
+    const cache = getPixelCacheService(this.board.id);
+    await cache.whenLoaded();
+    const pixels = cache.getRegion(region.minX, region.minY, region.maxX, region.maxY);
+    const png = await renderDownsampledPixelsToPng(pixels, region, span);
+
+    let lastModified: Date | null = null;
+    for (const pixel of pixels) {
+      const timestamp = new Date(pixel.timestamp);
+      if (!lastModified || timestamp > lastModified) {
+        lastModified = timestamp;
+      }
+    }
+
+    return {
+      png,
+      etag: `"${createHash('sha1').update(png).digest('base64url')}"`,
+      lastModified,
+    };
+  }
+
+  private key(z: number, x: number, y: number): string {
+    return `${z}/${x}/${y}`;
+  }
+}
+
+// One tile pyramid per board, created on first use
+const tileServices: Map<string, TileService> = new Map();
+
+export function initializeTileService(board: BoardInfo = DEFAULT_BOARD): TileService {
+  let tileService = tileServices.get(board.id);
+  if (!tileService) {
+    tileService = new TileService(board);
+    tileServices.set(board.id, tileService);
+  }
+  return tileService;
+}
+
+export function getTileService(boardId: string = DEFAULT_BOARD.id): TileService {
+  const tileService = tileServices.get(boardId);
+  if (!tileService) {
+    throw new Error(`TileService not initialized for board ${boardId}`);
+  }
+  return tileService;
+}
@@ -1,18 +1,70 @@
-import { WebSocketServer, WebSocket } from 'ws';
-import { Server } from 'http';
-import { Pixel } from '../models/pixel.model';
-import { getPixelRepository } from '../services/pixelRepository';
-import { User } from '../models/user.model';
-import { isValidCanvasCoordinate, isValidHexColor } from '@libs/utils';
+import { WebSocketServer, WebSocket, VerifyClientCallbackAsync } from 'ws';
+import { Server, IncomingMessage } from 'http';
+import { getPixelRepository, initializePixelRepository } from '../services/pixelRepository';
+import { getSessionUserId, findSessionUser } from '../services/session.service';
+import { findBoard } from '../services/board.service';
+import { getActiveSanctions, ActiveSanctions } from '../services/sanction.service';
+import { findBlockingRegion } from '../services/protectedRegion.service';
+import {
+  saveChatMessage,
+  getChatHistory,
+  chatMessageExists,
+  getSlowModeMs,
+  MAX_SLOW_MODE_MS,
+} from '../services/chat.service';
+import { hasRole } from '../services/role.service';
+import { ISanction } from '../models/sanction.model';
+import {
+  DEFAULT_BOARD_ID,
+  isValidCanvasCoordinate,
+  isValidHexColor,
+  isColorInPalette,
+  BINARY_SUBPROTOCOL,
+  JSON_SUBPROTOCOL,
+  BINARY_DRAW_PIXEL,
+  getBinaryMessageType,
+  decodeDrawPixel,
+  encodePixelUpdate,
+  isValidChatMessageId,
+  normalizeChatMessage,
+} from '@libs/utils';
 import { 
+  BoardInfo,
+  UserRole,
   ClientMessage, 
   ServerMessage, 
   DrawPixelMessage, 
+  DrawPixelPayload,
+  DrawPixelsMessage,
+  DrawPixelAckMessage,
+  DrawPixelsAckMessage,
+  DrawPixelsRejectedMessage,
   PixelUpdateMessage,
+  ResumeMessage,
+  ReloadCanvasMessage,
   KeepalivePingMessage,
+  SessionMessage,
+  CooldownMessage,
+  CooldownPayload,
+  RateLimitedMessage,
+  BannedMessage,
+  MutedMessage,
+  SanctionLiftedMessage,
+  SanctionPayload,
+  ChatSendMessage,
+  ChatBroadcastMessage,
+  ChatHistoryMessage,
+  ChatMessageData,
+  ChatDeleteMessage,
+  ChatSettingsMessage,
+  ErrorCode,
+  ErrorMessage,
+  ErrorPayload,
   WebSocketMessage 
 } from '@libs/common-types';
 import { BroadcastService, initializeBroadcastService, getBroadcastService } from './broadcast';
+import { TokenBucketRateLimiter, RateLimitPolicy, RateLimitResult } from './rateLimiter';
+import config from '../config';
 import { captureException, addBreadcrumb, setUserContext } from '../config/sentry';
 
 interface ExtendedWebSocket extends WebSocket {
@@ -22,8 +74,30 @@ interface ExtendedWebSocket extends WebSocket {
 
 interface ConnectedClient {
   socket: ExtendedWebSocket;
-  userId?: string;
+  board: BoardInfo; // Chosen with the ?board= query parameter
+  userId?: string; // Only set for connections with a valid session cookie
+  role: UserRole; // Role at connection time
+  profile?: { nickname: string; color: string }; // Author details of chat messages
   connectedAt: Date;
+  binary: boolean; // Pixel traffic uses binary frames instead of JSON
+  sanctions: ActiveSanctions; // Ban and mute of the user, kept current by refreshSanctions
+}
+
+/**
+ * Upgrade request annotated with the board and session resolved during verifyClient
+ */
+interface SessionRequest extends IncomingMessage {
+  board?: BoardInfo;
+  sessionUserId?: string;
+  sessionRole?: UserRole;
+  sessionProfile?: { nickname: string; color: string };
+  sessionSanctions?: ActiveSanctions;
+}
+
+export interface WebSocketServiceOptions {
+  rateLimit?: RateLimitPolicy; // Defaults to config.pixelRateLimit
+  chatRateLimit?: RateLimitPolicy; // Defaults to config.chatRateLimit
+  pixelBatchMaxSize?: number; // Defaults to config.pixelBatchMaxSize
 }
 
 export class WebSocketService {
@@ -31,15 +105,26 @@ export class WebSocketService {
   private clients: Map<string, ConnectedClient> = new Map();
   private pingInterval: NodeJS.Timeout | null = null;
   private broadcastService: BroadcastService;
+  private rateLimiter: TokenBucketRateLimiter;
+  private chatRateLimiter: TokenBucketRateLimiter;
+  private pixelBatchMaxSize: number;
+  private lastChatAt: Map<string, number> = new Map(); // Keyed by boardId:userId, for slow mode
 
-  constructor(server: Server) {
+  constructor(server: Server, options: WebSocketServiceOptions = {}) {
     this.wss = new WebSocketServer({ 
       server,
-      path: '/ws'
+      path: '/ws',
+      verifyClient: this.verifyClient,
+      handleProtocols: this.selectProtocol,
     });
 
     // Initialize broadcast service
-    this.broadcastService = initializeBroadcastService();
+    this.broadcastService = initializeBroadcastService(config.broadcastHistorySize);
+
+    // Per-user placement budget
+    this.rateLimiter = new TokenBucketRateLimiter(options.rateLimit ?? config.pixelRateLimit);
+    this.chatRateLimiter = new TokenBucketRateLimiter(options.chatRateLimit ?? config.chatRateLimit);
+    this.pixelBatchMaxSize = options.pixelBatchMaxSize ?? config.pixelBatchMaxSize;
 
     this.setupWebSocketServer();
     this.startPingInterval();
@@ -58,30 +143,117 @@ export class WebSocketService {
     });
   }
 
-  private handleNewConnection(socket: ExtendedWebSocket, request: any): void {
+  /**
+   * Clients that offer the binary subprotocol get binary pixel frames; everyone else stays on JSON
+   */
+  private selectProtocol = (protocols: Set<string>): string | false => {
+    if (protocols.has(BINARY_SUBPROTOCOL)) return BINARY_SUBPROTOCOL;
+    if (protocols.has(JSON_SUBPROTOCOL)) return JSON_SUBPROTOCOL;
+    return false;
+  };
+
+  /**
+   * Resolve the board and the session cookie before accepting the upgrade.
+   * - ?board= names the board to subscribe to (the main board when omitted); unknown boards are refused with 404
+   * - No cookie: accepted as an anonymous, read-only connection
+   * - Cookie for an unknown user (forged or stale): refused with 401
+   */
+  private verifyClient: VerifyClientCallbackAsync<SessionRequest> = (info, callback) => {
+    const boardId = new URL(info.req.url ?? '/', 'http://localhost').searchParams.get('board') ?? DEFAULT_BOARD_ID;
+    const userId = getSessionUserId(info.req.headers.cookie);
+
+    Promise.all([
+      findBoard(boardId),
+      userId ? findSessionUser(userId) : null,
+      userId ? getActiveSanctions(userId) : null,
+    ])
+      .then(([board, user, sanctions]) => {
+        if (!board) {
+          console.warn(`🚫 Refusing WebSocket upgrade for unknown board: ${boardId}`);
+          callback(false, 404, 'Unknown board');
+          return;
+        }
+
+        if (userId && !user) {
+          console.warn(`🚫 Refusing WebSocket upgrade with unknown session: ${userId}`);
+          callback(false, 401, 'Invalid session');
+          return;
+        }
+
+        initializePixelRepository(board);
+        info.req.board = board;
+        info.req.sessionUserId = user?.userId;
+        info.req.sessionRole = user?.role;
+        info.req.sessionProfile = user ? { nickname: user.nickname, color: user.color } : undefined;
+        info.req.sessionSanctions = sanctions ?? undefined;
+        callback(true);
+      })
+      .catch((error) => {
+        console.error('❌ Failed to verify WebSocket upgrade:', error);
+        captureException(error as Error, { context: 'websocket_session_verification' });
+        callback(false, 500, 'Session verification failed');
+      });
+  };
+
+  private handleNewConnection(socket: ExtendedWebSocket, request: SessionRequest): void {
     const clientId = this.generateClientId();
+    const board = request.board!;
+    const userId = request.sessionUserId;
+    const binary = socket.protocol === BINARY_SUBPROTOCOL;
     socket.isAlive = true;
+    socket.userId = userId;
 
     // Store client connection
     this.clients.set(clientId, {
       socket,
+      board,
+      userId,
+      role: request.sessionRole ?? 'user',
+      profile: request.sessionProfile,
       connectedAt: new Date(),
+      binary,
+      sanctions: request.sessionSanctions ?? { ban: null, mute: null },
     });
 
     // Add client to broadcast service
-    this.broadcastService.addClient(clientId, socket);
+    this.broadcastService.addClient(clientId, socket, board.id, userId, binary);
 
-    console.log(`🔗 New WebSocket connection: ${clientId} (${this.clients.size} total clients)`);
+    console.log(`🔗 New WebSocket connection: ${clientId} on board ${board.id} as ${userId ?? 'anonymous (read-only)'}${binary ? ' (binary)' : ''} (${this.clients.size} total clients)`);
     addBreadcrumb(
       `New WebSocket connection: ${clientId}`,
       'websocket',
-      { clientId, totalClients: this.clients.size }
+      { clientId, boardId: board.id, userId, totalClients: this.clients.size }
     );
 
+    // Tell the client who it is and whether it may draw
+    const sessionMessage: SessionMessage = {
+      type: 'SESSION',
+      payload: {
+        boardId: board.id,
+        userId: userId ?? null,
+        readOnly: !userId,
+        seq: this.broadcastService.getCurrentSeq(board.id),
+        epoch: this.broadcastService.getEpoch(),
+        // A batch larger than the placement budget could never be accepted
+        maxBatchSize: Math.min(this.pixelBatchMaxSize, this.rateLimiter.getPolicy().capacity),
+      },
+    };
+    socket.send(JSON.stringify(sessionMessage));
+
+    // Let writable sessions know their current placement budget and sanctions
+    if (userId) {
+      this.sendCooldownMessage(socket, this.rateLimiter.peek(userId));
+      this.sendSanctionMessages(this.clients.get(clientId)!, { ban: null, mute: null });
+    }
+
+    // Late joiners catch up on the conversation
+    this.sendChatSettings(socket, board.id);
+    this.sendChatHistory(socket, board.id);
+
     // Handle incoming messages
-    socket.on('message', async (data: Buffer) => {
+    socket.on('message', async (data: Buffer, isBinary: boolean) => {
       try {
-        await this.handleMessage(clientId, data);
+        await (isBinary ? this.handleBinaryMessage(clientId, data) : this.handleMessage(clientId, data));
       } catch (error) {
         console.error(`❌ Error handling message from ${clientId}:`, error);
         captureException(error as Error, { 
@@ -89,7 +261,7 @@ export class WebSocketService {
           clientId,
           messageSize: data.length 
         });
-        this.sendErrorMessage(socket, 'Invalid message format');
+        this.sendErrorMessage(socket, 'Invalid message format', 'INVALID_MESSAGE');
       }
     });
 
@@ -126,7 +298,7 @@ export class WebSocketService {
       message = JSON.parse(data.toString()) as ClientMessage;
     } catch (error) {
       console.error(`❌ Invalid JSON from client ${clientId}:`, error);
-      this.sendErrorMessage(client.socket, 'Invalid JSON format');
+      this.sendErrorMessage(client.socket, 'Invalid JSON format', 'INVALID_MESSAGE');
       return;
     }
 
@@ -136,7 +308,19 @@ export class WebSocketService {
       case 'DRAW_PIXEL':
         await this.handleDrawPixel(clientId, message as DrawPixelMessage);
         break;
+
+      case 'DRAW_PIXELS':
+        await this.handleDrawPixels(clientId, message as DrawPixelsMessage);
+        break;
       
+      case 'RESUME':
+        this.handleResume(clientId, message as ResumeMessage);
+        break;
+
+      case 'CHAT_SEND':
+        await this.handleChatSend(clientId, message as ChatSendMessage);
+        break;
+
       case 'KEEPALIVE_PONG':
         client.socket.isAlive = true;
         console.log(`💓 Keepalive pong from ${clientId}`);
@@ -144,45 +328,116 @@ export class WebSocketService {
       
       default:
         console.warn(`⚠️ Unknown message type from ${clientId}:`, (message as any).type);
-        this.sendErrorMessage(client.socket, `Unknown message type: ${(message as any).type}`);
+        this.sendErrorMessage(client.socket, `Unknown message type: ${(message as any).type}`, 'INVALID_MESSAGE');
     }
   }
 
+  /**
+   * Handle a binary frame; only DRAW_PIXEL is sent in binary
+   */
+  private async handleBinaryMessage(clientId: string, data: Buffer): Promise<void> {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      console.warn(`⚠️ Message from unknown client: ${clientId}`);
+      return;
+    }
+
+    const type = getBinaryMessageType(data);
+    if (type !== BINARY_DRAW_PIXEL) {
+      console.warn(`⚠️ Unknown binary message type from ${clientId}:`, type);
+      this.sendErrorMessage(client.socket, `Unknown binary message type: ${type}`, 'INVALID_MESSAGE');
+      return;
+    }
+
+    let payload: DrawPixelMessage['payload'];
+    try {
+      payload = decodeDrawPixel(data);
+    } catch (error) {
+      console.error(`❌ Invalid binary frame from client ${clientId}:`, error);
+      this.sendErrorMessage(client.socket, 'Invalid binary frame', 'INVALID_MESSAGE');
+      return;
+    }
+
+    await this.handleDrawPixel(clientId, { type: 'DRAW_PIXEL', payload });
+  }
+
   private async handleDrawPixel(clientId: string, message: DrawPixelMessage): Promise<void> {
     const client = this.clients.get(clientId);
     if (!client) return;
 
+    // Replies carry the client's request ID so it can settle its optimistic pixel
+    const rawRequestId = message.payload?.requestId;
+    const requestId = typeof rawRequestId === 'number' && Number.isInteger(rawRequestId) && rawRequestId >= 0 && rawRequestId <= 0xffffffff
+      ? rawRequestId
+      : undefined;
+    const reject = (reason: string, code: ErrorCode) => {
+      this.sendErrorMessage(client.socket, reason, code, { requestId });
+    };
+
+    // Anonymous connections are read-only
+    const userId = client.userId;
+    if (!userId) {
+      reject('A valid session is required to draw pixels', 'UNAUTHENTICATED');
+      return;
+    }
+
+    // Banned users stay connected to watch, but cannot draw
+    const ban = client.sanctions.ban;
+    if (ban && this.isSanctionInEffect(ban)) {
+      console.log(`🔨 Rejected DRAW_PIXEL from banned user ${userId}`);
+      reject(`You are banned: ${ban.reason}`, 'USER_BANNED');
+      this.sendBannedMessage(client.socket, ban);
+      return;
+    }
+
     try {
       // Validate payload
       const { x, y, color } = message.payload;
       
-      if (!this.validateDrawPixelPayload(x, y, color)) {
-        this.sendErrorMessage(client.socket, 'Invalid pixel data');
+      if (!this.validateDrawPixelPayload(client.board, x, y, color)) {
+        reject('Invalid pixel data', 'INVALID_PIXEL');
+        return;
+      }
+
+      if (!isColorInPalette(color, client.board.palette)) {
+        reject(`Color ${color} is not in the palette of board ${client.board.id}`, 'COLOR_NOT_IN_PALETTE');
+        return;
+      }
+
+      const region = await findBlockingRegion(client.board.id, x, y, userId, client.role);
+      if (region) {
+        reject(`Pixel (${x}, ${y}) is inside the protected region "${region.name}"`, 'REGION_PROTECTED');
         return;
       }
 
-      // For now, use a default user ID if client doesn't have one
-      // In a future implementation, this would come from authentication
-      let userId = client.userId;
-      if (!userId) {
-        userId = await this.getOrCreateDefaultUser();
-        client.userId = userId;
+      // Enforce the per-user placement budget
+      const rateLimit = this.rateLimiter.consume(userId);
+      if (!rateLimit.allowed) {
+        console.log(`⏳ Rate limited DRAW_PIXEL from ${userId}: retry in ${rateLimit.retryAfterMs}ms`);
+        const rateLimitedMessage: RateLimitedMessage = {
+          type: 'RATE_LIMITED',
+          payload: { ...this.buildCooldownPayload(rateLimit), x, y, ...(requestId !== undefined && { requestId }) },
+        };
+        client.socket.send(JSON.stringify(rateLimitedMessage));
+        return;
       }
 
-      console.log(`🎨 Processing DRAW_PIXEL from ${clientId}: (${x},${y}) ${color}`);
+      const boardId = client.board.id;
+      console.log(`🎨 Processing DRAW_PIXEL from ${clientId} on board ${boardId}: (${x},${y}) ${color}`);
       addBreadcrumb(
         `Pixel drawn: (${x},${y}) ${color}`,
         'pixel',
-        { clientId, x, y, color }
+        { clientId, boardId, x, y, color }
       );
 
       // Persist to database and mirror to memory cache
       const timestamp = new Date();
-      await getPixelRepository().recordPixel(x, y, color, userId, timestamp);
+      await getPixelRepository(boardId).recordPixel(x, y, color, userId, timestamp);
       console.log(`✅ Pixel saved to DB and cache: (${x},${y}) ${color} by ${userId}`);
 
       // Queue pixel update for batched broadcasting
       this.broadcastService.queuePixelUpdate({
+        boardId,
         x,
         y,
         color,
@@ -190,6 +445,15 @@ export class WebSocketService {
         timestamp,
       });
 
+      if (requestId !== undefined) {
+        const ackMessage: DrawPixelAckMessage = {
+          type: 'DRAW_PIXEL_ACK',
+          payload: { requestId },
+        };
+        client.socket.send(JSON.stringify(ackMessage));
+      }
+      this.sendCooldownMessage(client.socket, rateLimit);
+
     } catch (error) {
       console.error(`❌ Error processing DRAW_PIXEL from ${clientId}:`, error);
       captureException(error as Error, { 
@@ -197,26 +461,343 @@ export class WebSocketService {
         clientId,
         pixelData: message.payload
       });
-      this.sendErrorMessage(client.socket, 'Failed to save pixel');
+      reject('Failed to save pixel', 'INTERNAL_ERROR');
+    }
+  }
+
+  /**
+   * Handle a DRAW_PIXELS batch: every pixel is validated first, then the whole
+   * batch is saved, cached and queued for broadcasting at once, or nothing is.
+   */
+  private async handleDrawPixels(clientId: string, message: DrawPixelsMessage): Promise<void> {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    const batchId = typeof message.payload?.batchId === 'string' && /^[A-Za-z0-9_-]{1,64}$/.test(message.payload.batchId)
+      ? message.payload.batchId
+      : null;
+    const reject = (code: ErrorCode, reason: string, index: number | null = null, pixel: DrawPixelPayload | null = null) => {
+      const rejectedMessage: DrawPixelsRejectedMessage = {
+        type: 'DRAW_PIXELS_REJECTED',
+        payload: { batchId, code, message: reason, index, pixel },
+      };
+      client.socket.send(JSON.stringify(rejectedMessage));
+      // The client spent its local budget on the batch; tell it what is actually left
+      if (client.userId) {
+        this.sendCooldownMessage(client.socket, this.rateLimiter.peek(client.userId));
+      }
+    };
+
+    // Anonymous connections are read-only
+    const userId = client.userId;
+    if (!userId) {
+      reject('UNAUTHENTICATED', 'A valid session is required to draw pixels');
+      return;
+    }
+
+    // Banned users stay connected to watch, but cannot draw
+    const ban = client.sanctions.ban;
+    if (ban && this.isSanctionInEffect(ban)) {
+      console.log(`🔨 Rejected DRAW_PIXELS from banned user ${userId}`);
+      reject('USER_BANNED', `You are banned: ${ban.reason}`);
+      this.sendBannedMessage(client.socket, ban);
+      return;
+    }
+
+    const pixels = message.payload?.pixels;
+    if (!batchId || !Array.isArray(pixels) || pixels.length === 0) {
+      reject('INVALID_MESSAGE', 'A batch needs a batchId and at least one pixel');
+      return;
+    }
+    if (pixels.length > this.pixelBatchMaxSize) {
+      reject('BATCH_TOO_LARGE', `A batch may contain at most ${this.pixelBatchMaxSize} pixels`);
+      return;
+    }
+
+    try {
+      const board = client.board;
+      const repository = getPixelRepository(board.id);
+      const undo = message.payload.undo === true;
+      const coordinates = new Set<string>();
+
+      for (let index = 0; index < pixels.length; index++) {
+        const pixel = pixels[index];
+        const { x, y, color } = pixel ?? {};
+
+        if (!this.validateDrawPixelPayload(board, x, y, color)) {
+          reject('INVALID_PIXEL', `Invalid pixel data at index ${index}`, index, pixel ?? null);
+          return;
+        }
+
+        const key = `${x},${y}`;
+        if (coordinates.has(key)) {
+          reject('INVALID_PIXEL', `Pixel (${x}, ${y}) appears more than once in the batch`, index, pixel);
+          return;
+        }
+        coordinates.add(key);
+
+        if (!isColorInPalette(color, board.palette)) {
+          reject('COLOR_NOT_IN_PALETTE', `Color ${color} is not in the palette of board ${board.id}`, index, pixel);
+          return;
+        }
+
+        const region = await findBlockingRegion(board.id, x, y, userId, client.role);
+        if (region) {
+          reject('REGION_PROTECTED', `Pixel (${x}, ${y}) is inside the protected region "${region.name}"`, index, pixel);
+          return;
+        }
+
+        // Undo only restores pixels nobody else has painted since
+        if (undo && repository.getPixel(x, y)?.userId !== userId) {
+          reject('UNDO_CONFLICT', `Pixel (${x}, ${y}) has been painted over by someone else`, index, pixel);
+          return;
+        }
+      }
+
+      // Every pixel costs a placement token; the batch only goes through when all of them are available
+      const rateLimit = this.rateLimiter.consumeMany(userId, pixels.length);
+      if (!rateLimit.allowed) {
+        console.log(`⏳ Rate limited DRAW_PIXELS (${pixels.length} pixels) from ${userId}`);
+        reject(
+          'PIXEL_RATE_LIMITED',
+          Number.isFinite(rateLimit.retryAfterMs)
+            ? `Not enough placements left for ${pixels.length} pixels: retry in ${Math.ceil(rateLimit.retryAfterMs / 1000)}s`
+            : `A batch may not contain more pixels than the placement budget (${this.rateLimiter.getPolicy().capacity})`
+        );
+        return;
+      }
+
+      const accepted = pixels.map(({ x, y, color }) => ({ x, y, color }));
+      console.log(`🎨 Processing DRAW_PIXELS ${batchId} from ${clientId} on board ${board.id}: ${accepted.length} pixels${undo ? ' (undo)' : ''}`);
+      addBreadcrumb(
+        `Pixels drawn: ${accepted.length}`,
+        'pixel',
+        { clientId, boardId: board.id, batchId, count: accepted.length, undo }
+      );
+
+      // Persist with one bulk insert and mirror to memory cache
+      const timestamp = new Date();
+      await repository.recordPixels(accepted, userId, timestamp, undo);
+
+      this.broadcastService.queuePixelUpdates(
+        accepted.map(({ x, y, color }) => ({ boardId: board.id, x, y, color, userId, timestamp }))
+      );
+
+      const ackMessage: DrawPixelsAckMessage = {
+        type: 'DRAW_PIXELS_ACK',
+        payload: { batchId, count: accepted.length },
+      };
+      client.socket.send(JSON.stringify(ackMessage));
+      this.sendCooldownMessage(client.socket, rateLimit);
+
+    } catch (error) {
+      console.error(`❌ Error processing DRAW_PIXELS from ${clientId}:`, error);
+      captureException(error as Error, {
+        context: 'pixel_batch_processing',
+        clientId,
+        batchId,
+      });
+      reject('INTERNAL_ERROR', 'Failed to save pixels');
+    }
+  }
+
+  /**
+   * Replay the batches a reconnecting client missed, or ask it to reload the
+   * canvas when they have already dropped out of the broadcast history or
+   * were numbered by another server run
+   */
+  private handleResume(clientId: string, message: ResumeMessage): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    const lastSeq = message.payload?.lastSeq;
+    if (!Number.isInteger(lastSeq) || lastSeq < 0) {
+      this.sendErrorMessage(client.socket, 'Invalid sequence number', 'INVALID_MESSAGE');
+      return;
+    }
+
+    const boardId = client.board.id;
+    const sameRun = message.payload.epoch === this.broadcastService.getEpoch();
+    const missed = sameRun ? this.broadcastService.getUpdatesSince(boardId, lastSeq) : null;
+    if (!missed) {
+      console.log(`🔄 Client ${clientId} cannot resume board ${boardId} from #${lastSeq} (latest #${this.broadcastService.getCurrentSeq(boardId)}), requesting reload`);
+      const reloadMessage: ReloadCanvasMessage = { type: 'RELOAD_CANVAS' };
+      client.socket.send(JSON.stringify(reloadMessage));
+      return;
+    }
+
+    console.log(`⏩ Resuming client ${clientId} from #${lastSeq} with ${missed.length} missed batches`);
+    missed.forEach(batch => {
+      client.socket.send(client.binary ? encodePixelUpdate(batch.payload) : JSON.stringify(batch));
+    });
+  }
+
+  /**
+   * Store a chat message and relay it to everyone on the board, the sender included
+   */
+  private async handleChatSend(clientId: string, message: ChatSendMessage): Promise<void> {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    const id = message.payload?.id;
+    const chatMessageId = typeof id === 'string' ? id : undefined;
+    const reject = (reason: string, code: ErrorCode): void => {
+      this.sendErrorMessage(client.socket, reason, code, { chatMessageId });
+    };
+
+    const userId = client.userId;
+    if (!userId || !client.profile) {
+      reject('A valid session is required to chat', 'UNAUTHENTICATED');
+      return;
+    }
+
+    const { ban, mute } = client.sanctions;
+    if (ban && this.isSanctionInEffect(ban)) {
+      reject(`You are banned: ${ban.reason}`, 'USER_BANNED');
+      return;
+    }
+    if (mute && this.isSanctionInEffect(mute)) {
+      console.log(`🔇 Rejected CHAT_SEND from muted user ${userId}`);
+      reject(`You are muted: ${mute.reason}`, 'USER_MUTED');
+      return;
+    }
+
+    const text = normalizeChatMessage(message.payload?.message);
+    const replyTo = message.payload?.replyTo;
+    if (!isValidChatMessageId(id) || text === null || (replyTo !== undefined && !isValidChatMessageId(replyTo))) {
+      reject('Invalid chat message', 'INVALID_MESSAGE');
+      return;
+    }
+
+    const boardId = client.board.id;
+    const slowModeKey = `${boardId}:${userId}`;
+
+    // Moderators keep talking during slow mode
+    const slowModeMs = getSlowModeMs(boardId);
+    if (slowModeMs > 0 && !hasRole(client.role, 'moderator')) {
+      const waitMs = (this.lastChatAt.get(slowModeKey) ?? 0) + slowModeMs - Date.now();
+      if (waitMs > 0) {
+        reject(`Slow mode is on: wait ${Math.ceil(waitMs / 1000)}s before sending another message`, 'CHAT_SLOW_MODE');
+        return;
+      }
+    }
+
+    const rateLimit = this.chatRateLimiter.consume(userId);
+    if (!rateLimit.allowed) {
+      console.log(`⏳ Rate limited CHAT_SEND from ${userId}: retry in ${rateLimit.retryAfterMs}ms`);
+      reject(`You are sending messages too fast: wait ${Math.ceil(rateLimit.retryAfterMs / 1000)}s`, 'CHAT_RATE_LIMITED');
+      return;
+    }
+
+    // Reserve the slow mode slot before awaiting, so a second message sent meanwhile is refused
+    const previousChatAt = this.lastChatAt.get(slowModeKey);
+    const reservedAt = Date.now();
+    this.lastChatAt.set(slowModeKey, reservedAt);
+    const releaseSlot = (): void => {
+      if (this.lastChatAt.get(slowModeKey) !== reservedAt) return;
+      if (previousChatAt === undefined) {
+        this.lastChatAt.delete(slowModeKey);
+      } else {
+        this.lastChatAt.set(slowModeKey, previousChatAt);
+      }
+    };
+
+    try {
+      if (replyTo && !(await chatMessageExists(boardId, replyTo))) {
+        releaseSlot();
+        reject('The message you replied to no longer exists', 'INVALID_MESSAGE');
+        return;
+      }
+
+      const saved = await saveChatMessage(boardId, { userId, ...client.profile }, id, text, replyTo ?? null);
+      if (!saved) {
+        releaseSlot();
+        console.log(`💬 Ignoring duplicate chat message ${id} from ${userId}`);
+        return;
+      }
+
+      console.log(`💬 Chat message ${id} from ${userId} on board ${boardId}`);
+      this.broadcastChatMessage(boardId, saved);
+
+    } catch (error) {
+      releaseSlot();
+      console.error(`❌ Error processing CHAT_SEND from ${clientId}:`, error);
+      captureException(error as Error, { context: 'chat_processing', clientId });
+      reject('Failed to send chat message', 'INTERNAL_ERROR');
+    }
+  }
+
+  private broadcastChatMessage(boardId: string, message: ChatMessageData): void {
+    const chatMessage: ChatBroadcastMessage = { type: 'CHAT_MESSAGE', payload: message };
+    this.sendToBoard(boardId, JSON.stringify(chatMessage));
+  }
+
+  /**
+   * Remove a message deleted by a moderator from every chat on the board
+   */
+  public broadcastChatDelete(boardId: string, messageId: string): void {
+    const deleteMessage: ChatDeleteMessage = { type: 'CHAT_DELETE', payload: { id: messageId } };
+    this.sendToBoard(boardId, JSON.stringify(deleteMessage));
+  }
+
+  private buildChatSettingsMessage(boardId: string): ChatSettingsMessage {
+    return {
+      type: 'CHAT_SETTINGS',
+      payload: {
+        slowModeMs: getSlowModeMs(boardId),
+        rateLimit: this.chatRateLimiter.getPolicy(),
+        blockedWords: config.chatBlockedWords,
+      },
+    };
+  }
+
+  private sendChatSettings(socket: WebSocket, boardId: string): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(this.buildChatSettingsMessage(boardId)));
     }
   }
 
-  private validateDrawPixelPayload(x: any, y: any, color: any): boolean {
+  /**
+   * Tell everyone on the board about a changed slow mode
+   */
+  public broadcastChatSettings(boardId: string): void {
+    this.sendToBoard(boardId, JSON.stringify(this.buildChatSettingsMessage(boardId)));
+  }
+
+  private sendToBoard(boardId: string, data: string): void {
+    this.clients.forEach((client) => {
+      if (client.board.id === boardId && client.socket.readyState === WebSocket.OPEN) {
+        client.socket.send(data);
+      }
+    });
+  }
+
+  /**
+   * Send the latest chat messages of the board to a new connection
+   */
+  private sendChatHistory(socket: WebSocket, boardId: string): void {
+    getChatHistory(boardId, config.chatHistorySize)
+      .then((page) => {
+        if (socket.readyState !== WebSocket.OPEN) return;
+        const historyMessage: ChatHistoryMessage = { type: 'CHAT_HISTORY', payload: page };
+        socket.send(JSON.stringify(historyMessage));
+      })
+      .catch((error) => {
+        console.error(`❌ Failed to load chat history of board ${boardId}:`, error);
+        captureException(error as Error, { context: 'chat_history', boardId });
+      });
+  }
+
+  private validateDrawPixelPayload(board: BoardInfo, x: any, y: any, color: any): boolean {
     return (
       typeof x === 'number' &&
       typeof y === 'number' &&
       typeof color === 'string' &&
-      isValidCanvasCoordinate(x, y) &&
+      isValidCanvasCoordinate(x, y, board.width, board.height) &&
       isValidHexColor(color)
     );
   }
 
-  private async getOrCreateDefaultUser(): Promise<string> {
-    // For now, return a default user ID
-    // In a real implementation, this would be handled by authentication
-    return 'anonymous-user';
-  }
-
 
   private handleDisconnection(clientId: string, code: number, reason: Buffer): void {
     const client = this.clients.get(clientId);
@@ -231,12 +812,121 @@ export class WebSocketService {
     }
   }
 
-  private sendErrorMessage(socket: WebSocket, message: string): void {
+  private sendErrorMessage(
+    socket: WebSocket,
+    message: string,
+    code: ErrorCode,
+    origin: Pick<ErrorPayload, 'chatMessageId' | 'requestId'> = {}
+  ): void {
     if (socket.readyState === WebSocket.OPEN) {
-      socket.send(JSON.stringify({
+      // The rejected chat message or placement, when the client identified it
+      const { chatMessageId, requestId } = origin;
+      const errorMessage: ErrorMessage = {
         type: 'ERROR',
-        payload: { message },
-      }));
+        payload: {
+          message,
+          code,
+          ...(chatMessageId !== undefined && { chatMessageId }),
+          ...(requestId !== undefined && { requestId }),
+        },
+      };
+      socket.send(JSON.stringify(errorMessage));
+    }
+  }
+
+  /**
+   * A sanction loaded at connection time may have expired since
+   */
+  private isSanctionInEffect(sanction: ISanction): boolean {
+    return sanction.expiresAt === null || sanction.expiresAt.getTime() > Date.now();
+  }
+
+  private buildSanctionPayload(sanction: ISanction): SanctionPayload {
+    return {
+      reason: sanction.reason,
+      expiresAt: sanction.expiresAt ? sanction.expiresAt.toISOString() : null,
+    };
+  }
+
+  private sendBannedMessage(socket: WebSocket, ban: ISanction): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      const bannedMessage: BannedMessage = {
+        type: 'BANNED',
+        payload: this.buildSanctionPayload(ban),
+      };
+      socket.send(JSON.stringify(bannedMessage));
+    }
+  }
+
+  /**
+   * Tell a client about sanctions issued or lifted since the previous state
+   */
+  private sendSanctionMessages(client: ConnectedClient, previous: ActiveSanctions): void {
+    const { socket, sanctions } = client;
+    if (socket.readyState !== WebSocket.OPEN) return;
+
+    const { ban, mute } = sanctions;
+    if (ban && ban.id !== previous.ban?.id) {
+      this.sendBannedMessage(socket, ban);
+    } else if (!ban && previous.ban) {
+      const liftedMessage: SanctionLiftedMessage = { type: 'SANCTION_LIFTED', payload: { type: 'ban' } };
+      socket.send(JSON.stringify(liftedMessage));
+    }
+
+    if (mute && mute.id !== previous.mute?.id) {
+      const mutedMessage: MutedMessage = { type: 'MUTED', payload: this.buildSanctionPayload(mute) };
+      socket.send(JSON.stringify(mutedMessage));
+    } else if (!mute && previous.mute) {
+      const liftedMessage: SanctionLiftedMessage = { type: 'SANCTION_LIFTED', payload: { type: 'mute' } };
+      socket.send(JSON.stringify(liftedMessage));
+    }
+  }
+
+  /**
+   * Validate further placements of a board's connections against its changed definition
+   */
+  public refreshBoard(board: BoardInfo): void {
+    this.clients.forEach((client) => {
+      if (client.board.id === board.id) {
+        client.board = board;
+      }
+    });
+  }
+
+  /**
+   * Reload the sanctions of a user after a moderator issued or lifted one,
+   * and notify every connection of that user
+   */
+  public async refreshSanctions(userId: string): Promise<void> {
+    const userClients = Array.from(this.clients.values()).filter((client) => client.userId === userId);
+    if (userClients.length === 0) return;
+
+    const sanctions = await getActiveSanctions(userId);
+    userClients.forEach((client) => {
+      const previous = client.sanctions;
+      client.sanctions = sanctions;
+      this.sendSanctionMessages(client, previous);
+    });
+  }
+
+  private buildCooldownPayload(result: RateLimitResult): CooldownPayload {
+    const { capacity } = this.rateLimiter.getPolicy();
+    return {
+      remaining: result.remaining,
+      capacity,
+      refillIntervalMs: Math.ceil(this.rateLimiter.getRefillIntervalMs()),
+      retryAfterMs: result.retryAfterMs,
+      nextAllowedAt: Date.now() + result.retryAfterMs,
+    };
+  }
+
+  private sendCooldownMessage(socket: WebSocket, result: RateLimitResult): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      const cooldownMessage: CooldownMessage = {
+        type: 'COOLDOWN',
+        payload: this.buildCooldownPayload(result),
+      };
+      socket.send(JSON.stringify(cooldownMessage));
     }
   }
 
@@ -247,6 +937,16 @@ export class WebSocketService {
   private startPingInterval(): void {
     // Send ping every 30 seconds to detect dead connections
     this.pingInterval = setInterval(() => {
+      // Forget rate limit buckets of idle users
+      this.rateLimiter.prune();
+      this.chatRateLimiter.prune();
+      const now = Date.now();
+      this.lastChatAt.forEach((sentAt, key) => {
+        if (now - sentAt >= MAX_SLOW_MODE_MS) {
+          this.lastChatAt.delete(key);
+        }
+      });
+
       this.clients.forEach((client, clientId) => {
         if (!client.socket.isAlive) {
           console.log(`💀 Terminating dead connection: ${clientId}`);
@@ -271,11 +971,12 @@ export class WebSocketService {
     return this.clients.size;
   }
 
-  public getConnectedClients(): Array<{ clientId: string; userId?: string; connectedAt: Date }> {
-    const result: Array<{ clientId: string; userId?: string; connectedAt: Date }> = [];
+  public getConnectedClients(): Array<{ clientId: string; boardId: string; userId?: string; connectedAt: Date }> {
+    const result: Array<{ clientId: string; boardId: string; userId?: string; connectedAt: Date }> = [];
     this.clients.forEach((client, clientId) => {
       result.push({
         clientId,
+        boardId: client.board.id,
         userId: client.userId,
         connectedAt: client.connectedAt,
       });
@@ -291,6 +992,8 @@ export class WebSocketService {
     clientCount: number;
     isRunning: boolean;
     intervalMs: number;
+    boards: number;
+    historySize: number;
   } {
     return this.broadcastService.getStats();
   }
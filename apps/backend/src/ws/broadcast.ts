@@ -1,15 +1,19 @@
+import { randomUUID } from 'crypto';
 import { WebSocket } from 'ws';
 import { PixelUpdateMessage } from '@libs/common-types';
+import { encodePixelUpdate } from '@libs/utils';
 
 /**
  * Pixel update data for batching
  */
 export interface PixelUpdate {
+  boardId: string;
   x: number;
   y: number;
   color: string;
   userId: string;
   timestamp: Date;
+  erased?: boolean; // Rolled back to an empty coordinate
 }
 
 /**
@@ -19,26 +23,50 @@ export interface BroadcastClient {
   socket: WebSocket;
   clientId: string;
   userId?: string;
+  binary: boolean; // Negotiated the binary subprotocol
+  boardId: string; // Board the client is subscribed to
 }
 
+/**
+ * Queue, sequence numbers and history of one board
+ */
+interface BoardChannel {
+  queue: PixelUpdate[];
+  seq: number; // Sequence number of the latest batch
+  history: Array<PixelUpdateMessage | undefined>; // Batch with seq s lives at s % historySize
+}
+
+// One minute of batches at 10Hz
+export const DEFAULT_HISTORY_SIZE = 600;
+
 /**
  * WebSocket Broadcasting Service with Rate-Limiting and Batching
  * 
  * This service implements a queue-based broadcasting system that batches
  * pixel updates and sends them at a maximum rate of 10Hz to prevent
  * flooding clients during high activity periods.
+ *
+ * Every batch gets a sequence number, and the latest batches are kept in a
+ * ring buffer so reconnecting clients can catch up without a full reload.
+ *
+ * Each board is a separate channel with its own queue, sequence numbers and
+ * history; clients only receive the batches of the board they subscribed to.
  */
 export class BroadcastService {
-  private updateQueue: PixelUpdate[] = [];
+  private channels: Map<string, BoardChannel> = new Map();
   private clients: Map<string, BroadcastClient> = new Map();
   private broadcastInterval: NodeJS.Timeout | null = null;
   private isRunning = false;
+  private readonly historySize: number;
+  // Sequence numbers start over with every instance; clients resume only within the same epoch
+  private readonly epoch = randomUUID();
   
   // Rate limiting: 10Hz = 100ms intervals
   private readonly BROADCAST_INTERVAL_MS = 100;
   
-  constructor() {
-    console.log('✅ Broadcast service initialized with 10Hz rate limiting');
+  constructor(historySize: number = DEFAULT_HISTORY_SIZE) {
+    this.historySize = Math.max(1, historySize);
+    console.log(`✅ Broadcast service initialized with 10Hz rate limiting (${this.historySize} batches of history)`);
   }
 
   /**
@@ -73,7 +101,7 @@ export class BroadcastService {
       this.broadcastInterval = null;
     }
 
-    // Process any remaining items in the queue
+    // Process any remaining items in the queues
     this.processBroadcastQueue();
     
     console.log('🛑 Broadcast service stopped');
@@ -82,14 +110,16 @@ export class BroadcastService {
   /**
    * Add a client to the broadcast list
    */
-  public addClient(clientId: string, socket: WebSocket, userId?: string): void {
+  public addClient(clientId: string, socket: WebSocket, boardId: string, userId?: string, binary = false): void {
     this.clients.set(clientId, {
       socket,
       clientId,
-      userId
+      userId,
+      binary,
+      boardId
     });
     
-    console.log(`👥 Added client ${clientId} to broadcast list (${this.clients.size} total clients)`);
+    console.log(`👥 Added client ${clientId} to broadcast list of board ${boardId} (${this.clients.size} total clients${binary ? ', binary' : ''})`);
   }
 
   /**
@@ -106,16 +136,66 @@ export class BroadcastService {
    * Queue a pixel update for batched broadcasting
    */
   public queuePixelUpdate(pixelUpdate: PixelUpdate): void {
-    this.updateQueue.push(pixelUpdate);
+    const channel = this.getChannel(pixelUpdate.boardId);
+    channel.queue.push(pixelUpdate);
     
-    console.log(`📥 Queued pixel update: (${pixelUpdate.x},${pixelUpdate.y}) ${pixelUpdate.color} by ${pixelUpdate.userId} (queue size: ${this.updateQueue.length})`);
+    console.log(`📥 Queued pixel update on board ${pixelUpdate.boardId}: (${pixelUpdate.x},${pixelUpdate.y}) ${pixelUpdate.color} by ${pixelUpdate.userId} (queue size: ${channel.queue.length})`);
+  }
+
+  /**
+   * Queue several pixel updates at once, so they go out in the same batch
+   */
+  public queuePixelUpdates(pixelUpdates: PixelUpdate[]): void {
+    pixelUpdates.forEach(pixelUpdate => this.getChannel(pixelUpdate.boardId).queue.push(pixelUpdate));
+
+    console.log(`📥 Queued ${pixelUpdates.length} pixel updates in one go`);
   }
 
   /**
-   * Get current queue size for monitoring
+   * Sequence number of the latest broadcast batch of a board (0 before the first one)
+   */
+  public getCurrentSeq(boardId: string): number {
+    return this.channels.get(boardId)?.seq ?? 0;
+  }
+
+  /**
+   * Identifier of this server run, announced with the sequence numbers
+   */
+  public getEpoch(): string {
+    return this.epoch;
+  }
+
+  /**
+   * Get the batches broadcast after lastSeq, oldest first.
+   * Returns null when they are no longer all in the history, in which case the
+   * client has to reload the canvas. Callers check the epoch of lastSeq first.
+   */
+  public getUpdatesSince(boardId: string, lastSeq: number): PixelUpdateMessage[] | null {
+    const channel = this.getChannel(boardId);
+    if (lastSeq > channel.seq || lastSeq < channel.seq - this.historySize) {
+      return null;
+    }
+
+    const missed: PixelUpdateMessage[] = [];
+    for (let seq = lastSeq + 1; seq <= channel.seq; seq++) {
+      const batch = channel.history[seq % this.historySize];
+      if (!batch || batch.payload.seq !== seq) {
+        return null;
+      }
+      missed.push(batch);
+    }
+    return missed;
+  }
+
+  /**
+   * Get current queue size (all boards) for monitoring
    */
   public getQueueSize(): number {
-    return this.updateQueue.length;
+    let queueSize = 0;
+    this.channels.forEach(channel => {
+      queueSize += channel.queue.length;
+    });
+    return queueSize;
   }
 
   /**
@@ -133,51 +213,88 @@ export class BroadcastService {
     clientCount: number;
     isRunning: boolean;
     intervalMs: number;
+    boards: number;
+    historySize: number;
   } {
     return {
-      queueSize: this.updateQueue.length,
+      queueSize: this.getQueueSize(),
       clientCount: this.clients.size,
       isRunning: this.isRunning,
-      intervalMs: this.BROADCAST_INTERVAL_MS
+      intervalMs: this.BROADCAST_INTERVAL_MS,
+      boards: this.channels.size,
+      historySize: this.historySize
     };
   }
 
+  private getChannel(boardId: string): BoardChannel {
+    let channel = this.channels.get(boardId);
+    if (!channel) {
+      channel = { queue: [], seq: 0, history: new Array(this.historySize) };
+      this.channels.set(boardId, channel);
+    }
+    return channel;
+  }
+
   /**
-   * Process the broadcast queue and send batched updates
+   * Process the broadcast queues and send batched updates
    * This method runs every 100ms (10Hz) via setInterval
    */
   private processBroadcastQueue(): void {
-    if (this.updateQueue.length === 0) {
+    this.channels.forEach((channel, boardId) => {
+      this.processChannelQueue(boardId, channel);
+    });
+  }
+
+  private processChannelQueue(boardId: string, channel: BoardChannel): void {
+    if (channel.queue.length === 0) {
       // No updates to broadcast
       return;
     }
 
     // Extract all queued updates and clear the queue
-    const updatesToSend = [...this.updateQueue];
-    this.updateQueue = [];
+    const updatesToSend = [...channel.queue];
+    channel.queue = [];
 
     // Create batched message
+    channel.seq++;
     const batchedMessage: PixelUpdateMessage = {
       type: 'PIXEL_UPDATE',
       payload: {
+        seq: channel.seq,
         pixels: updatesToSend.map(update => ({
           x: update.x,
           y: update.y,
           color: update.color,
-          userId: update.userId
+          userId: update.userId,
+          ...(update.erased ? { erased: true } : {})
         }))
       }
     };
 
-    const messageString = JSON.stringify(batchedMessage);
+    // Keep the batch for clients that resume later
+    channel.history[channel.seq % this.historySize] = batchedMessage;
+
+    // Each format is encoded at most once per batch
+    let messageString: string | null = null;
+    let binaryFrame: Uint8Array | null = null;
     let sentCount = 0;
     let failedCount = 0;
 
-    // Broadcast to all connected clients
+    // Broadcast to the clients subscribed to the board
     this.clients.forEach((client, clientId) => {
+      if (client.boardId !== boardId) {
+        return;
+      }
+
       if (client.socket.readyState === WebSocket.OPEN) {
         try {
-          client.socket.send(messageString);
+          if (client.binary) {
+            binaryFrame = binaryFrame ?? encodePixelUpdate(batchedMessage.payload);
+            client.socket.send(binaryFrame);
+          } else {
+            messageString = messageString ?? JSON.stringify(batchedMessage);
+            client.socket.send(messageString);
+          }
           sentCount++;
         } catch (error) {
           console.error(`❌ Failed to send message to client ${clientId}:`, error);
@@ -193,7 +310,7 @@ export class BroadcastService {
     });
 
     if (sentCount > 0 || failedCount > 0) {
-      console.log(`📡 Broadcasted batch of ${updatesToSend.length} pixel updates to ${sentCount} clients (${failedCount} failed)`);
+      console.log(`📡 Broadcasted batch #${channel.seq} of board ${boardId} with ${updatesToSend.length} pixel updates to ${sentCount} clients (${failedCount} failed)`);
     }
   }
 
@@ -209,8 +326,10 @@ export class BroadcastService {
    * Clear the queue without broadcasting (for testing)
    */
   public clearQueue(): void {
-    const clearedCount = this.updateQueue.length;
-    this.updateQueue = [];
+    const clearedCount = this.getQueueSize();
+    this.channels.forEach(channel => {
+      channel.queue = [];
+    });
     console.log(`🗑️ Cleared ${clearedCount} updates from broadcast queue`);
   }
 }
@@ -221,13 +340,13 @@ let broadcastService: BroadcastService | null = null;
 /**
  * Initialize the global broadcast service
  */
-export function initializeBroadcastService(): BroadcastService {
+export function initializeBroadcastService(historySize?: number): BroadcastService {
   if (broadcastService) {
     console.warn('⚠️ Broadcast service already initialized');
     return broadcastService;
   }
 
-  broadcastService = new BroadcastService();
+  broadcastService = new BroadcastService(historySize);
   broadcastService.start();
   return broadcastService;
 }
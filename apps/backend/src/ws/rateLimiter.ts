@@ -0,0 +1,131 @@
+/**
+ * Token bucket policy: `capacity` placements in a burst,
+ * refilled continuously so an empty bucket is full again after `windowMs`
+ */
+export interface RateLimitPolicy {
+  capacity: number;
+  windowMs: number;
+}
+
+/**
+ * Outcome of a rate limit check
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number; // Whole tokens left after this check
+  retryAfterMs: number; // Time until the next token is available (0 if one is available now)
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Per-key token bucket rate limiter
+ *
+ * Buckets are created lazily and refilled on access, so idle keys cost
+ * nothing until they are pruned.
+ */
+export class TokenBucketRateLimiter {
+  private buckets: Map<string, TokenBucket> = new Map();
+  private policy: RateLimitPolicy;
+
+  constructor(policy: RateLimitPolicy) {
+    this.policy = {
+      capacity: Math.max(1, policy.capacity),
+      windowMs: Math.max(1, policy.windowMs),
+    };
+  }
+
+  /**
+   * Try to take one token for the given key
+   */
+  public consume(key: string, now: number = Date.now()): RateLimitResult {
+    return this.consumeMany(key, 1, now);
+  }
+
+  /**
+   * Try to take several tokens at once; either all of them are taken or none.
+   * A count above the capacity is never allowed (retryAfterMs is then Infinity).
+   */
+  public consumeMany(key: string, count: number, now: number = Date.now()): RateLimitResult {
+    const bucket = this.refill(key, now);
+
+    if (bucket.tokens < count) {
+      return {
+        allowed: false,
+        remaining: Math.floor(bucket.tokens),
+        retryAfterMs: count > this.policy.capacity
+          ? Infinity
+          : Math.ceil((count - bucket.tokens) * this.getRefillIntervalMs()),
+      };
+    }
+
+    bucket.tokens -= count;
+    return {
+      allowed: true,
+      remaining: Math.floor(bucket.tokens),
+      retryAfterMs: this.timeUntilNextToken(bucket),
+    };
+  }
+
+  /**
+   * Inspect the bucket for a key without consuming a token
+   */
+  public peek(key: string, now: number = Date.now()): RateLimitResult {
+    const bucket = this.refill(key, now);
+
+    return {
+      allowed: bucket.tokens >= 1,
+      remaining: Math.floor(bucket.tokens),
+      retryAfterMs: this.timeUntilNextToken(bucket),
+    };
+  }
+
+  /**
+   * Drop buckets that have refilled completely (they are equivalent to new ones)
+   */
+  public prune(now: number = Date.now()): number {
+    let pruned = 0;
+    this.buckets.forEach((_bucket, key) => {
+      if (this.refill(key, now).tokens >= this.policy.capacity) {
+        this.buckets.delete(key);
+        pruned++;
+      }
+    });
+    return pruned;
+  }
+
+  public getPolicy(): RateLimitPolicy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Time needed to regain a single token
+   */
+  public getRefillIntervalMs(): number {
+    return this.policy.windowMs / this.policy.capacity;
+  }
+
+  private refill(key: string, now: number): TokenBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: this.policy.capacity, updatedAt: now };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    bucket.tokens = Math.min(this.policy.capacity, bucket.tokens + elapsed / this.getRefillIntervalMs());
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private timeUntilNextToken(bucket: TokenBucket): number {
+    if (bucket.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil((1 - bucket.tokens) * this.getRefillIntervalMs());
+  }
+}
@@ -0,0 +1,457 @@
+import request from 'supertest';
+import app from '../../src/app';
+import { UserRole } from '@libs/common-types';
+import { generateUserId } from '@libs/utils';
+import { Board } from '../../src/models/board.model';
+import { Pixel } from '../../src/models/pixel.model';
+import { User } from '../../src/models/user.model';
+import { bootstrapAdmins } from '../../src/services/role.service';
+import { initializePixelRepository } from '../../src/services/pixelRepository';
+import { getPixelCacheService } from '../../src/services/pixelCache.service';
+import { initializeBroadcastService, shutdownBroadcastService } from '../../src/ws/broadcast';
+
+describe('Admin API Integration Tests', () => {
+  let moderatorId: string;
+
+  /**
+   * Create a stored user with a role; its ID is the session cookie
+   */
+  const createUserWithRole = async (role: UserRole): Promise<string> => {
+    const userId = generateUserId();
+    await User.create({ userId, nickname: `Test ${role}`, color: '#336699', role });
+    return userId;
+  };
+
+  const sessionCookie = (userId: string): string => `userId=${userId}`;
+
+  // A vandal paints over (0,0), onto empty (1,0), and over (2,0), which was repainted afterwards
+  const testPixels = [
+    { x: 0, y: 0, color: '#FF0000', userId: 'artist-1', timestamp: new Date('2024-01-01T10:00:00Z') },
+    { x: 2, y: 0, color: '#00FF00', userId: 'artist-2', timestamp: new Date('2024-01-01T10:00:00Z') },
+    { x: 0, y: 0, color: '#000000', userId: 'vandal', timestamp: new Date('2024-01-01T11:00:00Z') },
+    { x: 1, y: 0, color: '#000000', userId: 'vandal', timestamp: new Date('2024-01-01T11:00:00Z') },
+    { x: 2, y: 0, color: '#000000', userId: 'vandal', timestamp: new Date('2024-01-01T11:00:00Z') },
+    { x: 2, y: 0, color: '#0000FF', userId: 'artist-2', timestamp: new Date('2024-01-01T12:00:00Z') },
+  ];
+
+  beforeAll(() => {
+    initializePixelRepository();
+  });
+
+  afterAll(() => {
+    getPixelCacheService().stop();
+    shutdownBroadcastService();
+  });
+
+  beforeEach(async () => {
+    await Pixel.insertMany(testPixels);
+    await getPixelCacheService().reloadFromDatabase();
+    moderatorId = await createUserWithRole('moderator');
+  });
+
+  describe('Authentication', () => {
+    it('should require a valid user session', async () => {
+      await request(app)
+        .post('/api/admin/rollback')
+        .send({ userId: 'vandal' })
+        .expect(401);
+
+      await request(app)
+        .post('/api/admin/rollback')
+        .set('Cookie', sessionCookie('user_forged'))
+        .send({ userId: 'vandal' })
+        .expect(401);
+
+      expect(await Pixel.countDocuments({ revertedAt: { $exists: true } })).toBe(0);
+    });
+
+    it('should keep regular users out of every admin route', async () => {
+      const userId = await createUserWithRole('user');
+
+      await request(app)
+        .post('/api/admin/rollback')
+        .set('Cookie', sessionCookie(userId))
+        .send({ userId: 'vandal' })
+        .expect(403);
+
+      await request(app)
+        .put(`/api/admin/users/${moderatorId}/role`)
+        .set('Cookie', sessionCookie(userId))
+        .send({ role: 'user' })
+        .expect(403);
+    });
+
+    it('should let moderators moderate but not manage roles', async () => {
+      await request(app)
+        .post('/api/admin/rollback')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ userId: 'vandal', dryRun: true })
+        .expect(200);
+
+      const userId = await createUserWithRole('user');
+      await request(app)
+        .put(`/api/admin/users/${userId}/role`)
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ role: 'moderator' })
+        .expect(403);
+    });
+
+    it('should let admins do everything moderators can', async () => {
+      const adminId = await createUserWithRole('admin');
+
+      await request(app)
+        .post('/api/admin/rollback')
+        .set('Cookie', sessionCookie(adminId))
+        .send({ userId: 'vandal', dryRun: true })
+        .expect(200);
+    });
+
+    it('should promote the bootstrap admins', async () => {
+      const userId = await createUserWithRole('user');
+
+      expect(await bootstrapAdmins([userId, 'user_unknown'])).toBe(1);
+      expect((await User.findOne({ userId }))!.role).toBe('admin');
+
+      // Already an admin
+      expect(await bootstrapAdmins([userId])).toBe(0);
+    });
+  });
+
+  describe('PUT /api/admin/users/:userId/role', () => {
+    let adminId: string;
+
+    beforeEach(async () => {
+      adminId = await createUserWithRole('admin');
+    });
+
+    it('should change the role of a user', async () => {
+      const userId = await createUserWithRole('user');
+
+      const response = await request(app)
+        .put(`/api/admin/users/${userId}/role`)
+        .set('Cookie', sessionCookie(adminId))
+        .send({ role: 'moderator' })
+        .expect(200);
+
+      expect(response.body).toEqual({ userId, role: 'moderator' });
+
+      const me = await request(app)
+        .get('/api/users/me')
+        .set('Cookie', sessionCookie(userId))
+        .expect(200);
+      expect(me.body.role).toBe('moderator');
+    });
+
+    it('should reject invalid roles, unknown users and changes to the own role', async () => {
+      await request(app)
+        .put(`/api/admin/users/${moderatorId}/role`)
+        .set('Cookie', sessionCookie(adminId))
+        .send({ role: 'owner' })
+        .expect(400);
+
+      await request(app)
+        .put('/api/admin/users/user_unknown/role')
+        .set('Cookie', sessionCookie(adminId))
+        .send({ role: 'moderator' })
+        .expect(404);
+
+      await request(app)
+        .put(`/api/admin/users/${adminId}/role`)
+        .set('Cookie', sessionCookie(adminId))
+        .send({ role: 'user' })
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/admin/rollback', () => {
+    it('should preview a rollback without changing anything', async () => {
+      console.log('🧪 Testing rollback dry run...');
+
+      const response = await request(app)
+        .post('/api/admin/rollback')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ userId: 'vandal', dryRun: true })
+        .expect(200);
+
+      expect(response.body).toMatchObject({ boardId: 'main', dryRun: true, events: 3, pixels: 2 });
+      expect(response.body.preview).toEqual(expect.arrayContaining([
+        { x: 0, y: 0, color: '#000000', restoredColor: '#FF0000' },
+        { x: 1, y: 0, color: '#000000', restoredColor: null },
+      ]));
+
+      expect(await Pixel.countDocuments({ revertedAt: { $exists: true } })).toBe(0);
+      expect(getPixelCacheService().getPixel(0, 0)?.color).toBe('#000000');
+
+      console.log('✅ Rollback dry run test passed');
+    });
+
+    it('should restore the previous placement of every coordinate of a user', async () => {
+      const broadcastService = initializeBroadcastService();
+      broadcastService.clearQueue();
+      const queueSpy = jest.spyOn(broadcastService, 'queuePixelUpdate');
+
+      const response = await request(app)
+        .post('/api/admin/rollback')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ userId: 'vandal' })
+        .expect(200);
+
+      expect(response.body).toMatchObject({ dryRun: false, events: 3, pixels: 2 });
+
+      // The log keeps the reverted placements
+      expect(await Pixel.countDocuments({})).toBe(testPixels.length);
+      expect(await Pixel.countDocuments({ userId: 'vandal', revertedAt: { $exists: true }, revertedBy: moderatorId })).toBe(3);
+
+      const cache = getPixelCacheService();
+      expect(cache.getPixel(0, 0)).toMatchObject({ color: '#FF0000', userId: 'artist-1' });
+      expect(cache.getPixel(1, 0)).toBeNull();
+      expect(cache.getPixel(2, 0)).toMatchObject({ color: '#0000FF', userId: 'artist-2' });
+
+      const region = await request(app)
+        .get('/api/pixels/region')
+        .query({ minX: 0, minY: 0, maxX: 2, maxY: 0 })
+        .expect(200);
+      expect(region.body.pixels.map((p: any) => p.color).sort()).toEqual(['#0000FF', '#FF0000']);
+
+      // Reverted placements disappear from the history
+      const history = await request(app)
+        .get('/api/pixels/history')
+        .query({ x: 0, y: 0 })
+        .expect(200);
+      expect(history.body.events.map((event: any) => event.userId)).toEqual(['artist-1']);
+
+      expect(queueSpy).toHaveBeenCalledTimes(2);
+      expect(queueSpy).toHaveBeenCalledWith(expect.objectContaining({ boardId: 'main', x: 0, y: 0, color: '#FF0000' }));
+      expect(queueSpy).toHaveBeenCalledWith(expect.objectContaining({ boardId: 'main', x: 1, y: 0, erased: true }));
+
+      queueSpy.mockRestore();
+      broadcastService.clearQueue();
+    });
+
+    it('should revert placements inside a rectangle during a time window', async () => {
+      const response = await request(app)
+        .post('/api/admin/rollback')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({
+          region: { minX: 0, minY: 0, maxX: 1, maxY: 0 },
+          from: '2024-01-01T10:30:00Z',
+          to: '2024-01-01T11:30:00Z',
+        })
+        .expect(200);
+
+      expect(response.body).toMatchObject({ events: 2, pixels: 2 });
+
+      const cache = getPixelCacheService();
+      expect(cache.getPixel(0, 0)?.color).toBe('#FF0000');
+      expect(cache.getPixel(1, 0)).toBeNull();
+      // Outside the rectangle
+      expect(await Pixel.countDocuments({ x: 2, revertedAt: { $exists: true } })).toBe(0);
+    });
+
+    it('should restore every coordinate of a rollback spanning many pixels', async () => {
+      // More coordinates than one recompute batch holds
+      await Pixel.insertMany([
+        { x: 599, y: 5, color: '#FF0000', userId: 'artist-1', timestamp: new Date('2024-01-01T10:00:00Z') },
+        ...Array.from({ length: 600 }, (_, x) => (
+          { x, y: 5, color: '#000000', userId: 'vandal', timestamp: new Date('2024-01-01T11:00:00Z') }
+        )),
+      ]);
+      await getPixelCacheService().reloadFromDatabase();
+
+      const response = await request(app)
+        .post('/api/admin/rollback')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ userId: 'vandal' })
+        .expect(200);
+
+      expect(response.body).toMatchObject({ events: 603, pixels: 602 });
+
+      const cache = getPixelCacheService();
+      expect(cache.getPixel(0, 5)).toBeNull();
+      expect(cache.getPixel(598, 5)).toBeNull();
+      expect(cache.getPixel(599, 5)).toMatchObject({ color: '#FF0000', userId: 'artist-1' });
+      expect(cache.getPixel(0, 0)?.color).toBe('#FF0000');
+    });
+
+    it('should report nothing to do when no placement matches', async () => {
+      const response = await request(app)
+        .post('/api/admin/rollback')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ userId: 'nobody' })
+        .expect(200);
+
+      expect(response.body).toMatchObject({ events: 0, pixels: 0, preview: [] });
+    });
+
+    it('should return 400 for invalid criteria', async () => {
+      const send = (body: object) => request(app)
+        .post('/api/admin/rollback')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send(body);
+
+      await send({}).expect(400);
+      await send({ region: { minX: 0, minY: 0, maxX: 10, maxY: 10 } }).expect(400);
+      await send({ region: { minX: 10, minY: 0, maxX: 5, maxY: 10 }, from: '2024-01-01T00:00:00Z', to: '2024-01-02T00:00:00Z' }).expect(400);
+      await send({ userId: 'vandal', from: 'yesterday', to: '2024-01-02T00:00:00Z' }).expect(400);
+      await send({ userId: '' }).expect(400);
+    });
+
+    it('should return 404 for unknown boards', async () => {
+      await request(app)
+        .post('/api/admin/boards/missing/rollback')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ userId: 'vandal' })
+        .expect(404);
+    });
+  });
+
+  describe('Board management', () => {
+    let adminId: string;
+
+    const eventBoard = { id: 'event', name: 'Event board', width: 300, height: 200, palette: ['#000000', '#ffffff'] };
+
+    beforeEach(async () => {
+      adminId = await createUserWithRole('admin');
+    });
+
+    it('should keep moderators out of board management', async () => {
+      await request(app)
+        .post('/api/admin/boards')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send(eventBoard)
+        .expect(403);
+
+      await request(app)
+        .put('/api/admin/boards/main')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ visibility: 'unlisted' })
+        .expect(403);
+
+      expect(await Board.countDocuments()).toBe(0);
+    });
+
+    it('should create a board that is served right away', async () => {
+      const response = await request(app)
+        .post('/api/admin/boards')
+        .set('Cookie', sessionCookie(adminId))
+        .send(eventBoard)
+        .expect(201);
+
+      expect(response.body.board).toEqual({ ...eventBoard, palette: ['#000000', '#FFFFFF'], visibility: 'public' });
+
+      const served = await request(app).get('/api/boards/event').expect(200);
+      expect(served.body.board.width).toBe(300);
+
+      // IDs are unique, and the main board always exists
+      await request(app)
+        .post('/api/admin/boards')
+        .set('Cookie', sessionCookie(adminId))
+        .send(eventBoard)
+        .expect(409);
+      await request(app)
+        .post('/api/admin/boards')
+        .set('Cookie', sessionCookie(adminId))
+        .send({ ...eventBoard, id: 'main' })
+        .expect(409);
+    });
+
+    it('should return 400 for invalid board definitions', async () => {
+      const send = (body: object) => request(app)
+        .post('/api/admin/boards')
+        .set('Cookie', sessionCookie(adminId))
+        .send(body);
+
+      await send({ ...eventBoard, id: 'Not_A_Slug' }).expect(400);
+      await send({ ...eventBoard, name: '' }).expect(400);
+      await send({ ...eventBoard, width: 65536 }).expect(400);
+      await send({ ...eventBoard, height: 1.5 }).expect(400);
+      await send({ id: 'event', name: 'No size' }).expect(400);
+      await send({ ...eventBoard, palette: ['#FFF'] }).expect(400);
+      await send({ ...eventBoard, palette: '#000000' }).expect(400);
+      await send({ ...eventBoard, visibility: 'private' }).expect(400);
+
+      expect(await Board.countDocuments()).toBe(0);
+    });
+
+    it('should list unlisted boards to admins', async () => {
+      await Board.create({ ...eventBoard, visibility: 'unlisted' });
+
+      const response = await request(app)
+        .get('/api/admin/boards')
+        .set('Cookie', sessionCookie(adminId))
+        .expect(200);
+
+      expect(response.body.boards.map((board: any) => board.id)).toEqual(['main', 'event']);
+    });
+
+    it('should resize, re-palette and hide a board', async () => {
+      await Board.create(eventBoard);
+
+      const response = await request(app)
+        .put('/api/admin/boards/event')
+        .set('Cookie', sessionCookie(adminId))
+        .send({ width: 400, palette: [], visibility: 'unlisted' })
+        .expect(200);
+
+      expect(response.body.board).toMatchObject({ id: 'event', width: 400, height: 200, palette: [], visibility: 'unlisted' });
+      expect((await request(app).get('/api/boards').expect(200)).body.boards.map((board: any) => board.id)).toEqual(['main']);
+      expect((await request(app).get('/api/boards/event').expect(200)).body.board.width).toBe(400);
+    });
+
+    it('should refuse to shrink a board below its pixels', async () => {
+      await Board.create(eventBoard);
+      await Pixel.create({ boardId: 'event', x: 250, y: 10, color: '#000000', userId: 'artist-1', timestamp: new Date() });
+
+      await request(app)
+        .put('/api/admin/boards/event')
+        .set('Cookie', sessionCookie(adminId))
+        .send({ width: 200 })
+        .expect(409);
+
+      await request(app)
+        .put('/api/admin/boards/event')
+        .set('Cookie', sessionCookie(adminId))
+        .send({ width: 251, height: 100 })
+        .expect(200);
+    });
+
+    it('should shrink a board once the pixels outside are rolled back', async () => {
+      await Board.create(eventBoard);
+      await Pixel.create([
+        { boardId: 'event', x: 250, y: 10, color: '#000000', userId: 'vandal', timestamp: new Date() },
+        { boardId: 'event', x: 10, y: 10, color: '#ffffff', userId: 'artist-1', timestamp: new Date() },
+      ]);
+
+      await request(app)
+        .post('/api/admin/boards/event/rollback')
+        .set('Cookie', sessionCookie(adminId))
+        .send({ userId: 'vandal' })
+        .expect(200);
+
+      const response = await request(app)
+        .put('/api/admin/boards/event')
+        .set('Cookie', sessionCookie(adminId))
+        .send({ width: 200 })
+        .expect(200);
+
+      expect(response.body.board.width).toBe(200);
+    });
+
+    it('should store the main board on its first change', async () => {
+      const response = await request(app)
+        .put('/api/admin/boards/main')
+        .set('Cookie', sessionCookie(adminId))
+        .send({ name: 'Main event canvas' })
+        .expect(200);
+
+      expect(response.body.board).toMatchObject({ id: 'main', name: 'Main event canvas', width: 5000, height: 5000 });
+      expect(await Board.exists({ id: 'main' })).not.toBeNull();
+
+      await request(app)
+        .put('/api/admin/boards/missing')
+        .set('Cookie', sessionCookie(adminId))
+        .send({ name: 'Nothing' })
+        .expect(404);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import request from 'supertest';
+import app from '../../src/app';
+import { Board } from '../../src/models/board.model';
+import { Pixel } from '../../src/models/pixel.model';
+import { migrateLegacyPixels } from '../../src/services/board.service';
+import { initializePixelRepository } from '../../src/services/pixelRepository';
+import { getPixelCacheService, stopAllPixelCacheServices } from '../../src/services/pixelCache.service';
+
+describe('Boards API Integration Tests', () => {
+  const eventBoard = { id: 'event', name: 'Event board', width: 300, height: 200, palette: ['#000000', '#FFFFFF'], visibility: 'public' as const };
+
+  beforeAll(() => {
+    initializePixelRepository(eventBoard);
+  });
+
+  afterAll(() => {
+    stopAllPixelCacheServices();
+  });
+
+  beforeEach(async () => {
+    await Board.create(eventBoard);
+    // The database is emptied after each test; keep the cache in line
+    await getPixelCacheService(eventBoard.id).reloadFromDatabase();
+  });
+
+  describe('GET /api/boards', () => {
+    it('should list the main board and public boards only', async () => {
+      console.log('🧪 Testing board listing...');
+
+      await Board.create({ id: 'secret', name: 'Unlisted board', width: 10, height: 10, visibility: 'unlisted' });
+
+      const response = await request(app)
+        .get('/api/boards')
+        .expect(200);
+
+      expect(response.body.boards.map((board: any) => board.id)).toEqual(['main', 'event']);
+      expect(response.body.boards[0]).toEqual({
+        id: 'main',
+        name: 'Main canvas',
+        width: 5000,
+        height: 5000,
+        palette: [],
+        visibility: 'public',
+      });
+
+      console.log('✅ Board listing test passed');
+    });
+  });
+
+  describe('GET /api/boards/:boardId', () => {
+    it('should return a board by ID, including unlisted boards', async () => {
+      await Board.create({ id: 'secret', name: 'Unlisted board', width: 10, height: 10, visibility: 'unlisted' });
+
+      const event = await request(app).get('/api/boards/event').expect(200);
+      expect(event.body.board).toEqual(eventBoard);
+
+      const secret = await request(app).get('/api/boards/secret').expect(200);
+      expect(secret.body.board.visibility).toBe('unlisted');
+    });
+
+    it('should return 404 for unknown or malformed board IDs', async () => {
+      await request(app).get('/api/boards/missing').expect(404);
+      await request(app).get('/api/boards/Not_A_Slug').expect(404);
+      await request(app).get('/api/boards/missing/pixels').expect(404);
+    });
+  });
+
+  describe('GET /api/boards/:boardId/palette', () => {
+    it('should return the locked palette of a board', async () => {
+      const response = await request(app)
+        .get('/api/boards/event/palette')
+        .expect(200);
+
+      expect(response.body).toEqual({ boardId: 'event', colors: ['#000000', '#FFFFFF'], locked: true });
+    });
+
+    it('should report an unlocked palette when any color is allowed', async () => {
+      const response = await request(app)
+        .get('/api/palette')
+        .expect(200);
+
+      expect(response.body).toEqual({ boardId: 'main', colors: [], locked: false });
+    });
+
+    it('should return 404 for unknown boards', async () => {
+      await request(app).get('/api/boards/missing/palette').expect(404);
+    });
+  });
+
+  describe('Board-scoped pixel routes', () => {
+    beforeEach(async () => {
+      await Pixel.insertMany([
+        { boardId: 'event', x: 1, y: 1, color: '#FFFFFF', userId: 'test-user-1', timestamp: new Date('2024-01-01T10:00:00Z') },
+        { x: 1, y: 1, color: '#FF0000', userId: 'test-user-2', timestamp: new Date('2024-01-01T11:00:00Z') },
+      ]);
+    });
+
+    it('should keep the pixels of each board separate', async () => {
+      const event = await request(app)
+        .get('/api/boards/event/pixels/region')
+        .query({ minX: 0, minY: 0, maxX: 10, maxY: 10 })
+        .expect(200);
+      expect(event.body.pixels).toEqual([{ x: 1, y: 1, color: '#FFFFFF' }]);
+
+      // Unscoped routes serve the main board
+      const main = await request(app)
+        .get('/api/pixels/region')
+        .query({ minX: 0, minY: 0, maxX: 10, maxY: 10 })
+        .expect(200);
+      expect(main.body.pixels).toEqual([{ x: 1, y: 1, color: '#FF0000' }]);
+
+      const history = await request(app)
+        .get('/api/boards/event/pixels/history')
+        .query({ x: 1, y: 1 })
+        .expect(200);
+      expect(history.body.events.map((event: any) => event.userId)).toEqual(['test-user-1']);
+    });
+
+    it('should validate coordinates against the board size', async () => {
+      await request(app)
+        .get('/api/boards/event/pixels/region')
+        .query({ minX: 0, minY: 0, maxX: 300, maxY: 10 })
+        .expect(400);
+
+      await request(app)
+        .get('/api/boards/event/pixels/chunks/2/0')
+        .expect(400);
+
+      await request(app)
+        .get('/api/boards/event/pixels/chunks/1/0')
+        .expect(200);
+
+      // The whole board is a single tile at zoom 0 and one canvas pixel per tile pixel at zoom 1
+      await request(app)
+        .get('/api/boards/event/tiles/1/1/0.png')
+        .expect(200);
+
+      await request(app)
+        .get('/api/boards/event/tiles/2/0/0.png')
+        .expect(404);
+    });
+
+    it('should assign legacy pixels to the main board', async () => {
+      await Pixel.collection.insertOne({ x: 2, y: 2, color: '#00FF00', userId: 'test-user-3', timestamp: new Date() });
+
+      expect(await migrateLegacyPixels()).toBe(1);
+      expect(await Pixel.countDocuments({ boardId: 'main', x: 2, y: 2 })).toBe(1);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,270 @@
+import request from 'supertest';
+import app from '../../src/app';
+import { UserRole } from '@libs/common-types';
+import { generateUserId } from '@libs/utils';
+import { Board } from '../../src/models/board.model';
+import { User } from '../../src/models/user.model';
+import { ChatMessage } from '../../src/models/chatMessage.model';
+import { stopAllPixelCacheServices } from '../../src/services/pixelCache.service';
+import { getSlowModeMs, resetSlowModes } from '../../src/services/chat.service';
+
+describe('Chat API Integration Tests', () => {
+  const base = new Date('2024-01-01T12:00:00Z').getTime();
+
+  // Five messages one minute apart on the main board, one on another board
+  const testMessages = [
+    ...[0, 1, 2, 3, 4].map((i) => ({
+      boardId: 'main',
+      messageId: `message-main-${i}`,
+      userId: 'user_a',
+      nickname: 'Painter A',
+      color: '#336699',
+      message: `Message ${i}`,
+      createdAt: new Date(base + i * 60 * 1000),
+    })),
+    {
+      boardId: 'event',
+      messageId: 'message-event-0',
+      userId: 'user_b',
+      nickname: 'Painter B',
+      color: '#996633',
+      message: 'Event chat',
+      createdAt: new Date(base),
+    },
+  ];
+
+  /**
+   * Create a stored user with a role; its ID is the session cookie
+   */
+  const createUserWithRole = async (role: UserRole): Promise<string> => {
+    const userId = generateUserId();
+    await User.create({ userId, nickname: `Test ${role}`, color: '#336699', role });
+    return userId;
+  };
+
+  const sessionCookie = (userId: string): string => `userId=${userId}`;
+
+  afterAll(() => {
+    stopAllPixelCacheServices();
+  });
+
+  afterEach(() => {
+    resetSlowModes();
+  });
+
+  beforeEach(async () => {
+    await ChatMessage.insertMany(testMessages);
+  });
+
+  describe('GET /api/chat', () => {
+    it('should return the latest messages oldest first', async () => {
+      console.log('🧪 Testing chat history...');
+
+      const response = await request(app)
+        .get('/api/chat')
+        .expect(200);
+
+      expect(response.body.boardId).toBe('main');
+      expect(response.body.messages.map((msg: any) => msg.id)).toEqual([
+        'message-main-0',
+        'message-main-1',
+        'message-main-2',
+        'message-main-3',
+        'message-main-4',
+      ]);
+      expect(response.body.messages[0]).toEqual({
+        id: 'message-main-0',
+        userId: 'user_a',
+        nickname: 'Painter A',
+        message: 'Message 0',
+        timestamp: base,
+        color: '#336699',
+        replyTo: null,
+        mentions: [],
+      });
+      expect(response.body.nextCursor).toBeNull();
+
+      console.log('✅ Chat history test passed');
+    });
+
+    it('should page through older messages with cursor', async () => {
+      const firstPage = await request(app)
+        .get('/api/chat')
+        .query({ limit: 2 })
+        .expect(200);
+
+      expect(firstPage.body.messages.map((msg: any) => msg.message)).toEqual(['Message 3', 'Message 4']);
+      expect(typeof firstPage.body.nextCursor).toBe('string');
+
+      const secondPage = await request(app)
+        .get('/api/chat')
+        .query({ limit: 2, cursor: firstPage.body.nextCursor })
+        .expect(200);
+
+      expect(secondPage.body.messages.map((msg: any) => msg.message)).toEqual(['Message 1', 'Message 2']);
+
+      const lastPage = await request(app)
+        .get('/api/chat')
+        .query({ limit: 2, cursor: secondPage.body.nextCursor })
+        .expect(200);
+
+      expect(lastPage.body.messages.map((msg: any) => msg.message)).toEqual(['Message 0']);
+      expect(lastPage.body.nextCursor).toBeNull();
+    });
+
+    it('should not skip messages sharing a millisecond across a page boundary', async () => {
+      const sameTime = new Date(base + 10 * 60 * 1000);
+      await ChatMessage.insertMany([0, 1, 2].map((i) => ({
+        boardId: 'main',
+        messageId: `message-burst-${i}`,
+        userId: 'user_a',
+        nickname: 'Painter A',
+        color: '#336699',
+        message: `Burst ${i}`,
+        createdAt: sameTime,
+      })));
+
+      const firstPage = await request(app)
+        .get('/api/chat')
+        .query({ limit: 2 })
+        .expect(200);
+
+      const secondPage = await request(app)
+        .get('/api/chat')
+        .query({ limit: 2, cursor: firstPage.body.nextCursor })
+        .expect(200);
+
+      const ids = [...secondPage.body.messages, ...firstPage.body.messages].map((msg: any) => msg.id);
+      expect(ids.filter((id: string) => id.startsWith('message-burst-')).sort()).toEqual([
+        'message-burst-0',
+        'message-burst-1',
+        'message-burst-2',
+      ]);
+      expect(ids).toContain('message-main-4');
+    });
+
+    it('should only return messages before the given timestamp', async () => {
+      const response = await request(app)
+        .get('/api/chat')
+        .query({ before: new Date(base + 2 * 60 * 1000).toISOString() })
+        .expect(200);
+
+      expect(response.body.messages.map((msg: any) => msg.message)).toEqual(['Message 0', 'Message 1']);
+    });
+
+    it('should return 400 for invalid query parameters', async () => {
+      await request(app).get('/api/chat').query({ limit: 0 }).expect(400);
+      await request(app).get('/api/chat').query({ limit: 'many' }).expect(400);
+      await request(app).get('/api/chat').query({ before: 'yesterday' }).expect(400);
+      await request(app).get('/api/chat').query({ cursor: 'not-a-cursor' }).expect(400);
+    });
+  });
+
+  describe('GET /api/boards/:boardId/chat', () => {
+    it('should only return the messages of the board', async () => {
+      await Board.create({ id: 'event', name: 'Event board', width: 100, height: 100 });
+
+      const response = await request(app)
+        .get('/api/boards/event/chat')
+        .expect(200);
+
+      expect(response.body.boardId).toBe('event');
+      expect(response.body.messages.map((msg: any) => msg.message)).toEqual(['Event chat']);
+    });
+
+    it('should return 404 for unknown boards', async () => {
+      await request(app).get('/api/boards/missing/chat').expect(404);
+    });
+  });
+
+  describe('DELETE /api/admin/chat/messages/:messageId', () => {
+    it('should hide a deleted message from the history', async () => {
+      const moderatorId = await createUserWithRole('moderator');
+
+      await request(app)
+        .delete('/api/admin/chat/messages/message-main-4')
+        .set('Cookie', sessionCookie(moderatorId))
+        .expect(204);
+
+      const deleted = await ChatMessage.findOne({ messageId: 'message-main-4' });
+      expect(deleted!.deletedBy).toBe(moderatorId);
+
+      const response = await request(app)
+        .get('/api/chat')
+        .expect(200);
+      expect(response.body.messages.map((msg: any) => msg.id)).not.toContain('message-main-4');
+      expect(response.body.messages).toHaveLength(4);
+
+      // Already deleted
+      await request(app)
+        .delete('/api/admin/chat/messages/message-main-4')
+        .set('Cookie', sessionCookie(moderatorId))
+        .expect(404);
+    });
+
+    it('should only let moderators delete messages', async () => {
+      const userId = await createUserWithRole('user');
+
+      await request(app)
+        .delete('/api/admin/chat/messages/message-main-0')
+        .set('Cookie', sessionCookie(userId))
+        .expect(403);
+
+      await request(app)
+        .delete('/api/admin/chat/messages/message-main-0')
+        .expect(401);
+
+      expect(await ChatMessage.countDocuments({ deletedAt: { $exists: true } })).toBe(0);
+    });
+  });
+
+  describe('PUT /api/admin/chat/slow-mode', () => {
+    it('should turn slow mode on and off', async () => {
+      const moderatorId = await createUserWithRole('moderator');
+
+      const response = await request(app)
+        .put('/api/admin/chat/slow-mode')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ intervalMs: 30000 })
+        .expect(200);
+
+      expect(response.body).toEqual({ boardId: 'main', intervalMs: 30000 });
+      expect(getSlowModeMs('main')).toBe(30000);
+
+      await request(app)
+        .put('/api/admin/chat/slow-mode')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ intervalMs: 0 })
+        .expect(200);
+      expect(getSlowModeMs('main')).toBe(0);
+    });
+
+    it('should set the slow mode of one board', async () => {
+      const moderatorId = await createUserWithRole('moderator');
+      await Board.create({ id: 'event', name: 'Event board', width: 100, height: 100 });
+
+      await request(app)
+        .put('/api/admin/boards/event/chat/slow-mode')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ intervalMs: 5000 })
+        .expect(200);
+
+      expect(getSlowModeMs('event')).toBe(5000);
+      expect(getSlowModeMs('main')).toBe(0);
+    });
+
+    it('should return 400 for invalid intervals', async () => {
+      const moderatorId = await createUserWithRole('moderator');
+      const send = (body: object) => request(app)
+        .put('/api/admin/chat/slow-mode')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send(body);
+
+      await send({}).expect(400);
+      await send({ intervalMs: -1 }).expect(400);
+      await send({ intervalMs: 1.5 }).expect(400);
+      await send({ intervalMs: '1000' }).expect(400);
+      await send({ intervalMs: 24 * 60 * 60 * 1000 }).expect(400);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,317 @@
+import request from 'supertest';
+import app from '../../src/app';
+import { Pixel } from '../../src/models/pixel.model';
+import { decodePixelEvents, PIXEL_EVENT_RECORD_SIZE } from '@libs/utils';
+
+/**
+ * Collect binary response bodies into a Buffer
+ */
+const binaryParser = (res: any, callback: (error: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+};
+
+const toArrayBuffer = (buffer: Buffer): ArrayBuffer => {
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length) as ArrayBuffer;
+};
+
+describe('Pixel History API Integration Tests', () => {
+  // Two overwrites of (0,0) and one untouched pixel, one hour apart
+  const testPixels = [
+    { x: 0, y: 0, color: '#FF0000', userId: 'test-user-1', timestamp: new Date('2024-01-01T10:00:00Z') },
+    { x: 5, y: 5, color: '#00FF00', userId: 'test-user-2', timestamp: new Date('2024-01-01T11:00:00Z') },
+    { x: 0, y: 0, color: '#0000FF', userId: 'test-user-2', timestamp: new Date('2024-01-01T12:00:00Z') },
+    { x: 0, y: 0, color: '#FFFFFF', userId: 'test-user-3', timestamp: new Date('2024-01-01T13:00:00Z') },
+  ];
+
+  beforeEach(async () => {
+    await Pixel.insertMany(testPixels);
+  });
+
+  describe('GET /api/pixels/snapshot', () => {
+    it('should return the canvas state as of a timestamp', async () => {
+      console.log('🧪 Testing canvas snapshot...');
+
+      const response = await request(app)
+        .get('/api/pixels/snapshot')
+        .query({ at: '2024-01-01T12:30:00Z' })
+        .expect(200);
+
+      expect(response.body.at).toBe('2024-01-01T12:30:00.000Z');
+      expect(response.body.pixels).toHaveLength(2);
+
+      const pixelAt00 = response.body.pixels.find((p: any) => p.x === 0 && p.y === 0);
+      expect(pixelAt00.color).toBe('#0000FF');
+
+      console.log('✅ Canvas snapshot test passed');
+    });
+
+    it('should accept timestamps in milliseconds', async () => {
+      const response = await request(app)
+        .get('/api/pixels/snapshot')
+        .query({ at: new Date('2024-01-01T10:30:00Z').getTime().toString() })
+        .expect(200);
+
+      expect(response.body.pixels).toEqual([{ x: 0, y: 0, color: '#FF0000' }]);
+    });
+
+    it('should return an empty canvas before the first placement', async () => {
+      const response = await request(app)
+        .get('/api/pixels/snapshot')
+        .query({ at: '2023-12-31T00:00:00Z' })
+        .expect(200);
+
+      expect(response.body.pixels).toHaveLength(0);
+    });
+
+    it('should return 400 for a missing or invalid timestamp', async () => {
+      const missing = await request(app)
+        .get('/api/pixels/snapshot')
+        .expect(400);
+      expect(missing.body.error).toBe('Bad Request');
+
+      await request(app)
+        .get('/api/pixels/snapshot')
+        .query({ at: 'yesterday' })
+        .expect(400);
+    });
+
+    it('should return the snapshot in binary format', async () => {
+      const response = await request(app)
+        .get('/api/pixels/snapshot/binary')
+        .query({ at: '2024-01-01T12:30:00Z' })
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('application/octet-stream');
+      expect(response.headers['x-pixel-count']).toBe('2');
+      expect(response.body.length).toBe(2 * PIXEL_EVENT_RECORD_SIZE);
+
+      const pixels = decodePixelEvents(toArrayBuffer(response.body));
+      expect(pixels).toContainEqual({
+        x: 0,
+        y: 0,
+        color: '#0000FF',
+        timestamp: new Date('2024-01-01T12:00:00Z').getTime(),
+      });
+    });
+  });
+
+  describe('GET /api/pixels/history', () => {
+    it('should return the full history of a coordinate, newest first', async () => {
+      console.log('🧪 Testing coordinate history...');
+
+      const response = await request(app)
+        .get('/api/pixels/history')
+        .query({ x: 0, y: 0 })
+        .expect(200);
+
+      expect(response.body.x).toBe(0);
+      expect(response.body.y).toBe(0);
+      expect(response.body.events.map((e: any) => e.color)).toEqual(['#FFFFFF', '#0000FF', '#FF0000']);
+      expect(response.body.events[0]).toEqual({
+        x: 0,
+        y: 0,
+        color: '#FFFFFF',
+        userId: 'test-user-3',
+        timestamp: '2024-01-01T13:00:00.000Z',
+      });
+      expect(response.body.nextBefore).toBeNull();
+
+      console.log('✅ Coordinate history test passed');
+    });
+
+    it('should page through older events with before', async () => {
+      const firstPage = await request(app)
+        .get('/api/pixels/history')
+        .query({ x: 0, y: 0, limit: 2 })
+        .expect(200);
+
+      expect(firstPage.body.events).toHaveLength(2);
+      expect(typeof firstPage.body.nextBefore).toBe('string');
+
+      const secondPage = await request(app)
+        .get('/api/pixels/history')
+        .query({ x: 0, y: 0, limit: 2, before: firstPage.body.nextBefore })
+        .expect(200);
+
+      expect(secondPage.body.events.map((e: any) => e.color)).toEqual(['#FF0000']);
+      expect(secondPage.body.nextBefore).toBeNull();
+    });
+
+    it('should not skip events sharing a timestamp at a page boundary', async () => {
+      const timestamp = new Date('2024-01-01T14:00:00Z');
+      await Pixel.insertMany(['#111111', '#222222', '#333333'].map((color) => (
+        { x: 0, y: 0, color, userId: 'test-user-1', timestamp }
+      )));
+
+      const colors: string[] = [];
+      let before: string | undefined;
+      do {
+        const page = await request(app)
+          .get('/api/pixels/history')
+          .query({ x: 0, y: 0, limit: 2, ...(before ? { before } : {}) })
+          .expect(200);
+        colors.push(...page.body.events.map((e: any) => e.color));
+        before = page.body.nextBefore ?? undefined;
+      } while (before);
+
+      expect(colors).toHaveLength(6);
+      expect(colors.slice(3)).toEqual(['#FFFFFF', '#0000FF', '#FF0000']);
+    });
+
+    it('should accept a timestamp as before', async () => {
+      const response = await request(app)
+        .get('/api/pixels/history')
+        .query({ x: 0, y: 0, before: '2024-01-01T12:30:00Z' })
+        .expect(200);
+
+      expect(response.body.events.map((e: any) => e.color)).toEqual(['#0000FF', '#FF0000']);
+    });
+
+    it('should return 400 for coordinates outside the canvas', async () => {
+      await request(app)
+        .get('/api/pixels/history')
+        .query({ x: -1, y: 0 })
+        .expect(400);
+
+      await request(app)
+        .get('/api/pixels/history')
+        .query({ x: 0 })
+        .expect(400);
+    });
+  });
+
+  describe('GET /api/pixels/events', () => {
+    it('should return events between two timestamps in placement order', async () => {
+      console.log('🧪 Testing event stream...');
+
+      const response = await request(app)
+        .get('/api/pixels/events')
+        .query({ from: '2024-01-01T10:30:00Z', to: '2024-01-01T12:00:00Z' })
+        .expect(200);
+
+      expect(response.body.events.map((e: any) => e.color)).toEqual(['#00FF00', '#0000FF']);
+      expect(response.body.nextCursor).toBeNull();
+
+      console.log('✅ Event stream test passed');
+    });
+
+    it('should page through the stream with a cursor', async () => {
+      const from = '2024-01-01T00:00:00Z';
+      const to = '2024-01-02T00:00:00Z';
+      const colors: string[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const response = await request(app)
+          .get('/api/pixels/events')
+          .query({ from, to, limit: 3, ...(cursor ? { cursor } : {}) })
+          .expect(200);
+
+        colors.push(...response.body.events.map((e: any) => e.color));
+        cursor = response.body.nextCursor ?? undefined;
+      } while (cursor);
+
+      expect(colors).toEqual(['#FF0000', '#00FF00', '#0000FF', '#FFFFFF']);
+    });
+
+    it('should keep events with identical timestamps across pages', async () => {
+      const sameTime = new Date('2024-01-01T14:00:00Z');
+      await Pixel.insertMany([
+        { x: 1, y: 1, color: '#111111', userId: 'test-user-1', timestamp: sameTime },
+        { x: 2, y: 2, color: '#222222', userId: 'test-user-1', timestamp: sameTime },
+      ]);
+
+      const firstPage = await request(app)
+        .get('/api/pixels/events')
+        .query({ from: sameTime.toISOString(), to: sameTime.toISOString(), limit: 1 })
+        .expect(200);
+
+      const secondPage = await request(app)
+        .get('/api/pixels/events')
+        .query({ from: sameTime.toISOString(), to: sameTime.toISOString(), limit: 1, cursor: firstPage.body.nextCursor })
+        .expect(200);
+
+      const colors = [...firstPage.body.events, ...secondPage.body.events].map((e: any) => e.color).sort();
+      expect(colors).toEqual(['#111111', '#222222']);
+    });
+
+    it('should return 400 for an invalid range or cursor', async () => {
+      await request(app)
+        .get('/api/pixels/events')
+        .query({ from: '2024-01-02T00:00:00Z', to: '2024-01-01T00:00:00Z' })
+        .expect(400);
+
+      await request(app)
+        .get('/api/pixels/events')
+        .query({ from: '2024-01-01T00:00:00Z', to: '2024-01-02T00:00:00Z', cursor: 'not-a-cursor' })
+        .expect(400);
+    });
+
+    it('should return the event stream in binary format', async () => {
+      const response = await request(app)
+        .get('/api/pixels/events/binary')
+        .query({ from: '2024-01-01T00:00:00Z', to: '2024-01-02T00:00:00Z', limit: 2 })
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200);
+
+      expect(response.headers['x-pixel-count']).toBe('2');
+      expect(response.headers['x-next-cursor']).toBeDefined();
+
+      const events = decodePixelEvents(toArrayBuffer(response.body));
+      expect(events).toEqual([
+        { x: 0, y: 0, color: '#FF0000', timestamp: new Date('2024-01-01T10:00:00Z').getTime() },
+        { x: 5, y: 5, color: '#00FF00', timestamp: new Date('2024-01-01T11:00:00Z').getTime() },
+      ]);
+    });
+  });
+
+  describe('GET /api/pixels/replay', () => {
+    it('should stream every placement in time order', async () => {
+      console.log('🧪 Testing replay stream...');
+
+      const response = await request(app)
+        .get('/api/pixels/replay')
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('application/octet-stream');
+      expect(response.headers['x-pixel-count']).toBe('4');
+
+      const events = decodePixelEvents(toArrayBuffer(response.body));
+      expect(events.map(e => e.color)).toEqual(['#FF0000', '#00FF00', '#0000FF', '#FFFFFF']);
+      expect(events[3]).toEqual({
+        x: 0,
+        y: 0,
+        color: '#FFFFFF',
+        timestamp: new Date('2024-01-01T13:00:00Z').getTime(),
+      });
+
+      console.log('✅ Replay stream test passed');
+    });
+
+    it('should restrict the stream to a time window', async () => {
+      const response = await request(app)
+        .get('/api/pixels/replay')
+        .query({ from: '2024-01-01T10:30:00Z', to: '2024-01-01T12:00:00Z' })
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200);
+
+      expect(response.headers['x-pixel-count']).toBe('2');
+      expect(decodePixelEvents(toArrayBuffer(response.body)).map(e => e.color)).toEqual(['#00FF00', '#0000FF']);
+    });
+
+    it('should return 400 for an invalid time window', async () => {
+      await request(app)
+        .get('/api/pixels/replay')
+        .query({ from: 'last week' })
+        .expect(400);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import request from 'supertest';
+import { inflateSync } from 'zlib';
+import app from '../../src/app';
+import { Pixel } from '../../src/models/pixel.model';
+import { initializePixelRepository } from '../../src/services/pixelRepository';
+import { getPixelCacheService } from '../../src/services/pixelCache.service';
+
+const binaryParser = (res: any, callback: (error: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+};
+
+/**
+ * Minimal PNG reader for the RGBA, unfiltered images produced by the renderer
+ */
+const decodePng = (png: Buffer) => {
+  expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  const idat: Buffer[] = [];
+
+  while (offset < png.length) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('ascii', offset + 4, offset + 8);
+    const data = png.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    }
+    offset += 12 + length;
+  }
+
+  const scanlines = inflateSync(Buffer.concat(idat));
+  const pixelAt = (x: number, y: number): number[] => {
+    const start = y * (1 + width * 4) + 1 + x * 4;
+    return Array.from(scanlines.subarray(start, start + 4));
+  };
+
+  return { width, height, pixelAt };
+};
+
+describe('Canvas Image API Integration Tests', () => {
+  const testPixels = [
+    { x: 0, y: 0, color: '#FF0000', userId: 'test-user-1', timestamp: new Date('2024-01-01T10:00:00Z') },
+    { x: 1, y: 0, color: '#00FF00', userId: 'test-user-2', timestamp: new Date('2024-01-01T11:00:00Z') },
+    { x: 0, y: 0, color: '#0000FF', userId: 'test-user-1', timestamp: new Date('2024-01-01T12:00:00Z') },
+  ];
+
+  beforeAll(() => {
+    initializePixelRepository();
+  });
+
+  afterAll(() => {
+    getPixelCacheService().stop();
+  });
+
+  beforeEach(async () => {
+    await Pixel.insertMany(testPixels);
+  });
+
+  describe('GET /api/pixels/image.png', () => {
+    it('should render a region of the current canvas', async () => {
+      console.log('🧪 Testing canvas PNG export...');
+
+      const response = await request(app)
+        .get('/api/pixels/image.png')
+        .query({ minX: 0, minY: 0, maxX: 2, maxY: 1 })
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('image/png');
+
+      const image = decodePng(response.body);
+      expect(image.width).toBe(3);
+      expect(image.height).toBe(2);
+      expect(image.pixelAt(0, 0)).toEqual([0, 0, 255, 255]);
+      expect(image.pixelAt(1, 0)).toEqual([0, 255, 0, 255]);
+      expect(image.pixelAt(2, 1)).toEqual([0, 0, 0, 0]); // Unpainted pixels are transparent
+
+      console.log('✅ Canvas PNG export test passed');
+    });
+
+    it('should scale pixels and fill the background', async () => {
+      const response = await request(app)
+        .get('/api/pixels/image.png')
+        .query({ minX: 0, minY: 0, maxX: 1, maxY: 1, scale: 4, background: 'FFFFFF' })
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200);
+
+      const image = decodePng(response.body);
+      expect(image.width).toBe(8);
+      expect(image.height).toBe(8);
+      expect(image.pixelAt(3, 3)).toEqual([0, 0, 255, 255]);
+      expect(image.pixelAt(4, 0)).toEqual([0, 255, 0, 255]);
+      expect(image.pixelAt(7, 7)).toEqual([255, 255, 255, 255]);
+    });
+
+    it('should render a historical state', async () => {
+      const response = await request(app)
+        .get('/api/pixels/image.png')
+        .query({ minX: 0, minY: 0, maxX: 1, maxY: 0, at: '2024-01-01T10:30:00Z' })
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200);
+
+      const image = decodePng(response.body);
+      expect(image.pixelAt(0, 0)).toEqual([255, 0, 0, 255]);
+      expect(image.pixelAt(1, 0)).toEqual([0, 0, 0, 0]);
+    });
+
+    it('should return 400 for invalid parameters', async () => {
+      await request(app)
+        .get('/api/pixels/image.png')
+        .query({ minX: 10, maxX: 5 })
+        .expect(400);
+
+      await request(app)
+        .get('/api/pixels/image.png')
+        .query({ scale: 0 })
+        .expect(400);
+
+      // The full canvas at 2x exceeds the size limit
+      await request(app)
+        .get('/api/pixels/image.png')
+        .query({ scale: 2 })
+        .expect(400);
+
+      await request(app)
+        .get('/api/pixels/image.png')
+        .query({ background: 'blue' })
+        .expect(400);
+
+      await request(app)
+        .get('/api/pixels/image.png')
+        .query({ background: '#FFF' })
+        .expect(400);
+    });
+  });
+});
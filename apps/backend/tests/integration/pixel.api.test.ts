@@ -1,6 +1,17 @@
 import request from 'supertest';
 import app from '../../src/app';
 import { Pixel } from '../../src/models/pixel.model';
+import { initializePixelRepository } from '../../src/services/pixelRepository';
+import { getPixelCacheService } from '../../src/services/pixelCache.service';
+
+/**
+ * Collect binary response bodies into a Buffer
+ */
+const binaryParser = (res: any, callback: (error: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+};
 
 describe('Pixel API Integration Tests', () => {
   describe('GET /api/pixels', () => {
@@ -160,4 +171,75 @@ describe('Pixel API Integration Tests', () => {
       console.log('✅ Out-of-bounds coordinates test passed');
     });
   });
+
+  describe('GET /api/pixels/chunks/:cx/:cy', () => {
+    beforeAll(() => {
+      initializePixelRepository();
+    });
+
+    afterAll(() => {
+      getPixelCacheService().stop();
+    });
+
+    beforeEach(async () => {
+      // The database is emptied after each test; keep the cache in line
+      await getPixelCacheService().reloadFromDatabase();
+    });
+
+    it('should return only the pixels of the requested chunk', async () => {
+      console.log('🧪 Testing chunk retrieval...');
+
+      await Pixel.insertMany([
+        { x: 10, y: 10, color: '#FF0000', userId: 'test-user-1', timestamp: new Date('2024-01-01T10:00:00Z') },
+        { x: 250, y: 0, color: '#00FF00', userId: 'test-user-1', timestamp: new Date('2024-01-01T11:00:00Z') },
+        { x: 499, y: 249, color: '#0000FF', userId: 'test-user-2', timestamp: new Date('2024-01-01T12:00:00Z') },
+      ]);
+      await getPixelCacheService().reloadFromDatabase();
+
+      const response = await request(app)
+        .get('/api/pixels/chunks/1/0')
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('application/octet-stream');
+      expect(response.headers['x-pixel-count']).toBe('2');
+      expect(response.headers['x-chunk-size']).toBe('250');
+
+      const body: Buffer = response.body;
+      const pixels = [0, 8].map(offset => ({
+        x: body.readUInt16LE(offset),
+        y: body.readUInt16LE(offset + 2),
+        rgb: [body[offset + 4], body[offset + 5], body[offset + 6]],
+      }));
+      expect(pixels).toContainEqual({ x: 250, y: 0, rgb: [0, 255, 0] });
+      expect(pixels).toContainEqual({ x: 499, y: 249, rgb: [0, 0, 255] });
+
+      console.log('✅ Chunk retrieval test passed');
+    });
+
+    it('should fall back to the database before the cache is loaded', async () => {
+      await Pixel.insertMany([
+        { x: 4999, y: 4999, color: '#FFFFFF', userId: 'test-user-1', timestamp: new Date('2024-01-01T10:00:00Z') },
+      ]);
+
+      const response = await request(app)
+        .get('/api/pixels/chunks/19/19')
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200);
+
+      expect(response.headers['x-pixel-count']).toBe('1');
+    });
+
+    it('should return 400 for chunks outside the grid', async () => {
+      await request(app)
+        .get('/api/pixels/chunks/20/0')
+        .expect(400);
+
+      await request(app)
+        .get('/api/pixels/chunks/a/0')
+        .expect(400);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,183 @@
+import request from 'supertest';
+import app from '../../src/app';
+import { UserRole } from '@libs/common-types';
+import { generateUserId } from '@libs/utils';
+import { User } from '../../src/models/user.model';
+import { Board } from '../../src/models/board.model';
+import { ProtectedRegion } from '../../src/models/protectedRegion.model';
+import { resetProtectedRegionCache } from '../../src/services/protectedRegion.service';
+import { stopAllPixelCacheServices } from '../../src/services/pixelCache.service';
+
+describe('Protected Regions API Integration Tests', () => {
+  let adminId: string;
+
+  /**
+   * Create a stored user with a role; its ID is the session cookie
+   */
+  const createUserWithRole = async (role: UserRole, nickname = `Test ${role}`): Promise<string> => {
+    const userId = generateUserId();
+    await User.create({ userId, nickname, color: '#336699', role });
+    return userId;
+  };
+
+  const sessionCookie = (userId: string): string => `userId=${userId}`;
+
+  const logo = {
+    name: 'Community logo',
+    shape: { type: 'rect', minX: 10, minY: 10, maxX: 29, maxY: 19 },
+  };
+
+  afterAll(() => {
+    stopAllPixelCacheServices();
+  });
+
+  beforeEach(async () => {
+    adminId = await createUserWithRole('admin');
+  });
+
+  afterEach(() => {
+    resetProtectedRegionCache();
+  });
+
+  describe('POST /api/regions', () => {
+    it('should protect a region with an allow-list', async () => {
+      console.log('🧪 Testing protected region creation...');
+      const ownerId = await createUserWithRole('user', 'Logo Artist');
+
+      const response = await request(app)
+        .post('/api/regions')
+        .set('Cookie', sessionCookie(adminId))
+        .send({ ...logo, allowedUserIds: [ownerId, 'user_gone'], allowedRoles: ['moderator'] })
+        .expect(201);
+
+      expect(response.body.region).toMatchObject({
+        id: expect.any(String),
+        boardId: 'main',
+        name: 'Community logo',
+        shape: logo.shape,
+        allowedUsers: [
+          { userId: ownerId, nickname: 'Logo Artist' },
+          { userId: 'user_gone', nickname: null },
+        ],
+        allowedRoles: ['moderator'],
+        createdBy: adminId,
+      });
+
+      // Listing is public
+      const list = await request(app)
+        .get('/api/regions')
+        .expect(200);
+      expect(list.body.boardId).toBe('main');
+      expect(list.body.regions).toHaveLength(1);
+      expect(list.body.regions[0].id).toBe(response.body.region.id);
+
+      console.log('✅ Protected region creation test passed');
+    });
+
+    it('should accept polygons on other boards', async () => {
+      await Board.create({ id: 'small', name: 'Small', width: 32, height: 32 });
+
+      const shape = { type: 'polygon', points: [{ x: 0, y: 0 }, { x: 32, y: 0 }, { x: 16, y: 32 }] };
+      await request(app)
+        .post('/api/boards/small/regions')
+        .set('Cookie', sessionCookie(adminId))
+        .send({ name: 'Triangle', shape })
+        .expect(201);
+
+      const list = await request(app)
+        .get('/api/boards/small/regions')
+        .expect(200);
+      expect(list.body.regions[0]).toMatchObject({ boardId: 'small', shape, allowedUsers: [], allowedRoles: [] });
+
+      // Regions belong to their board
+      const main = await request(app)
+        .get('/api/regions')
+        .expect(200);
+      expect(main.body.regions).toHaveLength(0);
+    });
+
+    it('should return 400 for invalid regions', async () => {
+      const send = (body: object) => request(app)
+        .post('/api/regions')
+        .set('Cookie', sessionCookie(adminId))
+        .send(body);
+
+      await send({ shape: logo.shape }).expect(400);
+      await send({ name: 'No shape' }).expect(400);
+      await send({ name: 'Circle', shape: { type: 'circle', x: 5, y: 5, r: 3 } }).expect(400);
+      await send({ name: 'Inverted', shape: { type: 'rect', minX: 20, minY: 10, maxX: 10, maxY: 19 } }).expect(400);
+      await send({ name: 'Outside', shape: { type: 'rect', minX: 0, minY: 0, maxX: 5000, maxY: 10 } }).expect(400);
+      await send({ name: 'Line', shape: { type: 'polygon', points: [{ x: 0, y: 0 }, { x: 10, y: 10 }] } }).expect(400);
+      await send({ ...logo, allowedUserIds: 'everyone' }).expect(400);
+      await send({ ...logo, allowedRoles: ['owner'] }).expect(400);
+
+      expect(await ProtectedRegion.countDocuments({})).toBe(0);
+    });
+
+    it('should only let admins manage regions', async () => {
+      await request(app)
+        .post('/api/regions')
+        .send(logo)
+        .expect(401);
+
+      const moderatorId = await createUserWithRole('moderator');
+      await request(app)
+        .post('/api/regions')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send(logo)
+        .expect(403);
+    });
+  });
+
+  describe('PUT and DELETE /api/regions/:regionId', () => {
+    let regionId: string;
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post('/api/regions')
+        .set('Cookie', sessionCookie(adminId))
+        .send(logo)
+        .expect(201);
+      regionId = response.body.region.id;
+    });
+
+    it('should update the allow-list and keep the other fields', async () => {
+      const response = await request(app)
+        .put(`/api/regions/${regionId}`)
+        .set('Cookie', sessionCookie(adminId))
+        .send({ allowedRoles: ['user'] })
+        .expect(200);
+
+      expect(response.body.region).toMatchObject({ name: 'Community logo', shape: logo.shape, allowedRoles: ['user'] });
+    });
+
+    it('should delete a region', async () => {
+      await request(app)
+        .delete(`/api/regions/${regionId}`)
+        .set('Cookie', sessionCookie(adminId))
+        .expect(204);
+
+      expect(await ProtectedRegion.countDocuments({})).toBe(0);
+    });
+
+    it('should return 404 for unknown regions', async () => {
+      await request(app)
+        .put('/api/regions/not-an-id')
+        .set('Cookie', sessionCookie(adminId))
+        .send({ name: 'Renamed' })
+        .expect(404);
+
+      await request(app)
+        .delete('/api/regions/64b7f0c2a1b2c3d4e5f60718')
+        .set('Cookie', sessionCookie(adminId))
+        .expect(404);
+
+      // Regions are scoped to their board
+      await Board.create({ id: 'other', name: 'Other', width: 100, height: 100 });
+      await request(app)
+        .delete(`/api/boards/other/regions/${regionId}`)
+        .set('Cookie', sessionCookie(adminId))
+        .expect(404);
+    });
+  });
+});
\ No newline at end of file
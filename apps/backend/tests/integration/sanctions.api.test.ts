@@ -0,0 +1,244 @@
+import request from 'supertest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import app from '../../src/app';
+import config from '../../src/config';
+import { UserRole } from '@libs/common-types';
+import { generateUserId } from '@libs/utils';
+import { User } from '../../src/models/user.model';
+import { Sanction } from '../../src/models/sanction.model';
+
+describe('Sanctions API Integration Tests', () => {
+  let moderatorId: string;
+  let userId: string;
+
+  /**
+   * Create a stored user with a role; its ID is the session cookie
+   */
+  const createUserWithRole = async (role: UserRole): Promise<string> => {
+    const id = generateUserId();
+    await User.create({ userId: id, nickname: `Test ${role}`, color: '#336699', role });
+    return id;
+  };
+
+  const sessionCookie = (id: string): string => `userId=${id}`;
+
+  beforeEach(async () => {
+    moderatorId = await createUserWithRole('moderator');
+    userId = await createUserWithRole('user');
+  });
+
+  describe('POST /api/admin/sanctions', () => {
+    it('should ban a user for a while', async () => {
+      console.log('🧪 Testing temporary ban...');
+
+      const response = await request(app)
+        .post('/api/admin/sanctions')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ userId, type: 'ban', reason: 'Griefing', durationMs: 60 * 60 * 1000 })
+        .expect(201);
+
+      expect(response.body.sanction).toMatchObject({
+        id: expect.any(String),
+        userId,
+        type: 'ban',
+        reason: 'Griefing',
+        expiresAt: expect.any(String),
+        createdBy: moderatorId,
+      });
+      const expiresAt = new Date(response.body.sanction.expiresAt).getTime();
+      expect(expiresAt).toBeGreaterThan(Date.now() + 59 * 60 * 1000);
+
+      const me = await request(app)
+        .get('/api/users/me')
+        .set('Cookie', sessionCookie(userId))
+        .expect(200);
+      expect(me.body.ban).toMatchObject({ type: 'ban', reason: 'Griefing' });
+      expect(me.body.mute).toBeNull();
+
+      console.log('✅ Temporary ban test passed');
+    });
+
+    it('should mute a user permanently without a duration', async () => {
+      const response = await request(app)
+        .post('/api/admin/sanctions')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ userId, type: 'mute', reason: 'Insults' })
+        .expect(201);
+
+      expect(response.body.sanction).toMatchObject({ type: 'mute', expiresAt: null });
+
+      const me = await request(app)
+        .get('/api/users/me')
+        .set('Cookie', sessionCookie(userId))
+        .expect(200);
+      expect(me.body).toMatchObject({ ban: null, mute: { reason: 'Insults', expiresAt: null } });
+    });
+
+    it('should return 400 for invalid sanctions', async () => {
+      const send = (body: object) => request(app)
+        .post('/api/admin/sanctions')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send(body);
+
+      await send({ type: 'ban', reason: 'No target' }).expect(400);
+      await send({ userId, type: 'kick', reason: 'Unknown type' }).expect(400);
+      await send({ userId, type: 'ban', reason: '' }).expect(400);
+      await send({ userId, type: 'ban', reason: 'x'.repeat(501) }).expect(400);
+      await send({ userId, type: 'ban', reason: 'Negative', durationMs: -1 }).expect(400);
+      await send({ userId: moderatorId, type: 'ban', reason: 'Myself' }).expect(400);
+
+      expect(await Sanction.countDocuments({})).toBe(0);
+    });
+
+    it('should return 404 for unknown users', async () => {
+      await request(app)
+        .post('/api/admin/sanctions')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ userId: 'user_unknown', type: 'ban', reason: 'Ghost' })
+        .expect(404);
+    });
+
+    it('should only let admins sanction moderators', async () => {
+      const otherModeratorId = await createUserWithRole('moderator');
+
+      await request(app)
+        .post('/api/admin/sanctions')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ userId: otherModeratorId, type: 'mute', reason: 'Rivalry' })
+        .expect(403);
+
+      const adminId = await createUserWithRole('admin');
+      await request(app)
+        .post('/api/admin/sanctions')
+        .set('Cookie', sessionCookie(adminId))
+        .send({ userId: otherModeratorId, type: 'mute', reason: 'Abuse of power' })
+        .expect(201);
+
+      await request(app)
+        .post('/api/admin/sanctions')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ userId: adminId, type: 'ban', reason: 'Coup' })
+        .expect(403);
+    });
+
+    it('should keep regular users out', async () => {
+      const otherUserId = await createUserWithRole('user');
+
+      await request(app)
+        .post('/api/admin/sanctions')
+        .set('Cookie', sessionCookie(userId))
+        .send({ userId: otherUserId, type: 'ban', reason: 'Vigilante' })
+        .expect(403);
+    });
+  });
+
+  describe('GET /api/admin/sanctions', () => {
+    it('should list active sanctions only', async () => {
+      await Sanction.create({ userId, type: 'ban', reason: 'Active', expiresAt: null, createdBy: moderatorId });
+      await Sanction.create({ userId, type: 'mute', reason: 'Expired', expiresAt: new Date(Date.now() - 1000), createdBy: moderatorId });
+      await Sanction.create({ userId: 'user_other', type: 'mute', reason: 'Other', expiresAt: null, createdBy: moderatorId });
+
+      const all = await request(app)
+        .get('/api/admin/sanctions')
+        .set('Cookie', sessionCookie(moderatorId))
+        .expect(200);
+      expect(all.body.sanctions.map((sanction: any) => sanction.reason).sort()).toEqual(['Active', 'Other']);
+
+      const forUser = await request(app)
+        .get('/api/admin/sanctions')
+        .query({ userId })
+        .set('Cookie', sessionCookie(moderatorId))
+        .expect(200);
+      expect(forUser.body.sanctions).toHaveLength(1);
+      expect(forUser.body.sanctions[0]).toMatchObject({ userId, type: 'ban', reason: 'Active' });
+    });
+  });
+
+  describe('DELETE /api/admin/sanctions/:sanctionId', () => {
+    it('should lift an active sanction', async () => {
+      const created = await request(app)
+        .post('/api/admin/sanctions')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ userId, type: 'ban', reason: 'Mistake' })
+        .expect(201);
+      const sanctionId = created.body.sanction.id;
+
+      await request(app)
+        .delete(`/api/admin/sanctions/${sanctionId}`)
+        .set('Cookie', sessionCookie(moderatorId))
+        .expect(200);
+
+      const stored = await Sanction.findById(sanctionId);
+      expect(stored!.liftedAt).toBeDefined();
+      expect(stored!.liftedBy).toBe(moderatorId);
+
+      const me = await request(app)
+        .get('/api/users/me')
+        .set('Cookie', sessionCookie(userId))
+        .expect(200);
+      expect(me.body.ban).toBeNull();
+
+      // Already lifted
+      await request(app)
+        .delete(`/api/admin/sanctions/${sanctionId}`)
+        .set('Cookie', sessionCookie(moderatorId))
+        .expect(404);
+    });
+
+    it('should return 404 for unknown sanctions', async () => {
+      await request(app)
+        .delete('/api/admin/sanctions/not-an-id')
+        .set('Cookie', sessionCookie(moderatorId))
+        .expect(404);
+
+      await request(app)
+        .delete('/api/admin/sanctions/64b7f0c2a1b2c3d4e5f60718')
+        .set('Cookie', sessionCookie(moderatorId))
+        .expect(404);
+    });
+  });
+
+  describe('Signaling notifications', () => {
+    let signalingServer: Server;
+    const notified: string[] = [];
+
+    beforeAll(async () => {
+      // Stands in for the signaling service and records whom it is asked to re-check
+      signalingServer = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => { body += chunk; });
+        req.on('end', () => {
+          notified.push(`${req.method} ${req.url} ${JSON.parse(body).userId}`);
+          res.writeHead(202).end();
+        });
+      });
+      await new Promise<void>((resolve) => signalingServer.listen(0, resolve));
+      config.signalingUrl = `http://localhost:${(signalingServer.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      config.signalingUrl = undefined;
+      await new Promise((resolve) => signalingServer.close(resolve));
+    });
+
+    it('should ask the signaling service to re-check muted and unmuted users', async () => {
+      const created = await request(app)
+        .post('/api/admin/sanctions')
+        .set('Cookie', sessionCookie(moderatorId))
+        .send({ userId, type: 'mute', reason: 'Spam' })
+        .expect(201);
+
+      await request(app)
+        .delete(`/api/admin/sanctions/${created.body.sanction.id}`)
+        .set('Cookie', sessionCookie(moderatorId))
+        .expect(200);
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(notified).toEqual([
+        `POST /api/sanctions/refresh ${userId}`,
+        `POST /api/sanctions/refresh ${userId}`,
+      ]);
+    });
+  });
+});
\ No newline at end of file
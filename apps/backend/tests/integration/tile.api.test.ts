@@ -0,0 +1,184 @@
+import request from 'supertest';
+import { inflateSync } from 'zlib';
+import app from '../../src/app';
+import { Board } from '../../src/models/board.model';
+import { Pixel } from '../../src/models/pixel.model';
+import { initializePixelRepository, PixelRepository } from '../../src/services/pixelRepository';
+import { getPixelCacheService, stopAllPixelCacheServices } from '../../src/services/pixelCache.service';
+import { getTileService, MAX_TILE_ZOOM, TILE_SIZE } from '../../src/services/tile.service';
+
+const binaryParser = (res: any, callback: (error: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+};
+
+/**
+ * Minimal PNG reader for the RGBA, unfiltered images produced by the renderer
+ */
+const decodePng = (png: Buffer) => {
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  const idat: Buffer[] = [];
+
+  while (offset < png.length) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('ascii', offset + 4, offset + 8);
+    const data = png.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    }
+    offset += 12 + length;
+  }
+
+  const scanlines = inflateSync(Buffer.concat(idat));
+  const pixelAt = (x: number, y: number): number[] => {
+    const start = y * (1 + width * 4) + 1 + x * 4;
+    return Array.from(scanlines.subarray(start, start + 4));
+  };
+
+  return { width, height, pixelAt };
+};
+
+describe('Tile API Integration Tests', () => {
+  let repo: PixelRepository;
+
+  beforeAll(() => {
+    repo = initializePixelRepository();
+  });
+
+  afterAll(() => {
+    stopAllPixelCacheServices();
+  });
+
+  beforeEach(async () => {
+    // The database is emptied after each test; bring the cache and tiles in line
+    await getPixelCacheService().reloadFromDatabase();
+    getTileService().invalidateAll();
+  });
+
+  describe('GET /api/tiles/:z/:x/:y.png', () => {
+    it('should render a single tile covering the whole canvas at zoom 0', async () => {
+      console.log('🧪 Testing zoom 0 tile...');
+
+      const response = await request(app)
+        .get('/api/tiles/0/0/0.png')
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('image/png');
+      expect(response.headers['etag']).toBeDefined();
+
+      const tile = decodePng(response.body);
+      expect(tile.width).toBe(TILE_SIZE);
+      expect(tile.height).toBe(TILE_SIZE);
+
+      console.log('✅ Zoom 0 tile test passed');
+    });
+
+    it('should render canvas pixels one to one at the deepest zoom', async () => {
+      await repo.recordPixel(3, 4, '#FF0000', 'test-user-1');
+      await repo.recordPixel(TILE_SIZE + 1, 0, '#00FF00', 'test-user-1');
+
+      const first = await request(app)
+        .get(`/api/tiles/${MAX_TILE_ZOOM}/0/0.png`)
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200);
+
+      const tile = decodePng(first.body);
+      expect(tile.pixelAt(3, 4)).toEqual([255, 0, 0, 255]);
+      expect(tile.pixelAt(4, 4)).toEqual([0, 0, 0, 0]);
+
+      const second = await request(app)
+        .get(`/api/tiles/${MAX_TILE_ZOOM}/1/0.png`)
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200);
+
+      expect(decodePng(second.body).pixelAt(1, 0)).toEqual([0, 255, 0, 255]);
+    });
+
+    it('should average pixels when zoomed out', async () => {
+      await repo.recordPixel(0, 0, '#FF0000', 'test-user-1');
+      await repo.recordPixel(1, 0, '#0000FF', 'test-user-1');
+
+      const response = await request(app)
+        .get(`/api/tiles/${MAX_TILE_ZOOM - 1}/0/0.png`)
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200);
+
+      // Two of the four pixels of the 2x2 block are painted
+      expect(decodePng(response.body).pixelAt(0, 0)).toEqual([128, 0, 128, 128]);
+    });
+
+    it('should return 304 for unchanged tiles and re-render touched ones', async () => {
+      await repo.recordPixel(10, 10, '#FF0000', 'test-user-1');
+
+      const touchedUrl = `/api/tiles/${MAX_TILE_ZOOM}/0/0.png`;
+      const untouchedUrl = `/api/tiles/${MAX_TILE_ZOOM}/1/1.png`;
+
+      const touched = await request(app).get(touchedUrl).expect(200);
+      const untouched = await request(app).get(untouchedUrl).expect(200);
+      expect(touched.headers['last-modified']).toBeDefined();
+
+      await request(app)
+        .get(touchedUrl)
+        .set('If-None-Match', touched.headers['etag'])
+        .expect(304);
+
+      await request(app)
+        .get(touchedUrl)
+        .set('If-Modified-Since', touched.headers['last-modified'])
+        .expect(304);
+
+      await repo.recordPixel(11, 10, '#00FF00', 'test-user-1');
+
+      const changed = await request(app)
+        .get(touchedUrl)
+        .set('If-None-Match', touched.headers['etag'])
+        .expect(200);
+      expect(changed.headers['etag']).not.toBe(touched.headers['etag']);
+
+      await request(app)
+        .get(untouchedUrl)
+        .set('If-None-Match', untouched.headers['etag'])
+        .expect(304);
+    });
+
+    it('should wait for the pixel cache of a board to load before rendering', async () => {
+      await Board.create({ id: 'late', name: 'Late board', width: TILE_SIZE, height: TILE_SIZE });
+      await Pixel.create({ boardId: 'late', x: 3, y: 4, color: '#FF0000', userId: 'test-user-1', timestamp: new Date() });
+
+      // The first request creates the cache of the board and starts its load
+      const response = await request(app)
+        .get('/api/boards/late/tiles/0/0/0.png')
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200);
+
+      expect(decodePng(response.body).pixelAt(3, 4)).toEqual([255, 0, 0, 255]);
+    });
+
+    it('should reject invalid tile coordinates', async () => {
+      await request(app)
+        .get(`/api/tiles/${MAX_TILE_ZOOM + 1}/0/0.png`)
+        .expect(404);
+
+      await request(app)
+        .get('/api/tiles/0/1/0.png')
+        .expect(404);
+
+      await request(app)
+        .get('/api/tiles/a/0/0.png')
+        .expect(400);
+    });
+  });
+});
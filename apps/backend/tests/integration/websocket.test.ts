@@ -4,12 +4,44 @@ import { AddressInfo } from 'net';
 import { WebSocketService } from '../../src/ws/WebSocketService';
 import { BroadcastService } from '../../src/ws/broadcast';
 import { Pixel } from '../../src/models/pixel.model';
+import { User } from '../../src/models/user.model';
+import { Board } from '../../src/models/board.model';
+import { Sanction } from '../../src/models/sanction.model';
+import { ChatMessage } from '../../src/models/chatMessage.model';
+import { initializePixelRepository } from '../../src/services/pixelRepository';
+import { createProtectedRegion, resetProtectedRegionCache } from '../../src/services/protectedRegion.service';
+import { stopAllPixelCacheServices } from '../../src/services/pixelCache.service';
+import { setSlowMode, resetSlowModes } from '../../src/services/chat.service';
+import config from '../../src/config';
 import { 
   DrawPixelMessage, 
+  DrawPixelsMessage,
+  DrawPixelAckMessage,
+  DrawPixelsAckMessage,
+  DrawPixelsRejectedMessage,
   PixelUpdateMessage, 
+  SessionMessage,
+  ResumeMessage,
+  CooldownMessage,
+  RateLimitedMessage,
+  BannedMessage,
+  ChatSendMessage,
+  ChatBroadcastMessage,
+  ChatHistoryMessage,
+  ChatSettingsMessage,
+  ErrorMessage,
   ClientMessage, 
   ServerMessage 
 } from '@libs/common-types';
+import {
+  generateUserId,
+  BINARY_SUBPROTOCOL,
+  JSON_SUBPROTOCOL,
+  encodeDrawPixel,
+  decodeDrawPixel,
+  encodePixelUpdate,
+  decodePixelUpdate,
+} from '@libs/utils';
 
 describe('WebSocket Integration Tests', () => {
   let server: Server;
@@ -17,7 +49,28 @@ describe('WebSocket Integration Tests', () => {
   let serverPort: number;
   let serverUrl: string;
 
+  /**
+   * Create a stored user so its ID is accepted as a session cookie
+   */
+  const createSessionUser = async (): Promise<string> => {
+    const userId = generateUserId();
+    await User.create({ userId, nickname: 'Test Painter', color: '#336699' });
+    return userId;
+  };
+
+  /**
+   * Open a connection, authenticated when a user ID is given
+   */
+  const connectAs = (userId?: string): WebSocket => {
+    return userId
+      ? new WebSocket(serverUrl, { headers: { Cookie: `userId=${userId}` } })
+      : new WebSocket(serverUrl);
+  };
+
   beforeAll(async () => {
+    // Pixel writes go through the repository + cache
+    initializePixelRepository();
+
     // Create HTTP server for WebSocket testing
     server = createServer();
     
@@ -41,6 +94,8 @@ describe('WebSocket Integration Tests', () => {
     
     // Close HTTP server
     server.close();
+
+    stopAllPixelCacheServices();
     
     console.log('🧪 Test WebSocket server stopped');
   });
@@ -55,7 +110,7 @@ describe('WebSocket Integration Tests', () => {
 
   describe('Single Client Operations', () => {
     test('should connect and receive pixel updates', async () => {
-      const client = new WebSocket(serverUrl);
+      const client = connectAs(await createSessionUser());
       const messages: ServerMessage[] = [];
 
       // Collect messages
@@ -117,7 +172,7 @@ describe('WebSocket Integration Tests', () => {
     });
 
     test('should reject invalid pixel coordinates', async () => {
-      const client = new WebSocket(serverUrl);
+      const client = connectAs(await createSessionUser());
       const messages: ServerMessage[] = [];
 
       client.on('message', (data) => {
@@ -152,6 +207,41 @@ describe('WebSocket Integration Tests', () => {
 
       client.close();
     });
+
+    test('should answer placements that carry a request ID', async () => {
+      const client = connectAs(await createSessionUser());
+      const messages: ServerMessage[] = [];
+
+      client.on('message', (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+
+      await new Promise<void>((resolve) => {
+        client.on('open', resolve);
+      });
+
+      const draws: DrawPixelMessage[] = [
+        { type: 'DRAW_PIXEL', payload: { x: 110, y: 210, color: '#FF0000', requestId: 7 } },
+        { type: 'DRAW_PIXEL', payload: { x: -1, y: 210, color: '#FF0000', requestId: 8 } },
+        { type: 'DRAW_PIXEL', payload: { x: 111, y: 210, color: '#FF0000' } },
+      ];
+      for (const draw of draws) {
+        client.send(JSON.stringify(draw));
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const acks = messages.filter(msg => msg.type === 'DRAW_PIXEL_ACK') as DrawPixelAckMessage[];
+      expect(acks.map(msg => msg.payload)).toEqual([{ requestId: 7 }]);
+
+      const errorMessage = messages.find(msg => msg.type === 'ERROR') as ErrorMessage;
+      expect(errorMessage.payload).toEqual({ message: 'Invalid pixel data', code: 'INVALID_PIXEL', requestId: 8 });
+
+      // Placements without a request ID are still placed, just not acknowledged
+      expect(await Pixel.countDocuments({})).toBe(2);
+
+      client.close();
+    });
   });
 
   describe('Multiple Concurrent Clients', () => {
@@ -163,7 +253,7 @@ describe('WebSocket Integration Tests', () => {
 
       // Create multiple clients
       for (let i = 0; i < clientCount; i++) {
-        const client = new WebSocket(serverUrl);
+        const client = connectAs(await createSessionUser());
         const messages: ServerMessage[] = [];
         
         client.on('message', (data) => {
@@ -251,7 +341,7 @@ describe('WebSocket Integration Tests', () => {
 
       // Connect all clients
       for (let i = 0; i < clientCount; i++) {
-        const client = new WebSocket(serverUrl);
+        const client = connectAs(await createSessionUser());
         const messages: ServerMessage[] = [];
         
         client.on('message', (data) => {
@@ -328,7 +418,7 @@ describe('WebSocket Integration Tests', () => {
 
   describe('Rate Limiting and Batching', () => {
     test('should batch multiple rapid pixel updates', async () => {
-      const client = new WebSocket(serverUrl);
+      const client = connectAs(await createSessionUser());
       const messages: ServerMessage[] = [];
 
       client.on('message', (data) => {
@@ -377,7 +467,7 @@ describe('WebSocket Integration Tests', () => {
     });
 
     test('should respect 10Hz broadcast rate', async () => {
-      const client = new WebSocket(serverUrl);
+      const client = connectAs(await createSessionUser());
       const messageTimestamps: number[] = [];
 
       client.on('message', (data) => {
@@ -432,86 +522,1483 @@ describe('WebSocket Integration Tests', () => {
     });
   });
 
-  describe('Error Handling and Recovery', () => {
-    test('should handle malformed messages gracefully', async () => {
-      const client = new WebSocket(serverUrl);
+  describe('Session Authentication', () => {
+    test('should attribute pixels to the authenticated session user', async () => {
+      const userId = await createSessionUser();
+      const client = connectAs(userId);
       const messages: ServerMessage[] = [];
 
       client.on('message', (data) => {
-        const message = JSON.parse(data.toString()) as ServerMessage;
-        messages.push(message);
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
       });
 
       await new Promise<void>((resolve) => {
         client.on('open', resolve);
       });
-
-      // Send malformed JSON
-      client.send('invalid json');
       await new Promise(resolve => setTimeout(resolve, 50));
 
-      // Should receive error message
-      const errorMessage = messages.find(msg => msg.type === 'ERROR');
-      expect(errorMessage).toBeDefined();
+      const session = messages.find(msg => msg.type === 'SESSION') as SessionMessage;
+      expect(session).toBeDefined();
+      expect(session.payload).toEqual({
+        boardId: 'main',
+        userId,
+        readOnly: false,
+        seq: expect.any(Number),
+        epoch: expect.any(String),
+        maxBatchSize: Math.min(config.pixelBatchMaxSize, config.pixelRateLimit.capacity),
+      });
 
-      // Connection should still be alive for valid messages
-      const validMessage: DrawPixelMessage = {
+      const drawMessage: DrawPixelMessage = {
         type: 'DRAW_PIXEL',
-        payload: {
-          x: 50,
-          y: 50,
-          color: '#00FFFF'
-        }
+        payload: { x: 7, y: 8, color: '#ABCDEF' }
       };
+      client.send(JSON.stringify(drawMessage));
 
-      client.send(JSON.stringify(validMessage));
       await new Promise(resolve => setTimeout(resolve, 150));
       wsService.flushBroadcastQueue();
       await new Promise(resolve => setTimeout(resolve, 50));
 
-      // Should receive pixel update
-      const pixelUpdate = messages.find(msg => msg.type === 'PIXEL_UPDATE');
+      const pixelUpdate = messages.find(msg => msg.type === 'PIXEL_UPDATE') as PixelUpdateMessage;
       expect(pixelUpdate).toBeDefined();
+      expect(pixelUpdate.payload.pixels[0].userId).toBe(userId);
+
+      const savedPixels = await Pixel.find({});
+      expect(savedPixels).toHaveLength(1);
+      expect(savedPixels[0].userId).toBe(userId);
+
+      const connected = wsService.getConnectedClients();
+      expect(connected.some(c => c.userId === userId)).toBe(true);
 
       client.close();
     });
 
-    test('should handle database errors gracefully', async () => {
-      // This test would require mocking database failures
-      // For now, we'll test that the system doesn't crash with invalid data
-      
-      const client = new WebSocket(serverUrl);
-      const messages: ServerMessage[] = [];
+    test('should accept anonymous connections as read-only', async () => {
+      const viewer = connectAs();
+      const painter = connectAs(await createSessionUser());
+      const viewerMessages: ServerMessage[] = [];
 
-      client.on('message', (data) => {
-        const message = JSON.parse(data.toString()) as ServerMessage;
-        messages.push(message);
+      viewer.on('message', (data) => {
+        viewerMessages.push(JSON.parse(data.toString()) as ServerMessage);
       });
 
-      await new Promise<void>((resolve) => {
-        client.on('open', resolve);
+      await Promise.all([
+        new Promise<void>((resolve) => viewer.on('open', resolve)),
+        new Promise<void>((resolve) => painter.on('open', resolve)),
+      ]);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const session = viewerMessages.find(msg => msg.type === 'SESSION') as SessionMessage;
+      expect(session).toBeDefined();
+      expect(session.payload).toEqual({
+        boardId: 'main',
+        userId: null,
+        readOnly: true,
+        seq: expect.any(Number),
+        epoch: expect.any(String),
+        maxBatchSize: Math.min(config.pixelBatchMaxSize, config.pixelRateLimit.capacity),
       });
 
-      // Send message with invalid color format
-      const invalidColorMessage: DrawPixelMessage = {
+      // Anonymous draws are rejected and never persisted
+      const anonymousDraw: DrawPixelMessage = {
         type: 'DRAW_PIXEL',
-        payload: {
-          x: 25,
-          y: 25,
-          color: 'not-a-color'
-        }
+        payload: { x: 1, y: 1, color: '#FF0000' }
       };
+      viewer.send(JSON.stringify(anonymousDraw));
+      await new Promise(resolve => setTimeout(resolve, 100));
 
-      client.send(JSON.stringify(invalidColorMessage));
+      const errorMessage = viewerMessages.find(msg => msg.type === 'ERROR') as ErrorMessage;
+      expect(errorMessage).toBeDefined();
+      expect(errorMessage.payload.code).toBe('UNAUTHENTICATED');
+      expect(await Pixel.countDocuments({})).toBe(0);
+
+      // ...but the viewer still receives other users' updates
+      const painterDraw: DrawPixelMessage = {
+        type: 'DRAW_PIXEL',
+        payload: { x: 2, y: 2, color: '#00FF00' }
+      };
+      painter.send(JSON.stringify(painterDraw));
+      await new Promise(resolve => setTimeout(resolve, 150));
+      wsService.flushBroadcastQueue();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const pixelUpdate = viewerMessages.find(msg => msg.type === 'PIXEL_UPDATE') as PixelUpdateMessage;
+      expect(pixelUpdate).toBeDefined();
+      expect(pixelUpdate.payload.pixels[0]).toMatchObject({ x: 2, y: 2, color: '#00FF00' });
+
+      viewer.close();
+      painter.close();
+    });
+
+    test('should refuse connections with a forged session cookie', async () => {
+      const client = connectAs('user-forged-session');
+      client.on('error', () => { /* handshake is aborted below */ });
+
+      const statusCode = await new Promise<number | undefined>((resolve) => {
+        client.on('unexpected-response', (_request, response) => {
+          resolve(response.statusCode);
+        });
+        client.on('open', () => resolve(undefined));
+      });
+
+      expect(statusCode).toBe(401);
+      expect(wsService.getConnectedClients().some(c => c.userId === 'user-forged-session')).toBe(false);
+
+      client.terminate();
+    });
+  });
+
+  describe('Bans and Mutes', () => {
+    /**
+     * Connect as a user and collect its JSON messages once the connection settled
+     */
+    const connectAndCollect = async (userId: string): Promise<{ client: WebSocket; messages: ServerMessage[] }> => {
+      const client = connectAs(userId);
+      const messages: ServerMessage[] = [];
+      client.on('message', (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+
+      await new Promise<void>((resolve) => client.on('open', resolve));
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return { client, messages };
+    };
+
+    test('should announce an active ban on connect and reject placements', async () => {
+      const userId = await createSessionUser();
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+      await Sanction.create({ userId, type: 'ban', reason: 'Griefing', expiresAt, createdBy: 'user_mod' });
+
+      const { client, messages } = await connectAndCollect(userId);
+
+      const banned = messages.find(msg => msg.type === 'BANNED') as BannedMessage;
+      expect(banned).toBeDefined();
+      expect(banned.payload).toEqual({ reason: 'Griefing', expiresAt: expiresAt.toISOString() });
+
+      const drawMessage: DrawPixelMessage = {
+        type: 'DRAW_PIXEL',
+        payload: { x: 3, y: 3, color: '#FF0000' }
+      };
+      client.send(JSON.stringify(drawMessage));
       await new Promise(resolve => setTimeout(resolve, 100));
 
-      // Should receive error message
-      const errorMessage = messages.find(msg => msg.type === 'ERROR');
+      const errorMessage = messages.find(msg => msg.type === 'ERROR') as ErrorMessage;
       expect(errorMessage).toBeDefined();
+      expect(errorMessage.payload.code).toBe('USER_BANNED');
+      expect(messages.filter(msg => msg.type === 'BANNED')).toHaveLength(2);
+      expect(await Pixel.countDocuments({})).toBe(0);
 
-      // No pixel should be saved
-      const savedPixels = await Pixel.find({});
-      expect(savedPixels).toHaveLength(0);
+      client.close();
+    });
+
+    test('should ignore expired and lifted bans', async () => {
+      const userId = await createSessionUser();
+      await Sanction.create({ userId, type: 'ban', reason: 'Expired', expiresAt: new Date(Date.now() - 1000), createdBy: 'user_mod' });
+      await Sanction.create({ userId, type: 'ban', reason: 'Lifted', expiresAt: null, createdBy: 'user_mod', liftedAt: new Date(), liftedBy: 'user_mod' });
+
+      const { client, messages } = await connectAndCollect(userId);
+      expect(messages.some(msg => msg.type === 'BANNED')).toBe(false);
+
+      const drawMessage: DrawPixelMessage = {
+        type: 'DRAW_PIXEL',
+        payload: { x: 4, y: 4, color: '#00FF00' }
+      };
+      client.send(JSON.stringify(drawMessage));
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      expect(await Pixel.countDocuments({ userId })).toBe(1);
+
+      client.close();
+    });
+
+    test('should notify connected users when they are banned, muted or let off', async () => {
+      const userId = await createSessionUser();
+      const { client, messages } = await connectAndCollect(userId);
+
+      const ban = await Sanction.create({ userId, type: 'ban', reason: 'Spamming', expiresAt: null, createdBy: 'user_mod' });
+      await Sanction.create({ userId, type: 'mute', reason: 'Insults', expiresAt: null, createdBy: 'user_mod' });
+      await wsService.refreshSanctions(userId);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(messages.find(msg => msg.type === 'BANNED')).toMatchObject({ payload: { reason: 'Spamming', expiresAt: null } });
+      expect(messages.find(msg => msg.type === 'MUTED')).toMatchObject({ payload: { reason: 'Insults', expiresAt: null } });
+
+      ban.liftedAt = new Date();
+      await ban.save();
+      await wsService.refreshSanctions(userId);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(messages.find(msg => msg.type === 'SANCTION_LIFTED')).toEqual({ type: 'SANCTION_LIFTED', payload: { type: 'ban' } });
+
+      // Muted users can still draw
+      const drawMessage: DrawPixelMessage = {
+        type: 'DRAW_PIXEL',
+        payload: { x: 5, y: 5, color: '#0000FF' }
+      };
+      client.send(JSON.stringify(drawMessage));
+      await new Promise(resolve => setTimeout(resolve, 150));
+      expect(await Pixel.countDocuments({ userId })).toBe(1);
+
+      client.close();
+    });
+  });
+
+  describe('Protected Regions', () => {
+    afterEach(() => {
+      resetProtectedRegionCache();
+    });
+
+    /**
+     * Send a placement and collect the replies to it
+     */
+    const drawAs = async (userId: string, x: number, y: number): Promise<ServerMessage[]> => {
+      const client = connectAs(userId);
+      const messages: ServerMessage[] = [];
+      client.on('message', (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+      await new Promise<void>((resolve) => client.on('open', resolve));
+
+      const drawMessage: DrawPixelMessage = {
+        type: 'DRAW_PIXEL',
+        payload: { x, y, color: '#FF00FF' }
+      };
+      client.send(JSON.stringify(drawMessage));
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      client.close();
+      return messages;
+    };
+
+    test('should reject placements inside a region the user is not allowed in', async () => {
+      const ownerId = await createSessionUser();
+      const strangerId = await createSessionUser();
+      await createProtectedRegion('main', {
+        name: 'Community logo',
+        shape: { type: 'rect', minX: 10, minY: 10, maxX: 19, maxY: 19 },
+        allowedUserIds: [ownerId],
+        allowedRoles: [],
+      }, 'user_admin');
+
+      const rejected = await drawAs(strangerId, 15, 15);
+      const errorMessage = rejected.find(msg => msg.type === 'ERROR') as ErrorMessage;
+      expect(errorMessage).toBeDefined();
+      expect(errorMessage.payload.code).toBe('REGION_PROTECTED');
+      expect(errorMessage.payload.message).toContain('Community logo');
+
+      // Outside the region, and inside it for the owner
+      await drawAs(strangerId, 20, 15);
+      await drawAs(ownerId, 15, 15);
+
+      const saved = await Pixel.find({}).sort({ x: 1 });
+      expect(saved.map(pixel => [pixel.x, pixel.userId])).toEqual([[15, ownerId], [20, strangerId]]);
+    });
+
+    test('should let allowed roles and the roles above them paint inside', async () => {
+      const moderatorId = generateUserId();
+      await User.create({ userId: moderatorId, nickname: 'Test Moderator', color: '#336699', role: 'moderator' });
+      const adminId = generateUserId();
+      await User.create({ userId: adminId, nickname: 'Test Admin', color: '#336699', role: 'admin' });
+      const userId = await createSessionUser();
+
+      // Triangle (0,0) (8,0) (0,8): pixel (1,1) is inside, (6,6) is not
+      await createProtectedRegion('main', {
+        name: 'Staff corner',
+        shape: { type: 'polygon', points: [{ x: 0, y: 0 }, { x: 8, y: 0 }, { x: 0, y: 8 }] },
+        allowedUserIds: [],
+        allowedRoles: ['moderator'],
+      }, 'user_admin');
+
+      const rejected = await drawAs(userId, 1, 1);
+      expect(rejected.some(msg => msg.type === 'ERROR' && msg.payload.code === 'REGION_PROTECTED')).toBe(true);
+
+      await drawAs(userId, 6, 6);
+      await drawAs(moderatorId, 1, 2);
+      await drawAs(adminId, 2, 1);
+
+      expect(await Pixel.countDocuments({ userId })).toBe(1);
+      expect(await Pixel.countDocuments({ userId: moderatorId })).toBe(1);
+      expect(await Pixel.countDocuments({ userId: adminId })).toBe(1);
+    });
+  });
+
+  describe('Chat', () => {
+    /**
+     * Open a connection and collect its JSON messages
+     */
+    const openAndCollect = async (userId?: string): Promise<{ client: WebSocket; messages: ServerMessage[] }> => {
+      const client = connectAs(userId);
+      const messages: ServerMessage[] = [];
+      client.on('message', (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+
+      await new Promise<void>((resolve) => client.on('open', resolve));
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return { client, messages };
+    };
+
+    const sendChat = (client: WebSocket, id: string, message: string, replyTo?: string): void => {
+      const chatMessage: ChatSendMessage = {
+        type: 'CHAT_SEND',
+        payload: { id, message, replyTo },
+      };
+      client.send(JSON.stringify(chatMessage));
+    };
+
+    test('should store chat messages and relay them to everyone on the board', async () => {
+      const userId = await createSessionUser();
+      const sender = await openAndCollect(userId);
+      const viewer = await openAndCollect();
+
+      sendChat(sender.client, 'message-0001', '  Hello canvas!  ');
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      [sender.messages, viewer.messages].forEach((messages) => {
+        const relayed = messages.filter(msg => msg.type === 'CHAT_MESSAGE') as ChatBroadcastMessage[];
+        expect(relayed).toHaveLength(1);
+        expect(relayed[0].payload).toMatchObject({
+          id: 'message-0001',
+          userId,
+          nickname: 'Test Painter',
+          color: '#336699',
+          message: 'Hello canvas!',
+        });
+      });
+
+      expect(await ChatMessage.countDocuments({ boardId: 'main', messageId: 'message-0001' })).toBe(1);
+
+      // Resending the same message (e.g. after a reconnect) does not duplicate it
+      sendChat(sender.client, 'message-0001', 'Hello canvas!');
+      await new Promise(resolve => setTimeout(resolve, 150));
+      expect(sender.messages.filter(msg => msg.type === 'CHAT_MESSAGE')).toHaveLength(1);
+      expect(await ChatMessage.countDocuments({})).toBe(1);
+
+      sender.client.close();
+      viewer.client.close();
+    });
+
+    test('should send the latest messages to clients when they connect', async () => {
+      const base = Date.now() - 60 * 1000;
+      await ChatMessage.insertMany([
+        { boardId: 'main', messageId: 'message-old1', userId: 'user_a', nickname: 'A', color: '#111111', message: 'first', createdAt: new Date(base) },
+        { boardId: 'main', messageId: 'message-old2', userId: 'user_b', nickname: 'B', color: '#222222', message: 'second', createdAt: new Date(base + 1000) },
+        { boardId: 'other', messageId: 'message-old3', userId: 'user_c', nickname: 'C', color: '#333333', message: 'elsewhere', createdAt: new Date(base + 2000) },
+      ]);
+
+      const { client, messages } = await openAndCollect();
+      const history = messages.find(msg => msg.type === 'CHAT_HISTORY') as ChatHistoryMessage;
+
+      expect(history).toBeDefined();
+      expect(history.payload.messages.map(msg => msg.id)).toEqual(['message-old1', 'message-old2']);
+      expect(history.payload.messages[0].timestamp).toBe(base);
+      expect(history.payload.nextCursor).toBeNull();
+
+      client.close();
+    });
+
+    test('should reject chat from anonymous, muted and banned users', async () => {
+      const anonymous = await openAndCollect();
+      sendChat(anonymous.client, 'message-anon', 'Hi');
+
+      const mutedId = await createSessionUser();
+      await Sanction.create({ userId: mutedId, type: 'mute', reason: 'Insults', expiresAt: null, createdBy: 'user_mod' });
+      const muted = await openAndCollect(mutedId);
+      sendChat(muted.client, 'message-muted', 'Hi');
+
+      const bannedId = await createSessionUser();
+      await Sanction.create({ userId: bannedId, type: 'ban', reason: 'Griefing', expiresAt: null, createdBy: 'user_mod' });
+      const banned = await openAndCollect(bannedId);
+      sendChat(banned.client, 'message-banned', 'Hi');
+
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      const errorCode = (messages: ServerMessage[]) =>
+        (messages.find(msg => msg.type === 'ERROR') as ErrorMessage | undefined)?.payload.code;
+      expect(errorCode(anonymous.messages)).toBe('UNAUTHENTICATED');
+      expect(errorCode(muted.messages)).toBe('USER_MUTED');
+      expect(errorCode(banned.messages)).toBe('USER_BANNED');
+      expect(await ChatMessage.countDocuments({})).toBe(0);
+
+      anonymous.client.close();
+      muted.client.close();
+      banned.client.close();
+    });
+
+    test('should store replies and the nicknames mentioned in a message', async () => {
+      const userId = await createSessionUser();
+      const { client, messages } = await openAndCollect(userId);
+
+      sendChat(client, 'message-parent', 'Who drew the cat?');
+      await new Promise(resolve => setTimeout(resolve, 100));
+      sendChat(client, 'message-reply', '@Alice and @bob_99, it was @alice', 'message-parent');
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      const relayed = messages.filter(msg => msg.type === 'CHAT_MESSAGE') as ChatBroadcastMessage[];
+      expect(relayed.map(msg => msg.payload.replyTo)).toEqual([null, 'message-parent']);
+      expect(relayed[0].payload.mentions).toEqual([]);
+      expect(relayed[1].payload.mentions).toEqual(['Alice', 'bob_99']);
+
+      const stored = await ChatMessage.findOne({ messageId: 'message-reply' });
+      expect(stored!.replyTo).toBe('message-parent');
+      expect(stored!.mentions).toEqual(['Alice', 'bob_99']);
+
+      client.close();
+    });
+
+    test('should reject replies to missing or invalid messages', async () => {
+      await ChatMessage.create({ boardId: 'other', messageId: 'message-elsewhere', userId: 'user_a', nickname: 'A', color: '#111111', message: 'Hi' });
+      const userId = await createSessionUser();
+      const { client, messages } = await openAndCollect(userId);
+
+      sendChat(client, 'message-reply1', 'Agreed', 'message-missing');
+      sendChat(client, 'message-reply2', 'Agreed', 'message-elsewhere');
+      sendChat(client, 'message-reply3', 'Agreed', 'bad id!');
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      const errors = messages.filter(msg => msg.type === 'ERROR') as ErrorMessage[];
+      expect(errors.map(error => error.payload.chatMessageId).sort()).toEqual(['message-reply1', 'message-reply2', 'message-reply3']);
+      expect(errors.every(error => error.payload.code === 'INVALID_MESSAGE')).toBe(true);
+      expect(await ChatMessage.countDocuments({ userId })).toBe(0);
+
+      client.close();
+    });
+
+    describe('Moderation', () => {
+      afterEach(() => {
+        resetSlowModes();
+        config.chatBlockedWords = [];
+      });
+
+      test('should mask blocked words', async () => {
+        config.chatBlockedWords = ['heck'];
+        const userId = await createSessionUser();
+        const { client, messages } = await openAndCollect(userId);
+
+        sendChat(client, 'message-rude', 'What the HECK, heckler?');
+        await new Promise(resolve => setTimeout(resolve, 150));
+
+        const relayed = messages.find(msg => msg.type === 'CHAT_MESSAGE') as ChatBroadcastMessage;
+        expect(relayed.payload.message).toBe('What the ****, heckler?');
+        expect((await ChatMessage.findOne({ messageId: 'message-rude' }))!.message).toBe('What the ****, heckler?');
+
+        client.close();
+      });
+
+      test('should announce the chat settings on connect and when they change', async () => {
+        setSlowMode('main', 30000);
+        const { client, messages } = await openAndCollect();
+
+        const settings = messages.find(msg => msg.type === 'CHAT_SETTINGS') as ChatSettingsMessage;
+        expect(settings.payload).toEqual({
+          slowModeMs: 30000,
+          rateLimit: config.chatRateLimit,
+          blockedWords: [],
+        });
+
+        setSlowMode('main', 0);
+        wsService.broadcastChatSettings('main');
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        const updates = messages.filter(msg => msg.type === 'CHAT_SETTINGS') as ChatSettingsMessage[];
+        expect(updates).toHaveLength(2);
+        expect(updates[1].payload.slowModeMs).toBe(0);
+
+        client.close();
+      });
+
+      test('should enforce slow mode except for moderators', async () => {
+        setSlowMode('main', 60000);
+        const userId = await createSessionUser();
+        const moderatorId = generateUserId();
+        await User.create({ userId: moderatorId, nickname: 'Test Moderator', color: '#336699', role: 'moderator' });
+
+        const user = await openAndCollect(userId);
+        sendChat(user.client, 'message-slow1', 'First');
+        await new Promise(resolve => setTimeout(resolve, 100));
+        sendChat(user.client, 'message-slow2', 'Second');
+
+        const moderator = await openAndCollect(moderatorId);
+        sendChat(moderator.client, 'message-mod1', 'First');
+        await new Promise(resolve => setTimeout(resolve, 100));
+        sendChat(moderator.client, 'message-mod2', 'Second');
+        await new Promise(resolve => setTimeout(resolve, 150));
+
+        const errorMessage = user.messages.find(msg => msg.type === 'ERROR') as ErrorMessage;
+        expect(errorMessage.payload).toMatchObject({ code: 'CHAT_SLOW_MODE', chatMessageId: 'message-slow2' });
+        expect(moderator.messages.some(msg => msg.type === 'ERROR')).toBe(false);
+
+        expect(await ChatMessage.countDocuments({ userId })).toBe(1);
+        expect(await ChatMessage.countDocuments({ userId: moderatorId })).toBe(2);
+
+        user.client.close();
+        moderator.client.close();
+      });
+
+      test('should enforce slow mode on messages sent back to back', async () => {
+        setSlowMode('main', 60000);
+        const userId = await createSessionUser();
+        const { client, messages } = await openAndCollect(userId);
+
+        // A reply to a missing message is refused and does not use up the slot
+        sendChat(client, 'message-orphan', 'Reply', 'message-missing');
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        sendChat(client, 'message-race1', 'First');
+        sendChat(client, 'message-race2', 'Second');
+        await new Promise(resolve => setTimeout(resolve, 150));
+
+        const errors = messages.filter(msg => msg.type === 'ERROR') as ErrorMessage[];
+        expect(errors.map(error => error.payload.chatMessageId)).toEqual(['message-orphan', 'message-race2']);
+        expect(errors[1].payload.code).toBe('CHAT_SLOW_MODE');
+        expect(await ChatMessage.countDocuments({ userId })).toBe(1);
+
+        client.close();
+      });
+
+      test('should rate limit chat messages per user', async () => {
+        const userId = await createSessionUser();
+        const { client, messages } = await openAndCollect(userId);
+        const { capacity } = config.chatRateLimit;
+
+        for (let i = 0; i <= capacity; i++) {
+          sendChat(client, `message-burst${i}`, `Message ${i}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 200));
+
+        const errors = messages.filter(msg => msg.type === 'ERROR') as ErrorMessage[];
+        expect(errors).toHaveLength(1);
+        expect(errors[0].payload).toMatchObject({ code: 'CHAT_RATE_LIMITED', chatMessageId: `message-burst${capacity}` });
+        expect(await ChatMessage.countDocuments({ userId })).toBe(capacity);
+
+        client.close();
+      });
+
+      test('should tell everyone on the board about deleted messages', async () => {
+        const { client, messages } = await openAndCollect();
+
+        wsService.broadcastChatDelete('main', 'message-gone');
+        wsService.broadcastChatDelete('other', 'message-elsewhere');
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        expect(messages.filter(msg => msg.type === 'CHAT_DELETE')).toEqual([
+          { type: 'CHAT_DELETE', payload: { id: 'message-gone' } },
+        ]);
+
+        client.close();
+      });
+    });
+
+    test('should reject empty, oversized and unidentified messages', async () => {
+      const userId = await createSessionUser();
+      const { client, messages } = await openAndCollect(userId);
+
+      sendChat(client, 'message-empty', '   ');
+      sendChat(client, 'message-long', 'x'.repeat(501));
+      sendChat(client, 'no', 'Hi');
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      const errors = messages.filter(msg => msg.type === 'ERROR') as ErrorMessage[];
+      expect(errors.map(error => error.payload.code)).toEqual(['INVALID_MESSAGE', 'INVALID_MESSAGE', 'INVALID_MESSAGE']);
+      expect(await ChatMessage.countDocuments({})).toBe(0);
+
+      client.close();
+    });
+  });
+
+  describe('Reconnect and Resume', () => {
+    test('should number broadcast batches consecutively', async () => {
+      const client = connectAs(await createSessionUser());
+      const messages: ServerMessage[] = [];
+
+      client.on('message', (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+
+      await new Promise<void>((resolve) => {
+        client.on('open', resolve);
+      });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const session = messages.find(msg => msg.type === 'SESSION') as SessionMessage;
+
+      for (let i = 0; i < 2; i++) {
+        client.send(JSON.stringify({ type: 'DRAW_PIXEL', payload: { x: 600 + i, y: 600, color: '#112233' } }));
+        await new Promise(resolve => setTimeout(resolve, 50));
+        wsService.flushBroadcastQueue();
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+
+      const pixelUpdates = messages.filter(msg => msg.type === 'PIXEL_UPDATE') as PixelUpdateMessage[];
+      expect(pixelUpdates.map(msg => msg.payload.seq)).toEqual([session.payload.seq + 1, session.payload.seq + 2]);
+
+      client.close();
+    });
+
+    test('should replay missed batches to a resuming client', async () => {
+      const painter = connectAs(await createSessionUser());
+      const viewer = connectAs();
+      const viewerMessages: ServerMessage[] = [];
+
+      viewer.on('message', (data) => {
+        viewerMessages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+
+      await Promise.all([
+        new Promise<void>((resolve) => painter.on('open', resolve)),
+        new Promise<void>((resolve) => viewer.on('open', resolve)),
+      ]);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const { seq: lastSeq, epoch } = (viewerMessages.find(msg => msg.type === 'SESSION') as SessionMessage).payload;
+      viewer.close();
+
+      // Two batches are broadcast while the viewer is away
+      for (let i = 0; i < 2; i++) {
+        painter.send(JSON.stringify({ type: 'DRAW_PIXEL', payload: { x: 700 + i, y: 700, color: '#445566' } }));
+        await new Promise(resolve => setTimeout(resolve, 50));
+        wsService.flushBroadcastQueue();
+      }
+
+      const resumed = connectAs();
+      const resumedMessages: ServerMessage[] = [];
+      resumed.on('message', (data) => {
+        resumedMessages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+      await new Promise<void>((resolve) => {
+        resumed.on('open', resolve);
+      });
+
+      const resumeMessage: ResumeMessage = { type: 'RESUME', payload: { lastSeq, epoch } };
+      resumed.send(JSON.stringify(resumeMessage));
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const replayed = resumedMessages.filter(msg => msg.type === 'PIXEL_UPDATE') as PixelUpdateMessage[];
+      expect(replayed.map(msg => msg.payload.seq)).toEqual([lastSeq + 1, lastSeq + 2]);
+      expect(replayed.map(msg => msg.payload.pixels[0].x)).toEqual([700, 701]);
+      expect(resumedMessages.some(msg => msg.type === 'RELOAD_CANVAS')).toBe(false);
+
+      painter.close();
+      resumed.close();
+    });
+
+    test('should request a reload when the gap cannot be replayed', async () => {
+      const client = connectAs();
+      const messages: ServerMessage[] = [];
+
+      client.on('message', (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+
+      await new Promise<void>((resolve) => {
+        client.on('open', resolve);
+      });
+      await new Promise(resolve => setTimeout(resolve, 50));
+      const { epoch } = (messages.find(msg => msg.type === 'SESSION') as SessionMessage).payload;
+
+      // A sequence number from the future
+      client.send(JSON.stringify({ type: 'RESUME', payload: { lastSeq: 1_000_000_000, epoch } }));
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(messages.filter(msg => msg.type === 'RELOAD_CANVAS')).toHaveLength(1);
+
+      // A sequence number the server still has, but numbered before a server restart
+      client.send(JSON.stringify({ type: 'RESUME', payload: { lastSeq: 0, epoch: 'previous-run' } }));
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(messages.filter(msg => msg.type === 'RELOAD_CANVAS')).toHaveLength(2);
+
+      client.send(JSON.stringify({ type: 'RESUME', payload: { lastSeq: 'latest' } }));
+      await new Promise(resolve => setTimeout(resolve, 50));
+      const errorMessage = messages.find(msg => msg.type === 'ERROR') as ErrorMessage;
+      expect(errorMessage.payload.code).toBe('INVALID_MESSAGE');
+
+      client.close();
+    });
+
+    test('should only keep a bounded history of batches', () => {
+      const service = new BroadcastService(2);
+
+      for (let i = 0; i < 3; i++) {
+        service.queuePixelUpdate({ boardId: 'main', x: i, y: 0, color: '#000000', userId: 'test-user', timestamp: new Date() });
+        service.flushQueue();
+      }
+
+      expect(service.getCurrentSeq('main')).toBe(3);
+      expect(service.getUpdatesSince('main', 0)).toBeNull();
+      expect(service.getUpdatesSince('main', 1)!.map(batch => batch.payload.seq)).toEqual([2, 3]);
+      expect(service.getUpdatesSince('main', 3)).toEqual([]);
+      expect(service.getUpdatesSince('main', 4)).toBeNull();
+    });
+  });
+
+  describe('Boards', () => {
+    const connectToBoard = (boardId: string, userId?: string): WebSocket => {
+      const url = `${serverUrl}?board=${boardId}`;
+      return userId ? new WebSocket(url, { headers: { Cookie: `userId=${userId}` } }) : new WebSocket(url);
+    };
+
+    beforeEach(async () => {
+      await Board.create({ id: 'event', name: 'Event board', width: 100, height: 50 });
+    });
+
+    test('should only broadcast placements to clients of the same board', async () => {
+      const painter = connectToBoard('event', await createSessionUser());
+      const eventViewer = connectToBoard('event');
+      const mainViewer = connectAs();
+      const painterMessages: ServerMessage[] = [];
+      const eventMessages: ServerMessage[] = [];
+      const mainMessages: ServerMessage[] = [];
+
+      painter.on('message', (data) => painterMessages.push(JSON.parse(data.toString()) as ServerMessage));
+      eventViewer.on('message', (data) => eventMessages.push(JSON.parse(data.toString()) as ServerMessage));
+      mainViewer.on('message', (data) => mainMessages.push(JSON.parse(data.toString()) as ServerMessage));
+
+      await Promise.all([painter, eventViewer, mainViewer].map(client => new Promise<void>((resolve) => client.on('open', resolve))));
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const session = painterMessages.find(msg => msg.type === 'SESSION') as SessionMessage;
+      expect(session.payload.boardId).toBe('event');
+
+      painter.send(JSON.stringify({ type: 'DRAW_PIXEL', payload: { x: 99, y: 49, color: '#ABCDEF' } }));
+      await new Promise(resolve => setTimeout(resolve, 50));
+      wsService.flushBroadcastQueue();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const pixelUpdate = eventMessages.find(msg => msg.type === 'PIXEL_UPDATE') as PixelUpdateMessage;
+      expect(pixelUpdate.payload.pixels[0]).toMatchObject({ x: 99, y: 49, color: '#ABCDEF' });
+      expect(mainMessages.some(msg => msg.type === 'PIXEL_UPDATE')).toBe(false);
+
+      const savedPixels = await Pixel.find({});
+      expect(savedPixels).toHaveLength(1);
+      expect(savedPixels[0].boardId).toBe('event');
+
+      [painter, eventViewer, mainViewer].forEach(client => client.close());
+    });
+
+    test('should validate placements against the board size', async () => {
+      const client = connectToBoard('event', await createSessionUser());
+      const messages: ServerMessage[] = [];
+
+      client.on('message', (data) => messages.push(JSON.parse(data.toString()) as ServerMessage));
+      await new Promise<void>((resolve) => client.on('open', resolve));
+
+      client.send(JSON.stringify({ type: 'DRAW_PIXEL', payload: { x: 100, y: 0, color: '#ABCDEF' } }));
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const errorMessage = messages.find(msg => msg.type === 'ERROR') as ErrorMessage;
+      expect(errorMessage.payload.code).toBe('INVALID_PIXEL');
+      expect(await Pixel.countDocuments({})).toBe(0);
+
+      client.close();
+    });
+
+    test('should refuse connections to unknown boards', async () => {
+      const client = connectToBoard('missing');
+      client.on('error', () => { /* handshake is aborted below */ });
+
+      const statusCode = await new Promise<number | undefined>((resolve) => {
+        client.on('unexpected-response', (_request, response) => {
+          resolve(response.statusCode);
+        });
+        client.on('open', () => resolve(undefined));
+      });
+
+      expect(statusCode).toBe(404);
+      client.terminate();
+    });
+
+    test('should keep separate sequence numbers per board', () => {
+      const service = new BroadcastService();
+
+      service.queuePixelUpdate({ boardId: 'main', x: 0, y: 0, color: '#000000', userId: 'test-user', timestamp: new Date() });
+      service.queuePixelUpdate({ boardId: 'event', x: 0, y: 0, color: '#FFFFFF', userId: 'test-user', timestamp: new Date() });
+      service.flushQueue();
+      service.queuePixelUpdate({ boardId: 'main', x: 1, y: 0, color: '#000000', userId: 'test-user', timestamp: new Date() });
+      service.flushQueue();
+
+      expect(service.getCurrentSeq('main')).toBe(2);
+      expect(service.getCurrentSeq('event')).toBe(1);
+      expect(service.getUpdatesSince('event', 0)!.map(batch => batch.payload.pixels[0].color)).toEqual(['#FFFFFF']);
+    });
+
+    test('should reject colors outside a locked palette', async () => {
+      await Board.create({ id: 'locked', name: 'Locked board', width: 100, height: 100, palette: ['#FFFFFF', '#FF4500'] });
+      const client = connectToBoard('locked', await createSessionUser());
+      const messages: ServerMessage[] = [];
+
+      client.on('message', (data) => messages.push(JSON.parse(data.toString()) as ServerMessage));
+      await new Promise<void>((resolve) => client.on('open', resolve));
+
+      client.send(JSON.stringify({ type: 'DRAW_PIXEL', payload: { x: 0, y: 0, color: '#ABCDEF' } }));
+      client.send(JSON.stringify({ type: 'DRAW_PIXEL', payload: { x: 1, y: 0, color: '#ff4500' } }));
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const errorMessage = messages.find(msg => msg.type === 'ERROR') as ErrorMessage;
+      expect(errorMessage.payload.code).toBe('COLOR_NOT_IN_PALETTE');
+      expect(errorMessage.payload.message).toContain('#ABCDEF');
+
+      const savedPixels = await Pixel.find({});
+      expect(savedPixels).toHaveLength(1);
+      expect(savedPixels[0]).toMatchObject({ boardId: 'locked', x: 1, y: 0 });
+
+      client.close();
+    });
+  });
+
+  describe('Binary Protocol', () => {
+    /**
+     * Open a connection that offers the binary subprotocol
+     */
+    const connectBinary = (userId?: string): WebSocket => {
+      return new WebSocket(serverUrl, BINARY_SUBPROTOCOL, userId ? { headers: { Cookie: `userId=${userId}` } } : {});
+    };
+
+    test('should round-trip frames through the codec', () => {
+      const update = {
+        seq: 42,
+        pixels: [
+          { x: 0, y: 4999, color: '#FF0000', userId: 'user-a' },
+          { x: 4999, y: 0, color: '#00FF00', userId: 'user-b' },
+          { x: 12, y: 34, color: '#0000FF', userId: 'user-a' },
+          { x: 56, y: 78, color: '#000000', userId: 'admin', erased: true },
+        ],
+      };
+      expect(decodePixelUpdate(encodePixelUpdate(update))).toEqual(update);
+
+      const draw = { x: 123, y: 456, color: '#ABCDEF' };
+      expect(decodeDrawPixel(encodeDrawPixel(draw))).toEqual(draw);
+
+      const request = { ...draw, requestId: 0xfffffffe };
+      expect(encodeDrawPixel(request)).toHaveLength(12);
+      expect(decodeDrawPixel(encodeDrawPixel(request))).toEqual(request);
+
+      // Each user ID is written once per frame
+      const repeated = encodePixelUpdate({ seq: 1, pixels: Array(10).fill(update.pixels[0]) });
+      expect(repeated.length).toBe(11 + 1 + 'user-a'.length + 10 * 10);
+      expect(decodePixelUpdate(repeated).pixels[0]).not.toHaveProperty('erased');
+
+      expect(() => decodePixelUpdate(encodePixelUpdate(update).subarray(0, 20))).toThrow();
+      expect(() => decodeDrawPixel(new Uint8Array(7))).toThrow();
+      expect(() => decodeDrawPixel(new Uint8Array(10))).toThrow();
+    });
+
+    test('should acknowledge binary placements by request ID', async () => {
+      const binaryClient = connectBinary(await createSessionUser());
+      const textMessages: ServerMessage[] = [];
+
+      binaryClient.on('message', (data: Buffer, isBinary: boolean) => {
+        if (!isBinary) {
+          textMessages.push(JSON.parse(data.toString()) as ServerMessage);
+        }
+      });
+      await new Promise<void>((resolve) => binaryClient.on('open', resolve));
+
+      binaryClient.send(encodeDrawPixel({ x: 810, y: 900, color: '#13579B', requestId: 42 }));
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      const ack = textMessages.find(msg => msg.type === 'DRAW_PIXEL_ACK') as DrawPixelAckMessage;
+      expect(ack.payload).toEqual({ requestId: 42 });
+
+      binaryClient.close();
+    });
+
+    test('should exchange pixels in binary and JSON with clients on either protocol', async () => {
+      const userId = await createSessionUser();
+      const binaryClient = connectBinary(userId);
+      const jsonClient = connectAs();
+      const binaryFrames: Buffer[] = [];
+      const binaryTextMessages: ServerMessage[] = [];
+      const jsonMessages: ServerMessage[] = [];
+
+      binaryClient.on('message', (data: Buffer, isBinary: boolean) => {
+        if (isBinary) {
+          binaryFrames.push(data);
+        } else {
+          binaryTextMessages.push(JSON.parse(data.toString()) as ServerMessage);
+        }
+      });
+      jsonClient.on('message', (data: Buffer, isBinary: boolean) => {
+        expect(isBinary).toBe(false);
+        jsonMessages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+
+      await Promise.all([
+        new Promise<void>((resolve) => binaryClient.on('open', resolve)),
+        new Promise<void>((resolve) => jsonClient.on('open', resolve)),
+      ]);
+      expect(binaryClient.protocol).toBe(BINARY_SUBPROTOCOL);
+      expect(jsonClient.protocol).toBe('');
+
+      binaryClient.send(encodeDrawPixel({ x: 800, y: 900, color: '#13579B' }));
+      await new Promise(resolve => setTimeout(resolve, 150));
+      wsService.flushBroadcastQueue();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      // Control messages stay JSON on binary connections
+      expect(binaryTextMessages.some(msg => msg.type === 'SESSION')).toBe(true);
+
+      expect(binaryFrames).toHaveLength(1);
+      const binaryUpdate = decodePixelUpdate(binaryFrames[0]);
+      expect(binaryUpdate.pixels).toEqual([{ x: 800, y: 900, color: '#13579B', userId }]);
+
+      const jsonUpdate = jsonMessages.find(msg => msg.type === 'PIXEL_UPDATE') as PixelUpdateMessage;
+      expect(jsonUpdate.payload).toEqual(binaryUpdate);
+
+      const savedPixels = await Pixel.find({});
+      expect(savedPixels).toHaveLength(1);
+      expect(savedPixels[0]).toMatchObject({ x: 800, y: 900, color: '#13579B', userId });
+
+      binaryClient.close();
+      jsonClient.close();
+    });
+
+    test('should fall back to JSON for clients that prefer it', async () => {
+      const client = new WebSocket(serverUrl, [JSON_SUBPROTOCOL]);
+      await new Promise<void>((resolve) => {
+        client.on('open', resolve);
+      });
+
+      expect(client.protocol).toBe(JSON_SUBPROTOCOL);
+      client.close();
+    });
+
+    test('should reject malformed binary frames', async () => {
+      const client = connectBinary(await createSessionUser());
+      const messages: ServerMessage[] = [];
+
+      client.on('message', (data: Buffer, isBinary: boolean) => {
+        if (!isBinary) {
+          messages.push(JSON.parse(data.toString()) as ServerMessage);
+        }
+      });
+
+      await new Promise<void>((resolve) => {
+        client.on('open', resolve);
+      });
+
+      client.send(Buffer.from([99, 0, 0]));
+      client.send(encodeDrawPixel({ x: 1, y: 1, color: '#000000' }).subarray(0, 5));
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const errors = messages.filter(msg => msg.type === 'ERROR') as ErrorMessage[];
+      expect(errors.map(msg => msg.payload.code)).toEqual(['INVALID_MESSAGE', 'INVALID_MESSAGE']);
+      expect(await Pixel.countDocuments({})).toBe(0);
+
+      client.close();
+    });
+  });
+
+  describe('Error Handling and Recovery', () => {
+    test('should handle malformed messages gracefully', async () => {
+      const client = connectAs(await createSessionUser());
+      const messages: ServerMessage[] = [];
+
+      client.on('message', (data) => {
+        const message = JSON.parse(data.toString()) as ServerMessage;
+        messages.push(message);
+      });
+
+      await new Promise<void>((resolve) => {
+        client.on('open', resolve);
+      });
+
+      // Send malformed JSON
+      client.send('invalid json');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      // Should receive error message
+      const errorMessage = messages.find(msg => msg.type === 'ERROR');
+      expect(errorMessage).toBeDefined();
+
+      // Connection should still be alive for valid messages
+      const validMessage: DrawPixelMessage = {
+        type: 'DRAW_PIXEL',
+        payload: {
+          x: 50,
+          y: 50,
+          color: '#00FFFF'
+        }
+      };
+
+      client.send(JSON.stringify(validMessage));
+      await new Promise(resolve => setTimeout(resolve, 150));
+      wsService.flushBroadcastQueue();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      // Should receive pixel update
+      const pixelUpdate = messages.find(msg => msg.type === 'PIXEL_UPDATE');
+      expect(pixelUpdate).toBeDefined();
+
+      client.close();
+    });
+
+    test('should handle database errors gracefully', async () => {
+      // This test would require mocking database failures
+      // For now, we'll test that the system doesn't crash with invalid data
+      
+      const client = connectAs(await createSessionUser());
+      const messages: ServerMessage[] = [];
+
+      client.on('message', (data) => {
+        const message = JSON.parse(data.toString()) as ServerMessage;
+        messages.push(message);
+      });
+
+      await new Promise<void>((resolve) => {
+        client.on('open', resolve);
+      });
+
+      // Send message with invalid color format
+      const invalidColorMessage: DrawPixelMessage = {
+        type: 'DRAW_PIXEL',
+        payload: {
+          x: 25,
+          y: 25,
+          color: 'not-a-color'
+        }
+      };
+
+      client.send(JSON.stringify(invalidColorMessage));
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      // Should receive error message
+      const errorMessage = messages.find(msg => msg.type === 'ERROR');
+      expect(errorMessage).toBeDefined();
+
+      // No pixel should be saved
+      const savedPixels = await Pixel.find({});
+      expect(savedPixels).toHaveLength(0);
+
+      client.close();
+    });
+  });
+
+  describe('Batch Placement', () => {
+    afterEach(() => {
+      resetProtectedRegionCache();
+    });
+
+    /**
+     * Send one DRAW_PIXELS batch and collect the replies to it
+     */
+    const drawBatchAs = async (
+      userId: string,
+      pixels: DrawPixelsMessage['payload']['pixels'],
+      batchId = 'batch-1',
+      undo = false
+    ): Promise<ServerMessage[]> => {
+      const client = connectAs(userId);
+      const messages: ServerMessage[] = [];
+      client.on('message', (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+      await new Promise<void>((resolve) => client.on('open', resolve));
+
+      const batchMessage: DrawPixelsMessage = {
+        type: 'DRAW_PIXELS',
+        payload: { batchId, pixels, undo }
+      };
+      client.send(JSON.stringify(batchMessage));
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      client.close();
+      return messages;
+    };
+
+    test('should place a whole batch, acknowledge it and broadcast every pixel', async () => {
+      const userId = await createSessionUser();
+      const observer = connectAs();
+      const observed: ServerMessage[] = [];
+      observer.on('message', (data) => {
+        observed.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+      await new Promise<void>((resolve) => observer.on('open', resolve));
+
+      const pixels = [0, 1, 2, 3, 4].map(i => ({ x: 600 + i, y: 600, color: '#FF0000' }));
+      const messages = await drawBatchAs(userId, pixels, 'line-7');
+
+      const ack = messages.find(msg => msg.type === 'DRAW_PIXELS_ACK') as DrawPixelsAckMessage;
+      expect(ack).toBeDefined();
+      expect(ack.payload).toEqual({ batchId: 'line-7', count: 5 });
+
+      // The budget after the batch is reported right away
+      const cooldowns = messages.filter(msg => msg.type === 'COOLDOWN') as CooldownMessage[];
+      expect(cooldowns[cooldowns.length - 1].payload.remaining).toBe(cooldowns[0].payload.remaining - 5);
+
+      const saved = await Pixel.find({ userId }).sort({ x: 1 });
+      expect(saved.map(pixel => pixel.x)).toEqual([600, 601, 602, 603, 604]);
+
+      wsService.flushBroadcastQueue();
+      await new Promise(resolve => setTimeout(resolve, 50));
+      const broadcast = (observed.filter(msg => msg.type === 'PIXEL_UPDATE') as PixelUpdateMessage[])
+        .flatMap(update => update.payload.pixels);
+      expect(broadcast.map(pixel => pixel.x).sort()).toEqual([600, 601, 602, 603, 604]);
+
+      observer.close();
+    });
+
+    test('should reject the whole batch at the first invalid pixel', async () => {
+      const userId = await createSessionUser();
+
+      const messages = await drawBatchAs(userId, [
+        { x: 610, y: 610, color: '#FF0000' },
+        { x: 611, y: 610, color: 'red' },
+        { x: 612, y: 610, color: '#FF0000' },
+      ]);
+
+      const rejection = messages.find(msg => msg.type === 'DRAW_PIXELS_REJECTED') as DrawPixelsRejectedMessage;
+      expect(rejection).toBeDefined();
+      expect(rejection.payload).toMatchObject({
+        batchId: 'batch-1',
+        code: 'INVALID_PIXEL',
+        index: 1,
+        pixel: { x: 611, y: 610, color: 'red' },
+      });
+      expect(messages.some(msg => msg.type === 'DRAW_PIXELS_ACK')).toBe(false);
+      expect(await Pixel.countDocuments({ userId })).toBe(0);
+    });
+
+    test('should reject batches that repeat a coordinate', async () => {
+      const userId = await createSessionUser();
+
+      const messages = await drawBatchAs(userId, [
+        { x: 620, y: 620, color: '#FF0000' },
+        { x: 621, y: 620, color: '#FF0000' },
+        { x: 620, y: 620, color: '#00FF00' },
+      ]);
+
+      const rejection = messages.find(msg => msg.type === 'DRAW_PIXELS_REJECTED') as DrawPixelsRejectedMessage;
+      expect(rejection.payload).toMatchObject({ code: 'INVALID_PIXEL', index: 2 });
+      expect(await Pixel.countDocuments({ userId })).toBe(0);
+    });
+
+    test('should reject the batch when one pixel is inside a protected region', async () => {
+      const userId = await createSessionUser();
+      await createProtectedRegion('main', {
+        name: 'Batch guard',
+        shape: { type: 'rect', minX: 632, minY: 630, maxX: 640, maxY: 640 },
+        allowedUserIds: [],
+        allowedRoles: [],
+      }, 'user_admin');
+
+      const messages = await drawBatchAs(userId, [
+        { x: 630, y: 630, color: '#FF0000' },
+        { x: 631, y: 630, color: '#FF0000' },
+        { x: 632, y: 630, color: '#FF0000' },
+      ]);
+
+      const rejection = messages.find(msg => msg.type === 'DRAW_PIXELS_REJECTED') as DrawPixelsRejectedMessage;
+      expect(rejection.payload).toMatchObject({ code: 'REGION_PROTECTED', index: 2 });
+      expect(rejection.payload.message).toContain('Batch guard');
+      expect(await Pixel.countDocuments({ userId })).toBe(0);
+    });
+
+    test('should reject batches over the size limit and batches without an ID', async () => {
+      const userId = await createSessionUser();
+      const tooMany = Array.from({ length: config.pixelBatchMaxSize + 1 }, (_, i) => ({ x: i, y: 650, color: '#FF0000' }));
+
+      const oversized = await drawBatchAs(userId, tooMany);
+      const sizeRejection = oversized.find(msg => msg.type === 'DRAW_PIXELS_REJECTED') as DrawPixelsRejectedMessage;
+      expect(sizeRejection.payload).toMatchObject({ batchId: 'batch-1', code: 'BATCH_TOO_LARGE', index: null });
+
+      const unnamed = await drawBatchAs(userId, [{ x: 0, y: 651, color: '#FF0000' }], 'not a valid id!');
+      const idRejection = unnamed.find(msg => msg.type === 'DRAW_PIXELS_REJECTED') as DrawPixelsRejectedMessage;
+      expect(idRejection.payload).toMatchObject({ batchId: null, code: 'INVALID_MESSAGE' });
+
+      expect(await Pixel.countDocuments({ userId })).toBe(0);
+    });
+
+    test('should record undo batches as flagged placements', async () => {
+      const userId = await createSessionUser();
+      await drawBatchAs(userId, [{ x: 670, y: 670, color: '#FF0000' }, { x: 671, y: 670, color: '#FF0000' }], 'place');
+
+      const messages = await drawBatchAs(userId, [{ x: 670, y: 670, color: '#00FF00' }], 'undo-1', true);
+      expect(messages.some(msg => msg.type === 'DRAW_PIXELS_ACK' && msg.payload.batchId === 'undo-1')).toBe(true);
+
+      const events = await Pixel.find({ userId, x: 670 }).sort({ color: 1 }).lean();
+      expect(events.map(pixel => [pixel.color, pixel.undo])).toEqual([['#00FF00', true], ['#FF0000', undefined]]);
+    });
+
+    test('should reject undo batches once another user painted a pixel over', async () => {
+      const userId = await createSessionUser();
+      const otherId = await createSessionUser();
+      await drawBatchAs(userId, [{ x: 680, y: 680, color: '#FF0000' }, { x: 681, y: 680, color: '#FF0000' }]);
+      await drawBatchAs(otherId, [{ x: 681, y: 680, color: '#0000FF' }]);
+
+      const messages = await drawBatchAs(userId, [
+        { x: 680, y: 680, color: '#FFFFFF' },
+        { x: 681, y: 680, color: '#FFFFFF' },
+      ], 'undo-2', true);
+
+      const rejection = messages.find(msg => msg.type === 'DRAW_PIXELS_REJECTED') as DrawPixelsRejectedMessage;
+      expect(rejection.payload).toMatchObject({ batchId: 'undo-2', code: 'UNDO_CONFLICT', index: 1 });
+      expect(await Pixel.countDocuments({ undo: true })).toBe(0);
+    });
+
+    test('should reject batches from anonymous connections', async () => {
+      const client = connectAs();
+      const messages: ServerMessage[] = [];
+      client.on('message', (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+      await new Promise<void>((resolve) => client.on('open', resolve));
+
+      client.send(JSON.stringify({ type: 'DRAW_PIXELS', payload: { batchId: 'anon', pixels: [{ x: 1, y: 660, color: '#FF0000' }] } }));
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const rejection = messages.find(msg => msg.type === 'DRAW_PIXELS_REJECTED') as DrawPixelsRejectedMessage;
+      expect(rejection.payload).toMatchObject({ batchId: 'anon', code: 'UNAUTHENTICATED' });
+      expect(await Pixel.countDocuments({})).toBe(0);
+
+      client.close();
+    });
+  });
+
+  describe('Pixel Rate Limiting', () => {
+    let limitedServer: Server;
+    let limitedService: WebSocketService;
+    let limitedUrl: string;
+
+    beforeAll(() => {
+      // Separate server with a tight budget: 3 pixels, one token back per second
+      limitedServer = createServer();
+      limitedService = new WebSocketService(limitedServer, {
+        rateLimit: { capacity: 3, windowMs: 3000 },
+      });
+      limitedServer.listen(0);
+      limitedUrl = `ws://localhost:${(limitedServer.address() as AddressInfo).port}/ws`;
+    });
+
+    afterAll(() => {
+      limitedService.close();
+      limitedServer.close();
+    });
+
+    const connectLimited = (userId: string): WebSocket => {
+      return new WebSocket(limitedUrl, { headers: { Cookie: `userId=${userId}` } });
+    };
+
+    test('should reject placements beyond the burst with RATE_LIMITED', async () => {
+      const client = connectLimited(await createSessionUser());
+      const messages: ServerMessage[] = [];
+
+      client.on('message', (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+
+      await new Promise<void>((resolve) => {
+        client.on('open', resolve);
+      });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      // Initial budget is announced on connect
+      const initialCooldown = messages.find(msg => msg.type === 'COOLDOWN') as CooldownMessage;
+      expect(initialCooldown).toBeDefined();
+      expect(initialCooldown.payload).toMatchObject({ remaining: 3, capacity: 3, retryAfterMs: 0 });
+      expect(initialCooldown.payload.refillIntervalMs).toBe(1000);
+
+      // Batches larger than the budget could never go through
+      const session = messages.find(msg => msg.type === 'SESSION') as SessionMessage;
+      expect(session.payload.maxBatchSize).toBe(3);
+
+      for (let i = 0; i < 5; i++) {
+        const drawMessage: DrawPixelMessage = {
+          type: 'DRAW_PIXEL',
+          payload: { x: 300 + i, y: 300, color: '#123456' }
+        };
+        client.send(JSON.stringify(drawMessage));
+      }
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      expect(await Pixel.countDocuments({})).toBe(3);
+
+      const cooldowns = messages.filter(msg => msg.type === 'COOLDOWN') as CooldownMessage[];
+      // Saves may complete out of order, so compare the set of budgets reported
+      expect(cooldowns.slice(1).map(msg => msg.payload.remaining).sort()).toEqual([0, 1, 2]);
+
+      const rejections = messages.filter(msg => msg.type === 'RATE_LIMITED') as RateLimitedMessage[];
+      expect(rejections).toHaveLength(2);
+      expect(rejections[0].payload).toMatchObject({ x: 303, y: 300, remaining: 0 });
+      expect(rejections[0].payload.retryAfterMs).toBeGreaterThan(0);
+      expect(rejections[0].payload.retryAfterMs).toBeLessThanOrEqual(1000);
+      expect(rejections[0].payload.nextAllowedAt).toBeGreaterThan(Date.now());
+
+      client.close();
+    });
+
+    test('should refill the bucket over time', async () => {
+      const client = connectLimited(await createSessionUser());
+      const messages: ServerMessage[] = [];
+
+      client.on('message', (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+
+      await new Promise<void>((resolve) => {
+        client.on('open', resolve);
+      });
+
+      for (let i = 0; i < 3; i++) {
+        client.send(JSON.stringify({ type: 'DRAW_PIXEL', payload: { x: i, y: 400, color: '#654321' } }));
+      }
+      await new Promise(resolve => setTimeout(resolve, 1100));
+
+      // One token has been refilled after the refill interval
+      client.send(JSON.stringify({ type: 'DRAW_PIXEL', payload: { x: 10, y: 400, color: '#654321' } }));
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(messages.some(msg => msg.type === 'RATE_LIMITED')).toBe(false);
+      expect(await Pixel.countDocuments({})).toBe(4);
+
+      client.close();
+    });
+
+    test('should share the budget across connections of the same user only', async () => {
+      const userId = await createSessionUser();
+      const first = connectLimited(userId);
+      const second = connectLimited(userId);
+      const other = connectLimited(await createSessionUser());
+      const secondMessages: ServerMessage[] = [];
+      const otherMessages: ServerMessage[] = [];
+
+      second.on('message', (data) => {
+        secondMessages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+      other.on('message', (data) => {
+        otherMessages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+
+      await Promise.all([first, second, other].map(socket =>
+        new Promise<void>((resolve) => socket.on('open', resolve))
+      ));
+
+      for (let i = 0; i < 3; i++) {
+        first.send(JSON.stringify({ type: 'DRAW_PIXEL', payload: { x: i, y: 500, color: '#ABCDEF' } }));
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      second.send(JSON.stringify({ type: 'DRAW_PIXEL', payload: { x: 10, y: 500, color: '#ABCDEF' } }));
+      other.send(JSON.stringify({ type: 'DRAW_PIXEL', payload: { x: 20, y: 500, color: '#ABCDEF' } }));
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(secondMessages.some(msg => msg.type === 'RATE_LIMITED')).toBe(true);
+      expect(otherMessages.some(msg => msg.type === 'RATE_LIMITED')).toBe(false);
+      expect(await Pixel.countDocuments({})).toBe(4);
+
+      [first, second, other].forEach(socket => socket.close());
+    });
+
+    test('should undo a stroke larger than the budget in several batches', async () => {
+      const userId = await createSessionUser();
+      const client = connectLimited(userId);
+      const messages: ServerMessage[] = [];
+
+      client.on('message', (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+
+      await new Promise<void>((resolve) => {
+        client.on('open', resolve);
+      });
+
+      const sendUndo = (batchId: string, xs: number[]): void => {
+        const undoMessage: DrawPixelsMessage = {
+          type: 'DRAW_PIXELS',
+          payload: { batchId, pixels: xs.map(x => ({ x, y: 700, color: '#FFFFFF' })), undo: true }
+        };
+        client.send(JSON.stringify(undoMessage));
+      };
+
+      // A five pixel stroke drawn while the budget refills
+      for (let i = 0; i < 3; i++) {
+        client.send(JSON.stringify({ type: 'DRAW_PIXEL', payload: { x: i, y: 700, color: '#ABCDEF' } }));
+      }
+      await new Promise(resolve => setTimeout(resolve, 2100));
+      for (let i = 3; i < 5; i++) {
+        client.send(JSON.stringify({ type: 'DRAW_PIXEL', payload: { x: i, y: 700, color: '#ABCDEF' } }));
+      }
+      await new Promise(resolve => setTimeout(resolve, 3100));
+
+      // The whole stroke never fits one batch, but parts of it do
+      sendUndo('undo-all', [0, 1, 2, 3, 4]);
+      sendUndo('undo-part1', [2, 3, 4]);
+      await new Promise(resolve => setTimeout(resolve, 2100));
+      sendUndo('undo-part2', [0, 1]);
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      const rejections = messages.filter(msg => msg.type === 'DRAW_PIXELS_REJECTED') as DrawPixelsRejectedMessage[];
+      expect(rejections.map(msg => [msg.payload.batchId, msg.payload.code])).toEqual([['undo-all', 'PIXEL_RATE_LIMITED']]);
+      const acks = messages.filter(msg => msg.type === 'DRAW_PIXELS_ACK') as DrawPixelsAckMessage[];
+      expect(acks.map(msg => msg.payload.batchId)).toEqual(['undo-part1', 'undo-part2']);
+      expect(await Pixel.countDocuments({ userId, undo: true })).toBe(5);
+
+      client.close();
+    });
+
+    test('should echo the request ID of rate limited placements', async () => {
+      const client = connectLimited(await createSessionUser());
+      const messages: ServerMessage[] = [];
+
+      client.on('message', (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+
+      await new Promise<void>((resolve) => {
+        client.on('open', resolve);
+      });
+
+      for (let i = 0; i < 4; i++) {
+        client.send(JSON.stringify({ type: 'DRAW_PIXEL', payload: { x: i, y: 600, color: '#ABCDEF', requestId: i + 1 } }));
+      }
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      const acks = messages.filter(msg => msg.type === 'DRAW_PIXEL_ACK') as DrawPixelAckMessage[];
+      expect(acks.map(msg => msg.payload.requestId).sort()).toEqual([1, 2, 3]);
+
+      const rejection = messages.find(msg => msg.type === 'RATE_LIMITED') as RateLimitedMessage;
+      expect(rejection.payload).toMatchObject({ x: 3, y: 600, requestId: 4 });
+
+      client.close();
+    });
+
+    test('should reject a batch the remaining budget cannot cover as a whole', async () => {
+      const client = connectLimited(await createSessionUser());
+      const messages: ServerMessage[] = [];
+
+      client.on('message', (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+
+      await new Promise<void>((resolve) => {
+        client.on('open', resolve);
+      });
+
+      const sendBatch = (batchId: string, count: number, y: number) => {
+        const pixels = Array.from({ length: count }, (_, i) => ({ x: i, y, color: '#112233' }));
+        client.send(JSON.stringify({ type: 'DRAW_PIXELS', payload: { batchId, pixels } }));
+      };
+
+      // More pixels than the bucket can ever hold
+      sendBatch('too-big', 4, 700);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      // Spend the budget, then ask for more than is left
+      sendBatch('fits', 2, 701);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      sendBatch('over', 2, 702);
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const rejections = messages.filter(msg => msg.type === 'DRAW_PIXELS_REJECTED') as DrawPixelsRejectedMessage[];
+      expect(rejections.map(msg => [msg.payload.batchId, msg.payload.code])).toEqual([
+        ['too-big', 'PIXEL_RATE_LIMITED'],
+        ['over', 'PIXEL_RATE_LIMITED'],
+      ]);
+      expect(rejections[1].payload.message).toContain('retry in');
+
+      const acks = messages.filter(msg => msg.type === 'DRAW_PIXELS_ACK') as DrawPixelsAckMessage[];
+      expect(acks.map(msg => msg.payload)).toEqual([{ batchId: 'fits', count: 2 }]);
+
+      // Each rejection reports the untouched budget
+      const cooldowns = messages.filter(msg => msg.type === 'COOLDOWN') as CooldownMessage[];
+      expect(cooldowns[cooldowns.length - 1].payload.remaining).toBe(1);
+      expect(await Pixel.countDocuments({})).toBe(2);
 
       client.close();
     });
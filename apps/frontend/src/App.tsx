@@ -3,15 +3,20 @@ import Canvas from '@components/Canvas';
 import ChatWidget from '@components/widgets/ChatWidget';
 import UserListWidget from '@components/widgets/UserListWidget';
 import ConnectionStatusWidget from '@components/widgets/ConnectionStatusWidget';
+import CooldownWidget from '@components/widgets/CooldownWidget';
 import ColorPaletteWidget from '@components/widgets/ColorPaletteWidget';
 import ThemeToggleWidget from '@components/widgets/ThemeToggleWidget';
 import VolumeControlWidget from '@components/widgets/VolumeControlWidget';
 import InfoWidget from '@components/widgets/InfoWidget';
+import ReplayWidget from '@components/widgets/ReplayWidget';
+import ToolbarWidget from '@components/widgets/ToolbarWidget';
 import DebugPanel from '@components/widgets/DebugPanel';
 import { MobilePanelProvider } from '@contexts/MobilePanelContext';
+import { useBoardContext } from '@contexts/BoardContext';
 
 const App: React.FC = () => {
   const canvasRef = useRef<any>(null);
+  const { board, error: boardError } = useBoardContext();
 
   const handleVolumeChange = (volume: number) => {
     if (canvasRef.current?.setSoundVolume) {
@@ -28,19 +33,27 @@ const App: React.FC = () => {
   return (
     <MobilePanelProvider>
       <div className="w-full h-full bg-gray-100 dark:bg-gray-900 relative">
-        {/* Main Canvas - PixiJS rendering area */}
-        <Canvas ref={canvasRef} />
+        {/* Main Canvas - PixiJS rendering area, created once the board size is known */}
+        {board && <Canvas ref={canvasRef} board={board} />}
+        {boardError && (
+          <div className="absolute inset-0 flex items-center justify-center text-gray-700 dark:text-gray-200">
+            Board could not be loaded: {boardError}
+          </div>
+        )}
 
         {/* Floating UI Widgets */}
         <ThemeToggleWidget />
         <ConnectionStatusWidget />
+        <CooldownWidget />
         <VolumeControlWidget
           onVolumeChange={handleVolumeChange}
           onToggleEnabled={handleSoundToggle}
         />
         <UserListWidget />
         <ChatWidget />
+        <ReplayWidget />
         <ColorPaletteWidget />
+        <ToolbarWidget />
         <InfoWidget />
 
         {/* Debug Panel - only visible in development or when enabled */}
@@ -143,6 +143,46 @@ export class PixelSoundManager {
     }
   }
 
+  /**
+   * Play the chat mention chime: two rising notes, unlike any pixel sound
+   */
+  public playMentionSound(): void {
+    if (!this.config.enabled || !this.audioContext || !this.masterGainNode) {
+      return;
+    }
+
+    try {
+      if (this.audioContext.state === 'suspended') {
+        this.resumeAudioContext();
+        return;
+      }
+
+      const startTime = this.audioContext.currentTime;
+      [880, 1318.5].forEach((frequency, index) => {
+        const oscillator = this.audioContext!.createOscillator();
+        const gainNode = this.audioContext!.createGain();
+        oscillator.connect(gainNode);
+        gainNode.connect(this.masterGainNode!);
+
+        const noteStart = startTime + index * 0.15;
+        oscillator.type = 'sine';
+        oscillator.frequency.setValueAtTime(frequency, noteStart);
+        gainNode.gain.setValueAtTime(0, noteStart);
+        gainNode.gain.linearRampToValueAtTime(0.4, noteStart + 0.01);
+        gainNode.gain.exponentialRampToValueAtTime(0.001, noteStart + 0.3);
+
+        oscillator.start(noteStart);
+        oscillator.stop(noteStart + 0.3);
+        oscillator.onended = () => {
+          oscillator.disconnect();
+          gainNode.disconnect();
+        };
+      });
+    } catch (error) {
+      console.error('❌ Failed to play mention sound:', error);
+    }
+  }
+
   /**
    * Convert color hex string to frequency for sound variation
    */
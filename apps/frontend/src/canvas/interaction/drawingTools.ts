@@ -0,0 +1,128 @@
+/**
+ * Drawing Tools
+ *
+ * Pixel geometry for the toolbar tools. Every function returns canvas
+ * coordinates in the order they should be placed, clipped to the given
+ * bounds and never longer than the requested maximum.
+ */
+
+export type DrawingTool = 'freehand' | 'line' | 'rectangle' | 'filledRectangle' | 'fill' | 'eyedropper';
+
+// Tools that place more than one pixel per click and show a ghost preview first
+export const SHAPE_TOOLS: DrawingTool[] = ['line', 'rectangle', 'filledRectangle', 'fill'];
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export interface ToolBounds {
+  minX: number;
+  minY: number;
+  maxX: number; // Inclusive
+  maxY: number; // Inclusive
+}
+
+const isInBounds = (x: number, y: number, bounds: ToolBounds) =>
+  x >= bounds.minX && x <= bounds.maxX && y >= bounds.minY && y <= bounds.maxY;
+
+/**
+ * Straight line between two pixels (Bresenham), starting at the first one
+ */
+export function rasterizeLine(x0: number, y0: number, x1: number, y1: number, bounds: ToolBounds, maxPixels: number): PixelPoint[] {
+  const points: PixelPoint[] = [];
+  const dx = Math.abs(x1 - x0);
+  const dy = -Math.abs(y1 - y0);
+  const stepX = x0 < x1 ? 1 : -1;
+  const stepY = y0 < y1 ? 1 : -1;
+  let error = dx + dy;
+  let x = x0;
+  let y = y0;
+
+  while (points.length < maxPixels) {
+    if (isInBounds(x, y, bounds)) {
+      points.push({ x, y });
+    }
+    if (x === x1 && y === y1) break;
+
+    const doubled = 2 * error;
+    if (doubled >= dy) {
+      error += dy;
+      x += stepX;
+    }
+    if (doubled <= dx) {
+      error += dx;
+      y += stepY;
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Rectangle spanned by two corner pixels, either the outline or the whole area
+ */
+export function rasterizeRectangle(
+  x0: number, y0: number, x1: number, y1: number, filled: boolean, bounds: ToolBounds, maxPixels: number
+): PixelPoint[] {
+  const minX = Math.min(x0, x1);
+  const maxX = Math.max(x0, x1);
+  const minY = Math.min(y0, y1);
+  const maxY = Math.max(y0, y1);
+  const points: PixelPoint[] = [];
+
+  for (let y = Math.max(minY, bounds.minY); y <= Math.min(maxY, bounds.maxY); y++) {
+    const onEdgeRow = y === minY || y === maxY;
+    for (let x = Math.max(minX, bounds.minX); x <= Math.min(maxX, bounds.maxX); x++) {
+      if (filled || onEdgeRow || x === minX || x === maxX) {
+        if (points.length === maxPixels) return points;
+        points.push({ x, y });
+      }
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Area of same-colored pixels connected to a start pixel (4-neighbourhood), nearest pixels first.
+ * Returns null when the area is larger than maxPixels, so a leak does not paint a partial blob.
+ */
+export function floodFillArea(
+  startX: number,
+  startY: number,
+  getColor: (x: number, y: number) => string | null, // null for empty pixels
+  bounds: ToolBounds,
+  maxPixels: number
+): PixelPoint[] | null {
+  if (!isInBounds(startX, startY, bounds)) return [];
+
+  const targetColor = getColor(startX, startY)?.toUpperCase() ?? null;
+  const visited = new Set<string>([`${startX},${startY}`]);
+  const points: PixelPoint[] = [];
+  const queue: PixelPoint[] = [{ x: startX, y: startY }];
+
+  for (let head = 0; head < queue.length; head++) {
+    const point = queue[head];
+    if (points.length === maxPixels) return null;
+    points.push(point);
+
+    const neighbours = [
+      { x: point.x + 1, y: point.y },
+      { x: point.x - 1, y: point.y },
+      { x: point.x, y: point.y + 1 },
+      { x: point.x, y: point.y - 1 },
+    ];
+    for (const next of neighbours) {
+      const key = `${next.x},${next.y}`;
+      if (visited.has(key) || !isInBounds(next.x, next.y, bounds)) continue;
+      visited.add(key);
+
+      if ((getColor(next.x, next.y)?.toUpperCase() ?? null) === targetColor) {
+        queue.push(next);
+      }
+    }
+  }
+
+  return points;
+}
\ No newline at end of file
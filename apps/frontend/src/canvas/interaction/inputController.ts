@@ -1,8 +1,20 @@
 import * as PIXI from 'pixi.js';
 import { CanvasRenderer } from '../rendering/CanvasRenderer';
+import { ToolPreviewLayer } from '../rendering/ToolPreviewLayer';
+import { StateSynchronizer, singlePlacementId, batchPlacementId } from '../state/stateSync';
 import { WebSocketService } from '../../services/websocket';
 import { webRTCService } from '../../services/webrtc';
 import { isValidCanvasCoordinate, isValidHexColor } from '@libs/utils';
+import { DrawPixelPayload } from '@libs/common-types';
+import {
+  DrawingTool,
+  PixelPoint,
+  ToolBounds,
+  rasterizeLine,
+  rasterizeRectangle,
+  floodFillArea,
+} from './drawingTools';
+import { UndoHistory, PlacedPixel, PlacementAction } from './undoHistory';
 
 export interface InputControllerConfig {
   selectedColor: string;
@@ -12,17 +24,31 @@ export interface InputControllerConfig {
   enablePanning: boolean;
   enableZooming: boolean;
   enableCursorSharing: boolean;
+  tool: DrawingTool;
+  maxToolPixels: number; // Largest line, rectangle or fill placed at once
 }
 
 export interface InputControllerCallbacks {
   onPixelDraw?: (x: number, y: number, color: string) => void;
+  onCooldown?: (remainingMs: number) => void;
   onViewportChange?: (zoom: number, panX: number, panY: number) => void;
   onError?: (error: string) => void;
+  onColorPick?: (color: string) => void; // Eyedropper picked a pixel's color
+  onHistoryChange?: (canUndo: boolean, canRedo: boolean) => void;
 }
 
+// Min zoom: 4px per pixel coordinate, Max zoom: 100px per pixel coordinate
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 100;
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
 export class InputController {
   private renderer: CanvasRenderer;
   private webSocketService: WebSocketService;
+  private stateSync: StateSynchronizer;
+  private toolPreview: ToolPreviewLayer;
   private config: InputControllerConfig;
   private callbacks: InputControllerCallbacks;
 
@@ -34,6 +60,16 @@ export class InputController {
   // Drawing state
   private isDrawingMode = false;
   private lastDrawnPixel = { x: -1, y: -1 };
+  private showingCooldownCursor = false;
+
+  // Shape tool state: the anchor of a line or rectangle being dragged, and the previewed pixels
+  private shapeStart: PixelPoint | null = null;
+  private previewPixels: PixelPoint[] = [];
+  private previewKey = ''; // Tool, anchor and end pixel the preview was computed for
+
+  // Undo/redo of own placements; a freehand stroke is collected until the pointer is released
+  private history = new UndoHistory();
+  private strokePixels: PlacedPixel[] | null = null;
 
   // Cursor sharing state
   private lastCursorPosition = { x: 0, y: 0 };
@@ -45,14 +81,20 @@ export class InputController {
   private lastPinchCenter = { x: 0, y: 0 };
   private isPinching = false;
 
+  // Animated navigation (flyTo) state
+  private flightFrame: number | null = null;
+
   constructor(
     renderer: CanvasRenderer,
     webSocketService: WebSocketService,
+    stateSync: StateSynchronizer,
     config: Partial<InputControllerConfig> = {},
     callbacks: InputControllerCallbacks = {}
   ) {
     this.renderer = renderer;
     this.webSocketService = webSocketService;
+    this.stateSync = stateSync;
+    this.toolPreview = new ToolPreviewLayer(renderer.canvasContainer!);
     
     this.config = {
       selectedColor: '#FF0000',
@@ -61,6 +103,8 @@ export class InputController {
       enablePanning: true,
       enableZooming: true,
       enableCursorSharing: true,
+      tool: 'freehand',
+      maxToolPixels: 1000,
       ...config,
     };
     
@@ -138,6 +182,14 @@ export class InputController {
 
     if (this.isPanning && this.config.enablePanning) {
       this.updatePanning(globalPos.x, globalPos.y);
+    } else {
+      this.updateCooldownCursor();
+
+      if (this.isDrawingMode && this.config.tool === 'freehand') {
+        this.continueFreehand(globalPos.x, globalPos.y);
+      } else if (this.shapeStart || (this.config.tool === 'fill' && this.config.enableDrawing)) {
+        this.updateShapePreview(globalPos.x, globalPos.y);
+      }
     }
 
     // Share cursor position via WebRTC if enabled
@@ -154,9 +206,17 @@ export class InputController {
       this.stopPanning();
     }
 
+    // Lines and rectangles are placed when the pointer is released
+    if (this.shapeStart) {
+      this.updateShapePreview(event.global.x, event.global.y);
+      this.commitShape();
+    }
+
     this.isDrawingMode = false;
+    this.finishStroke();
     this.lastDrawnPixel = { x: -1, y: -1 };
     this.renderer.stage.cursor = 'default';
+    this.showingCooldownCursor = false;
   }
 
   /**
@@ -166,6 +226,7 @@ export class InputController {
     if (!this.config.enableZooming) return;
 
     event.preventDefault();
+    this.cancelFlight();
 
     const canvasContainer = this.renderer.canvasContainer;
     if (!canvasContainer) return;
@@ -176,10 +237,7 @@ export class InputController {
     // Calculate zoom
     const zoomFactor = event.deltaY > 0 ? 0.95 : 1.05; // Smoother zoom
     const currentScale = canvasContainer.scale.x;
-    // Min zoom: 4px per pixel coordinate, Max zoom: 100px per pixel coordinate
-    const minScale = 0.25;  // Maximum zoom out (pixels appear as 4px squares)
-    const maxScale = 100; // Maximum zoom in (pixels appear as 100px squares)
-    const newScale = Math.max(minScale, Math.min(maxScale, currentScale * zoomFactor));
+    const newScale = Math.max(MIN_SCALE, Math.min(MAX_SCALE, currentScale * zoomFactor));
 
     if (newScale !== currentScale) {
       // Calculate world position before zoom
@@ -213,6 +271,8 @@ export class InputController {
    * Handle touch start for mobile pinch zoom
    */
   private handleTouchStart(event: TouchEvent): void {
+    this.cancelFlight();
+
     // Update active touches
     for (let i = 0; i < event.touches.length; i++) {
       const touch = event.touches[i];
@@ -321,11 +381,9 @@ export class InputController {
     if (!canvasContainer) return;
 
     const currentScale = canvasContainer.scale.x;
-    const minScale = 0.25;  // Maximum zoom out
-    const maxScale = 100;   // Maximum zoom in
     
     // Calculate new scale (simple multiplication)
-    const newScale = Math.max(minScale, Math.min(maxScale, currentScale * scaleFactor));
+    const newScale = Math.max(MIN_SCALE, Math.min(MAX_SCALE, currentScale * scaleFactor));
 
     if (newScale !== currentScale) {
       // Get canvas element bounds for proper coordinate conversion
@@ -376,6 +434,23 @@ export class InputController {
         // Reset view to center and default zoom
         this.resetView();
         break;
+      case 'Escape':
+        // Drop a line or rectangle being dragged
+        if (this.shapeStart) {
+          this.cancelShape();
+        }
+        break;
+      case 'KeyZ':
+        // Ctrl+Z undoes, Ctrl+Shift+Z redoes; text fields keep their own undo
+        if ((event.ctrlKey || event.metaKey) && !isEditableTarget(event.target)) {
+          event.preventDefault();
+          if (event.shiftKey) {
+            this.redo();
+          } else {
+            this.undo();
+          }
+        }
+        break;
     }
   }
 
@@ -393,6 +468,7 @@ export class InputController {
    * Start panning mode
    */
   private startPanning(x: number, y: number): void {
+    this.cancelFlight();
     this.isPanning = true;
     this.lastPanPosition = { x, y };
     this.panStartPosition = { x, y };
@@ -431,7 +507,7 @@ export class InputController {
   }
 
   /**
-   * Handle drawing attempt
+   * Handle drawing attempt with the selected tool
    */
   private handleDrawAttempt(event: PIXI.FederatedPointerEvent): void {
     try {
@@ -446,31 +522,39 @@ export class InputController {
       const { x, y } = canvasCoords;
 
       // Validate coordinates
-      if (!isValidCanvasCoordinate(x, y)) {
+      const { width, height } = this.renderer.boardSize;
+      if (!isValidCanvasCoordinate(x, y, width, height)) {
         this.callbacks.onError?.(`Coordinates (${x}, ${y}) are outside canvas bounds`);
         return;
       }
 
-      // Validate color
-      if (!isValidHexColor(this.config.selectedColor)) {
-        this.callbacks.onError?.(`Invalid color: ${this.config.selectedColor}`);
+      // Picking a color places nothing
+      if (this.config.tool === 'eyedropper') {
+        this.pickColor(x, y);
         return;
       }
 
-      // Prevent drawing the same pixel repeatedly
-      if (this.lastDrawnPixel.x === x && this.lastDrawnPixel.y === y) {
+      if (!this.canPlacePixels()) {
         return;
       }
 
-      // Send drawing command via WebSocket
-      const success = this.webSocketService.drawPixel(x, y, this.config.selectedColor);
-      
-      if (success) {
-        this.lastDrawnPixel = { x, y };
-        this.callbacks.onPixelDraw?.(x, y, this.config.selectedColor);
-        console.log(`🎨 Drew pixel at (${x}, ${y}) with color ${this.config.selectedColor}`);
-      } else {
-        this.callbacks.onError?.('Failed to send draw command');
+      switch (this.config.tool) {
+        case 'freehand':
+          this.isDrawingMode = true;
+          this.strokePixels = [];
+          this.drawSinglePixel(x, y);
+          break;
+        case 'line':
+        case 'rectangle':
+        case 'filledRectangle':
+          // Placed on release; the preview follows the pointer meanwhile
+          this.shapeStart = { x, y };
+          this.updateShapePreview(event.global.x, event.global.y);
+          break;
+        case 'fill':
+          this.updateShapePreview(event.global.x, event.global.y);
+          this.commitShape();
+          break;
       }
 
     } catch (error) {
@@ -479,6 +563,285 @@ export class InputController {
     }
   }
 
+  /**
+   * Check the session, sanctions, cooldown and color before placing anything
+   */
+  private canPlacePixels(): boolean {
+    // Anonymous sessions are read-only on the server
+    if (this.webSocketService.getSession()?.readOnly) {
+      this.callbacks.onError?.('Drawing is disabled for read-only sessions');
+      return false;
+    }
+
+    // The ban banner already explains why nothing is drawn
+    if (this.webSocketService.isBanned()) {
+      return false;
+    }
+
+    // Drawing is blocked until the placement cooldown ends
+    const cooldownMs = this.webSocketService.getCooldownRemainingMs();
+    if (cooldownMs > 0) {
+      this.updateCooldownCursor();
+      this.callbacks.onCooldown?.(cooldownMs);
+      return false;
+    }
+
+    // Validate color
+    if (!isValidHexColor(this.config.selectedColor)) {
+      this.callbacks.onError?.(`Invalid color: ${this.config.selectedColor}`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Place one pixel with the freehand tool
+   */
+  private drawSinglePixel(x: number, y: number): void {
+    // Prevent drawing the same pixel repeatedly
+    if (this.lastDrawnPixel.x === x && this.lastDrawnPixel.y === y) {
+      return;
+    }
+
+    // Send drawing command via WebSocket
+    const previousColor = this.stateSync.getPixelAt(x, y)?.color ?? null;
+    const requestId = this.webSocketService.drawPixel(x, y, this.config.selectedColor);
+    
+    if (requestId !== null) {
+      this.lastDrawnPixel = { x, y };
+      // Pixels queued while offline stay pending until they are sent and answered
+      this.stateSync.addOptimisticPlacement(
+        singlePlacementId(requestId),
+        [{ x, y, color: this.config.selectedColor }],
+        this.getUserId(),
+        this.webSocketService.isPixelQueued(requestId)
+      );
+      this.recordPlacement([{ x, y, color: this.config.selectedColor, previousColor }]);
+      this.callbacks.onPixelDraw?.(x, y, this.config.selectedColor);
+      console.log(`🎨 Drew pixel at (${x}, ${y}) with color ${this.config.selectedColor}`);
+    } else if (this.webSocketService.isConnected()) {
+      this.callbacks.onError?.('Failed to send draw command');
+    } else {
+      this.callbacks.onError?.('Too many pixels are waiting for the connection - wait until it is back');
+    }
+  }
+
+  /**
+   * Keep drawing while the pointer is dragged; fast moves are joined with a line
+   */
+  private continueFreehand(screenX: number, screenY: number): void {
+    const canvasCoords = this.screenToCanvasCoordinates(screenX, screenY);
+    if (!canvasCoords) return;
+
+    const last = this.lastDrawnPixel;
+    const path = last.x === -1
+      ? [canvasCoords]
+      : rasterizeLine(last.x, last.y, canvasCoords.x, canvasCoords.y, this.getBoardBounds(), this.config.maxToolPixels).slice(1);
+
+    for (const point of path) {
+      if (this.webSocketService.getCooldownRemainingMs() > 0) {
+        this.updateCooldownCursor();
+        break;
+      }
+      this.drawSinglePixel(point.x, point.y);
+    }
+  }
+
+  /**
+   * Recompute the ghost preview of the selected shape tool for the pixel under the pointer
+   */
+  private updateShapePreview(screenX: number, screenY: number): void {
+    const canvasCoords = this.screenToCanvasCoordinates(screenX, screenY);
+    if (!canvasCoords) return;
+
+    const { x, y } = canvasCoords;
+    const { tool, maxToolPixels } = this.config;
+    const start = this.shapeStart;
+    const key = `${tool}:${start?.x},${start?.y}:${x},${y}:${this.config.selectedColor}`;
+    if (key === this.previewKey) return;
+    this.previewKey = key;
+
+    const bounds = this.getBoardBounds();
+    let pixels: PixelPoint[] = [];
+    if (tool === 'line' && start) {
+      pixels = rasterizeLine(start.x, start.y, x, y, bounds, maxToolPixels);
+    } else if ((tool === 'rectangle' || tool === 'filledRectangle') && start) {
+      pixels = rasterizeRectangle(start.x, start.y, x, y, tool === 'filledRectangle', bounds, maxToolPixels);
+    } else if (tool === 'fill') {
+      // Only the visible area is loaded, so the fill stays on screen
+      const visible = this.getVisibleBounds();
+      const area = visible ? floodFillArea(x, y, (px, py) => this.stateSync.getPixelAt(px, py)?.color ?? null, visible, maxToolPixels) : [];
+      pixels = area ?? [];
+    }
+
+    this.previewPixels = pixels;
+    if (pixels.length > 0) {
+      this.toolPreview.show(pixels, this.config.selectedColor);
+    } else {
+      this.toolPreview.clear();
+    }
+  }
+
+  /**
+   * Place the previewed pixels that do not have the selected color yet
+   */
+  private commitShape(): void {
+    const { tool, maxToolPixels } = this.config;
+    const color = this.config.selectedColor;
+    const pixels = this.previewPixels;
+    this.cancelShape();
+
+    if (pixels.length === 0) {
+      if (tool === 'fill') {
+        this.callbacks.onError?.(`Area too large to fill (more than ${maxToolPixels} pixels)`);
+      }
+      return;
+    }
+    if (!this.canPlacePixels()) {
+      return;
+    }
+    // Only single pixels are queued while offline
+    if (!this.webSocketService.isConnected() || this.webSocketService.getQueuedPixelCount() > 0) {
+      this.callbacks.onError?.('Shapes can be placed once the connection is back and queued pixels are sent');
+      return;
+    }
+
+    const pending = pixels.filter(point => this.stateSync.getPixelAt(point.x, point.y)?.color.toUpperCase() !== color.toUpperCase());
+    const previousColors = pending.map(point => this.stateSync.getPixelAt(point.x, point.y)?.color ?? null);
+    const sent = this.sendPixelBatch(pending.map(({ x, y }) => ({ x, y, color })));
+    console.log(`🎨 Drew ${sent}/${pending.length} pixels with the ${tool} tool in color ${color}`);
+    this.recordPlacement(pending.slice(0, sent).map((point, i) => ({ ...point, color, previousColor: previousColors[i] })));
+
+    if (sent < pending.length) {
+      // The placement budget ran out; drawing the shape again later finishes it
+      this.callbacks.onCooldown?.(this.webSocketService.getCooldownRemainingMs());
+      this.callbacks.onError?.(`Only ${sent} of ${pending.length} pixels fit the placement budget - repeat the ${tool === 'fill' ? 'fill' : 'shape'} after the cooldown to finish it`);
+    }
+  }
+
+  /**
+   * Drop the shape being drawn and its preview
+   */
+  private cancelShape(): void {
+    this.shapeStart = null;
+    this.previewPixels = [];
+    this.previewKey = '';
+    this.toolPreview.clear();
+  }
+
+  /**
+   * Send pixels as one batch and show the part that was sent right away
+   * @returns The number of pixels sent
+   */
+  private sendPixelBatch(pixels: DrawPixelPayload[], undo = false): number {
+    const batch = this.webSocketService.drawPixelBatch(pixels, undo);
+    if (!batch) return 0;
+
+    this.stateSync.addOptimisticPlacement(batchPlacementId(batch.batchId), batch.pixels, this.getUserId());
+    return batch.pixels.length;
+  }
+
+  private getUserId(): string {
+    return this.webSocketService.getSession()?.userId ?? '';
+  }
+
+  /**
+   * Remember placed pixels for undo; pixels that kept their color are left out
+   */
+  private recordPlacement(pixels: PlacedPixel[]): void {
+    const changed = pixels.filter(pixel => pixel.previousColor?.toUpperCase() !== pixel.color.toUpperCase());
+    if (this.strokePixels) {
+      this.strokePixels.push(...changed);
+      return;
+    }
+    this.history.record(changed);
+    this.notifyHistoryChange();
+  }
+
+  /**
+   * Record a finished freehand stroke as one undo step
+   */
+  private finishStroke(): void {
+    const stroke = this.strokePixels;
+    this.strokePixels = null;
+    if (stroke) {
+      this.recordPlacement(stroke);
+    }
+  }
+
+  private notifyHistoryChange(): void {
+    this.callbacks.onHistoryChange?.(this.history.canUndo(), this.history.canRedo());
+  }
+
+  /**
+   * Pixels of an action that are still the local user's latest placement
+   */
+  private splitOwnPixels(action: PlacementAction): { own: PlacementAction; paintedOver: number } {
+    const userId = this.getUserId();
+    const own = action.filter(pixel => userId && this.stateSync.getPixelAt(pixel.x, pixel.y)?.userId === userId);
+    return { own, paintedOver: action.length - own.length };
+  }
+
+  /**
+   * Tell the user how to finish an undo or redo step larger than one batch
+   */
+  private notifyPartialStep(sent: number, total: number, verb: 'undo' | 'redo'): void {
+    const cooldownMs = this.webSocketService.getCooldownRemainingMs();
+    if (cooldownMs > 0) {
+      this.callbacks.onCooldown?.(cooldownMs);
+    }
+    this.callbacks.onError?.(`Only ${sent} of ${total} pixels could be sent at once - ${verb} again to finish`);
+  }
+
+  /**
+   * Pick the color of a pixel with the eyedropper (empty pixels have none)
+   */
+  private pickColor(x: number, y: number): void {
+    const pixel = this.stateSync.getPixelAt(x, y);
+    if (!pixel) {
+      console.log(`💧 No pixel to pick a color from at (${x}, ${y})`);
+      return;
+    }
+
+    console.log(`💧 Picked color ${pixel.color} at (${x}, ${y})`);
+    this.callbacks.onColorPick?.(pixel.color);
+  }
+
+  private getBoardBounds(): ToolBounds {
+    const { width, height } = this.renderer.boardSize;
+    return { minX: 0, minY: 0, maxX: width - 1, maxY: height - 1 };
+  }
+
+  /**
+   * Canvas pixels currently on screen, clipped to the board
+   */
+  private getVisibleBounds(): ToolBounds | null {
+    const screen = this.renderer.application.screen;
+    const topLeft = this.screenToCanvasCoordinates(0, 0);
+    const bottomRight = this.screenToCanvasCoordinates(screen.width, screen.height);
+    if (!topLeft || !bottomRight) return null;
+
+    const board = this.getBoardBounds();
+    return {
+      minX: Math.max(board.minX, topLeft.x),
+      minY: Math.max(board.minY, topLeft.y),
+      maxX: Math.min(board.maxX, bottomRight.x),
+      maxY: Math.min(board.maxY, bottomRight.y),
+    };
+  }
+
+  /**
+   * Show a "not allowed" cursor while the placement cooldown is active
+   */
+  private updateCooldownCursor(): void {
+    const inCooldown = this.config.enableDrawing && this.webSocketService.getCooldownRemainingMs() > 0;
+    if (inCooldown === this.showingCooldownCursor) return;
+
+    this.showingCooldownCursor = inCooldown;
+    this.renderer.stage.cursor = inCooldown ? 'not-allowed' : 'default';
+  }
+
   /**
    * Convert screen coordinates to canvas grid coordinates
    */
@@ -509,7 +872,8 @@ export class InputController {
       }
 
       // Only share if coordinates are within valid canvas bounds
-      if (!isValidCanvasCoordinate(canvasCoords.x, canvasCoords.y)) {
+      const { width, height } = this.renderer.boardSize;
+      if (!isValidCanvasCoordinate(canvasCoords.x, canvasCoords.y, width, height)) {
         return; // Outside valid canvas area, skip sharing
       }
 
@@ -540,15 +904,17 @@ export class InputController {
     const canvasContainer = this.renderer.canvasContainer;
     if (!canvasContainer) return;
 
+    this.cancelFlight();
+
     const app = this.renderer.application;
     
     // Reset scale to default (30px per pixel)
     const defaultScale = 30;
     canvasContainer.scale.set(defaultScale);
     
-    // Center the view at the center of valid canvas (2500, 2500)
-    const canvasCenterX = 2500;
-    const canvasCenterY = 2500;
+    // Center the view at the center of the board
+    const canvasCenterX = this.renderer.boardSize.width / 2;
+    const canvasCenterY = this.renderer.boardSize.height / 2;
     canvasContainer.x = app.screen.width / 2 - canvasCenterX * defaultScale;
     canvasContainer.y = app.screen.height / 2 - canvasCenterY * defaultScale;
     
@@ -562,6 +928,79 @@ export class InputController {
     );
   }
 
+  /**
+   * Animate the viewport so that a pixel ends up in the center of the screen.
+   * Zoom is interpolated geometrically so zooming in and out feels even;
+   * any user pan or zoom interrupts the animation.
+   */
+  public flyTo(x: number, y: number, zoom?: number, durationMs = 800): void {
+    const canvasContainer = this.renderer.canvasContainer;
+    if (!canvasContainer) return;
+
+    this.cancelFlight();
+
+    const { width, height } = this.renderer.boardSize;
+    const screen = this.renderer.application.screen;
+    const targetX = Math.max(0, Math.min(width - 1, Math.floor(x))) + 0.5;
+    const targetY = Math.max(0, Math.min(height - 1, Math.floor(y))) + 0.5;
+    const startScale = canvasContainer.scale.x;
+    const endScale = Math.max(MIN_SCALE, Math.min(MAX_SCALE, zoom ?? startScale));
+
+    // Canvas position currently at the center of the screen
+    const startX = (screen.width / 2 - canvasContainer.x) / startScale;
+    const startY = (screen.height / 2 - canvasContainer.y) / startScale;
+
+    const startTime = performance.now();
+    const step = (now: number) => {
+      const progress = durationMs > 0 ? Math.min(1, (now - startTime) / durationMs) : 1;
+      // Ease in-out cubic
+      const eased = progress < 0.5 ? 4 * progress ** 3 : 1 - (-2 * progress + 2) ** 3 / 2;
+
+      const scale = startScale * Math.pow(endScale / startScale, eased);
+      const centerX = startX + (targetX - startX) * eased;
+      const centerY = startY + (targetY - startY) * eased;
+
+      canvasContainer.scale.set(scale);
+      canvasContainer.x = screen.width / 2 - centerX * scale;
+      canvasContainer.y = screen.height / 2 - centerY * scale;
+      this.renderer.updateGrid(scale);
+      this.callbacks.onViewportChange?.(scale, canvasContainer.x, canvasContainer.y);
+
+      this.flightFrame = progress < 1 ? requestAnimationFrame(step) : null;
+    };
+
+    console.log(`✈️ Flying to (${Math.floor(targetX)}, ${Math.floor(targetY)}) at ${endScale.toFixed(1)}x`);
+    this.flightFrame = requestAnimationFrame(step);
+  }
+
+  /**
+   * Stop a running flyTo animation where it is
+   */
+  private cancelFlight(): void {
+    if (this.flightFrame !== null) {
+      cancelAnimationFrame(this.flightFrame);
+      this.flightFrame = null;
+    }
+  }
+
+  /**
+   * Get the pixel at the center of the screen and the current zoom (e.g. to share the view)
+   */
+  public getViewCenter(): { x: number; y: number; zoom: number } {
+    const canvasContainer = this.renderer.canvasContainer;
+    const zoom = canvasContainer?.scale.x || 1;
+    const screen = this.renderer.application.screen;
+    const { width, height } = this.renderer.boardSize;
+
+    const x = Math.floor((screen.width / 2 - (canvasContainer?.x || 0)) / zoom);
+    const y = Math.floor((screen.height / 2 - (canvasContainer?.y || 0)) / zoom);
+    return {
+      x: Math.max(0, Math.min(width - 1, x)),
+      y: Math.max(0, Math.min(height - 1, y)),
+      zoom,
+    };
+  }
+
   /**
    * Update configuration
    */
@@ -594,11 +1033,94 @@ export class InputController {
     }
   }
 
+  /**
+   * Put back the colors the latest own placement overwrote. Pixels another user
+   * has painted since, and pixels that were empty before, are skipped with a notice.
+   * Steps larger than the placement budget or the batch limit are undone in parts.
+   */
+  public undo(): void {
+    const action = this.history.peekUndo();
+    if (!action || !this.canPlacePixels()) return;
+
+    const { own, paintedOver } = this.splitOwnPixels(action);
+    const restorable = own.filter(pixel => pixel.previousColor !== null);
+    const wasEmpty = own.length - restorable.length;
+
+    const sent = restorable.length > 0
+      ? this.sendPixelBatch(restorable.map(pixel => ({ x: pixel.x, y: pixel.y, color: pixel.previousColor! })), true)
+      : 0;
+    if (restorable.length > 0 && sent === 0) {
+      this.callbacks.onError?.('Failed to send undo');
+      return;
+    }
+
+    this.history.completeUndo(restorable.slice(0, sent), restorable.slice(sent));
+    this.notifyHistoryChange();
+    console.log(`↩️ Undid ${sent} pixels (${paintedOver} painted over, ${wasEmpty} were empty)`);
+
+    if (sent < restorable.length) {
+      this.notifyPartialStep(sent, restorable.length, 'undo');
+    }
+
+    const skipped: string[] = [];
+    if (paintedOver > 0) skipped.push(`${paintedOver} painted over by someone else`);
+    if (wasEmpty > 0) skipped.push(`${wasEmpty} that were empty before`);
+    if (skipped.length > 0) {
+      this.callbacks.onError?.(`Undo skipped ${skipped.join(' and ')}`);
+    }
+  }
+
+  /**
+   * Place the latest undone pixels again, unless another user has painted them since.
+   * Like undo, large steps are redone in parts.
+   */
+  public redo(): void {
+    const action = this.history.peekRedo();
+    if (!action || !this.canPlacePixels()) return;
+
+    const { own, paintedOver } = this.splitOwnPixels(action);
+
+    const sent = own.length > 0
+      ? this.sendPixelBatch(own.map(({ x, y, color }) => ({ x, y, color })))
+      : 0;
+    if (own.length > 0 && sent === 0) {
+      this.callbacks.onError?.('Failed to send redo');
+      return;
+    }
+
+    this.history.completeRedo(own.slice(0, sent), own.slice(sent));
+    this.notifyHistoryChange();
+    console.log(`↪️ Redid ${sent} pixels (${paintedOver} painted over)`);
+
+    if (sent < own.length) {
+      this.notifyPartialStep(sent, own.length, 'redo');
+    }
+
+    if (paintedOver > 0) {
+      this.callbacks.onError?.(`Redo skipped ${paintedOver} pixels painted over by someone else`);
+    }
+  }
+
+  /**
+   * Switch the drawing tool; a shape in progress is dropped
+   */
+  public setTool(tool: DrawingTool): void {
+    this.config.tool = tool;
+    this.isDrawingMode = false;
+    this.cancelShape();
+    console.log(`🛠️ Tool changed to: ${tool}`);
+  }
+
   /**
    * Enable or disable drawing mode
    */
   public setDrawingEnabled(enabled: boolean): void {
     this.config.enableDrawing = enabled;
+    if (!enabled) {
+      this.isDrawingMode = false;
+      this.finishStroke();
+      this.cancelShape();
+    }
     console.log(`✏️ Drawing ${enabled ? 'enabled' : 'disabled'}`);
   }
 
@@ -669,6 +1191,8 @@ export class InputController {
 
     // Clear active touches
     this.activeTouches.clear();
+    this.cancelFlight();
+    this.toolPreview.destroy();
 
     // Remove PixiJS event listeners
     this.renderer.stage.removeAllListeners();
@@ -0,0 +1,89 @@
+/**
+ * Undo History
+ *
+ * Per-session stacks of the local user's placements. Each action is one click,
+ * freehand stroke or shape, with the color every pixel had before, so undo can
+ * put the old colors back and redo can place the new ones again.
+ */
+
+export interface PlacedPixel {
+  x: number;
+  y: number;
+  color: string; // Color that was placed
+  previousColor: string | null; // Color it overwrote; null for an empty pixel
+}
+
+export type PlacementAction = PlacedPixel[];
+
+// Oldest actions are forgotten beyond this
+const MAX_ACTIONS = 100;
+
+export class UndoHistory {
+  private undoStack: PlacementAction[] = [];
+  private redoStack: PlacementAction[] = [];
+
+  /**
+   * Remember a new placement; it replaces whatever could be redone
+   */
+  public record(action: PlacementAction): void {
+    if (action.length === 0) return;
+    this.pushUndo(action);
+    this.redoStack = [];
+  }
+
+  public peekUndo(): PlacementAction | null {
+    return this.undoStack[this.undoStack.length - 1] ?? null;
+  }
+
+  public peekRedo(): PlacementAction | null {
+    return this.redoStack[this.redoStack.length - 1] ?? null;
+  }
+
+  /**
+   * Take the latest action off the undo stack; the undone pixels can be redone.
+   * Pixels left for a later undo stay on top of the stack.
+   */
+  public completeUndo(undone: PlacementAction, left: PlacementAction = []): void {
+    this.undoStack.pop();
+    if (left.length > 0) {
+      this.undoStack.push(left);
+    }
+    if (undone.length > 0) {
+      this.redoStack.push(undone);
+    }
+  }
+
+  /**
+   * Take the latest action off the redo stack; the redone pixels can be undone again.
+   * Pixels left for a later redo stay on top of the stack.
+   */
+  public completeRedo(redone: PlacementAction, left: PlacementAction = []): void {
+    this.redoStack.pop();
+    if (left.length > 0) {
+      this.redoStack.push(left);
+    }
+    if (redone.length > 0) {
+      this.pushUndo(redone);
+    }
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  public clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  private pushUndo(action: PlacementAction): void {
+    this.undoStack.push(action);
+    if (this.undoStack.length > MAX_ACTIONS) {
+      this.undoStack.shift();
+    }
+  }
+}
\ No newline at end of file
@@ -4,7 +4,7 @@ import { PixelEffectManager } from '../animation/effects';
 import { PixelSoundManager } from '../audio/sounds';
 
 export interface CanvasRendererConfig {
-  width: number;
+  width: number; // Board size in canvas pixels
   height: number;
   backgroundColor: number;
   antialias: boolean;
@@ -17,6 +17,8 @@ export class CanvasRenderer {
   private grid: Grid | null = null;
   private _effectManager: PixelEffectManager | null = null;
   private _soundManager: PixelSoundManager | null = null;
+  private boardWidth: number;
+  private boardHeight: number;
 
   constructor(config: Partial<CanvasRendererConfig> = {}) {
     const defaultConfig: CanvasRendererConfig = {
@@ -27,6 +29,8 @@ export class CanvasRenderer {
     };
 
     const finalConfig = { ...defaultConfig, ...config };
+    this.boardWidth = finalConfig.width;
+    this.boardHeight = finalConfig.height;
 
     // Initialize PixiJS Application
     this.app = new PIXI.Application({
@@ -71,7 +75,7 @@ export class CanvasRenderer {
    */
   private initializeGrid(container: PIXI.Container): void {
     // Create grid instance
-    this.grid = new Grid(container);
+    this.grid = new Grid(container, { width: this.boardWidth, height: this.boardHeight });
     
     // Set initial scale so 1 pixel coordinate = ~30 screen pixels
     const initialScale = 10;
@@ -80,9 +84,9 @@ export class CanvasRenderer {
     // Update grid for initial scale
     this.grid.update(initialScale);
     
-    // Position so the center of valid canvas (2500, 2500) is at viewport center
-    const canvasCenterX = 2500;
-    const canvasCenterY = 2500;
+    // Position so the center of the board is at viewport center
+    const canvasCenterX = this.boardWidth / 2;
+    const canvasCenterY = this.boardHeight / 2;
     container.x = this.app.screen.width / 2 - canvasCenterX * initialScale;
     container.y = this.app.screen.height / 2 - canvasCenterY * initialScale;
     
@@ -294,6 +298,10 @@ export class CanvasRenderer {
     return this.grid;
   }
 
+  public get boardSize(): { width: number; height: number } {
+    return { width: this.boardWidth, height: this.boardHeight };
+  }
+
   /**
    * Update the background color of the renderer
    */
@@ -381,6 +389,13 @@ export class CanvasRenderer {
     }
   }
 
+  /**
+   * Play the chat mention chime
+   */
+  public playMentionSound(): void {
+    this._soundManager?.playMentionSound();
+  }
+
   /**
    * Resume audio context (call on user interaction)
    */
@@ -11,9 +11,8 @@ import * as PIXI from 'pixi.js';
  */
 
 export interface GridConfig {
-  canvasSize: number;
-  minCoord: number;
-  maxCoord: number;
+  width: number; // Board size in canvas pixels
+  height: number;
   outOfBoundsColor: number;
   outOfBoundsAlpha: number;
 }
@@ -41,11 +40,10 @@ export class Grid {
   ];
 
   constructor(parentContainer: PIXI.Container, config: Partial<GridConfig> = {}) {
-    // Default configuration for 5000x5000 canvas (0,0 to 4999,4999)
+    // Default configuration for the 5000x5000 main board (0,0 to 4999,4999)
     this.config = {
-      canvasSize: 5000,
-      minCoord: 0,
-      maxCoord: 4999,
+      width: 5000,
+      height: 5000,
       outOfBoundsColor: 0xf5f5f5,
       outOfBoundsAlpha: 0.3,
       ...config
@@ -96,21 +94,23 @@ export class Grid {
    * Render gray areas outside the valid canvas region
    */
   private renderOutOfBoundsAreas(): void {
-    const viewportSize = 10000; // Large enough to cover any reasonable viewport
+    const { width, height } = this.config;
+    // Large enough to cover any reasonable viewport
+    const viewportSize = Math.max(10000, width, height);
     
     this.graphics.beginFill(this.config.outOfBoundsColor, this.config.outOfBoundsAlpha);
     
     // Left gray area (x < 0)
-    this.graphics.drawRect(-viewportSize, -viewportSize, viewportSize, viewportSize * 2);
+    this.graphics.drawRect(-viewportSize, -viewportSize, viewportSize, height + viewportSize * 2);
     
-    // Right gray area (x >= canvasSize)
-    this.graphics.drawRect(this.config.canvasSize, -viewportSize, viewportSize, viewportSize * 2);
+    // Right gray area (x >= width)
+    this.graphics.drawRect(width, -viewportSize, viewportSize, height + viewportSize * 2);
     
     // Top gray area (y < 0)
-    this.graphics.drawRect(this.config.minCoord, -viewportSize, this.config.canvasSize, viewportSize);
+    this.graphics.drawRect(0, -viewportSize, width, viewportSize);
     
-    // Bottom gray area (y >= canvasSize)
-    this.graphics.drawRect(this.config.minCoord, this.config.canvasSize, this.config.canvasSize, viewportSize);
+    // Bottom gray area (y >= height)
+    this.graphics.drawRect(0, height, width, viewportSize);
     
     this.graphics.endFill();
   }
@@ -126,20 +126,19 @@ export class Grid {
       const lineWidth = level.width / this.currentScale;
       this.graphics.lineStyle(lineWidth, level.color, level.alpha);
 
+      const maxX = this.config.width - 1;
+      const maxY = this.config.height - 1;
+
       // Draw vertical lines within valid canvas bounds only
-      for (let x = Math.ceil(this.config.minCoord / level.interval) * level.interval; 
-           x <= this.config.maxCoord; 
-           x += level.interval) {
-        this.graphics.moveTo(x, this.config.minCoord);
-        this.graphics.lineTo(x, this.config.maxCoord);
+      for (let x = 0; x <= maxX; x += level.interval) {
+        this.graphics.moveTo(x, 0);
+        this.graphics.lineTo(x, maxY);
       }
 
       // Draw horizontal lines within valid canvas bounds only
-      for (let y = Math.ceil(this.config.minCoord / level.interval) * level.interval; 
-           y <= this.config.maxCoord; 
-           y += level.interval) {
-        this.graphics.moveTo(this.config.minCoord, y);
-        this.graphics.lineTo(this.config.maxCoord, y);
+      for (let y = 0; y <= maxY; y += level.interval) {
+        this.graphics.moveTo(0, y);
+        this.graphics.lineTo(maxX, y);
       }
     });
   }
@@ -149,12 +148,7 @@ export class Grid {
    */
   private renderCanvasBoundary(): void {
     this.graphics.lineStyle(3 / this.currentScale, 0xff4444, 1.0); // Red border, constant screen width
-    this.graphics.drawRect(
-      this.config.minCoord, 
-      this.config.minCoord, 
-      this.config.canvasSize, 
-      this.config.canvasSize
-    );
+    this.graphics.drawRect(0, 0, this.config.width, this.config.height);
   }
 
   /**
@@ -218,13 +212,15 @@ export class Grid {
     scale: number;
     visibleLevels: string[];
     isVisible: boolean;
-    canvasSize: number;
+    width: number;
+    height: number;
   } {
     return {
       scale: this.currentScale,
       visibleLevels: this.getVisibleLevels(),
       isVisible: this.isVisible(),
-      canvasSize: this.config.canvasSize
+      width: this.config.width,
+      height: this.config.height
     };
   }
 
@@ -1,8 +1,12 @@
 import * as PIXI from 'pixi.js';
 import { PixelUpdateData } from '@libs/common-types';
+import { getChunkKey, getChunkForPixel, getChunkBounds, getChunksInRect, isValidCanvasCoordinate, CANVAS_SIZE } from '@libs/utils';
 
-// Use Sprite-based pixels for better batching (vs Graphics per pixel)
-export interface PixelSpriteObject extends PIXI.Sprite {
+// Canvas pixels; drawn inside the pixel so it stays within its own square
+const PENDING_OUTLINE_WIDTH = 0.15;
+
+// Lightweight view of a rendered pixel (pixels are texels, not display objects)
+export interface PixelSpriteObject {
   pixelData: {
     x: number;
     y: number;
@@ -11,30 +15,90 @@ export interface PixelSpriteObject extends PIXI.Sprite {
   };
 }
 
+/**
+ * RGBA buffer resource that re-uploads only the rows touched since the last upload
+ */
+class ChunkBufferResource extends PIXI.BufferResource {
+  private dirtyMinY = -1;
+  private dirtyMaxY = -1;
+
+  public markDirtyRows(minY: number, maxY: number): void {
+    this.dirtyMinY = this.dirtyMinY < 0 ? minY : Math.min(this.dirtyMinY, minY);
+    this.dirtyMaxY = Math.max(this.dirtyMaxY, maxY);
+  }
+
+  public upload(renderer: PIXI.Renderer, baseTexture: PIXI.BaseTexture, glTexture: PIXI.GLTexture): boolean {
+    const minY = this.dirtyMinY;
+    const maxY = this.dirtyMaxY;
+    this.dirtyMinY = -1;
+    this.dirtyMaxY = -1;
+
+    const width = baseTexture.realWidth;
+    const height = baseTexture.realHeight;
+
+    // First upload (or context restore) sends the whole buffer
+    if (minY < 0 || glTexture.width !== width || glTexture.height !== height) {
+      return super.upload(renderer, baseTexture, glTexture);
+    }
+
+    const gl = renderer.gl;
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, this.unpackAlignment);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+    gl.texSubImage2D(
+      baseTexture.target,
+      0,
+      0,
+      minY,
+      width,
+      maxY - minY + 1,
+      baseTexture.format,
+      glTexture.type,
+      (this.data as Uint8Array).subarray(minY * width * 4, (maxY + 1) * width * 4)
+    );
+
+    return true;
+  }
+}
+
+interface PixelChunk {
+  originX: number;
+  originY: number;
+  width: number;
+  height: number;
+  data: Uint8Array; // RGBA, alpha 0 = unpainted
+  userIds: Uint32Array; // Index into the renderer's user ID table
+  resource: ChunkBufferResource;
+  sprite: PIXI.Sprite;
+  pixelCount: number;
+}
+
+/**
+ * Renders the canvas as one texture per chunk. Each chunk keeps its pixels in an RGBA
+ * buffer, sampled with nearest-neighbour filtering, and pixel updates re-upload only
+ * the rows they touched.
+ */
 export class PixelRenderer {
   private container: PIXI.Container;
-  private pixelMap: Map<string, PixelSpriteObject> = new Map();
-  private pixelContainer: PIXI.ParticleContainer;
-  private pixelTexture: PIXI.Texture;
-
-  constructor(parentContainer: PIXI.Container) {
+  private chunks: Map<string, PixelChunk> = new Map();
+  private pixelContainer: PIXI.Container;
+  // User IDs are interned so each texel only stores an index; index 0 is "unknown"
+  private userIdTable: string[] = [''];
+  private userIdIndex: Map<string, number> = new Map();
+  private boardWidth: number;
+  private boardHeight: number;
+  // Outlines of optimistic pixels the server has not confirmed yet
+  private pendingOutlines: PIXI.Graphics;
+  private pendingPixels: Set<string> = new Set();
+
+  constructor(parentContainer: PIXI.Container, boardSize = { width: CANVAS_SIZE, height: CANVAS_SIZE }) {
     this.container = parentContainer;
+    this.boardWidth = boardSize.width;
+    this.boardHeight = boardSize.height;
 
-    // Create a shared 1x1 white texture for all pixels
-    // Using PIXI.Texture.WHITE (10x10) is fine; we set width/height to 1 world unit
-    this.pixelTexture = PIXI.Texture.WHITE;
-
-    // Create ParticleContainer for highly batched sprite rendering
-    this.pixelContainer = new PIXI.ParticleContainer(200000, {
-      position: true,
-      scale: true,
-      rotation: false,
-      uvs: false,
-      alpha: false,
-      tint: true,
-    });
+    this.pixelContainer = new PIXI.Container();
     this.pixelContainer.name = 'pixel-layer';
-    
+    this.pixelContainer.eventMode = 'none'; // Pixels don't need interaction
+
     // Add pixel container after grid but before other layers
     const gridContainer = parentContainer.getChildByName('grid-container');
     if (gridContainer) {
@@ -44,6 +108,11 @@ export class PixelRenderer {
       parentContainer.addChild(this.pixelContainer);
     }
 
+    // Directly above the pixels
+    this.pendingOutlines = new PIXI.Graphics();
+    this.pendingOutlines.name = 'pending-pixel-outlines';
+    parentContainer.addChildAt(this.pendingOutlines, parentContainer.getChildIndex(this.pixelContainer) + 1);
+
     console.log('✅ Pixel renderer initialized');
   }
 
@@ -51,50 +120,38 @@ export class PixelRenderer {
    * Add or update a single pixel
    */
   public addPixel(pixelData: PixelUpdateData): void {
-    const key = this.getPixelKey(pixelData.x, pixelData.y);
-    
-    // Remove existing pixel at this position
-    this.removePixel(pixelData.x, pixelData.y);
-
-    // Create new pixel sprite
-    const pixelSprite = this.createPixelSprite(pixelData);
-    
-    // Add to container and tracking
-    this.pixelContainer.addChild(pixelSprite);
-    this.pixelMap.set(key, pixelSprite);
-
-    // console.log(`🎨 Added pixel at (${pixelData.x}, ${pixelData.y}) color: ${pixelData.color}`);
+    const chunk = this.getOrCreateChunk(pixelData.x, pixelData.y);
+    if (!chunk) return;
+
+    this.writePixel(chunk, pixelData);
+    this.markDirty(chunk, pixelData.y, pixelData.y);
   }
 
   /**
-   * Add multiple pixels in batch (more efficient)
+   * Add multiple pixels in batch (one upload per touched chunk)
    */
   public addPixels(pixels: PixelUpdateData[]): void {
     console.log(`🎨 Adding ${pixels.length} pixels to renderer...`);
 
-    // Process all pixels
+    const dirtyRows = new Map<PixelChunk, { minY: number; maxY: number }>();
+
     pixels.forEach(pixelData => {
-      const key = this.getPixelKey(pixelData.x, pixelData.y);
-      
-      // Remove existing pixel at this position
-      this.removePixel(pixelData.x, pixelData.y);
-
-      // Create new pixel sprite
-      const pixelSprite = this.createPixelSprite(pixelData);
-      
-      // Add to tracking (will batch add to container)
-      this.pixelMap.set(key, pixelSprite);
-    });
+      const chunk = this.getOrCreateChunk(pixelData.x, pixelData.y);
+      if (!chunk) return;
 
-    // Batch add all new pixels to container
-    const newPixels = Array.from(this.pixelMap.values()).filter(
-      (pixel) => !(this.pixelContainer.children as PIXI.DisplayObject[]).includes(pixel)
-    );
-    
-    newPixels.forEach(pixel => {
-      this.pixelContainer.addChild(pixel);
+      this.writePixel(chunk, pixelData);
+
+      const rows = dirtyRows.get(chunk);
+      if (rows) {
+        rows.minY = Math.min(rows.minY, pixelData.y);
+        rows.maxY = Math.max(rows.maxY, pixelData.y);
+      } else {
+        dirtyRows.set(chunk, { minY: pixelData.y, maxY: pixelData.y });
+      }
     });
 
+    dirtyRows.forEach(({ minY, maxY }, chunk) => this.markDirty(chunk, minY, maxY));
+
     console.log(`✅ Added ${pixels.length} pixels to canvas`);
   }
 
@@ -102,62 +159,122 @@ export class PixelRenderer {
    * Remove a pixel at specific coordinates
    */
   public removePixel(x: number, y: number): boolean {
-    const key = this.getPixelKey(x, y);
-    const existingPixel = this.pixelMap.get(key);
-
-    if (existingPixel) {
-      this.pixelContainer.removeChild(existingPixel);
-      // Keep shared texture alive
-      existingPixel.destroy({ texture: false, baseTexture: false });
-      this.pixelMap.delete(key);
-      return true;
-    }
+    const chunk = this.getChunkAt(x, y);
+    if (!chunk) return false;
+
+    const index = this.getTexelIndex(chunk, x, y);
+    if (chunk.data[index * 4 + 3] === 0) return false;
 
-    return false;
+    this.clearTexel(chunk, index);
+    this.markDirty(chunk, y, y);
+    return true;
   }
 
   /**
-   * Clear all pixels
+   * Remove every pixel inside a region (e.g. an unloaded chunk) in one pass
    */
-  public clearAllPixels(): void {
-    // Remove and destroy all pixel graphics
-    this.pixelMap.forEach((pixel) => {
-      this.pixelContainer.removeChild(pixel);
-      pixel.destroy({ texture: false, baseTexture: false });
+  public removePixelsInRegion(minX: number, minY: number, maxX: number, maxY: number): number {
+    let removed = 0;
+
+    getChunksInRect(minX, minY, maxX, maxY, this.boardWidth, this.boardHeight).forEach(({ cx, cy }) => {
+      const key = getChunkKey(cx, cy);
+      const chunk = this.chunks.get(key);
+      if (!chunk) return;
+
+      const startX = Math.max(minX, chunk.originX);
+      const startY = Math.max(minY, chunk.originY);
+      const endX = Math.min(maxX, chunk.originX + chunk.width - 1);
+      const endY = Math.min(maxY, chunk.originY + chunk.height - 1);
+
+      // Whole chunk covered: free its texture instead of clearing texels
+      if (startX === chunk.originX && startY === chunk.originY &&
+          endX === chunk.originX + chunk.width - 1 && endY === chunk.originY + chunk.height - 1) {
+        removed += chunk.pixelCount;
+        this.destroyChunk(key, chunk);
+        return;
+      }
+
+      let removedInChunk = 0;
+      for (let y = startY; y <= endY; y++) {
+        for (let x = startX; x <= endX; x++) {
+          const index = this.getTexelIndex(chunk, x, y);
+          if (chunk.data[index * 4 + 3] !== 0) {
+            this.clearTexel(chunk, index);
+            removedInChunk++;
+          }
+        }
+      }
+
+      if (removedInChunk > 0) {
+        this.markDirty(chunk, startY, endY);
+        removed += removedInChunk;
+      }
     });
 
-    this.pixelMap.clear();
+    return removed;
+  }
+
+  /**
+   * Clear all pixels
+   */
+  public clearAllPixels(): void {
+    this.chunks.forEach((chunk, key) => this.destroyChunk(key, chunk));
+    this.pendingPixels.clear();
+    this.pendingOutlines.clear();
     console.log('🧹 All pixels cleared from renderer');
   }
 
+  /**
+   * Mark a pixel as waiting for the server (drawn with a subtle outline) or clear the mark
+   */
+  public setPixelPending(x: number, y: number, pending: boolean): void {
+    const key = `${x},${y}`;
+    if (pending === this.pendingPixels.has(key)) return;
+
+    if (pending) {
+      this.pendingPixels.add(key);
+    } else {
+      this.pendingPixels.delete(key);
+    }
+    this.drawPendingOutlines();
+  }
+
   /**
    * Get pixel at coordinates
    */
   public getPixelAt(x: number, y: number): PixelSpriteObject | null {
-    const key = this.getPixelKey(x, y);
-    return this.pixelMap.get(key) || null;
+    const chunk = this.getChunkAt(x, y);
+    if (!chunk) return null;
+
+    const index = this.getTexelIndex(chunk, x, y);
+    return chunk.data[index * 4 + 3] === 0 ? null : this.readPixel(chunk, index, x, y);
   }
 
   /**
    * Check if pixel exists at coordinates
    */
   public hasPixelAt(x: number, y: number): boolean {
-    const key = this.getPixelKey(x, y);
-    return this.pixelMap.has(key);
+    return this.getPixelAt(x, y) !== null;
   }
 
   /**
    * Get all pixels
    */
   public getAllPixels(): PixelSpriteObject[] {
-    return Array.from(this.pixelMap.values());
+    const pixels: PixelSpriteObject[] = [];
+    this.chunks.forEach(chunk => this.collectPixels(chunk, 0, 0, chunk.width - 1, chunk.height - 1, pixels));
+    return pixels;
   }
 
   /**
    * Get pixel count
    */
   public getPixelCount(): number {
-    return this.pixelMap.size;
+    let count = 0;
+    this.chunks.forEach(chunk => {
+      count += chunk.pixelCount;
+    });
+    return count;
   }
 
   /**
@@ -167,9 +284,9 @@ export class PixelRenderer {
     // For very low zoom levels, we might want to hide individual pixels
     // and show a simplified representation
     const showIndividualPixels = zoomLevel > 0.5;
-    
+
     this.pixelContainer.visible = showIndividualPixels;
-    
+
     if (!showIndividualPixels) {
       // Could implement simplified rendering here for performance
       console.log('🔍 Hiding individual pixels due to low zoom level');
@@ -182,54 +299,174 @@ export class PixelRenderer {
   public getPixelsInRegion(minX: number, minY: number, maxX: number, maxY: number): PixelSpriteObject[] {
     const pixelsInRegion: PixelSpriteObject[] = [];
 
-    this.pixelMap.forEach((pixel) => {
-      const { x, y } = pixel.pixelData;
-      if (x >= minX && x <= maxX && y >= minY && y <= maxY) {
-        pixelsInRegion.push(pixel);
-      }
+    getChunksInRect(minX, minY, maxX, maxY, this.boardWidth, this.boardHeight).forEach(({ cx, cy }) => {
+      const chunk = this.chunks.get(getChunkKey(cx, cy));
+      if (!chunk) return;
+
+      this.collectPixels(
+        chunk,
+        Math.max(minX, chunk.originX) - chunk.originX,
+        Math.max(minY, chunk.originY) - chunk.originY,
+        Math.min(maxX, chunk.originX + chunk.width - 1) - chunk.originX,
+        Math.min(maxY, chunk.originY + chunk.height - 1) - chunk.originY,
+        pixelsInRegion
+      );
     });
 
     return pixelsInRegion;
   }
 
   /**
-   * Create PIXI sprite for a pixel
+   * Get the chunk containing a pixel, creating its buffer and sprite on first use
+   */
+  private getOrCreateChunk(x: number, y: number): PixelChunk | null {
+    if (!isValidCanvasCoordinate(x, y, this.boardWidth, this.boardHeight)) return null;
+    const location = getChunkForPixel(x, y);
+
+    const key = getChunkKey(location.cx, location.cy);
+    const existing = this.chunks.get(key);
+    if (existing) return existing;
+
+    const bounds = getChunkBounds(location.cx, location.cy, this.boardWidth, this.boardHeight);
+    const width = bounds.maxX - bounds.minX + 1;
+    const height = bounds.maxY - bounds.minY + 1;
+    const data = new Uint8Array(width * height * 4);
+
+    const resource = new ChunkBufferResource(data, { width, height });
+    const baseTexture = new PIXI.BaseTexture(resource, {
+      scaleMode: PIXI.SCALE_MODES.NEAREST,
+      mipmap: PIXI.MIPMAP_MODES.OFF,
+      // Texels are either fully opaque or fully transparent, so they are already premultiplied
+      alphaMode: PIXI.ALPHA_MODES.PREMULTIPLIED_ALPHA,
+    });
+
+    // Position at world coordinates (1 unit = 1 canvas pixel = 1 texel)
+    const sprite = new PIXI.Sprite(new PIXI.Texture(baseTexture));
+    sprite.position.set(bounds.minX, bounds.minY);
+    sprite.name = `pixel-chunk-${key}`;
+    sprite.eventMode = 'none';
+    this.pixelContainer.addChild(sprite);
+
+    const chunk: PixelChunk = {
+      originX: bounds.minX,
+      originY: bounds.minY,
+      width,
+      height,
+      data,
+      userIds: new Uint32Array(width * height),
+      resource,
+      sprite,
+      pixelCount: 0,
+    };
+    this.chunks.set(key, chunk);
+    return chunk;
+  }
+
+  private drawPendingOutlines(): void {
+    this.pendingOutlines.clear();
+    if (this.pendingPixels.size === 0) return;
+
+    this.pendingOutlines.lineStyle({ width: PENDING_OUTLINE_WIDTH, color: 0x000000, alpha: 0.4, alignment: 0 });
+    this.pendingPixels.forEach(key => {
+      const [x, y] = key.split(',').map(Number);
+      this.pendingOutlines.drawRect(x, y, 1, 1);
+    });
+  }
+
+  private getChunkAt(x: number, y: number): PixelChunk | null {
+    const { cx, cy } = getChunkForPixel(x, y);
+    return this.chunks.get(getChunkKey(cx, cy)) ?? null;
+  }
+
+  private getTexelIndex(chunk: PixelChunk, x: number, y: number): number {
+    return (y - chunk.originY) * chunk.width + (x - chunk.originX);
+  }
+
+  /**
+   * Write a pixel's color into its chunk buffer (no upload)
    */
-  private createPixelSprite(pixelData: PixelUpdateData): PixelSpriteObject {
+  private writePixel(chunk: PixelChunk, pixelData: PixelUpdateData): void {
+    const index = this.getTexelIndex(chunk, pixelData.x, pixelData.y);
+    const offset = index * 4;
     // Convert hex color to number
     const colorNumber = parseInt(pixelData.color.replace('#', ''), 16);
 
-    // Create sprite using shared 1x1 white texture
-    const sprite = new PIXI.Sprite(this.pixelTexture) as PixelSpriteObject;
-
-    // Position at world coordinates (1 unit = 1 canvas pixel)
-    sprite.position.set(pixelData.x, pixelData.y);
-    sprite.width = 1;
-    sprite.height = 1;
-    sprite.tint = colorNumber;
-
-    // Store pixel data for reference
-    sprite.pixelData = {
-      x: pixelData.x,
-      y: pixelData.y,
-      color: pixelData.color,
-      userId: pixelData.userId,
-    };
+    if (chunk.data[offset + 3] === 0) {
+      chunk.pixelCount++;
+    }
+
+    chunk.data[offset] = (colorNumber >> 16) & 0xff;
+    chunk.data[offset + 1] = (colorNumber >> 8) & 0xff;
+    chunk.data[offset + 2] = colorNumber & 0xff;
+    chunk.data[offset + 3] = 0xff;
+    chunk.userIds[index] = this.internUserId(pixelData.userId);
+  }
 
-    // Set name for debugging
-    sprite.name = `pixel-${pixelData.x}-${pixelData.y}`;
+  private clearTexel(chunk: PixelChunk, index: number): void {
+    chunk.data.fill(0, index * 4, index * 4 + 4);
+    chunk.userIds[index] = 0;
+    chunk.pixelCount--;
+  }
 
-    // Optimize for performance
-    sprite.eventMode = 'none'; // Pixels don't need interaction
+  private readPixel(chunk: PixelChunk, index: number, x: number, y: number): PixelSpriteObject {
+    const offset = index * 4;
+    const colorNumber = (chunk.data[offset] << 16) | (chunk.data[offset + 1] << 8) | chunk.data[offset + 2];
 
-    return sprite;
+    return {
+      pixelData: {
+        x,
+        y,
+        color: `#${colorNumber.toString(16).padStart(6, '0').toUpperCase()}`,
+        userId: this.userIdTable[chunk.userIds[index]],
+      },
+    };
+  }
+
+  /**
+   * Append the painted pixels of a chunk-local rectangle
+   */
+  private collectPixels(
+    chunk: PixelChunk,
+    minX: number,
+    minY: number,
+    maxX: number,
+    maxY: number,
+    pixels: PixelSpriteObject[]
+  ): void {
+    if (chunk.pixelCount === 0) return;
+
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        const index = y * chunk.width + x;
+        if (chunk.data[index * 4 + 3] !== 0) {
+          pixels.push(this.readPixel(chunk, index, chunk.originX + x, chunk.originY + y));
+        }
+      }
+    }
   }
 
   /**
-   * Generate unique key for pixel coordinates
+   * Flag canvas rows of a chunk for upload on the next render
    */
-  private getPixelKey(x: number, y: number): string {
-    return `${x},${y}`;
+  private markDirty(chunk: PixelChunk, minY: number, maxY: number): void {
+    chunk.resource.markDirtyRows(minY - chunk.originY, maxY - chunk.originY);
+    chunk.sprite.texture.baseTexture.update();
+  }
+
+  private destroyChunk(key: string, chunk: PixelChunk): void {
+    this.pixelContainer.removeChild(chunk.sprite);
+    chunk.sprite.destroy({ texture: true, baseTexture: true });
+    this.chunks.delete(key);
+  }
+
+  private internUserId(userId: string): number {
+    let index = this.userIdIndex.get(userId);
+    if (index === undefined) {
+      index = this.userIdTable.length;
+      this.userIdTable.push(userId);
+      this.userIdIndex.set(userId, index);
+    }
+    return index;
   }
 
   /**
@@ -240,10 +477,15 @@ export class PixelRenderer {
     containerChildren: number;
     memoryUsage: number;
   } {
+    let memoryUsage = 0;
+    this.chunks.forEach(chunk => {
+      memoryUsage += chunk.data.byteLength + chunk.userIds.byteLength;
+    });
+
     return {
-      pixelCount: this.pixelMap.size,
+      pixelCount: this.getPixelCount(),
       containerChildren: this.pixelContainer.children.length,
-      memoryUsage: this.pixelMap.size * 4, // Rough estimate
+      memoryUsage,
     };
   }
 
@@ -252,11 +494,12 @@ export class PixelRenderer {
    */
   public destroy(): void {
     this.clearAllPixels();
-    
+    this.pendingOutlines.destroy();
+
     if (this.pixelContainer.parent) {
       this.pixelContainer.parent.removeChild(this.pixelContainer);
     }
-    
+
     this.pixelContainer.destroy({ children: true });
     console.log('✅ Pixel renderer destroyed');
   }
@@ -0,0 +1,127 @@
+import * as PIXI from 'pixi.js';
+import { ProtectedRegionInfo } from '@libs/common-types';
+import { isPixelInRegionShape } from '@libs/utils';
+
+/**
+ * Protected Region Layer
+ *
+ * Outlines the protected regions of the board above the pixels and reports
+ * the region under the pointer so the owners can be shown on hover.
+ * Outlines keep a constant screen width, like the grid lines.
+ */
+
+export interface ProtectedRegionLayerCallbacks {
+  onHoverChange?: (region: ProtectedRegionInfo | null, screenX: number, screenY: number) => void;
+}
+
+const OUTLINE_COLOR = 0xf59e0b;
+const FILL_ALPHA = 0.08;
+const HOVER_FILL_ALPHA = 0.2;
+
+export class ProtectedRegionLayer {
+  private container: PIXI.Container;
+  private graphics: PIXI.Graphics;
+  private stage: PIXI.Container;
+  private callbacks: ProtectedRegionLayerCallbacks;
+  private regions: ProtectedRegionInfo[] = [];
+  private currentScale = 1;
+  private hoveredRegionId: string | null = null;
+
+  constructor(parentContainer: PIXI.Container, stage: PIXI.Container, callbacks: ProtectedRegionLayerCallbacks = {}) {
+    this.stage = stage;
+    this.callbacks = callbacks;
+
+    this.container = new PIXI.Container();
+    this.container.name = 'protected-region-layer';
+    this.container.zIndex = 900; // Above pixels, below cursors
+    parentContainer.addChild(this.container);
+
+    this.graphics = new PIXI.Graphics();
+    this.container.addChild(this.graphics);
+
+    this.stage.on('pointermove', this.handlePointerMove);
+
+    console.log('✅ Protected region layer initialized');
+  }
+
+  /**
+   * Replace the outlined regions
+   */
+  public setRegions(regions: ProtectedRegionInfo[]): void {
+    this.regions = regions;
+    if (this.hoveredRegionId && !regions.some(region => region.id === this.hoveredRegionId)) {
+      this.hoveredRegionId = null;
+      this.callbacks.onHoverChange?.(null, 0, 0);
+    }
+    this.render();
+  }
+
+  /**
+   * Update outline widths for the current zoom level
+   */
+  public update(scale: number): void {
+    if (this.currentScale === scale) return;
+
+    this.currentScale = scale;
+    this.render();
+  }
+
+  /**
+   * Find the region covering a canvas pixel (the most recently created one when they overlap)
+   */
+  public getRegionAt(x: number, y: number): ProtectedRegionInfo | null {
+    for (let i = this.regions.length - 1; i >= 0; i--) {
+      if (isPixelInRegionShape(x, y, this.regions[i].shape)) {
+        return this.regions[i];
+      }
+    }
+    return null;
+  }
+
+  private render(): void {
+    this.graphics.clear();
+
+    this.regions.forEach(region => {
+      const hovered = region.id === this.hoveredRegionId;
+      this.graphics.lineStyle((hovered ? 3 : 2) / this.currentScale, OUTLINE_COLOR, 0.9);
+      this.graphics.beginFill(OUTLINE_COLOR, hovered ? HOVER_FILL_ALPHA : FILL_ALPHA);
+
+      const { shape } = region;
+      if (shape.type === 'rect') {
+        this.graphics.drawRect(shape.minX, shape.minY, shape.maxX - shape.minX + 1, shape.maxY - shape.minY + 1);
+      } else {
+        this.graphics.drawPolygon(shape.points.flatMap(point => [point.x, point.y]));
+      }
+
+      this.graphics.endFill();
+    });
+  }
+
+  private handlePointerMove = (event: PIXI.FederatedPointerEvent): void => {
+    if (this.regions.length === 0) return;
+
+    const local = this.container.toLocal(event.global);
+    const region = this.getRegionAt(Math.floor(local.x), Math.floor(local.y));
+    const regionId = region?.id ?? null;
+    if (regionId === this.hoveredRegionId) return;
+
+    this.hoveredRegionId = regionId;
+    this.render();
+    this.callbacks.onHoverChange?.(region, event.global.x, event.global.y);
+  };
+
+  /**
+   * Destroy the layer and clean up resources
+   */
+  public destroy(): void {
+    this.stage.off('pointermove', this.handlePointerMove);
+    this.graphics.destroy();
+
+    if (this.container.parent) {
+      this.container.parent.removeChild(this.container);
+    }
+
+    this.container.destroy({ children: true });
+    console.log('✅ Protected region layer destroyed');
+  }
+}
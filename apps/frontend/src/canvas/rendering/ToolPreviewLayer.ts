@@ -0,0 +1,46 @@
+import * as PIXI from 'pixi.js';
+import { PixelPoint } from '../interaction/drawingTools';
+
+/**
+ * Tool Preview Layer
+ *
+ * Draws a translucent ghost of the pixels a line, rectangle or fill would
+ * place, so the shape can be checked before it is committed.
+ */
+
+const PREVIEW_ALPHA = 0.5;
+
+export class ToolPreviewLayer {
+  private graphics: PIXI.Graphics;
+
+  constructor(parentContainer: PIXI.Container) {
+    this.graphics = new PIXI.Graphics();
+    this.graphics.name = 'tool-preview-layer';
+    this.graphics.zIndex = 950; // Above pixels and region outlines, below cursors
+    parentContainer.addChild(this.graphics);
+  }
+
+  /**
+   * Replace the previewed pixels
+   */
+  public show(points: PixelPoint[], color: string): void {
+    this.graphics.clear();
+    this.graphics.beginFill(parseInt(color.replace('#', ''), 16), PREVIEW_ALPHA);
+    points.forEach(point => this.graphics.drawRect(point.x, point.y, 1, 1));
+    this.graphics.endFill();
+  }
+
+  public clear(): void {
+    this.graphics.clear();
+  }
+
+  /**
+   * Destroy the layer and clean up resources
+   */
+  public destroy(): void {
+    if (this.graphics.parent) {
+      this.graphics.parent.removeChild(this.graphics);
+    }
+    this.graphics.destroy();
+  }
+}
\ No newline at end of file
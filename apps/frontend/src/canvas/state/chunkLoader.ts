@@ -0,0 +1,252 @@
+import { PixelData } from '@libs/common-types';
+import { getChunkKey, getChunksInRect, CHUNK_SIZE } from '@libs/utils';
+import { CanvasRenderer } from '../rendering/CanvasRenderer';
+import { apiService } from '@services/api';
+
+/**
+ * Chunk Loader
+ *
+ * Fetches the fixed-size chunks of the canvas that overlap the viewport (plus a margin)
+ * as the user pans and zooms, and drops chunks once they are far off screen.
+ * `update()` is cheap when the viewport hasn't changed, so it can run every frame.
+ */
+
+export interface ChunkLoaderConfig {
+  loadMargin: number; // Chunks beyond the viewport edge to prefetch
+  unloadMargin: number; // Chunks beyond the viewport edge before a chunk is dropped
+  maxConcurrentRequests: number;
+  retryDelayMs: number; // Wait before re-requesting a chunk that failed to load
+}
+
+export interface ChunkLoaderHandlers {
+  onChunkLoadStart?: (cx: number, cy: number) => void;
+  onChunkLoaded?: (cx: number, cy: number, pixels: PixelData[]) => void;
+  onChunkUnloaded?: (cx: number, cy: number) => void;
+  onError?: (message: string) => void;
+}
+
+interface ChunkEntry {
+  cx: number;
+  cy: number;
+  state: 'queued' | 'loading' | 'loaded';
+  abortController?: AbortController;
+}
+
+export class ChunkLoader {
+  private renderer: CanvasRenderer;
+  private handlers: ChunkLoaderHandlers;
+  private config: ChunkLoaderConfig;
+  private chunks: Map<string, ChunkEntry> = new Map();
+  private queue: string[] = [];
+  private activeRequests = 0;
+  private retryAt: Map<string, number> = new Map();
+  private lastViewportKey = '';
+
+  constructor(renderer: CanvasRenderer, handlers: ChunkLoaderHandlers = {}, config: Partial<ChunkLoaderConfig> = {}) {
+    this.renderer = renderer;
+    this.handlers = handlers;
+    this.config = {
+      loadMargin: 1,
+      unloadMargin: 3,
+      maxConcurrentRequests: 4,
+      retryDelayMs: 5000,
+      ...config,
+    };
+
+    console.log('✅ Chunk loader initialized');
+  }
+
+  /**
+   * Reconcile loaded chunks with the current viewport
+   */
+  public update(): void {
+    const viewport = this.getViewport();
+    if (!viewport) return;
+
+    const viewportKey = `${viewport.minX},${viewport.minY},${viewport.maxX},${viewport.maxY}`;
+    const now = Date.now();
+    const hasRetries = Array.from(this.retryAt.values()).some(retryAt => retryAt <= now);
+    if (viewportKey === this.lastViewportKey && !hasRetries) return;
+    this.lastViewportKey = viewportKey;
+
+    const { width, height } = this.renderer.boardSize;
+
+    // Drop chunks that moved far off screen
+    const keepMargin = this.config.unloadMargin * CHUNK_SIZE;
+    const keep = new Set(
+      getChunksInRect(
+        viewport.minX - keepMargin,
+        viewport.minY - keepMargin,
+        viewport.maxX + keepMargin,
+        viewport.maxY + keepMargin,
+        width,
+        height
+      ).map(({ cx, cy }) => getChunkKey(cx, cy))
+    );
+    this.chunks.forEach((_entry, key) => {
+      if (!keep.has(key)) {
+        this.unloadChunk(key);
+      }
+    });
+
+    // Queue missing chunks, nearest to the viewport center first
+    const loadMargin = this.config.loadMargin * CHUNK_SIZE;
+    const centerX = (viewport.minX + viewport.maxX) / 2;
+    const centerY = (viewport.minY + viewport.maxY) / 2;
+    const wanted = getChunksInRect(
+      viewport.minX - loadMargin,
+      viewport.minY - loadMargin,
+      viewport.maxX + loadMargin,
+      viewport.maxY + loadMargin,
+      width,
+      height
+    ).sort((a, b) => {
+      const distanceA = Math.hypot((a.cx + 0.5) * CHUNK_SIZE - centerX, (a.cy + 0.5) * CHUNK_SIZE - centerY);
+      const distanceB = Math.hypot((b.cx + 0.5) * CHUNK_SIZE - centerX, (b.cy + 0.5) * CHUNK_SIZE - centerY);
+      return distanceA - distanceB;
+    });
+
+    const wantedKeys = new Set<string>();
+    for (const { cx, cy } of wanted) {
+      const key = getChunkKey(cx, cy);
+      wantedKeys.add(key);
+
+      if (this.chunks.has(key) || (this.retryAt.get(key) ?? 0) > now) continue;
+      this.chunks.set(key, { cx, cy, state: 'queued' });
+    }
+    this.retryAt.forEach((retryAt, key) => {
+      if (retryAt <= now) {
+        this.retryAt.delete(key);
+      }
+    });
+
+    // Requests go out in priority order; queued chunks no longer wanted are dropped
+    this.queue = wanted
+      .map(({ cx, cy }) => getChunkKey(cx, cy))
+      .filter(key => this.chunks.get(key)?.state === 'queued');
+    this.chunks.forEach((entry, key) => {
+      if (entry.state === 'queued' && !wantedKeys.has(key)) {
+        this.chunks.delete(key);
+      }
+    });
+
+    this.pumpQueue();
+  }
+
+  /**
+   * Drop every chunk so the visible ones are fetched again (e.g. on canvas reload)
+   */
+  public reset(): void {
+    Array.from(this.chunks.keys()).forEach(key => this.unloadChunk(key));
+    this.queue = [];
+    this.retryAt.clear();
+    this.lastViewportKey = '';
+    console.log('🧹 Chunk loader reset');
+  }
+
+  public isChunkLoaded(cx: number, cy: number): boolean {
+    return this.chunks.get(getChunkKey(cx, cy))?.state === 'loaded';
+  }
+
+  /**
+   * Get loader statistics
+   */
+  public getStats(): { loaded: number; loading: number; queued: number } {
+    let loaded = 0;
+    let loading = 0;
+    this.chunks.forEach(entry => {
+      if (entry.state === 'loaded') loaded++;
+      if (entry.state === 'loading') loading++;
+    });
+    return { loaded, loading, queued: this.queue.length };
+  }
+
+  /**
+   * Update event handlers
+   */
+  public updateHandlers(newHandlers: Partial<ChunkLoaderHandlers>): void {
+    this.handlers = { ...this.handlers, ...newHandlers };
+  }
+
+  /**
+   * Destroy the loader and cancel pending requests
+   */
+  public destroy(): void {
+    this.chunks.forEach(entry => entry.abortController?.abort());
+    this.chunks.clear();
+    this.queue = [];
+    console.log('✅ Chunk loader destroyed');
+  }
+
+  /**
+   * Visible area of the canvas in canvas coordinates
+   */
+  private getViewport(): { minX: number; minY: number; maxX: number; maxY: number } | null {
+    const container = this.renderer.canvasContainer;
+    if (!container || container.scale.x <= 0) return null;
+
+    const screen = this.renderer.application.screen;
+    const scale = container.scale.x;
+
+    return {
+      minX: Math.floor(-container.x / scale),
+      minY: Math.floor(-container.y / scale),
+      maxX: Math.ceil((screen.width - container.x) / scale),
+      maxY: Math.ceil((screen.height - container.y) / scale),
+    };
+  }
+
+  private pumpQueue(): void {
+    while (this.activeRequests < this.config.maxConcurrentRequests && this.queue.length > 0) {
+      const key = this.queue.shift()!;
+      const entry = this.chunks.get(key);
+      if (entry?.state === 'queued') {
+        this.loadChunk(key, entry);
+      }
+    }
+  }
+
+  private async loadChunk(key: string, entry: ChunkEntry): Promise<void> {
+    const abortController = new AbortController();
+    entry.state = 'loading';
+    entry.abortController = abortController;
+    this.activeRequests++;
+    this.handlers.onChunkLoadStart?.(entry.cx, entry.cy);
+
+    try {
+      const pixels = await apiService.getChunk(entry.cx, entry.cy, abortController.signal);
+
+      // The chunk may have been dropped while the request was in flight
+      if (this.chunks.get(key) !== entry) return;
+
+      entry.state = 'loaded';
+      entry.abortController = undefined;
+      this.handlers.onChunkLoaded?.(entry.cx, entry.cy, pixels);
+    } catch (error) {
+      if (abortController.signal.aborted) return;
+
+      console.error(`❌ Failed to load chunk ${key}:`, error);
+      if (this.chunks.get(key) === entry) {
+        this.unloadChunk(key);
+        this.retryAt.set(key, Date.now() + this.config.retryDelayMs);
+      }
+      this.handlers.onError?.(error instanceof Error ? error.message : `Failed to load chunk ${key}`);
+    } finally {
+      this.activeRequests--;
+      this.pumpQueue();
+    }
+  }
+
+  private unloadChunk(key: string): void {
+    const entry = this.chunks.get(key);
+    if (!entry) return;
+
+    this.chunks.delete(key);
+    entry.abortController?.abort();
+
+    // Queued chunks were never announced
+    if (entry.state !== 'queued') {
+      this.handlers.onChunkUnloaded?.(entry.cx, entry.cy);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { CanvasRenderer } from '../rendering/CanvasRenderer';
 import { PixelRenderer } from '../rendering/PixelRenderer';
 import { PixelUpdateData } from '@libs/common-types';
+import { getChunkBounds, getChunkForPixel, getChunkKey, getChunkGridSize } from '@libs/utils';
 import { apiService } from '@services/api';
 
 /**
@@ -32,14 +33,42 @@ export interface PixelData {
   timestamp: Date;
 }
 
+// Optimistic pixels the server neither confirmed nor rejected by then (counted from
+// sending them) are rolled back
+const OPTIMISTIC_TIMEOUT_MS = 5000;
+
+interface OptimisticPixel {
+  placementId: string;
+  pixel: PixelData;
+}
+
+interface OptimisticPlacement {
+  keys: string[]; // Coordinates it covers
+  timeout: ReturnType<typeof setTimeout> | null; // Not started while queued for the connection
+}
+
+/**
+ * IDs of optimistic placements, matching the server's replies to them
+ */
+export const singlePlacementId = (requestId: number): string => `pixel:${requestId}`;
+export const batchPlacementId = (batchId: string): string => `batch:${batchId}`;
+
 export class StateSynchronizer {
   private renderer: CanvasRenderer;
   private pixelRenderer: PixelRenderer;
   private pixelMap: Map<string, PixelData> = new Map();
+  private isReplaying = false;
+  // Only loaded chunks are kept in sync; updates to loading chunks wait for the chunk data
+  private loadedChunks: Set<string> = new Set();
+  private pendingChunkUpdates: Map<string, PixelUpdateData[]> = new Map();
+  // Own placements drawn before the server answered; they cover the server state of their
+  // coordinates (oldest first per coordinate) until they are confirmed or rolled back
+  private optimisticPixels: Map<string, OptimisticPixel[]> = new Map();
+  private optimisticPlacements: Map<string, OptimisticPlacement> = new Map();
 
   constructor(renderer: CanvasRenderer) {
     this.renderer = renderer;
-    this.pixelRenderer = new PixelRenderer(renderer.canvasContainer!);
+    this.pixelRenderer = new PixelRenderer(renderer.canvasContainer!, renderer.boardSize);
     console.log('✅ State synchronizer initialized');
   }
 
@@ -51,13 +80,38 @@ export class StateSynchronizer {
 
     pixels.forEach(pixelData => {
       const key = `${pixelData.x},${pixelData.y}`;
+
+      // Updates outside loaded chunks are picked up when the chunk is fetched
+      const { cx, cy } = getChunkForPixel(pixelData.x, pixelData.y);
+      const chunkKey = getChunkKey(cx, cy);
+      if (!this.loadedChunks.has(chunkKey)) {
+        this.pendingChunkUpdates.get(chunkKey)?.push(pixelData);
+        return;
+      }
       
+      // Optimistic pixels stay on top until the server answers for them
+      const covered = this.optimisticPixels.has(key);
+
+      // Rolled back coordinates become empty
+      if (pixelData.erased) {
+        this.pixelMap.delete(key);
+        if (!this.isReplaying && !covered) {
+          this.pixelRenderer.removePixel(pixelData.x, pixelData.y);
+        }
+        return;
+      }
+
       // Update internal state
       this.pixelMap.set(key, {
         ...pixelData,
         timestamp: new Date(),
       });
 
+      // Live updates are only tracked during replay; they are drawn when replay ends
+      if (this.isReplaying || covered) {
+        return;
+      }
+
       // Use PixelRenderer to add/update the pixel
       this.pixelRenderer.addPixel(pixelData);
 
@@ -84,26 +138,259 @@ export class StateSynchronizer {
     
     // Clear existing pixels
     this.clearAllPixels();
+
+    // A full canvas load covers every chunk
+    const { width, height } = this.renderer.boardSize;
+    const { columns, rows } = getChunkGridSize(width, height);
+    for (let cy = 0; cy < rows; cy++) {
+      for (let cx = 0; cx < columns; cx++) {
+        this.loadedChunks.add(getChunkKey(cx, cy));
+      }
+    }
     
     // Add all pixels without effects (silent initial load)
     this.syncPixelUpdates(pixels, false);
+    this.optimisticPixels.forEach((_, key) => this.renderCoordinate(key));
     
     console.log('✅ Full canvas state synchronized');
   }
 
   /**
-   * Clear all pixels from the canvas
+   * Clear all pixels from the canvas. Own placements still awaiting an answer are
+   * kept and drawn again when their chunk is loaded.
    */
   public clearAllPixels(): void {
-    // Use PixelRenderer to clear all pixels
-    this.pixelRenderer.clearAllPixels();
+    // Use PixelRenderer to clear all pixels (the replay owns the renderer while active)
+    if (!this.isReplaying) {
+      this.pixelRenderer.clearAllPixels();
+    }
     
     // Clear internal state
     this.pixelMap.clear();
+    this.loadedChunks.clear();
+    this.pendingChunkUpdates.clear();
 
     console.log('🧹 All pixels cleared from canvas');
   }
 
+  /**
+   * Start buffering live updates for a chunk whose data is being fetched
+   */
+  public beginChunkLoad(cx: number, cy: number): void {
+    const chunkKey = getChunkKey(cx, cy);
+    if (!this.loadedChunks.has(chunkKey)) {
+      this.pendingChunkUpdates.set(chunkKey, []);
+    }
+  }
+
+  /**
+   * Add a fetched chunk, then apply live updates received while it was loading
+   */
+  public loadChunk(cx: number, cy: number, pixels: PixelUpdateData[]): void {
+    const chunkKey = getChunkKey(cx, cy);
+    const pending = this.pendingChunkUpdates.get(chunkKey) ?? [];
+    this.pendingChunkUpdates.delete(chunkKey);
+    this.loadedChunks.add(chunkKey);
+
+    // Silent load, like the initial canvas load
+    this.syncPixelUpdates(pixels, false);
+    if (pending.length > 0) {
+      this.syncPixelUpdates(pending, false);
+    }
+
+    const { width, height } = this.renderer.boardSize;
+    const { minX, minY, maxX, maxY } = getChunkBounds(cx, cy, width, height);
+    this.optimisticPixels.forEach((_, key) => {
+      const { x, y } = parseCoordinateKey(key);
+      if (x >= minX && x <= maxX && y >= minY && y <= maxY) {
+        this.renderCoordinate(key);
+      }
+    });
+
+    console.log(`🧩 Loaded chunk ${chunkKey} with ${pixels.length} pixels (${pending.length} buffered updates)`);
+  }
+
+  /**
+   * Drop a chunk that moved far off screen
+   */
+  public unloadChunk(cx: number, cy: number): void {
+    const chunkKey = getChunkKey(cx, cy);
+    this.loadedChunks.delete(chunkKey);
+    this.pendingChunkUpdates.delete(chunkKey);
+
+    const { width, height } = this.renderer.boardSize;
+    const { minX, minY, maxX, maxY } = getChunkBounds(cx, cy, width, height);
+    this.pixelMap.forEach((pixel, key) => {
+      if (pixel.x >= minX && pixel.x <= maxX && pixel.y >= minY && pixel.y <= maxY) {
+        this.pixelMap.delete(key);
+      }
+    });
+    // Replies for optimistic pixels of the chunk find nothing left to settle
+    this.optimisticPixels.forEach((_, key) => {
+      const { x, y } = parseCoordinateKey(key);
+      if (x >= minX && x <= maxX && y >= minY && y <= maxY) {
+        this.optimisticPixels.delete(key);
+        this.pixelRenderer.setPixelPending(x, y, false);
+      }
+    });
+
+    // The replay owns the renderer while active
+    if (!this.isReplaying) {
+      this.pixelRenderer.removePixelsInRegion(minX, minY, maxX, maxY);
+    }
+  }
+
+  /**
+   * Hand the renderer over to replay playback, starting from an empty canvas
+   */
+  public enterReplayMode(): void {
+    this.isReplaying = true;
+    this.pixelRenderer.clearAllPixels();
+    console.log('🎬 Replay mode entered - live updates paused');
+  }
+
+  /**
+   * Clear the replayed pixels (e.g. when seeking backwards)
+   */
+  public resetReplayCanvas(): void {
+    this.pixelRenderer.clearAllPixels();
+  }
+
+  /**
+   * Draw replayed placements without touching the live canvas state
+   */
+  public applyReplayPixels(pixels: PixelUpdateData[], playEffects: boolean): void {
+    pixels.forEach(pixelData => {
+      this.pixelRenderer.addPixel(pixelData);
+
+      if (playEffects) {
+        this.renderer.triggerPixelEffect(pixelData.x, pixelData.y, pixelData.color, false);
+        this.renderer.playPixelSound(pixelData.color, false);
+      }
+    });
+  }
+
+  /**
+   * Leave replay mode and redraw the live canvas, including updates received meanwhile
+   */
+  public exitReplayMode(): void {
+    this.isReplaying = false;
+    this.pixelRenderer.clearAllPixels();
+    this.pixelMap.forEach(pixelData => this.pixelRenderer.addPixel(pixelData));
+    this.optimisticPixels.forEach((_, key) => this.renderCoordinate(key));
+    console.log(`🎬 Replay mode exited - restored ${this.pixelMap.size} live pixels`);
+  }
+
+  public isInReplayMode(): boolean {
+    return this.isReplaying;
+  }
+
+  /**
+   * Draw own placements right away, marked as pending until the server answers.
+   * Pixels outside loaded chunks are left to the broadcast. Placements queued for
+   * the connection only time out once startOptimisticTimeout is called for them.
+   */
+  public addOptimisticPlacement(
+    placementId: string,
+    pixels: Array<{ x: number; y: number; color: string }>,
+    userId: string,
+    queued = false
+  ): void {
+    const keys: string[] = [];
+    pixels.forEach(({ x, y, color }) => {
+      if (!this.isLoaded(x, y)) return;
+
+      const key = `${x},${y}`;
+      const stack = this.optimisticPixels.get(key) ?? [];
+      stack.push({ placementId, pixel: { x, y, color, userId, timestamp: new Date() } });
+      this.optimisticPixels.set(key, stack);
+      keys.push(key);
+      this.renderCoordinate(key);
+    });
+    if (keys.length === 0) return;
+
+    this.optimisticPlacements.set(placementId, { keys, timeout: null });
+    if (!queued) {
+      this.startOptimisticTimeout(placementId);
+    }
+  }
+
+  /**
+   * A queued placement was sent; from now on it waits for the server's answer
+   */
+  public startOptimisticTimeout(placementId: string): void {
+    const placement = this.optimisticPlacements.get(placementId);
+    if (!placement || placement.timeout) return;
+
+    placement.timeout = setTimeout(() => {
+      console.warn(`⌛ No answer for placement ${placementId}, rolling it back`);
+      this.rollbackOptimisticPlacement(placementId);
+    }, OPTIMISTIC_TIMEOUT_MS);
+  }
+
+  /**
+   * The server accepted a placement; its pixels are the server state until the broadcast arrives
+   */
+  public confirmOptimisticPlacement(placementId: string): void {
+    this.settleOptimisticPlacement(placementId, true);
+  }
+
+  /**
+   * The server rejected a placement; show the server state of its pixels again
+   */
+  public rollbackOptimisticPlacement(placementId: string): void {
+    this.settleOptimisticPlacement(placementId, false);
+  }
+
+  private settleOptimisticPlacement(placementId: string, accepted: boolean): void {
+    const placement = this.optimisticPlacements.get(placementId);
+    if (!placement) return;
+
+    if (placement.timeout) {
+      clearTimeout(placement.timeout);
+    }
+    this.optimisticPlacements.delete(placementId);
+
+    placement.keys.forEach(key => {
+      const stack = this.optimisticPixels.get(key);
+      const index = stack?.findIndex(entry => entry.placementId === placementId) ?? -1;
+      if (!stack || index === -1) return;
+
+      const [{ pixel }] = stack.splice(index, 1);
+      if (stack.length === 0) {
+        this.optimisticPixels.delete(key);
+      }
+      // Coordinates of chunks dropped by a reload are drawn when the chunk is fetched again
+      if (!this.isLoaded(pixel.x, pixel.y)) return;
+      if (accepted) {
+        this.pixelMap.set(key, pixel);
+      }
+      this.renderCoordinate(key);
+    });
+  }
+
+  private isLoaded(x: number, y: number): boolean {
+    const { cx, cy } = getChunkForPixel(x, y);
+    return this.loadedChunks.has(getChunkKey(cx, cy));
+  }
+
+  /**
+   * Draw the newest optimistic pixel of a coordinate, or its server state
+   */
+  private renderCoordinate(key: string): void {
+    if (this.isReplaying) return;
+
+    const { x, y } = parseCoordinateKey(key);
+    const stack = this.optimisticPixels.get(key);
+    const shown = stack ? stack[stack.length - 1].pixel : this.pixelMap.get(key);
+    if (shown) {
+      this.pixelRenderer.addPixel(shown);
+    } else {
+      this.pixelRenderer.removePixel(x, y);
+    }
+    this.pixelRenderer.setPixelPending(x, y, stack !== undefined);
+  }
+
   /**
    * Sync zoom level changes
    */
@@ -152,14 +439,16 @@ export class StateSynchronizer {
    * Check if a pixel exists at given coordinates
    */
   public hasPixelAt(x: number, y: number): boolean {
-    return this.pixelMap.has(`${x},${y}`);
+    return this.getPixelAt(x, y) !== null;
   }
 
   /**
-   * Get pixel data at coordinates
+   * Get pixel data at coordinates, including own placements the server has not answered yet
    */
   public getPixelAt(x: number, y: number): PixelData | null {
-    return this.pixelMap.get(`${x},${y}`) || null;
+    const key = `${x},${y}`;
+    const stack = this.optimisticPixels.get(key);
+    return stack ? stack[stack.length - 1].pixel : this.pixelMap.get(key) || null;
   }
 
   /**
@@ -173,6 +462,9 @@ export class StateSynchronizer {
    * Destroy the synchronizer and clean up resources
    */
   public destroy(): void {
+    this.optimisticPlacements.forEach(placement => placement.timeout && clearTimeout(placement.timeout));
+    this.optimisticPlacements.clear();
+    this.optimisticPixels.clear();
     this.clearAllPixels();
     this.pixelRenderer.destroy();
     console.log('✅ State synchronizer destroyed');
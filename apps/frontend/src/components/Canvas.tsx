@@ -1,20 +1,41 @@
 import React, { useEffect, useRef, useState, useCallback, forwardRef, useImperativeHandle } from 'react';
 import { CanvasRenderer } from '@canvas/rendering/CanvasRenderer';
 import { CursorRenderer } from '@canvas/rendering/CursorRenderer';
-import { StateSynchronizer } from '@canvas/state/stateSync';
+import { ProtectedRegionLayer } from '@canvas/rendering/ProtectedRegionLayer';
+import { StateSynchronizer, singlePlacementId, batchPlacementId } from '@canvas/state/stateSync';
+import { ChunkLoader } from '@canvas/state/chunkLoader';
 import { InputController } from '@canvas/interaction/inputController';
 import { apiService } from '@services/api';
-import { webSocketService, ConnectionStatus } from '@services/websocket';
+import { notificationService } from '@services/notifications';
+import { webSocketService, ConnectionStatus, SanctionState } from '@services/websocket';
 import { webRTCService } from '@services/webrtc';
-import { PixelUpdateData, CursorUpdateData, ChatMessageData } from '@libs/common-types';
+import { replayService } from '@services/replay';
+import { navigationService } from '@services/navigation';
+import {
+  BoardInfo,
+  PixelUpdateData,
+  CursorUpdateData,
+  ChatMessageData,
+  SessionPayload,
+  ErrorPayload,
+  DrawPixelAckPayload,
+  DrawPixelsAckPayload,
+  DrawPixelsRejectedPayload,
+  RateLimitedPayload,
+  SanctionPayload,
+  JoinRefusedPayload,
+  ProtectedRegionInfo,
+} from '@libs/common-types';
 import { useTheme } from '@contexts/ThemeContext';
 import { config } from '@/config/config';
 import { useChatContext } from '@contexts/ChatContext';
 import { useUserContext } from '@contexts/UserContext';
 import { useColorContext } from '@contexts/ColorContext';
+import { useToolContext } from '@contexts/ToolContext';
 import StatusWidget from './widgets/StatusWidget';
 
 interface CanvasProps {
+  board: BoardInfo;
   className?: string;
 }
 
@@ -24,16 +45,19 @@ export interface CanvasRef {
   setSoundsEnabled: (enabled: boolean) => void;
 }
 
-const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
+const Canvas = forwardRef<CanvasRef, CanvasProps>(({ board, className = '' }, ref) => {
   const { theme } = useTheme();
-  const { addMessage } = useChatContext();
+  const { addMessage, addPeerMessage, removeMessage, rejectMessage, setHistory, setSettings, getMention, setRestriction } = useChatContext();
   const { addUser, removeUser, setCurrentUser } = useUserContext();
-  const { selectedColor } = useColorContext();
+  const { selectedColor, setSelectedColor } = useColorContext();
+  const { selectedTool, restorePreviousTool, setHistoryAvailability, setHistoryHandlers } = useToolContext();
   const containerRef = useRef<HTMLDivElement>(null);
   const rendererRef = useRef<CanvasRenderer | null>(null);
   const stateSyncRef = useRef<StateSynchronizer | null>(null);
   const inputControllerRef = useRef<InputController | null>(null);
   const cursorRendererRef = useRef<CursorRenderer | null>(null);
+  const regionLayerRef = useRef<ProtectedRegionLayer | null>(null);
+  const chunkLoaderRef = useRef<ChunkLoader | null>(null);
 
   // State for canvas data and connection
   const [isLoading, setIsLoading] = useState(true);
@@ -42,6 +66,9 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
   const [error, setError] = useState<string | null>(null);
   const [webRTCConnected, setWebRTCConnected] = useState(false);
   const [connectedPeers, setConnectedPeers] = useState<string[]>([]);
+  const [ban, setBan] = useState<SanctionPayload | null>(null);
+  const [hoveredRegion, setHoveredRegion] = useState<{ region: ProtectedRegionInfo; x: number; y: number } | null>(null);
+  const joinRefusedRef = useRef(false); // The signaling service kept us out of the chat room
   
   // Prevent multiple initializations
   const initializationRef = useRef({ canvas: false, webrtc: false });
@@ -95,29 +122,11 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
         inputControllerRef.current.setUserColor(user.color);
       }
 
-      // Fetch initial canvas state
-      // Feature flag for binary loading (can be toggled for testing)
-      const useBinaryLoad = true;
-      console.log('🔧 Binary loading enabled:', useBinaryLoad);
-      
-      const pixels = useBinaryLoad 
-        ? await apiService.getCanvasPixelsBinary()
-        : await apiService.getCanvasPixels();
-      
-      console.log(`🎨 Loaded ${pixels.length} initial pixels (${useBinaryLoad ? 'binary' : 'JSON'} format)`);
-
-      // Update state synchronizer with initial pixels
-      if (stateSyncRef.current) {
-        const pixelUpdateData: PixelUpdateData[] = pixels.map(pixel => ({
-          x: pixel.x,
-          y: pixel.y,
-          color: pixel.color,
-          userId: 'unknown', // API response doesn't include userId for existing pixels
-        }));
-        
-        stateSyncRef.current.syncCanvasState(pixelUpdateData);
-        setPixelCount(pixels.length);
-      }
+      // Canvas pixels are fetched chunk by chunk as they come into view;
+      // drop anything already loaded so the visible chunks are fetched fresh
+      stateSyncRef.current?.clearAllPixels();
+      chunkLoaderRef.current?.reset();
+      setPixelCount(0);
 
       console.log('✅ Canvas initialization complete');
     } catch (error) {
@@ -136,7 +145,7 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
     
     if (stateSyncRef.current) {
       stateSyncRef.current.syncPixelUpdates(pixels);
-      setPixelCount(prev => prev + pixels.length);
+      setPixelCount(stateSyncRef.current.getCurrentState().pixelCount);
     }
   }, []);
 
@@ -150,12 +159,98 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
     await initializeCanvas();
   }, [initializeCanvas]);
 
+  /**
+   * Fetch the protected regions of the board and outline them
+   */
+  const loadProtectedRegions = useCallback(async () => {
+    try {
+      const regions = await apiService.getProtectedRegions();
+      regionLayerRef.current?.setRegions(regions);
+    } catch (error) {
+      console.error('❌ Failed to load protected regions:', error);
+    }
+  }, []);
+
+  /**
+   * Handle the session announced by the server on connect
+   */
+  const handleSession = useCallback((session: SessionPayload) => {
+    if (session.readOnly) {
+      setError('No valid session - the canvas is read-only. Reload the page to start a new session.');
+    }
+  }, []);
+
+  /**
+   * Handle errors reported by the server
+   */
+  const handleServerError = useCallback((serverError: ErrorPayload) => {
+    // A rejected placement disappears again
+    if (serverError.requestId !== undefined) {
+      stateSyncRef.current?.rollbackOptimisticPlacement(singlePlacementId(serverError.requestId));
+    }
+    // Rejected chat messages are explained in the chat widget
+    if (serverError.chatMessageId) {
+      rejectMessage(serverError);
+      return;
+    }
+    // The ban banner already explains rejected placements
+    if (serverError.code === 'USER_BANNED') return;
+    // The region may be new; show its outline
+    if (serverError.code === 'REGION_PROTECTED') {
+      loadProtectedRegions();
+    }
+    setError(serverError.message);
+  }, [loadProtectedRegions, rejectMessage]);
+
+  /**
+   * Handle a rejected pixel batch; none of its pixels were placed
+   */
+  const handleDrawPixelsRejected = useCallback((rejection: DrawPixelsRejectedPayload) => {
+    if (rejection.batchId) {
+      stateSyncRef.current?.rollbackOptimisticPlacement(batchPlacementId(rejection.batchId));
+    }
+    if (rejection.code === 'USER_BANNED') return;
+    if (rejection.code === 'REGION_PROTECTED') {
+      loadProtectedRegions();
+    }
+    setError(`Pixels not placed: ${rejection.message}`);
+  }, [loadProtectedRegions]);
+
+  /**
+   * Settle optimistic pixels once the server answered for them
+   */
+  const handleDrawPixelAck = useCallback((ack: DrawPixelAckPayload) => {
+    stateSyncRef.current?.confirmOptimisticPlacement(singlePlacementId(ack.requestId));
+  }, []);
+
+  const handleDrawPixelsAck = useCallback((ack: DrawPixelsAckPayload) => {
+    stateSyncRef.current?.confirmOptimisticPlacement(batchPlacementId(ack.batchId));
+  }, []);
+
+  const handleRateLimited = useCallback((rejection: RateLimitedPayload) => {
+    if (rejection.requestId !== undefined) {
+      stateSyncRef.current?.rollbackOptimisticPlacement(singlePlacementId(rejection.requestId));
+    }
+  }, []);
+
+  /**
+   * Pixels queued while offline wait for an answer once sent, or disappear when dropped
+   */
+  const handleQueuedPixelSent = useCallback((requestId: number) => {
+    stateSyncRef.current?.startOptimisticTimeout(singlePlacementId(requestId));
+  }, []);
+
+  const handleQueuedPixelsDropped = useCallback((requestIds: number[], reason: string) => {
+    requestIds.forEach(requestId => stateSyncRef.current?.rollbackOptimisticPlacement(singlePlacementId(requestId)));
+    setError(reason);
+  }, []);
+
   /**
    * Handle successful drawing
    */
   const handlePixelDraw = useCallback((x: number, y: number, color: string) => {
     console.log(`✏️ Drew pixel at (${x}, ${y}) with color ${color}`);
-    // The pixel will be reflected back via WebSocket update
+    // Shown at once as pending; the server's answer confirms or rolls it back
   }, []);
 
   /**
@@ -177,6 +272,8 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
     // Initialize PixiJS renderer with theme-aware background
     const backgroundColor = theme === 'dark' ? 0x1f2937 : 0xf8fafc; // Dark gray for dark mode, light gray for light mode
     const renderer = new CanvasRenderer({
+      width: board.width,
+      height: board.height,
       backgroundColor,
     });
     renderer.mount(containerRef.current);
@@ -192,24 +289,95 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
     const inputController = new InputController(
       renderer,
       webSocketService,
-      { selectedColor },
+      stateSync,
+      { selectedColor, tool: selectedTool, maxToolPixels: config.tools.maxPixels },
       {
         onPixelDraw: handlePixelDraw,
         onError: (error) => setError(error),
+        onColorPick: (color) => {
+          setSelectedColor(color);
+          restorePreviousTool();
+        },
+        onHistoryChange: setHistoryAvailability,
       }
     );
     inputControllerRef.current = inputController;
 
+    // Toolbar undo/redo buttons act on the own placements tracked by the input controller
+    setHistoryHandlers({
+      undo: () => inputControllerRef.current?.undo(),
+      redo: () => inputControllerRef.current?.redo(),
+    });
+
+    // Initialize protected region outlines (above the pixels, below the cursors)
+    const regionLayer = new ProtectedRegionLayer(renderer.canvasContainer!, renderer.stage, {
+      onHoverChange: (region, x, y) => setHoveredRegion(region ? { region, x, y } : null),
+    });
+    regionLayerRef.current = regionLayer;
+
     // Initialize cursor renderer
     const cursorRenderer = new CursorRenderer(renderer.canvasContainer!);
     cursorRendererRef.current = cursorRenderer;
 
+    // Initialize chunk loader (driven by the animation loop)
+    const chunkLoader = new ChunkLoader(renderer, {
+      onChunkLoadStart: (cx, cy) => stateSyncRef.current?.beginChunkLoad(cx, cy),
+      onChunkLoaded: (cx, cy, pixels) => {
+        if (!stateSyncRef.current) return;
+
+        const pixelUpdateData: PixelUpdateData[] = pixels.map(pixel => ({
+          x: pixel.x,
+          y: pixel.y,
+          color: pixel.color,
+          userId: 'unknown', // API response doesn't include userId for existing pixels
+        }));
+
+        stateSyncRef.current.loadChunk(cx, cy, pixelUpdateData);
+        setPixelCount(stateSyncRef.current.getCurrentState().pixelCount);
+      },
+      onChunkUnloaded: (cx, cy) => {
+        if (!stateSyncRef.current) return;
+
+        stateSyncRef.current.unloadChunk(cx, cy);
+        setPixelCount(stateSyncRef.current.getCurrentState().pixelCount);
+      },
+      onError: (message) => setError(`Failed to load part of the canvas: ${message}`),
+    });
+    chunkLoaderRef.current = chunkLoader;
+
+    // Replay playback takes over the pixel layer while live updates are paused
+    replayService.updateHandlers({
+      onEnter: () => {
+        inputControllerRef.current?.setDrawingEnabled(false);
+        stateSyncRef.current?.enterReplayMode();
+      },
+      onReset: () => stateSyncRef.current?.resetReplayCanvas(),
+      onFrame: (pixels, playEffects) => stateSyncRef.current?.applyReplayPixels(pixels, playEffects),
+      onExit: () => {
+        stateSyncRef.current?.exitReplayMode();
+        inputControllerRef.current?.setDrawingEnabled(true);
+      },
+      onError: (message) => setError(`Replay failed: ${message}`),
+    });
+
+    // Lets widgets (e.g. coordinate links in chat) move the camera
+    navigationService.updateHandlers({
+      onFlyTo: (x, y, zoom) => inputControllerRef.current?.flyTo(x, y, zoom),
+      getViewCenter: () => inputControllerRef.current?.getViewCenter() ?? null,
+    });
+
     console.log('✅ Canvas systems initialized');
 
     // Cleanup function
     return () => {
+      replayService.exit();
+      navigationService.clearHandlers();
+      setHistoryHandlers(null);
+      setHistoryAvailability(false, false);
+      chunkLoaderRef.current?.destroy();
       inputControllerRef.current?.destroy();
       cursorRendererRef.current?.destroy();
+      regionLayerRef.current?.destroy();
       stateSyncRef.current?.destroy();
       rendererRef.current?.destroy();
       
@@ -217,6 +385,8 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
       stateSyncRef.current = null;
       inputControllerRef.current = null;
       cursorRendererRef.current = null;
+      regionLayerRef.current = null;
+      chunkLoaderRef.current = null;
       
       console.log('🎨 Canvas systems destroyed');
     };
@@ -241,6 +411,12 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
   const handleChatMessage = useCallback((data: ChatMessageData) => {
     console.log('💬 Chat message received:', data);
     addMessage(data);
+
+    // Mentions would go unnoticed while the tab is in the background
+    const mention = getMention(data);
+    if (mention && document.hidden && notificationService.notifyMention(data, mention === 'reply')) {
+      rendererRef.current?.playMentionSound();
+    }
     
     // Ensure user is in context from chat data (might not have seen cursor yet)
     const cachedUser = apiService.getCachedUser();
@@ -252,7 +428,23 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
         color: data.color || '', // Use color from chat data, or auto-generate if not available
       });
     }
-  }, [addMessage, addUser]);
+  }, [addMessage, getMention, addUser]);
+
+  /**
+   * Peers mirror their messages over WebRTC; notifications wait for the server's copy
+   */
+  const handlePeerChatMessage = useCallback((data: ChatMessageData) => {
+    addPeerMessage(data);
+  }, [addPeerMessage]);
+
+  const handleJoinRefused = useCallback((refusal: JoinRefusedPayload) => {
+    joinRefusedRef.current = true;
+    if (refusal.banned) {
+      setRestriction({ reason: refusal.reason, expiresAt: refusal.expiresAt });
+    } else {
+      console.warn(`⚠️ Live cursors and peer chat are unavailable: ${refusal.reason}`);
+    }
+  }, [setRestriction]);
 
   const handlePeerConnected = useCallback((peerId: string) => {
     console.log('👥 Peer connected:', peerId);
@@ -313,7 +505,7 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
       await webRTCService.connect(
         {
           signalingUrl,
-          roomId: 'canvas-room',
+          roomId: `canvas-room:${board.id}`, // Cursors and chat are per board
           userId: cachedUser.userId,
           nickname: cachedUser.nickname,
           userColor: cachedUser.color
@@ -322,7 +514,8 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
           onPeerConnected: handlePeerConnected,
           onPeerDisconnected: handlePeerDisconnected,
           onCursorUpdate: handleCursorUpdate,
-          onChatMessage: handleChatMessage,
+          onChatMessage: handlePeerChatMessage,
+          onJoinRefused: handleJoinRefused,
           onConnectionStateChange: (state) => {
             console.log('🔗 WebRTC connection state:', state);
             setWebRTCConnected(state === 'connected');
@@ -335,7 +528,22 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
     } catch (error) {
       console.error('❌ Failed to initialize WebRTC:', error);
     }
-  }, [handleCursorUpdate, handleChatMessage, handlePeerConnected, handlePeerDisconnected]);
+  }, [handleCursorUpdate, handlePeerChatMessage, handlePeerConnected, handlePeerDisconnected, handleJoinRefused]);
+
+  /**
+   * Show bans and mutes announced by the server; rejoin the chat room once a ban ends
+   */
+  const handleSanctionChange = useCallback((sanctions: SanctionState) => {
+    setBan(sanctions.ban);
+    setRestriction(sanctions.ban ?? sanctions.mute);
+
+    if (!sanctions.ban && joinRefusedRef.current) {
+      joinRefusedRef.current = false;
+      webRTCService.disconnect();
+      initializationRef.current.webrtc = false;
+      initializeWebRTC();
+    }
+  }, [setRestriction, initializeWebRTC]);
 
   /**
    * Initialize canvas data and WebSocket connection - run only once
@@ -351,11 +559,25 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
       
       // Initialize canvas data
       await initializeCanvas();
+      loadProtectedRegions();
       
       // Set up WebSocket handlers BEFORE connecting
       webSocketService.updateHandlers({
         onPixelUpdate: handlePixelUpdate,
         onReloadCanvas: handleCanvasReload,
+        onSession: handleSession,
+        onServerError: handleServerError,
+        onDrawPixelAck: handleDrawPixelAck,
+        onDrawPixelsAck: handleDrawPixelsAck,
+        onDrawPixelsRejected: handleDrawPixelsRejected,
+        onRateLimited: handleRateLimited,
+        onQueuedPixelSent: handleQueuedPixelSent,
+        onQueuedPixelsDropped: handleQueuedPixelsDropped,
+        onSanctionChange: handleSanctionChange,
+        onChatHistory: setHistory,
+        onChatMessage: handleChatMessage,
+        onChatDelete: removeMessage,
+        onChatSettings: setSettings,
         onConnect: () => {
           console.log('🟢 WebSocket onConnect handler called');
           handleConnectionStatusChange(ConnectionStatus.CONNECTED);
@@ -408,13 +630,26 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
       webSocketService.updateHandlers({
         onPixelUpdate: handlePixelUpdate,
         onReloadCanvas: handleCanvasReload,
+        onSession: handleSession,
+        onServerError: handleServerError,
+        onDrawPixelAck: handleDrawPixelAck,
+        onDrawPixelsAck: handleDrawPixelsAck,
+        onDrawPixelsRejected: handleDrawPixelsRejected,
+        onRateLimited: handleRateLimited,
+        onQueuedPixelSent: handleQueuedPixelSent,
+        onQueuedPixelsDropped: handleQueuedPixelsDropped,
+        onSanctionChange: handleSanctionChange,
+        onChatHistory: setHistory,
+        onChatMessage: handleChatMessage,
+        onChatDelete: removeMessage,
+        onChatSettings: setSettings,
         onConnect: () => handleConnectionStatusChange(ConnectionStatus.CONNECTED),
         onDisconnect: () => handleConnectionStatusChange(ConnectionStatus.DISCONNECTED),
         onError: () => handleConnectionStatusChange(ConnectionStatus.ERROR),
         onReconnecting: () => handleConnectionStatusChange(ConnectionStatus.RECONNECTING),
       });
     }
-  }, [handlePixelUpdate, handleCanvasReload, handleConnectionStatusChange]);
+  }, [handlePixelUpdate, handleCanvasReload, handleSession, handleServerError, handleDrawPixelAck, handleDrawPixelsAck, handleDrawPixelsRejected, handleRateLimited, handleQueuedPixelSent, handleQueuedPixelsDropped, handleSanctionChange, setHistory, handleChatMessage, removeMessage, setSettings, handleConnectionStatusChange]);
 
   /**
    * Animation update loop (cursors and effects)
@@ -431,6 +666,17 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
         cursorRendererRef.current.update();
       }
 
+      // Keep region outlines at a constant screen width
+      const scale = rendererRef.current?.canvasContainer?.scale.x;
+      if (regionLayerRef.current && scale) {
+        regionLayerRef.current.update(scale);
+      }
+
+      // Fetch chunks that came into view and drop distant ones
+      if (chunkLoaderRef.current) {
+        chunkLoaderRef.current.update();
+      }
+
       if (rendererRef.current) {
         rendererRef.current.updateEffects(deltaTime);
       }
@@ -468,6 +714,15 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
     }
   }, [selectedColor]);
 
+  /**
+   * Update input controller when the drawing tool changes
+   */
+  useEffect(() => {
+    if (inputControllerRef.current) {
+      inputControllerRef.current.setTool(selectedTool);
+    }
+  }, [selectedTool]);
+
   /**
    * Handle user interaction to resume audio context
    */
@@ -518,6 +773,32 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(({ className = '' }, ref) => {
         </div>
       )}
 
+      {/* Ban notice (stays until the ban ends) */}
+      {ban && (
+        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-red-600 text-white px-4 py-3 rounded-lg shadow-lg z-40 max-w-md text-center">
+          <div className="font-medium">
+            You are banned {ban.expiresAt ? `until ${new Date(ban.expiresAt).toLocaleString()}` : 'permanently'}
+          </div>
+          <div className="text-sm opacity-90">Reason: {ban.reason}</div>
+        </div>
+      )}
+
+      {/* Owners of the protected region under the pointer */}
+      {hoveredRegion && (
+        <div
+          className="absolute pointer-events-none bg-gray-900 bg-opacity-90 text-white text-xs px-3 py-2 rounded-md shadow-lg z-40 max-w-xs"
+          style={{ left: hoveredRegion.x + 16, top: hoveredRegion.y + 16 }}
+        >
+          <div className="font-medium">🛡️ {hoveredRegion.region.name}</div>
+          <div className="opacity-80">
+            Owned by {[
+              ...hoveredRegion.region.allowedUsers.map(owner => owner.nickname ?? owner.userId),
+              ...hoveredRegion.region.allowedRoles.map(role => `${role}s`),
+            ].join(', ') || 'admins only'}
+          </div>
+        </div>
+      )}
+
       {/* Error overlay */}
       {error && (
         <div className="absolute top-4 left-4 right-4 bg-red-500 text-white p-4 rounded-lg z-40">
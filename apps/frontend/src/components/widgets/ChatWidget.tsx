@@ -2,7 +2,12 @@ import React, { useState, useEffect, useRef } from 'react';
 import BaseWidget from './BaseWidget';
 import MobileWidget from './MobileWidget';
 import { useChatContext } from '@contexts/ChatContext';
+import { useBoardContext } from '@contexts/BoardContext';
 import { ChatMessageData } from '@libs/common-types';
+import { MAX_CHAT_MESSAGE_LENGTH, findCoordinateLinks, formatCoordinateLink, isValidCanvasCoordinate } from '@libs/utils';
+import { apiService } from '@services/api';
+import { notificationService } from '@services/notifications';
+import { navigationService } from '@services/navigation';
 
 interface ChatMessage {
   id: string;
@@ -11,12 +16,33 @@ interface ChatMessage {
   message: string;
   timestamp: number;
   isLocal?: boolean;
+  replyTo: string | null;
+  mention: 'mention' | 'reply' | null; // The message addresses the local user
 }
 
+// Splits message text around @nickname mentions (kept as separate parts)
+const MENTION_PATTERN = /((?<![\p{L}\p{N}_@])@[\p{L}\p{N}_-]{2,32})/u;
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length)}…` : text);
+
 const ChatWidget: React.FC = () => {
-  const { messages: contextMessages, sendMessage } = useChatContext();
-  const [localMessages, setLocalMessages] = useState<ChatMessage[]>([]);
+  const {
+    messages: contextMessages,
+    sendMessage,
+    loadOlderMessages,
+    hasOlderMessages,
+    isLoadingOlder,
+    deleteMessage,
+    getMention,
+    canModerate,
+    settings,
+    chatError,
+    restriction,
+  } = useChatContext();
+  const { board } = useBoardContext();
   const [newMessage, setNewMessage] = useState('');
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const [flashedId, setFlashedId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll to bottom when new messages arrive
@@ -24,49 +50,120 @@ const ChatWidget: React.FC = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  // Merge and sort all messages (local + context)
-  const allMessages = React.useMemo(() => {
-    const contextConverted: ChatMessage[] = contextMessages.map(msg => ({
-      id: `remote-${msg.userId}-${msg.timestamp}`,
+  // Own messages (including earlier ones from the history) are highlighted
+  const allMessages = React.useMemo((): ChatMessage[] => {
+    const currentUserId = apiService.getCachedUser()?.userId;
+    return contextMessages.map((msg: ChatMessageData): ChatMessage => ({
+      id: msg.id,
       userId: msg.userId,
-      nickname: msg.nickname,
+      nickname: msg.userId === currentUserId ? 'You' : msg.nickname,
       message: msg.message,
       timestamp: msg.timestamp,
-      isLocal: false
+      isLocal: msg.userId === currentUserId,
+      replyTo: msg.replyTo,
+      mention: getMention(msg),
     }));
+  }, [contextMessages, getMention]);
 
-    const combined = [...localMessages, ...contextConverted];
-    
-    // Sort by timestamp to maintain chronological order
-    return combined.sort((a, b) => a.timestamp - b.timestamp);
-  }, [contextMessages, localMessages]);
+  const messagesById = React.useMemo(
+    () => new Map<string, ChatMessage>(allMessages.map((msg: ChatMessage) => [msg.id, msg])),
+    [allMessages]
+  );
+
+  // A reply loses its target when the message is deleted
+  useEffect(() => {
+    if (replyingTo && !messagesById.has(replyingTo.id)) {
+      setReplyingTo(null);
+    }
+  }, [replyingTo, messagesById]);
 
+  // Older messages are prepended; only scroll when a newer one arrives
+  const latestMessageId = allMessages[allMessages.length - 1]?.id;
   useEffect(() => {
     scrollToBottom();
-  }, [allMessages]);
+  }, [latestMessageId]);
 
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
-    if (newMessage.trim()) {
-      // Send via context
-      sendMessage(newMessage);
-      
-      // Add to local messages immediately
-      const localMsg: ChatMessage = {
-        id: `local-${Date.now()}`,
-        userId: 'local',
-        nickname: 'You',
-        message: newMessage,
-        timestamp: Date.now(),
-        isLocal: true
-      };
-      
-      setLocalMessages(prev => [...prev, localMsg]);
+    if (newMessage.trim() && !restriction) {
+      // Shown right away by the context
+      sendMessage(newMessage, replyingTo?.id ?? null);
       setNewMessage('');
+      setReplyingTo(null);
       console.log('💬 Sent chat message via widget:', newMessage);
     }
   };
 
+  /**
+   * Scroll to the message a reply answers and flash it briefly
+   */
+  const jumpToMessage = (e: React.MouseEvent, messageId: string) => {
+    // The widget is rendered twice (mobile and desktop); stay within the clicked list
+    const list = e.currentTarget.closest('[data-chat-list]');
+    list?.querySelector(`[data-message-id="${messageId}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setFlashedId(messageId);
+    window.setTimeout(() => setFlashedId(current => (current === messageId ? null : current)), 1500);
+  };
+
+  const renderMentions = (text: string, keyPrefix: string) => {
+    const nickname = apiService.getCachedUser()?.nickname?.toLowerCase();
+    return text.split(MENTION_PATTERN).map((part, index) => {
+      if (index % 2 === 0) return part;
+      const isOwnMention = part.slice(1).toLowerCase() === nickname;
+      return (
+        <span
+          key={`${keyPrefix}-${index}`}
+          className={isOwnMention ? 'font-semibold text-amber-600 dark:text-amber-400' : 'font-medium text-blue-600 dark:text-blue-400'}
+        >
+          {part}
+        </span>
+      );
+    });
+  };
+
+  /**
+   * Render message text with coordinates on the board as links that fly the camera there
+   */
+  const renderMessageText = (text: string) => {
+    const links = findCoordinateLinks(text).filter(link =>
+      board && isValidCanvasCoordinate(link.x, link.y, board.width, board.height)
+    );
+
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    links.forEach((link, index) => {
+      parts.push(...renderMentions(text.slice(position, link.index), `text-${index}`));
+      parts.push(
+        <button
+          key={`link-${index}`}
+          type="button"
+          onClick={() => navigationService.flyTo(link.x, link.y, link.zoom ?? undefined)}
+          title={`Go to ${link.x}, ${link.y}`}
+          className="font-medium text-blue-600 dark:text-blue-400 underline hover:text-blue-800 dark:hover:text-blue-300"
+        >
+          {link.text}
+        </button>
+      );
+      position = link.index + link.text.length;
+    });
+    parts.push(...renderMentions(text.slice(position), 'text-end'));
+    return parts;
+  };
+
+  /**
+   * Insert the coordinates at the center of the screen (and the zoom) into the message
+   */
+  const shareView = () => {
+    const view = navigationService.getViewCenter();
+    if (!view) return;
+
+    const link = formatCoordinateLink(view.x, view.y, view.zoom);
+    setNewMessage(current => {
+      const separator = current && !current.endsWith(' ') ? ' ' : '';
+      return `${current}${separator}${link}`.slice(0, MAX_CHAT_MESSAGE_LENGTH);
+    });
+  };
+
   const formatTime = (timestamp: number) => {
     return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
@@ -94,9 +191,39 @@ const ChatWidget: React.FC = () => {
   const widgetContent = (
     <div className="flex flex-col h-64">
       {/* Messages List */}
-      <div className="flex-1 overflow-y-auto space-y-2 mb-3">
-        {allMessages.map((msg) => (
-          <div key={msg.id} className="text-sm">
+      <div className="flex-1 overflow-y-auto space-y-2 mb-3" data-chat-list>
+        {hasOlderMessages && (
+          <button
+            type="button"
+            onClick={() => loadOlderMessages()}
+            disabled={isLoadingOlder}
+            className="w-full text-xs text-blue-500 hover:text-blue-600 disabled:text-gray-400 py-1"
+          >
+            {isLoadingOlder ? 'Loading…' : 'Load older messages'}
+          </button>
+        )}
+        {allMessages.map((msg: ChatMessage) => {
+          const parent = msg.replyTo ? messagesById.get(msg.replyTo) : undefined;
+          return (
+          <div
+            key={msg.id}
+            data-message-id={msg.id}
+            className={`
+              group text-sm rounded-md transition-colors duration-300
+              ${msg.mention ? 'bg-amber-100 dark:bg-amber-900/40 px-1 -mx-1' : ''}
+              ${flashedId === msg.id ? 'bg-blue-100 dark:bg-blue-900/40' : ''}
+            `}
+          >
+            {msg.replyTo && (
+              <button
+                type="button"
+                onClick={(e) => parent && jumpToMessage(e, parent.id)}
+                disabled={!parent}
+                className="block w-full text-left text-xs text-gray-500 dark:text-gray-400 border-l-2 border-gray-300 dark:border-gray-600 pl-2 mb-1 truncate"
+              >
+                {parent ? `↪ ${parent.nickname}: ${truncate(parent.message, 60)}` : '↪ Original message unavailable'}
+              </button>
+            )}
             <div className="flex items-baseline space-x-2">
               <span 
                 className="font-medium text-xs"
@@ -107,12 +234,35 @@ const ChatWidget: React.FC = () => {
               <span className="text-xs text-gray-500 dark:text-gray-400">
                 {formatTime(msg.timestamp)}
               </span>
+              <span className="ml-auto flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity duration-150">
+                {!restriction && (
+                  <button
+                    type="button"
+                    onClick={() => setReplyingTo(msg)}
+                    title="Reply to this message"
+                    className="text-xs text-gray-400 hover:text-blue-500"
+                  >
+                    Reply
+                  </button>
+                )}
+                {canModerate && (
+                  <button
+                    type="button"
+                    onClick={() => deleteMessage(msg.id)}
+                    title="Delete message for everyone"
+                    className="text-xs text-gray-400 hover:text-red-500"
+                  >
+                    Delete
+                  </button>
+                )}
+              </span>
             </div>
             <div className="text-gray-800 dark:text-gray-200 mt-1">
-              {msg.message}
+              {renderMessageText(msg.message)}
             </div>
           </div>
-        ))}
+          );
+        })}
         <div ref={messagesEndRef} />
         
         {allMessages.length === 0 && (
@@ -124,12 +274,48 @@ const ChatWidget: React.FC = () => {
 
       {/* Message Input */}
       <form onSubmit={handleSendMessage} className="border-t border-gray-200 dark:border-gray-600 pt-3">
+        {restriction && (
+          <div className="mb-2 text-xs text-red-600 dark:text-red-400">
+            You cannot chat {restriction.expiresAt ? `until ${new Date(restriction.expiresAt).toLocaleString()}` : 'anymore'}: {restriction.reason}
+          </div>
+        )}
+        {!restriction && chatError && (
+          <div className="mb-2 text-xs text-red-600 dark:text-red-400">
+            {chatError}
+          </div>
+        )}
+        {!restriction && settings && settings.slowModeMs > 0 && (
+          <div className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+            Slow mode: one message every {Math.ceil(settings.slowModeMs / 1000)}s{canModerate ? ' (moderators are exempt)' : ''}
+          </div>
+        )}
+        {replyingTo && !restriction && (
+          <div className="mb-2 flex items-center text-xs text-gray-500 dark:text-gray-400">
+            <span className="flex-1 truncate">
+              Replying to <span className="font-medium">{replyingTo.nickname}</span>: {truncate(replyingTo.message, 60)}
+            </span>
+            <button
+              type="button"
+              onClick={() => setReplyingTo(null)}
+              title="Cancel reply"
+              className="ml-2 hover:text-gray-700 dark:hover:text-gray-200"
+            >
+              ✕
+            </button>
+          </div>
+        )}
         <div className="flex space-x-2">
           <input
             type="text"
             value={newMessage}
             onChange={(e) => setNewMessage(e.target.value)}
-            placeholder="Type a message..."
+            onFocus={() => notificationService.requestPermission()}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setReplyingTo(null);
+            }}
+            placeholder={restriction ? 'Chat is disabled' : 'Type a message...'}
+            disabled={!!restriction}
+            maxLength={MAX_CHAT_MESSAGE_LENGTH}
             className="
               flex-1 px-3 py-2 text-sm
               bg-gray-100 dark:bg-gray-700
@@ -141,9 +327,25 @@ const ChatWidget: React.FC = () => {
               transition-colors duration-150
             "
           />
+          <button
+            type="button"
+            onClick={shareView}
+            disabled={!!restriction}
+            title="Share my view"
+            className="
+              px-2 py-2 text-sm
+              bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600
+              disabled:opacity-50 disabled:cursor-not-allowed
+              border border-gray-300 dark:border-gray-600
+              rounded-md
+              transition-colors duration-150
+            "
+          >
+            📍
+          </button>
           <button
             type="submit"
-            disabled={!newMessage.trim()}
+            disabled={!newMessage.trim() || !!restriction}
             className="
               px-3 py-2 text-sm font-medium
               bg-blue-500 hover:bg-blue-600
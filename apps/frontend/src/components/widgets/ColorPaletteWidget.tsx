@@ -2,12 +2,15 @@ import React, { useState } from 'react';
 import BaseWidget from './BaseWidget';
 import MobileWidget from './MobileWidget';
 import { useColorContext } from '@contexts/ColorContext';
+import { useBoardContext } from '@contexts/BoardContext';
+import { isColorInPalette } from '@libs/utils';
 
 const ColorPaletteWidget: React.FC = () => {
   const { selectedColor, recentColors, setSelectedColor } = useColorContext();
+  const { board } = useBoardContext();
   
-  // Predefined color palette
-  const colorPalette = [
+  // Predefined color palette, used when the board allows any color
+  const quickColors = [
     '#FF0000', '#FF8000', '#FFFF00', '#80FF00', '#00FF00', '#00FF80',
     '#00FFFF', '#0080FF', '#0000FF', '#8000FF', '#FF00FF', '#FF0080',
     '#800000', '#804000', '#808000', '#408000', '#008000', '#008040',
@@ -17,6 +20,13 @@ const ColorPaletteWidget: React.FC = () => {
     '#FFFFFF', '#C0C0C0', '#808080', '#404040', '#000000', '#200020'
   ];
 
+  // A board palette is locked: only its colors can be placed
+  const isPaletteLocked = (board?.palette.length ?? 0) > 0;
+  const colorPalette: string[] = isPaletteLocked ? board!.palette : quickColors;
+  const paletteRecentColors = isPaletteLocked
+    ? recentColors.filter((color: string) => isColorInPalette(color, colorPalette))
+    : recentColors;
+
   const [customColor, setCustomColor] = useState(selectedColor);
   const [showCustomPicker, setShowCustomPicker] = useState(false);
 
@@ -63,7 +73,7 @@ const ColorPaletteWidget: React.FC = () => {
       {/* Color Palette Grid */}
       <div>
         <h4 className="text-xs font-medium text-gray-700 dark:text-gray-300 uppercase tracking-wide mb-3">
-          Quick Colors
+          {isPaletteLocked ? 'Board Palette' : 'Quick Colors'}
         </h4>
         <div className="grid grid-cols-6 gap-1.5">
           {colorPalette.map((color, index) => (
@@ -87,63 +97,65 @@ const ColorPaletteWidget: React.FC = () => {
       </div>
 
       {/* Custom Color Picker */}
-      <div>
-        <div className="flex items-center justify-between mb-2">
-          <h4 className="text-xs font-medium text-gray-700 dark:text-gray-300 uppercase tracking-wide">
-            Custom Color
-          </h4>
-          <button
-            onClick={toggleCustomPicker}
-            className="text-xs text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300"
-          >
-            {showCustomPicker ? 'Hide' : 'Show'}
-          </button>
-        </div>
-        
-        {showCustomPicker && (
-          <div className="space-y-3">
-            <div className="flex items-center space-x-3">
-              <input
-                type="color"
-                value={customColor}
-                onChange={handleCustomColorChange}
-                className="w-12 h-8 rounded border border-gray-300 dark:border-gray-600 cursor-pointer"
-              />
-              <input
-                type="text"
-                value={customColor}
-                onChange={(e) => {
-                  const value = e.target.value;
-                  if (/^#[0-9A-Fa-f]{0,6}$/.test(value)) {
-                    setCustomColor(value);
-                    if (value.length === 7) {
-                      setSelectedColor(value);
+      {!isPaletteLocked && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-xs font-medium text-gray-700 dark:text-gray-300 uppercase tracking-wide">
+              Custom Color
+            </h4>
+            <button
+              onClick={toggleCustomPicker}
+              className="text-xs text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              {showCustomPicker ? 'Hide' : 'Show'}
+            </button>
+          </div>
+          
+          {showCustomPicker && (
+            <div className="space-y-3">
+              <div className="flex items-center space-x-3">
+                <input
+                  type="color"
+                  value={customColor}
+                  onChange={handleCustomColorChange}
+                  className="w-12 h-8 rounded border border-gray-300 dark:border-gray-600 cursor-pointer"
+                />
+                <input
+                  type="text"
+                  value={customColor}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    if (/^#[0-9A-Fa-f]{0,6}$/.test(value)) {
+                      setCustomColor(value);
+                      if (value.length === 7) {
+                        setSelectedColor(value);
+                      }
                     }
-                  }
-                }}
-                placeholder="#FF0000"
-                className="
-                  flex-1 px-2 py-1 text-sm font-mono
-                  bg-white dark:bg-gray-700
-                  border border-gray-300 dark:border-gray-600
-                  rounded
-                  text-gray-900 dark:text-gray-100
-                  focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent
-                "
-              />
+                  }}
+                  placeholder="#FF0000"
+                  className="
+                    flex-1 px-2 py-1 text-sm font-mono
+                    bg-white dark:bg-gray-700
+                    border border-gray-300 dark:border-gray-600
+                    rounded
+                    text-gray-900 dark:text-gray-100
+                    focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent
+                  "
+                />
+              </div>
             </div>
-          </div>
-        )}
-      </div>
+          )}
+        </div>
+      )}
 
       {/* Recent Colors */}
       <div>
         <h4 className="text-xs font-medium text-gray-700 dark:text-gray-300 uppercase tracking-wide mb-2">
           Recent
         </h4>
-        {recentColors.length > 0 ? (
+        {paletteRecentColors.length > 0 ? (
           <div className="grid grid-cols-8 gap-1.5">
-            {recentColors.map((color, index) => (
+            {paletteRecentColors.map((color, index) => (
               <button
                 key={index}
                 onClick={() => handleColorSelect(color)}
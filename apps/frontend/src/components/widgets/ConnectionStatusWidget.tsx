@@ -11,6 +11,7 @@ const ConnectionStatusWidget: React.FC = () => {
   const [lastConnected, setLastConnected] = React.useState<Date | null>(null);
   const [lastPingTime, setLastPingTime] = React.useState<number>(0);
   const [pingTimeoutWarning, setPingTimeoutWarning] = React.useState(false);
+  const [queuedPixels, setQueuedPixels] = React.useState(0);
 
   // Poll WebSocket status periodically instead of setting up competing handlers
   React.useEffect(() => {
@@ -38,8 +39,9 @@ const ConnectionStatusWidget: React.FC = () => {
         }
       }
       
-      // Update ping time
+      // Update ping time and placements waiting for the connection
       setLastPingTime(stats.lastPingTime);
+      setQueuedPixels(stats.queuedPixels);
     };
 
     // Initial update
@@ -228,6 +230,15 @@ const ConnectionStatusWidget: React.FC = () => {
           </div>
         )}
 
+        {queuedPixels > 0 && (
+          <div className="flex justify-between">
+            <span className="text-gray-600 dark:text-gray-400">Queued pixels:</span>
+            <span className="text-orange-600 dark:text-orange-400" title="Placed while offline - sent once the connection is back">
+              {queuedPixels}
+            </span>
+          </div>
+        )}
+
         <div className="flex justify-between">
           <span className="text-gray-600 dark:text-gray-400">Server:</span>
           <span className="text-gray-900 dark:text-gray-100 text-xs font-mono">
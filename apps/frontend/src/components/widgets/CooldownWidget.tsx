@@ -0,0 +1,104 @@
+import React from 'react';
+import BaseWidget from './BaseWidget';
+import MobileWidget from './MobileWidget';
+import { webSocketService, CooldownState } from '@services/websocket';
+
+const CooldownWidget: React.FC = () => {
+  const [cooldown, setCooldown] = React.useState<CooldownState | null>(
+    webSocketService.getCooldownState()
+  );
+
+  // Poll the projected budget so the countdown keeps ticking between server updates
+  React.useEffect(() => {
+    const updateCooldown = () => {
+      setCooldown(webSocketService.getCooldownState());
+    };
+
+    updateCooldown();
+    const interval = setInterval(updateCooldown, 100);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+  const isBlocked = cooldown !== null && cooldown.cooldownMs > 0;
+  const progress = isBlocked
+    ? Math.max(0, Math.min(1, 1 - cooldown.cooldownMs / cooldown.refillIntervalMs))
+    : 1;
+
+  const cooldownIcon = (
+    <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+      <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z" clipRule="evenodd" />
+    </svg>
+  );
+
+  const widgetContent = cooldown === null ? (
+    <div className="text-sm text-gray-600 dark:text-gray-400">
+      Waiting for the server to announce your pixel budget...
+    </div>
+  ) : (
+    <div className="space-y-3">
+      {/* Status */}
+      <div className="flex items-center justify-between">
+        <span className={`text-sm font-medium ${
+          isBlocked ? 'text-orange-600 dark:text-orange-400' : 'text-green-600 dark:text-green-400'
+        }`}>
+          {isBlocked ? 'Cooling down' : 'Ready to draw'}
+        </span>
+        {isBlocked && (
+          <span className="text-sm font-mono text-gray-900 dark:text-gray-100">
+            {formatSeconds(cooldown.cooldownMs)}
+          </span>
+        )}
+      </div>
+
+      {/* Progress towards the next pixel */}
+      <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-all duration-100 ${isBlocked ? 'bg-orange-500' : 'bg-green-500'}`}
+          style={{ width: `${progress * 100}%` }}
+        />
+      </div>
+
+      {/* Budget details */}
+      <div className="space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span className="text-gray-600 dark:text-gray-400">Pixels available:</span>
+          <span className="text-gray-900 dark:text-gray-100">
+            {cooldown.remaining} / {cooldown.capacity}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600 dark:text-gray-400">Refill rate:</span>
+          <span className="text-gray-900 dark:text-gray-100">
+            1 pixel / {formatSeconds(cooldown.refillIntervalMs)}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <>
+      <MobileWidget
+        title="Cooldown"
+        panelId="cooldown"
+        icon={cooldownIcon}
+        position="top-left"
+      >
+        {widgetContent}
+      </MobileWidget>
+      <BaseWidget
+        title="Cooldown"
+        position="top-left"
+        defaultCollapsed={false}
+        className="mt-16"
+      >
+        {widgetContent}
+      </BaseWidget>
+    </>
+  );
+};
+
+export default CooldownWidget;
@@ -27,8 +27,10 @@ const MobileWidget: React.FC<MobileWidgetProps> = ({
     const iconPositions = {
       'connection': 'top-4 left-4',
       'volume': 'top-4 left-16', // 60px from left (16 * 4px)
+      'cooldown': 'top-4 left-28', // Next to volume
       'users': 'top-4 right-4',
       'chat': 'bottom-4 left-4',
+      'replay': 'bottom-4 left-16', // Next to chat
       'colors': 'bottom-4 right-4',
       'info': 'bottom-4 right-16' // 60px from right (16 * 4px), to the left of colors
     };
@@ -43,6 +45,9 @@ const MobileWidget: React.FC<MobileWidgetProps> = ({
     if (panelId === 'colors') {
       return 'bottom-16 right-4'; // Show above the colors button
     }
+    if (panelId === 'replay') {
+      return 'bottom-16 left-16'; // Show above the replay button
+    }
     if (panelId === 'info') {
       return 'bottom-16 right-16'; // Show above the info button
     }
@@ -0,0 +1,127 @@
+import React from 'react';
+import BaseWidget from './BaseWidget';
+import MobileWidget from './MobileWidget';
+import { replayService, ReplayState, REPLAY_SPEEDS } from '@services/replay';
+
+const ReplayWidget: React.FC = () => {
+  const [replay, setReplay] = React.useState<ReplayState>(replayService.getState());
+
+  // Poll playback progress; the replay service drives itself from animation frames
+  React.useEffect(() => {
+    const updateReplay = () => {
+      setReplay(replayService.getState());
+    };
+
+    updateReplay();
+    const interval = setInterval(updateReplay, 100);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const formatTimestamp = (timestamp: number | null) => {
+    return timestamp === null ? 'Empty canvas' : new Date(timestamp).toLocaleString();
+  };
+
+  const formatSpeed = (speed: number) => {
+    return speed >= 1000 ? `${speed / 1000}k px/s` : `${speed} px/s`;
+  };
+
+  const replayIcon = (
+    <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+      <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+    </svg>
+  );
+
+  const widgetContent = !replay.active ? (
+    <div className="space-y-3">
+      <div className="text-sm text-gray-600 dark:text-gray-400">
+        Watch the canvas being drawn from the very first pixel. Drawing is paused while the replay is open.
+      </div>
+      <button
+        onClick={() => replayService.enter()}
+        className="w-full px-3 py-2 text-sm font-medium text-white bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors"
+      >
+        Start replay
+      </button>
+    </div>
+  ) : (
+    <div className="space-y-3">
+      {/* Current point in time */}
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-900 dark:text-gray-100 font-mono">
+          {formatTimestamp(replay.currentTimestamp)}
+        </span>
+        {replay.loading && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            Loading {replay.loadedCount.toLocaleString()} / {replay.totalCount.toLocaleString()}
+          </span>
+        )}
+      </div>
+
+      {/* Scrubber */}
+      <input
+        type="range"
+        min={0}
+        max={replay.loadedCount}
+        value={replay.position}
+        onChange={(e) => replayService.seek(parseInt(e.target.value, 10))}
+        className="w-full"
+        aria-label="Replay position"
+      />
+      <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+        <span>{replay.position.toLocaleString()} placements</span>
+        <span>{replay.totalCount.toLocaleString()} total</span>
+      </div>
+
+      {/* Playback controls */}
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => (replay.playing ? replayService.pause() : replayService.play())}
+          className="flex-1 px-3 py-2 text-sm font-medium text-white bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors"
+        >
+          {replay.playing ? 'Pause' : 'Play'}
+        </button>
+        <select
+          value={replay.speed}
+          onChange={(e) => replayService.setSpeed(parseInt(e.target.value, 10))}
+          className="px-2 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          aria-label="Replay speed"
+        >
+          {REPLAY_SPEEDS.map(speed => (
+            <option key={speed} value={speed}>{formatSpeed(speed)}</option>
+          ))}
+        </select>
+      </div>
+
+      <button
+        onClick={() => replayService.exit()}
+        className="w-full px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition-colors"
+      >
+        Back to live canvas
+      </button>
+    </div>
+  );
+
+  return (
+    <>
+      <MobileWidget
+        title="Replay"
+        panelId="replay"
+        icon={replayIcon}
+        position="bottom-left"
+      >
+        {widgetContent}
+      </MobileWidget>
+      <BaseWidget
+        title="Replay"
+        position="bottom-left"
+        defaultCollapsed={true}
+        className="ml-96" // Position it to the right of the chat widget
+      >
+        {widgetContent}
+      </BaseWidget>
+    </>
+  );
+};
+
+export default ReplayWidget;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { useToolContext } from '@contexts/ToolContext';
+import { DrawingTool } from '@canvas/interaction/drawingTools';
+
+interface ToolOption {
+  tool: DrawingTool;
+  label: string;
+  icon: React.ReactNode;
+}
+
+const iconProps = {
+  className: 'w-5 h-5',
+  fill: 'none',
+  stroke: 'currentColor',
+  strokeWidth: 2,
+  strokeLinecap: 'round' as const,
+  strokeLinejoin: 'round' as const,
+  viewBox: '0 0 20 20',
+};
+
+const TOOLS: ToolOption[] = [
+  {
+    tool: 'freehand',
+    label: 'Freehand - click or drag to paint',
+    icon: <svg {...iconProps}><path d="M13.5 3.5l3 3L7 16H4v-3l9.5-9.5z" /></svg>,
+  },
+  {
+    tool: 'line',
+    label: 'Line - drag from start to end',
+    icon: <svg {...iconProps}><path d="M4 16L16 4" /></svg>,
+  },
+  {
+    tool: 'rectangle',
+    label: 'Rectangle - drag from corner to corner',
+    icon: <svg {...iconProps}><rect x="4" y="5" width="12" height="10" /></svg>,
+  },
+  {
+    tool: 'filledRectangle',
+    label: 'Filled rectangle - drag from corner to corner',
+    icon: <svg {...iconProps}><rect x="4" y="5" width="12" height="10" fill="currentColor" /></svg>,
+  },
+  {
+    tool: 'fill',
+    label: 'Fill - paint a connected area of one color',
+    icon: <svg {...iconProps}><path d="M4 9l6-6 6 6-6 6-6-6z" /><path d="M16.5 13s1.5 1.8 1.5 2.8a1.5 1.5 0 01-3 0c0-1 1.5-2.8 1.5-2.8z" fill="currentColor" /></svg>,
+  },
+  {
+    tool: 'eyedropper',
+    label: 'Eyedropper - pick a color from the canvas',
+    icon: <svg {...iconProps}><path d="M12.5 3.5l4 4-1.5 1.5-4-4 1.5-1.5z" /><path d="M12 7L5 14v2h2l7-7" /></svg>,
+  },
+];
+
+const undoIcon = <svg {...iconProps}><path d="M7 5L3 9l4 4" /><path d="M3 9h9a5 5 0 010 10h-2" /></svg>;
+const redoIcon = <svg {...iconProps}><path d="M13 5l4 4-4 4" /><path d="M17 9H8a5 5 0 000 10h2" /></svg>;
+
+const historyButtonClass = `
+  p-2 rounded-md transition-colors duration-150
+  focus:outline-none focus:ring-2 focus:ring-blue-500
+  text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700
+  disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent
+`;
+
+const ToolbarWidget: React.FC = () => {
+  const { selectedTool, setSelectedTool, canUndo, canRedo, undo, redo } = useToolContext();
+
+  return (
+    <div
+      className="
+        absolute z-10 left-4 top-1/2 -translate-y-1/2
+        flex flex-col space-y-1 p-1
+        bg-white dark:bg-gray-800
+        border border-gray-200 dark:border-gray-700
+        rounded-lg shadow-lg
+      "
+    >
+      {TOOLS.map(({ tool, label, icon }) => (
+        <button
+          key={tool}
+          onClick={() => setSelectedTool(tool)}
+          title={label}
+          aria-pressed={selectedTool === tool}
+          className={`
+            p-2 rounded-md transition-colors duration-150
+            focus:outline-none focus:ring-2 focus:ring-blue-500
+            ${selectedTool === tool
+              ? 'bg-blue-500 text-white'
+              : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }
+          `}
+        >
+          {icon}
+        </button>
+      ))}
+
+      <div className="border-t border-gray-200 dark:border-gray-700 my-1" />
+
+      <button onClick={undo} disabled={!canUndo} title="Undo your last placement (Ctrl+Z)" className={historyButtonClass}>
+        {undoIcon}
+      </button>
+      <button onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className={historyButtonClass}>
+        {redoIcon}
+      </button>
+    </div>
+  );
+};
+
+export default ToolbarWidget;
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { DEFAULT_BOARD_ID } from '@libs/utils';
+
 const getEnvVar = (key: string) => {
   const rv = (window as any).runtimeConfig?.[key] || import.meta.env[key];
 
@@ -33,4 +35,12 @@ export const config = {
   debug: {
     showPanels: getBooleanEnvVar('VITE_DEBUG_PANELS'),
   },
+  tools: {
+    // Largest line, rectangle or fill a drawing tool may place at once
+    maxPixels: parseInt(getEnvVar('VITE_MAX_TOOL_PIXELS') || '1000', 10),
+  },
+  board: {
+    // Chosen with ?board= in the page URL
+    id: new URLSearchParams(window.location.search).get('board') || DEFAULT_BOARD_ID,
+  },
 };
\ No newline at end of file
@@ -0,0 +1,61 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { BoardInfo } from '@libs/common-types';
+import { apiService } from '@services/api';
+
+interface BoardContextType {
+  board: BoardInfo | null; // null until loaded
+  error: string | null;
+}
+
+const BoardContext = createContext<BoardContextType | undefined>(undefined);
+
+export const useBoardContext = () => {
+  const context = useContext(BoardContext);
+  if (context === undefined) {
+    throw new Error('useBoardContext must be used within a BoardProvider');
+  }
+  return context;
+};
+
+interface BoardProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Loads the board chosen in the page URL (?board=); the main board by default
+ */
+export const BoardProvider: React.FC<BoardProviderProps> = ({ children }) => {
+  const [board, setBoard] = useState<BoardInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiService.getBoard()
+      .then((loadedBoard) => {
+        if (!cancelled) {
+          setBoard(loadedBoard);
+        }
+      })
+      .catch((loadError) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : 'Failed to load board');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const value: BoardContextType = {
+    board,
+    error,
+  };
+
+  return (
+    <BoardContext.Provider value={value}>
+      {children}
+    </BoardContext.Provider>
+  );
+};
\ No newline at end of file
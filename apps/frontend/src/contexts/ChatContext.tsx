@@ -1,11 +1,35 @@
-import React, { createContext, useContext, useState, useCallback } from 'react';
-import { ChatMessageData } from '@libs/common-types';
+import React, { createContext, useContext, useState, useCallback, useRef } from 'react';
+import {
+  ChatMessageData,
+  ChatHistoryPayload,
+  ChatSettingsPayload,
+  ErrorPayload,
+  SanctionPayload,
+} from '@libs/common-types';
+import { normalizeChatMessage, maskBlockedWords, parseMentions, isMentioned } from '@libs/utils';
 import { webRTCService } from '@services/webrtc';
+import { webSocketService } from '@services/websocket';
+import { apiService } from '@services/api';
 
 interface ChatContextType {
-  messages: ChatMessageData[];
-  sendMessage: (message: string) => void;
+  messages: ChatMessageData[]; // Oldest first, one entry per message ID
+  sendMessage: (message: string, replyTo?: string | null) => void;
   addMessage: (message: ChatMessageData) => void;
+  addPeerMessage: (message: ChatMessageData) => void; // WebRTC mirror; dropped unless the server confirms it
+  removeMessage: (messageId: string) => void;
+  deleteMessage: (messageId: string) => Promise<void>;
+  rejectMessage: (error: ErrorPayload) => void;
+  setHistory: (history: ChatHistoryPayload) => void;
+  getMention: (message: ChatMessageData) => 'mention' | 'reply' | null; // How a message addresses the local user
+  loadOlderMessages: () => Promise<void>;
+  hasOlderMessages: boolean;
+  isLoadingOlder: boolean;
+  settings: ChatSettingsPayload | null;
+  setSettings: (settings: ChatSettingsPayload) => void;
+  canModerate: boolean; // Moderators may delete messages and are exempt from slow mode
+  chatError: string | null; // Why the last message was not sent
+  restriction: SanctionPayload | null; // Ban or mute that keeps the user from chatting
+  setRestriction: (restriction: SanctionPayload | null) => void;
 }
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
@@ -18,26 +42,212 @@ export const useChatContext = () => {
   return context;
 };
 
+/**
+ * Message IDs are shared by the WebRTC mirror and the stored copy of a message
+ */
+const createMessageId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+};
+
+/**
+ * Merge messages by ID; later copies (e.g. the stored one after the WebRTC mirror) win
+ */
+const mergeMessages = (current: ChatMessageData[], incoming: ChatMessageData[]): ChatMessageData[] => {
+  const byId = new Map(current.map(message => [message.id, message]));
+  incoming.forEach(message => byId.set(message.id, message));
+  return Array.from(byId.values()).sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// A peer's mirror disappears again when the server's copy does not follow within this time
+// (the server refused it: rate limit, slow mode, mute)
+const PEER_MESSAGE_CONFIRM_TIMEOUT_MS = 5000;
+
 interface ChatProviderProps {
   children: React.ReactNode;
 }
 
 export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
   const [messages, setMessages] = useState<ChatMessageData[]>([]);
+  const [restriction, setRestriction] = useState<SanctionPayload | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [settings, setSettingsState] = useState<ChatSettingsPayload | null>(null);
+  const [chatError, setChatError] = useState<string | null>(null);
+  // History is resent on every reconnect; only the first one decides where paging starts
+  const hasHistoryRef = useRef(false);
+  // Deleted messages stay deleted, even when a WebRTC mirror of them arrives late
+  const deletedIdsRef = useRef<Set<string>>(new Set());
+  // Messages the server has stored (or the local user has sent)
+  const confirmedIdsRef = useRef<Set<string>>(new Set());
+  const blockedWordsRef = useRef<string[]>([]);
+  const lastSentAtRef = useRef(0);
+  const messagesRef = useRef<ChatMessageData[]>([]);
+  messagesRef.current = messages;
+  const canModerate = apiService.getCachedRole() !== 'user';
+
+  // Messages received over WebRTC have not been through the server's word filter
+  const mergeVisible = useCallback((incoming: ChatMessageData[], confirmed = true) => {
+    if (confirmed) {
+      incoming.forEach(message => confirmedIdsRef.current.add(message.id));
+    }
+    const visible = incoming
+      .filter(message => !deletedIdsRef.current.has(message.id))
+      .map(message => {
+        const text = maskBlockedWords(message.message, blockedWordsRef.current);
+        return { ...message, message: text, replyTo: message.replyTo ?? null, mentions: message.mentions ?? parseMentions(text) };
+      });
+    setMessages(prev => mergeMessages(prev, visible));
+  }, []);
 
   const addMessage = useCallback((message: ChatMessageData) => {
-    setMessages(prev => [...prev, message]);
+    if (!message?.id) {
+      console.warn('⚠️ Ignoring chat message without an ID');
+      return;
+    }
+    mergeVisible([message]);
+  }, [mergeVisible]);
+
+  /**
+   * Show a message mirrored by a peer until the server's copy replaces it.
+   * Without that copy the server refused the message, so it is taken back.
+   */
+  const addPeerMessage = useCallback((message: ChatMessageData) => {
+    if (!message?.id || confirmedIdsRef.current.has(message.id)) return;
+
+    mergeVisible([message], false);
+    window.setTimeout(() => {
+      if (confirmedIdsRef.current.has(message.id)) return;
+      console.warn(`⚠️ Dropping chat message ${message.id} the server never confirmed`);
+      setMessages(prev => prev.filter(candidate => candidate.id !== message.id));
+    }, PEER_MESSAGE_CONFIRM_TIMEOUT_MS);
+  }, [mergeVisible]);
+
+  const removeMessage = useCallback((messageId: string) => {
+    deletedIdsRef.current.add(messageId);
+    setMessages(prev => prev.filter(message => message.id !== messageId));
+  }, []);
+
+  const deleteMessage = useCallback(async (messageId: string) => {
+    try {
+      await apiService.deleteChatMessage(messageId);
+      removeMessage(messageId);
+    } catch (error) {
+      setChatError('Failed to delete the message');
+    }
+  }, [removeMessage]);
+
+  /**
+   * Take back a message the server refused (it was shown right away)
+   */
+  const rejectMessage = useCallback((error: ErrorPayload) => {
+    if (error.chatMessageId) {
+      setMessages(prev => prev.filter(message => message.id !== error.chatMessageId));
+    }
+    setChatError(error.message);
+  }, []);
+
+  const getMention = useCallback((message: ChatMessageData): 'mention' | 'reply' | null => {
+    const user = apiService.getCachedUser();
+    if (!user || message.userId === user.userId) return null;
+
+    if (message.replyTo) {
+      const parent = messagesRef.current.find(candidate => candidate.id === message.replyTo);
+      if (parent?.userId === user.userId) return 'reply';
+    }
+    return isMentioned(message.mentions ?? [], user.nickname) ? 'mention' : null;
   }, []);
 
-  const sendMessage = useCallback((messageText: string) => {
-    webRTCService.sendChatMessage(messageText);
-    console.log('💬 Sent chat message via context:', messageText);
+  const setSettings = useCallback((newSettings: ChatSettingsPayload) => {
+    blockedWordsRef.current = newSettings.blockedWords;
+    setSettingsState(newSettings);
   }, []);
 
+  const setHistory = useCallback((history: ChatHistoryPayload) => {
+    mergeVisible(history.messages);
+    if (!hasHistoryRef.current) {
+      hasHistoryRef.current = true;
+      setNextCursor(history.nextCursor);
+    }
+  }, [mergeVisible]);
+
+  const loadOlderMessages = useCallback(async () => {
+    if (!nextCursor || isLoadingOlder) return;
+
+    setIsLoadingOlder(true);
+    try {
+      const page = await apiService.getChatHistory(nextCursor);
+      mergeVisible(page.messages);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('❌ Failed to load older chat messages:', error);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [nextCursor, isLoadingOlder, mergeVisible]);
+
+  const sendMessage = useCallback((messageText: string, replyTo: string | null = null) => {
+    if (restriction) {
+      console.warn('🔇 Not sending chat message while muted or banned');
+      return;
+    }
+
+    const user = apiService.getCachedUser();
+    const normalized = normalizeChatMessage(messageText);
+    if (!user || normalized === null) return;
+
+    // Checked here too, so peers do not get a mirror of a message the server refuses
+    const slowModeMs = settings?.slowModeMs ?? 0;
+    const waitMs = lastSentAtRef.current + slowModeMs - Date.now();
+    if (slowModeMs > 0 && !canModerate && waitMs > 0) {
+      setChatError(`Slow mode is on: wait ${Math.ceil(waitMs / 1000)}s before sending another message`);
+      return;
+    }
+
+    const text = maskBlockedWords(normalized, blockedWordsRef.current);
+    lastSentAtRef.current = Date.now();
+    setChatError(null);
+
+    // Shown right away; the stored copy from the server replaces it
+    const id = createMessageId();
+    addMessage({
+      id,
+      userId: user.userId,
+      nickname: user.nickname,
+      message: text,
+      timestamp: Date.now(),
+      color: user.color,
+      replyTo,
+      mentions: parseMentions(text),
+    });
+
+    // The server stores and relays the message; peers get it sooner over WebRTC
+    webSocketService.sendChatMessage(id, text, replyTo);
+    webRTCService.sendChatMessage(id, text, replyTo);
+    console.log('💬 Sent chat message via context:', text);
+  }, [restriction, settings, canModerate, addMessage]);
+
   const value: ChatContextType = {
     messages,
     sendMessage,
     addMessage,
+    addPeerMessage,
+    removeMessage,
+    deleteMessage,
+    rejectMessage,
+    setHistory,
+    getMention,
+    loadOlderMessages,
+    hasOlderMessages: nextCursor !== null,
+    isLoadingOlder,
+    settings,
+    setSettings,
+    canModerate,
+    chatError,
+    restriction,
+    setRestriction,
   };
 
   return (
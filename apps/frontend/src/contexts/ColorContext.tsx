@@ -1,4 +1,6 @@
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
+import { isColorInPalette } from '@libs/utils';
+import { useBoardContext } from './BoardContext';
 
 interface ColorContextType {
   selectedColor: string;
@@ -9,6 +11,9 @@ interface ColorContextType {
 
 const ColorContext = createContext<ColorContextType | undefined>(undefined);
 
+// Stable fallback while the board loads, so palette-dependent hooks don't rerun
+const ANY_COLOR: string[] = [];
+
 export const useColorContext = () => {
   const context = useContext(ColorContext);
   if (context === undefined) {
@@ -22,9 +27,18 @@ interface ColorProviderProps {
 }
 
 export const ColorProvider: React.FC<ColorProviderProps> = ({ children }) => {
+  const { board } = useBoardContext();
+  const palette = board?.palette ?? ANY_COLOR;
   const [selectedColor, setSelectedColorState] = useState('#FF0000');
   const [recentColors, setRecentColors] = useState<string[]>([]);
 
+  // A locked palette only allows its own colors
+  useEffect(() => {
+    if (palette.length > 0 && !isColorInPalette(selectedColor, palette)) {
+      setSelectedColorState(palette[0]);
+    }
+  }, [palette, selectedColor]);
+
   // Load recent colors from localStorage on mount
   useEffect(() => {
     const stored = localStorage.getItem('pix-canvas-recent-colors');
@@ -46,9 +60,13 @@ export const ColorProvider: React.FC<ColorProviderProps> = ({ children }) => {
   }, [recentColors]);
 
   const setSelectedColor = useCallback((color: string) => {
+    if (!isColorInPalette(color, palette)) {
+      console.warn(`⚠️ Color ${color} is not in the board palette`);
+      return;
+    }
     setSelectedColorState(color);
     addToRecentColors(color);
-  }, []);
+  }, [palette]);
 
   const addToRecentColors = useCallback((color: string) => {
     setRecentColors(prev => {
@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 
-export type MobilePanel = 'connection' | 'users' | 'chat' | 'colors' | 'volume' | 'info' | null;
+export type MobilePanel = 'connection' | 'users' | 'chat' | 'colors' | 'volume' | 'info' | 'cooldown' | 'replay' | null;
 
 interface MobilePanelContextType {
   activePanel: MobilePanel;
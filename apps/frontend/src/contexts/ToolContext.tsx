@@ -0,0 +1,82 @@
+import React, { createContext, useContext, useState, useCallback, useRef } from 'react';
+import { DrawingTool } from '@canvas/interaction/drawingTools';
+
+interface HistoryHandlers {
+  undo: () => void;
+  redo: () => void;
+}
+
+interface ToolContextType {
+  selectedTool: DrawingTool;
+  setSelectedTool: (tool: DrawingTool) => void;
+  restorePreviousTool: () => void; // Back to the last drawing tool (e.g. after picking a color)
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  setHistoryAvailability: (canUndo: boolean, canRedo: boolean) => void;
+  setHistoryHandlers: (handlers: HistoryHandlers | null) => void; // Registered by the canvas
+}
+
+const ToolContext = createContext<ToolContextType | undefined>(undefined);
+
+export const useToolContext = () => {
+  const context = useContext(ToolContext);
+  if (context === undefined) {
+    throw new Error('useToolContext must be used within a ToolProvider');
+  }
+  return context;
+};
+
+interface ToolProviderProps {
+  children: React.ReactNode;
+}
+
+export const ToolProvider: React.FC<ToolProviderProps> = ({ children }) => {
+  const [selectedTool, setSelectedToolState] = useState<DrawingTool>('freehand');
+  const previousToolRef = useRef<DrawingTool>('freehand');
+  const [history, setHistory] = useState({ canUndo: false, canRedo: false });
+  const historyHandlersRef = useRef<HistoryHandlers | null>(null);
+
+  const setSelectedTool = useCallback((tool: DrawingTool) => {
+    setSelectedToolState(current => {
+      if (current !== 'eyedropper') {
+        previousToolRef.current = current;
+      }
+      return tool;
+    });
+  }, []);
+
+  const restorePreviousTool = useCallback(() => {
+    setSelectedToolState(previousToolRef.current);
+  }, []);
+
+  const setHistoryAvailability = useCallback((canUndo: boolean, canRedo: boolean) => {
+    setHistory({ canUndo, canRedo });
+  }, []);
+
+  const setHistoryHandlers = useCallback((handlers: HistoryHandlers | null) => {
+    historyHandlersRef.current = handlers;
+  }, []);
+
+  const undo = useCallback(() => historyHandlersRef.current?.undo(), []);
+  const redo = useCallback(() => historyHandlersRef.current?.redo(), []);
+
+  const value: ToolContextType = {
+    selectedTool,
+    setSelectedTool,
+    restorePreviousTool,
+    canUndo: history.canUndo,
+    canRedo: history.canRedo,
+    undo,
+    redo,
+    setHistoryAvailability,
+    setHistoryHandlers,
+  };
+
+  return (
+    <ToolContext.Provider value={value}>
+      {children}
+    </ToolContext.Provider>
+  );
+};
\ No newline at end of file
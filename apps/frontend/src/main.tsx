@@ -5,6 +5,8 @@ import { ThemeProvider } from './contexts/ThemeContext';
 import { ChatProvider } from './contexts/ChatContext';
 import { UserProvider } from './contexts/UserContext';
 import { ColorProvider } from './contexts/ColorContext';
+import { ToolProvider } from './contexts/ToolContext';
+import { BoardProvider } from './contexts/BoardContext';
 import { initializeSentry } from './config/sentry';
 import './index.css';
 
@@ -20,13 +22,17 @@ if (loadingElement) {
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <ThemeProvider>
-      <ColorProvider>
-        <UserProvider>
-          <ChatProvider>
-            <App />
-          </ChatProvider>
-        </UserProvider>
-      </ColorProvider>
+      <BoardProvider>
+        <ColorProvider>
+          <ToolProvider>
+            <UserProvider>
+              <ChatProvider>
+                <App />
+              </ChatProvider>
+            </UserProvider>
+          </ToolProvider>
+        </ColorProvider>
+      </BoardProvider>
     </ThemeProvider>
   </React.StrictMode>,
 );
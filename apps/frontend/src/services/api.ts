@@ -4,12 +4,21 @@ import {
   GetCurrentUserResponse,
   ApiError,
   PixelData,
+  BoardInfo,
+  GetBoardResponse,
+  ProtectedRegionInfo,
+  GetProtectedRegionsResponse,
+  GetChatHistoryResponse,
+  GetPixelEventsResponse,
+  UserRole,
 } from '@libs/common-types';
+import { decodePixelEvents, EncodablePixelEvent, PIXEL_EVENT_RECORD_SIZE } from '@libs/utils';
 import { config as appConfig } from '@/config/config';
 
 export interface ApiConfig {
   baseUrl: string;
   timeout: number;
+  boardId: string; // Board that pixel requests are scoped to
 }
 
 export class ApiService {
@@ -28,6 +37,7 @@ export class ApiService {
     this.config = {
       baseUrl,
       timeout: 10000,
+      boardId: appConfig.board.id,
       ...config,
     };
 
@@ -95,6 +105,102 @@ export class ApiService {
     }
   }
 
+  /**
+   * Fetch the dimensions, palette and visibility of the current board
+   */
+  public async getBoard(): Promise<BoardInfo> {
+    console.log(`🗺️ Fetching board ${this.config.boardId}...`);
+
+    try {
+      const response = await this.fetchWithTimeout(`/api/boards/${encodeURIComponent(this.config.boardId)}`, {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw await this.handleErrorResponse(response);
+      }
+
+      const data: GetBoardResponse = await response.json();
+      console.log(`✅ Fetched board ${data.board.id} (${data.board.width}x${data.board.height})`);
+
+      return data.board;
+    } catch (error) {
+      console.error('❌ Failed to fetch board:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the protected regions of the current board
+   */
+  public async getProtectedRegions(): Promise<ProtectedRegionInfo[]> {
+    try {
+      const response = await this.fetchWithTimeout(this.boardPath('/regions'), {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw await this.handleErrorResponse(response);
+      }
+
+      const data: GetProtectedRegionsResponse = await response.json();
+      console.log(`🛡️ Fetched ${data.regions.length} protected regions`);
+
+      return data.regions;
+    } catch (error) {
+      console.error('❌ Failed to fetch protected regions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch a page of the board's chat history, older than the page `cursor` points past when given
+   */
+  public async getChatHistory(cursor?: string): Promise<GetChatHistoryResponse> {
+    try {
+      const params = new URLSearchParams(cursor ? { cursor } : {});
+      const response = await this.fetchWithTimeout(this.boardPath(`/chat?${params}`), {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw await this.handleErrorResponse(response);
+      }
+
+      const data: GetChatHistoryResponse = await response.json();
+      console.log(`💬 Fetched ${data.messages.length} chat messages`);
+
+      return data;
+    } catch (error) {
+      console.error('❌ Failed to fetch chat history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a chat message for everyone (moderators only)
+   */
+  public async deleteChatMessage(messageId: string): Promise<void> {
+    try {
+      const response = await this.fetchWithTimeout(`/api/admin/chat/messages/${encodeURIComponent(messageId)}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw await this.handleErrorResponse(response);
+      }
+
+      console.log(`🗑️ Deleted chat message ${messageId}`);
+    } catch (error) {
+      console.error('❌ Failed to delete chat message:', error);
+      throw error;
+    }
+  }
+
   /**
    * Fetch the current state of the entire canvas
    */
@@ -102,7 +208,7 @@ export class ApiService {
     console.log('🎨 Fetching canvas pixels...');
 
     try {
-      const response = await this.fetchWithTimeout('/api/pixels', {
+      const response = await this.fetchWithTimeout(this.boardPath('/pixels'), {
         method: 'GET',
         credentials: 'include',
       });
@@ -128,7 +234,7 @@ export class ApiService {
     console.log('🎨 Fetching canvas pixels (binary format)...');
 
     try {
-      const response = await this.fetchWithTimeout('/api/pixels/binary', {
+      const response = await this.fetchWithTimeout(this.boardPath('/pixels/binary'), {
         method: 'GET',
         credentials: 'include',
       });
@@ -137,27 +243,9 @@ export class ApiService {
         throw await this.handleErrorResponse(response);
       }
 
-      // Get pixel count from header
-      const pixelCount = parseInt(response.headers.get('X-Pixel-Count') || '0', 10);
-      
       // Get binary data
       const buffer = await response.arrayBuffer();
-      const view = new DataView(buffer);
-      const pixels: PixelData[] = [];
-      
-      // Parse 8-byte aligned pixel data
-      for (let i = 0; i < buffer.byteLength; i += 8) {
-        const x = view.getUint16(i, true); // little-endian
-        const y = view.getUint16(i + 2, true); // little-endian
-        const r = view.getUint8(i + 4);
-        const g = view.getUint8(i + 5);
-        const b = view.getUint8(i + 6);
-        // Skip padding byte at i + 7
-        
-        // Convert RGB back to hex color
-        const color = `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-        pixels.push({ x, y, color });
-      }
+      const pixels = this.parseBinaryPixels(buffer);
       
       console.log(`✅ Fetched ${pixels.length} pixels from canvas (binary: ${buffer.byteLength} bytes)`);
       
@@ -168,6 +256,23 @@ export class ApiService {
     }
   }
 
+  /**
+   * Fetch the pixels of one chunk of the canvas in binary format
+   */
+  public async getChunk(cx: number, cy: number, signal?: AbortSignal): Promise<PixelData[]> {
+    const response = await this.fetchWithTimeout(this.boardPath(`/pixels/chunks/${cx}/${cy}`), {
+      method: 'GET',
+      credentials: 'include',
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await this.handleErrorResponse(response);
+    }
+
+    return this.parseBinaryPixels(await response.arrayBuffer());
+  }
+
   /**
    * Fetch pixels in a specific region (for optimization in future)
    */
@@ -187,7 +292,7 @@ export class ApiService {
         maxY: maxY.toString(),
       });
 
-      const response = await this.fetchWithTimeout(`/api/pixels/region?${params}`, {
+      const response = await this.fetchWithTimeout(this.boardPath(`/pixels/region?${params}`), {
         method: 'GET',
         credentials: 'include',
       });
@@ -206,6 +311,91 @@ export class ApiService {
     }
   }
 
+  /**
+   * Fetch a page of the placements made between two times (ms since epoch), oldest first
+   */
+  public async getPixelEvents(from: number, to: number, cursor?: string): Promise<GetPixelEventsResponse> {
+    try {
+      const params = new URLSearchParams({
+        from: from.toString(),
+        to: to.toString(),
+        ...(cursor && { cursor }),
+      });
+
+      const response = await this.fetchWithTimeout(this.boardPath(`/pixels/events?${params}`), {
+        method: 'GET',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw await this.handleErrorResponse(response);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('❌ Failed to fetch pixel events:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stream every placement in time order for replay.
+   * Events are handed to `onEvents` chunk by chunk as they arrive; the request
+   * is not subject to the normal timeout since the log can be large.
+   */
+  public async streamReplayEvents(
+    onEvents: (events: EncodablePixelEvent[], total: number) => void,
+    signal?: AbortSignal
+  ): Promise<number> {
+    console.log('🎬 Streaming replay events...');
+
+    try {
+      const response = await fetch(`${this.config.baseUrl}${this.boardPath('/pixels/replay')}`, {
+        method: 'GET',
+        credentials: 'include',
+        signal,
+      });
+
+      if (!response.ok) {
+        throw await this.handleErrorResponse(response);
+      }
+
+      const total = parseInt(response.headers.get('X-Pixel-Count') || '0', 10);
+      if (!response.body) {
+        throw new Error('Replay stream is not supported by this browser');
+      }
+
+      const reader = response.body.getReader();
+      // Network chunks don't respect record boundaries, so carry partial records over
+      let pending = new Uint8Array(0);
+      let received = 0;
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        const bytes = new Uint8Array(pending.length + value.length);
+        bytes.set(pending);
+        bytes.set(value, pending.length);
+
+        const completeLength = bytes.length - (bytes.length % PIXEL_EVENT_RECORD_SIZE);
+        pending = bytes.slice(completeLength);
+
+        if (completeLength > 0) {
+          const events = decodePixelEvents(bytes.buffer.slice(0, completeLength));
+          received += events.length;
+          onEvents(events, total);
+        }
+      }
+
+      console.log(`✅ Streamed ${received} replay events`);
+      return received;
+    } catch (error) {
+      console.error('❌ Failed to stream replay events:', error);
+      throw error;
+    }
+  }
+
   /**
    * Initialize user session (create new user or fetch existing)
    */
@@ -236,6 +426,14 @@ export class ApiService {
     }
   }
 
+  /**
+   * Role of the cached user; users created in this session have the default role
+   */
+  public getCachedRole(): UserRole {
+    const cached = this.getCachedUser() as (CreateUserResponse & { role?: UserRole }) | null;
+    return cached?.role ?? 'user';
+  }
+
   /**
    * Clear cached user data
    */
@@ -262,6 +460,13 @@ export class ApiService {
     }
   }
 
+  /**
+   * Private helper: Path of a board-scoped endpoint (e.g. "/pixels" -> "/api/boards/main/pixels")
+   */
+  private boardPath(path: string): string {
+    return `/api/boards/${encodeURIComponent(this.config.boardId)}${path}`;
+  }
+
   /**
    * Private helper: Fetch with timeout
    */
@@ -274,6 +479,14 @@ export class ApiService {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
 
+    // Let callers cancel the request as well
+    const callerSignal = options.signal;
+    if (callerSignal?.aborted) {
+      controller.abort();
+    } else {
+      callerSignal?.addEventListener('abort', () => controller.abort(), { once: true });
+    }
+
     try {
       const response = await fetch(url, {
         ...options,
@@ -285,7 +498,7 @@ export class ApiService {
     } catch (error) {
       clearTimeout(timeoutId);
       
-      if (error instanceof Error && error.name === 'AbortError') {
+      if (error instanceof Error && error.name === 'AbortError' && !callerSignal?.aborted) {
         throw new Error(`Request timeout after ${this.config.timeout}ms`);
       }
       
@@ -293,6 +506,29 @@ export class ApiService {
     }
   }
 
+  /**
+   * Private helper: Parse 8-byte aligned pixel records (x, y, r, g, b, padding)
+   */
+  private parseBinaryPixels(buffer: ArrayBuffer): PixelData[] {
+    const view = new DataView(buffer);
+    const pixels: PixelData[] = [];
+
+    for (let i = 0; i < buffer.byteLength; i += 8) {
+      const x = view.getUint16(i, true); // little-endian
+      const y = view.getUint16(i + 2, true); // little-endian
+      const r = view.getUint8(i + 4);
+      const g = view.getUint8(i + 5);
+      const b = view.getUint8(i + 6);
+      // Skip padding byte at i + 7
+
+      // Convert RGB back to hex color
+      const color = `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
+      pixels.push({ x, y, color });
+    }
+
+    return pixels;
+  }
+
   /**
    * Private helper: Handle error responses
    */
@@ -0,0 +1,52 @@
+export interface ViewCenter {
+  x: number;
+  y: number;
+  zoom: number; // Screen pixels per canvas pixel
+}
+
+export interface NavigationHandlers {
+  onFlyTo?: (x: number, y: number, zoom?: number) => void;
+  getViewCenter?: () => ViewCenter | null;
+}
+
+/**
+ * Camera navigation for widgets outside the canvas (e.g. coordinate links in chat).
+ *
+ * The canvas registers handlers backed by its input controller; until it has,
+ * navigation requests are ignored.
+ */
+export class NavigationService {
+  private handlers: NavigationHandlers = {};
+
+  public updateHandlers(newHandlers: Partial<NavigationHandlers>): void {
+    this.handlers = { ...this.handlers, ...newHandlers };
+  }
+
+  public clearHandlers(): void {
+    this.handlers = {};
+  }
+
+  /**
+   * Animate the camera to a pixel, optionally changing the zoom
+   */
+  public flyTo(x: number, y: number, zoom?: number): void {
+    if (!this.handlers.onFlyTo) {
+      console.warn('⚠️ Canvas not ready, ignoring navigation request');
+      return;
+    }
+    this.handlers.onFlyTo(x, y, zoom);
+  }
+
+  /**
+   * Pixel at the center of the screen and current zoom; null while the canvas is not ready
+   */
+  public getViewCenter(): ViewCenter | null {
+    return this.handlers.getViewCenter?.() ?? null;
+  }
+}
+
+// Export singleton instance
+export const navigationService = new NavigationService();
+
+// Export class for custom instances if needed
+export default NavigationService;
\ No newline at end of file
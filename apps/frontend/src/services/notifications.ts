@@ -0,0 +1,61 @@
+import { ChatMessageData } from '@libs/common-types';
+
+/**
+ * Browser notifications for chat mentions.
+ *
+ * Only used while the tab is in the background; permission is asked for
+ * once the user starts chatting, since browsers ignore requests made without
+ * a user gesture.
+ */
+export class NotificationService {
+  private shownIds: Set<string> = new Set(); // A message can arrive over WebRTC and from the server
+
+  public isSupported(): boolean {
+    return typeof window !== 'undefined' && 'Notification' in window;
+  }
+
+  /**
+   * Ask for permission unless the user already decided
+   */
+  public async requestPermission(): Promise<void> {
+    if (!this.isSupported() || Notification.permission !== 'default') return;
+
+    try {
+      const permission = await Notification.requestPermission();
+      console.log(`🔔 Notification permission: ${permission}`);
+    } catch (error) {
+      console.warn('⚠️ Failed to request notification permission:', error);
+    }
+  }
+
+  /**
+   * Notify about a message that mentions or answers the local user.
+   * Returns false when the message was already announced.
+   */
+  public notifyMention(message: ChatMessageData, isReply: boolean): boolean {
+    if (this.shownIds.has(message.id)) return false;
+    this.shownIds.add(message.id);
+
+    if (!this.isSupported() || Notification.permission !== 'granted') return true;
+
+    try {
+      const notification = new Notification(
+        isReply ? `${message.nickname} replied to you` : `${message.nickname} mentioned you`,
+        { body: message.message, tag: `chat-${message.id}` }
+      );
+      notification.onclick = () => {
+        window.focus();
+        notification.close();
+      };
+    } catch (error) {
+      console.warn('⚠️ Failed to show notification:', error);
+    }
+    return true;
+  }
+}
+
+// Export singleton instance
+export const notificationService = new NotificationService();
+
+// Export class for custom instances if needed
+export default NotificationService;
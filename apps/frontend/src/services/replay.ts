@@ -0,0 +1,255 @@
+import { PixelUpdateData } from '@libs/common-types';
+import { EncodablePixelEvent } from '@libs/utils';
+import { apiService } from './api';
+
+/**
+ * Playback speeds in placements per second
+ */
+export const REPLAY_SPEEDS = [10, 50, 250, 1000, 5000, 25000];
+
+// Effects and sounds only keep up with slow playback
+const MAX_EFFECTS_SPEED = 10;
+
+export interface ReplayState {
+  active: boolean; // Replay mode is on and live updates are paused
+  loading: boolean; // Events are still streaming in
+  playing: boolean;
+  position: number; // Number of events applied to the canvas
+  loadedCount: number;
+  totalCount: number;
+  speed: number;
+  currentTimestamp: number | null; // Timestamp of the last applied event (ms)
+  error: string | null;
+}
+
+export interface ReplayEventHandlers {
+  onEnter?: () => void;
+  onReset?: () => void;
+  onFrame?: (pixels: PixelUpdateData[], playEffects: boolean) => void;
+  onExit?: () => void;
+  onError?: (message: string) => void;
+}
+
+/**
+ * Time-lapse playback of the placement log.
+ *
+ * Events are streamed from the backend in time order and applied to the canvas
+ * through the registered handlers, starting from an empty canvas.
+ */
+export class ReplayService {
+  private handlers: ReplayEventHandlers = {};
+  private events: EncodablePixelEvent[] = [];
+  private active = false;
+  private loading = false;
+  private playing = false;
+  private position = 0;
+  private totalCount = 0;
+  private speed = REPLAY_SPEEDS[2];
+  private error: string | null = null;
+  private abortController: AbortController | null = null;
+  private animationFrame: number | null = null;
+  private lastFrameTime = 0;
+  private budget = 0; // Fractional events owed to the next frame
+
+  /**
+   * Enter replay mode and start streaming the placement log
+   */
+  public enter(): void {
+    if (this.active) return;
+
+    console.log('🎬 Entering replay mode');
+    this.active = true;
+    this.events = [];
+    this.position = 0;
+    this.totalCount = 0;
+    this.error = null;
+    this.handlers.onEnter?.();
+
+    this.load();
+    this.play();
+  }
+
+  /**
+   * Leave replay mode and hand the canvas back to live updates
+   */
+  public exit(): void {
+    if (!this.active) return;
+
+    this.pause();
+    this.abortController?.abort();
+    this.abortController = null;
+
+    this.active = false;
+    this.loading = false;
+    this.events = [];
+    this.position = 0;
+    this.totalCount = 0;
+
+    this.handlers.onExit?.();
+    console.log('🎬 Left replay mode');
+  }
+
+  public play(): void {
+    if (!this.active || this.playing) return;
+
+    // Restart from the beginning when playback already finished
+    if (!this.loading && this.position >= this.events.length && this.events.length > 0) {
+      this.seek(0);
+    }
+
+    this.playing = true;
+    this.budget = 0;
+    this.lastFrameTime = performance.now();
+    this.animationFrame = requestAnimationFrame(this.tick);
+  }
+
+  public pause(): void {
+    this.playing = false;
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+  }
+
+  /**
+   * Jump to the canvas state after `index` events
+   */
+  public seek(index: number): void {
+    if (!this.active) return;
+
+    const target = Math.max(0, Math.min(index, this.events.length));
+
+    // Going backwards means rebuilding from an empty canvas
+    let start = this.position;
+    if (target < this.position) {
+      this.handlers.onReset?.();
+      start = 0;
+    }
+
+    this.applyEvents(start, target, false, true);
+    this.position = target;
+    this.budget = 0;
+  }
+
+  public setSpeed(speed: number): void {
+    this.speed = Math.max(1, speed);
+  }
+
+  public getState(): ReplayState {
+    const lastEvent = this.position > 0 ? this.events[this.position - 1] : null;
+
+    return {
+      active: this.active,
+      loading: this.loading,
+      playing: this.playing,
+      position: this.position,
+      loadedCount: this.events.length,
+      totalCount: Math.max(this.totalCount, this.events.length),
+      speed: this.speed,
+      currentTimestamp: lastEvent ? lastEvent.timestamp : null,
+      error: this.error,
+    };
+  }
+
+  public isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Update event handlers
+   */
+  public updateHandlers(newHandlers: Partial<ReplayEventHandlers>): void {
+    this.handlers = { ...this.handlers, ...newHandlers };
+  }
+
+  private async load(): Promise<void> {
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    this.loading = true;
+
+    try {
+      await apiService.streamReplayEvents((events, total) => {
+        this.totalCount = total;
+        for (const event of events) {
+          this.events.push(event);
+        }
+      }, abortController.signal);
+    } catch (error) {
+      if (abortController.signal.aborted) return;
+
+      this.error = error instanceof Error ? error.message : 'Failed to load replay';
+      this.handlers.onError?.(this.error);
+    } finally {
+      if (this.abortController === abortController) {
+        this.loading = false;
+        this.abortController = null;
+      }
+    }
+  }
+
+  private tick = (now: number): void => {
+    if (!this.playing) return;
+
+    const deltaTime = Math.min(now - this.lastFrameTime, 250); // Don't jump ahead after a background tab
+    this.lastFrameTime = now;
+    this.budget += (deltaTime * this.speed) / 1000;
+
+    const available = this.events.length - this.position;
+    const count = Math.min(Math.floor(this.budget), available);
+    if (count > 0) {
+      this.applyEvents(this.position, this.position + count, this.speed <= MAX_EFFECTS_SPEED, false);
+      this.position += count;
+      this.budget -= count;
+    }
+
+    // Waiting on the stream shouldn't bank a burst of events
+    if (available === count) {
+      this.budget = 0;
+    }
+
+    if (!this.loading && this.position >= this.events.length) {
+      console.log('🎬 Replay finished');
+      this.pause();
+      return;
+    }
+
+    this.animationFrame = requestAnimationFrame(this.tick);
+  };
+
+  /**
+   * Apply events [start, end) to the canvas.
+   * When `collapse` is set, only the final color of each coordinate is applied.
+   */
+  private applyEvents(start: number, end: number, playEffects: boolean, collapse: boolean): void {
+    if (end <= start) return;
+
+    const toPixel = (event: EncodablePixelEvent): PixelUpdateData => ({
+      x: event.x,
+      y: event.y,
+      color: event.color,
+      userId: 'replay',
+    });
+
+    let pixels: PixelUpdateData[];
+    if (collapse) {
+      const latest = new Map<string, PixelUpdateData>();
+      for (let index = start; index < end; index++) {
+        const event = this.events[index];
+        const key = `${event.x},${event.y}`;
+        latest.delete(key); // Keep insertion order in sync with placement order
+        latest.set(key, toPixel(event));
+      }
+      pixels = Array.from(latest.values());
+    } else {
+      pixels = this.events.slice(start, end).map(toPixel);
+    }
+
+    this.handlers.onFrame?.(pixels, playEffects);
+  }
+}
+
+// Export singleton instance
+export const replayService = new ReplayService();
+
+// Export class for custom instances if needed
+export default ReplayService;
@@ -2,8 +2,13 @@ import { io, Socket } from 'socket.io-client';
 import { 
   WebRTCSignalingMessage, 
   CursorUpdateData, 
-  ChatMessageData 
+  ChatMessageData,
+  PeerJoinedPayload,
+  RoomPeersPayload,
+  JoinRefusedPayload,
+  PeerMutedPayload
 } from '@libs/common-types';
+import { parseMentions } from '@libs/utils';
 
 export interface WebRTCConfig {
   signalingUrl: string;
@@ -27,6 +32,7 @@ export type WebRTCEventHandler = {
   onCursorUpdate?: (data: CursorUpdateData) => void;
   onChatMessage?: (data: ChatMessageData) => void;
   onConnectionStateChange?: (state: RTCPeerConnectionState) => void;
+  onJoinRefused?: (refusal: JoinRefusedPayload) => void; // Banned users are kept out of the room
 };
 
 export class WebRTCService {
@@ -36,6 +42,7 @@ export class WebRTCService {
   private localDataChannel: RTCDataChannel | null = null;
   private eventHandlers: WebRTCEventHandler = {};
   private isConnected = false;
+  private mutedPeers: Set<string> = new Set(); // Announced by the signaling service; their chat is dropped
 
   // ICE servers configuration
   private readonly iceServers: RTCIceServer[] = [
@@ -103,6 +110,7 @@ export class WebRTCService {
       this.closePeerConnection(peerId);
     }
     this.peers.clear();
+    this.mutedPeers.clear();
 
     // Disconnect from signaling server
     if (this.socket) {
@@ -129,15 +137,18 @@ export class WebRTCService {
     this.broadcastToDataChannel('cursor-update', cursorData, 'cursor');
   }
 
-  public sendChatMessage(message: string): void {
+  public sendChatMessage(id: string, message: string, replyTo: string | null = null): void {
     if (!this.config) return;
 
     const chatData: ChatMessageData = {
+      id,
       userId: this.config.userId,
       nickname: this.config.nickname,
       message,
       timestamp: Date.now(),
-      color: this.config.userColor
+      color: this.config.userColor,
+      replyTo,
+      mentions: parseMentions(message),
     };
 
     this.broadcastToDataChannel('chat-message', chatData, 'chat');
@@ -162,24 +173,43 @@ export class WebRTCService {
       this.handleSignalingMessage(message);
     });
 
-    this.socket.on('peer-joined', ({ peerId }: { peerId: string }) => {
-      console.log(`👥 Peer joined: ${peerId}`);
+    this.socket.on('peer-joined', ({ peerId, muted }: PeerJoinedPayload) => {
+      console.log(`👥 Peer joined: ${peerId}${muted ? ' (muted)' : ''}`);
+      if (muted) {
+        this.mutedPeers.add(peerId);
+      }
       this.createPeerConnection(peerId, true); // We are the offerer
     });
 
     this.socket.on('peer-left', ({ peerId }: { peerId: string }) => {
       console.log(`👋 Peer left: ${peerId}`);
+      this.mutedPeers.delete(peerId);
       this.closePeerConnection(peerId);
     });
 
-    this.socket.on('room-peers', ({ peers }: { peers: string[] }) => {
+    this.socket.on('room-peers', ({ peers, mutedPeers }: RoomPeersPayload) => {
       console.log(`👥 Current room peers:`, peers);
+      mutedPeers.forEach(peerId => this.mutedPeers.add(peerId));
       // Create connections to existing peers (we are not the offerer)
       peers.forEach(peerId => {
         this.createPeerConnection(peerId, false);
       });
     });
 
+    this.socket.on('peer-muted', ({ peerId, muted }: PeerMutedPayload) => {
+      console.log(`🔇 Peer ${peerId} is ${muted ? 'now muted' : 'no longer muted'}`);
+      if (muted) {
+        this.mutedPeers.add(peerId);
+      } else {
+        this.mutedPeers.delete(peerId);
+      }
+    });
+
+    this.socket.on('join-refused', (refusal: JoinRefusedPayload) => {
+      console.warn(`🔨 Not allowed into room ${refusal.roomId}: ${refusal.reason}`);
+      this.eventHandlers.onJoinRefused?.(refusal);
+    });
+
     this.socket.on('disconnect', () => {
       console.log('📡 Signaling server disconnected');
       this.isConnected = false;
@@ -345,6 +375,10 @@ export class WebRTCService {
     if (channelType === 'cursor' && type === 'cursor-update') {
       this.eventHandlers.onCursorUpdate?.(payload as CursorUpdateData);
     } else if (channelType === 'chat' && type === 'chat-message') {
+      if (this.mutedPeers.has(peerId)) {
+        console.warn(`🔇 Dropped chat message from muted peer ${peerId}`);
+        return;
+      }
       this.eventHandlers.onChatMessage?.(payload as ChatMessageData);
     } else {
       console.warn(`⚠️ Message type '${type}' not allowed on '${channelType}' channel`);
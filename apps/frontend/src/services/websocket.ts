@@ -2,24 +2,104 @@ import {
   ClientMessage,
   ServerMessage,
   DrawPixelMessage,
+  DrawPixelsMessage,
+  DrawPixelPayload,
+  DrawPixelsPayload,
+  DrawPixelAckMessage,
+  DrawPixelAckPayload,
+  DrawPixelsAckMessage,
+  DrawPixelsAckPayload,
+  DrawPixelsRejectedMessage,
+  DrawPixelsRejectedPayload,
   PixelUpdateMessage,
   ReloadCanvasMessage,
+  ResumeMessage,
   KeepalivePingMessage,
+  SessionMessage,
+  CooldownMessage,
+  RateLimitedMessage,
+  BannedMessage,
+  MutedMessage,
+  SanctionLiftedMessage,
+  ChatSendMessage,
+  ChatBroadcastMessage,
+  ChatHistoryMessage,
+  ChatHistoryPayload,
+  ChatMessageData,
+  ChatDeleteMessage,
+  ChatSettingsMessage,
+  ChatSettingsPayload,
+  ErrorMessage,
+  SessionPayload,
+  CooldownPayload,
+  RateLimitedPayload,
+  SanctionPayload,
+  ErrorPayload,
   PixelUpdateData,
 } from '@libs/common-types';
+import {
+  BINARY_SUBPROTOCOL,
+  JSON_SUBPROTOCOL,
+  BINARY_PIXEL_UPDATE,
+  getBinaryMessageType,
+  decodePixelUpdate,
+  encodeDrawPixel,
+} from '@libs/utils';
 import { captureException, addBreadcrumb } from '../config/sentry';
 import { config as appConfig } from '@/config/config';
+import { apiService } from './api';
 
 export interface WebSocketConfig {
   url: string;
   reconnectAttempts: number;
   reconnectDelay: number;
   heartbeatInterval: number;
+  binaryProtocol: boolean; // Offer the binary subprotocol for pixel traffic (JSON is the fallback)
+  boardId: string; // Board to subscribe to
+  maxQueuedPixels: number; // Placements kept while offline before further ones are refused
+}
+
+// Checking queued pixels after a canvas reload reads the placements made since the
+// queue started, with some slack for the clock difference to the server
+const QUEUE_CHECK_CLOCK_SLACK_MS = 10000;
+const MAX_QUEUE_CHECK_PAGES = 10;
+
+/**
+ * Client-side view of the per-user placement budget.
+ * Projected from the last server update, which stays authoritative.
+ */
+export interface CooldownState {
+  remaining: number; // Placements available now
+  capacity: number; // Maximum burst size
+  refillIntervalMs: number; // Time to regain a single placement
+  cooldownMs: number; // Time until drawing is allowed again (0 when allowed)
+}
+
+/**
+ * Active ban and mute of the current user, as announced by the server
+ */
+export interface SanctionState {
+  ban: SanctionPayload | null; // Drawing and chat are blocked
+  mute: SanctionPayload | null; // Chat is blocked
 }
 
 export interface WebSocketEventHandlers {
   onPixelUpdate?: (pixels: PixelUpdateData[]) => void;
   onReloadCanvas?: () => void;
+  onSession?: (session: SessionPayload) => void;
+  onServerError?: (error: ErrorPayload) => void;
+  onCooldown?: (cooldown: CooldownState) => void;
+  onRateLimited?: (rejection: RateLimitedPayload) => void;
+  onDrawPixelAck?: (ack: DrawPixelAckPayload) => void;
+  onDrawPixelsAck?: (ack: DrawPixelsAckPayload) => void;
+  onDrawPixelsRejected?: (rejection: DrawPixelsRejectedPayload) => void;
+  onQueuedPixelSent?: (requestId: number) => void; // A placement queued while offline went out
+  onQueuedPixelsDropped?: (requestIds: number[], reason: string) => void; // Queued placements that will never be sent
+  onSanctionChange?: (sanctions: SanctionState) => void;
+  onChatHistory?: (history: ChatHistoryPayload) => void;
+  onChatMessage?: (message: ChatMessageData) => void;
+  onChatDelete?: (messageId: string) => void;
+  onChatSettings?: (settings: ChatSettingsPayload) => void;
   onConnect?: () => void;
   onDisconnect?: () => void;
   onError?: (error: Event) => void;
@@ -43,6 +123,25 @@ export class WebSocketService {
   private reconnectTimer: number | null = null;
   private heartbeatTimer: number | null = null;
   private lastPingTime = 0;
+  private session: SessionPayload | null = null;
+  private cooldown: { payload: CooldownPayload; receivedAt: number } | null = null;
+  // Sequence number of the last applied PIXEL_UPDATE (null until the server announced one)
+  private lastSeq: number | null = null;
+  private seqEpoch: string | null = null; // Server run lastSeq belongs to
+  private pendingBatches: Map<number, PixelUpdateData[]> = new Map(); // Batches received ahead of a gap
+  private isResuming = false;
+  private isBinary = false; // The server accepted the binary subprotocol
+  private batchCounter = 0; // Numbers DRAW_PIXELS batches to match the replies
+  private requestCounter = 0; // Numbers DRAW_PIXEL placements to match the replies
+  // Placements made while offline, replayed in order once the connection has caught up
+  private drawQueue: Array<DrawPixelPayload & { requestId: number }> = [];
+  private drawQueueTimer: number | null = null;
+  private queuedSince = 0; // When the first pixel of the current queue was queued
+  private queueCheck: number | null = null; // Running check of the queue against a reloaded canvas
+  private queueCheckCounter = 0;
+  // Sanctions outlive reconnects; the server only announces issued and lifted ones
+  private sanctions: SanctionState = { ban: null, mute: null };
+  private sanctionExpiryTimers: { ban: number | null; mute: number | null } = { ban: null, mute: null };
 
   constructor(config: Partial<WebSocketConfig> = {}, handlers: WebSocketEventHandlers = {}) {
     // Priority: 1) Explicit config, 2) Window object, 3) Environment variable
@@ -63,11 +162,14 @@ export class WebSocketService {
       reconnectAttempts: 5,
       reconnectDelay: 3000,
       heartbeatInterval: 30000,
+      binaryProtocol: true,
+      boardId: appConfig.board.id,
+      maxQueuedPixels: 500,
       ...config,
     };
 
     this.handlers = handlers;
-    console.log('✅ WebSocket service initialized with URL:', this.config.url);
+    console.log(`✅ WebSocket service initialized with URL: ${this.config.url} (board ${this.config.boardId})`);
   }
 
   /**
@@ -83,7 +185,13 @@ export class WebSocketService {
     console.log('🔌 Connecting to WebSocket server...');
 
     try {
-      this.ws = new WebSocket(this.config.url);
+      // The board is chosen with a query parameter on the upgrade request
+      const separator = this.config.url.includes('?') ? '&' : '?';
+      const url = `${this.config.url}${separator}board=${encodeURIComponent(this.config.boardId)}`;
+      this.ws = this.config.binaryProtocol
+        ? new WebSocket(url, [BINARY_SUBPROTOCOL, JSON_SUBPROTOCOL])
+        : new WebSocket(url);
+      this.ws.binaryType = 'arraybuffer';
       this.setupEventHandlers();
     } catch (error) {
       console.error('❌ Failed to create WebSocket connection:', error);
@@ -110,20 +218,100 @@ export class WebSocketService {
   }
 
   /**
-   * Send a DRAW_PIXEL message
+   * Send a DRAW_PIXEL message, or queue it while the connection is down
+   * (and behind pixels queued earlier, so the order is kept)
+   * @returns The request ID the server answers with DRAW_PIXEL_ACK or a rejection, or null if neither sent nor queued
+   */
+  public drawPixel(x: number, y: number, color: string): number | null {
+    const mustQueue = !this.isConnected() || this.drawQueue.length > 0;
+    if (mustQueue && this.drawQueue.length >= this.config.maxQueuedPixels) {
+      console.error(`❌ Cannot draw pixel: ${this.drawQueue.length} pixels already wait for the connection`);
+      return null;
+    }
+
+    // uint32, so it fits the binary frame
+    this.requestCounter = (this.requestCounter % 0xffffffff) + 1;
+    const payload = { x, y, color, requestId: this.requestCounter };
+
+    if (mustQueue) {
+      if (this.drawQueue.length === 0) {
+        this.queuedSince = Date.now();
+      }
+      this.drawQueue.push(payload);
+      console.log(`📥 Queued pixel (${x}, ${y}) until the connection is back (${this.drawQueue.length} queued)`);
+      return payload.requestId;
+    }
+
+    return this.sendDrawPixel(payload) ? payload.requestId : null;
+  }
+
+  /**
+   * Send the first pixels the placement budget and the batch limit cover as one DRAW_PIXELS batch in one color.
+   * The server accepts or rejects the batch as a whole.
+   * @returns The batch that was sent, or null if nothing was
    */
-  public drawPixel(x: number, y: number, color: string): boolean {
+  public drawPixels(pixels: Array<{ x: number; y: number }>, color: string): DrawPixelsPayload | null {
+    return this.drawPixelBatch(pixels.map(({ x, y }) => ({ x, y, color })));
+  }
+
+  /**
+   * Send the first pixels the placement budget and the batch limit cover as one DRAW_PIXELS batch.
+   * Undo batches are only accepted while the sender still owns every pixel.
+   * @returns The batch that was sent, or null if nothing was
+   */
+  public drawPixelBatch(pixels: DrawPixelPayload[], undo = false): DrawPixelsPayload | null {
     if (!this.isConnected()) {
-      console.error('❌ Cannot draw pixel: WebSocket not connected');
-      return false;
+      console.error('❌ Cannot draw pixels: WebSocket not connected');
+      return null;
     }
+    if (this.drawQueue.length > 0) {
+      console.warn(`⚠️ Cannot draw pixels: ${this.drawQueue.length} queued pixels are sent first`);
+      return null;
+    }
+
+    // Without a budget or batch limit from the server yet, the server decides
+    const budget = this.getCooldownState()?.remaining ?? pixels.length;
+    const maxBatchSize = this.session?.maxBatchSize ?? pixels.length;
+    const batch = pixels.slice(0, Math.min(budget, maxBatchSize));
+    if (batch.length === 0) return null;
 
-    const message: DrawPixelMessage = {
-      type: 'DRAW_PIXEL',
-      payload: { x, y, color },
+    const message: DrawPixelsMessage = {
+      type: 'DRAW_PIXELS',
+      payload: {
+        batchId: `batch-${++this.batchCounter}`,
+        pixels: batch,
+        ...(undo && { undo: true }),
+      },
     };
 
-    return this.sendMessage(message);
+    if (!this.sendMessage(message)) return null;
+    this.consumeCooldownToken(batch.length);
+    return message.payload;
+  }
+
+  /**
+   * Number of placements waiting for the connection
+   */
+  public getQueuedPixelCount(): number {
+    return this.drawQueue.length;
+  }
+
+  /**
+   * Check if a placement is still waiting for the connection
+   */
+  public isPixelQueued(requestId: number): boolean {
+    return this.drawQueue.some(pixel => pixel.requestId === requestId);
+  }
+
+  /**
+   * Send a CHAT_SEND message; the server echoes it back as CHAT_MESSAGE once stored
+   */
+  public sendChatMessage(id: string, message: string, replyTo: string | null = null): boolean {
+    const chatMessage: ChatSendMessage = {
+      type: 'CHAT_SEND',
+      payload: replyTo ? { id, message, replyTo } : { id, message },
+    };
+    return this.sendMessage(chatMessage);
   }
 
   /**
@@ -153,6 +341,32 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Send a binary frame
+   */
+  private sendBinary(frame: Uint8Array, messageType: string): boolean {
+    if (!this.isConnected() || !this.ws) {
+      console.error('❌ Cannot send message: WebSocket not connected');
+      return false;
+    }
+
+    try {
+      this.ws.send(frame);
+      console.log('📤 Sent binary message:', messageType);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to send message:', error);
+      captureException(error as Error, {
+        websocket_send: {
+          messageType,
+          url: this.config.url,
+          status: this.status
+        }
+      });
+      return false;
+    }
+  }
+
   /**
    * Update event handlers
    */
@@ -174,6 +388,64 @@ export class WebSocketService {
     return this.status === ConnectionStatus.CONNECTED && this.ws?.readyState === WebSocket.OPEN;
   }
 
+  /**
+   * Get the session announced by the server for the current connection
+   */
+  public getSession(): SessionPayload | null {
+    return this.session;
+  }
+
+  /**
+   * Check if the current connection is allowed to draw
+   */
+  public canDraw(): boolean {
+    return this.isConnected() && this.session !== null && !this.session.readOnly;
+  }
+
+  /**
+   * Get the active ban and mute of the current user
+   */
+  public getSanctions(): SanctionState {
+    return this.sanctions;
+  }
+
+  /**
+   * Check if the current user is banned from drawing
+   */
+  public isBanned(): boolean {
+    return this.sanctions.ban !== null;
+  }
+
+  /**
+   * Get the current placement budget, or null before the server announced it
+   */
+  public getCooldownState(): CooldownState | null {
+    if (!this.cooldown) return null;
+
+    const { payload, receivedAt } = this.cooldown;
+    const now = Date.now();
+    const refillIntervalMs = Math.max(1, payload.refillIntervalMs);
+
+    // Without a pending cooldown the fractional token is unknown, so assume none
+    const nextTokenAt = receivedAt + (payload.retryAfterMs > 0 ? payload.retryAfterMs : refillIntervalMs);
+    const refilled = now >= nextTokenAt ? 1 + Math.floor((now - nextTokenAt) / refillIntervalMs) : 0;
+    const remaining = Math.min(payload.capacity, payload.remaining + refilled);
+
+    return {
+      remaining,
+      capacity: payload.capacity,
+      refillIntervalMs,
+      cooldownMs: remaining > 0 ? 0 : nextTokenAt - now,
+    };
+  }
+
+  /**
+   * Time until drawing is allowed again (0 when allowed or unknown)
+   */
+  public getCooldownRemainingMs(): number {
+    return this.getCooldownState()?.cooldownMs ?? 0;
+  }
+
   /**
    * Get connection statistics
    */
@@ -182,12 +454,18 @@ export class WebSocketService {
     reconnectAttempt: number;
     lastPingTime: number;
     url: string;
+    lastSeq: number | null;
+    binary: boolean;
+    queuedPixels: number;
   } {
     return {
       status: this.status,
       reconnectAttempt: this.reconnectAttempt,
       lastPingTime: this.lastPingTime,
       url: this.config.url,
+      lastSeq: this.lastSeq,
+      binary: this.isBinary,
+      queuedPixels: this.drawQueue.length,
     };
   }
 
@@ -198,7 +476,8 @@ export class WebSocketService {
     if (!this.ws) return;
 
     this.ws.onopen = () => {
-      console.log('✅ WebSocket connected');
+      this.isBinary = this.ws?.protocol === BINARY_SUBPROTOCOL;
+      console.log(`✅ WebSocket connected (${this.isBinary ? 'binary' : 'JSON'} pixel updates)`);
       addBreadcrumb('WebSocket connected', 'websocket', {
         url: this.config.url,
         attempt: this.reconnectAttempt
@@ -212,6 +491,11 @@ export class WebSocketService {
     this.ws.onclose = (event) => {
       console.log(`🔌 WebSocket disconnected (code: ${event.code}, reason: ${event.reason})`);
       this.clearTimers();
+      this.session = null;
+      this.cooldown = null;
+      // Keep lastSeq so the next connection can resume from it
+      this.pendingBatches.clear();
+      this.isResuming = false;
       
       if (event.code !== 1000) { // Not a normal close
         this.setStatus(ConnectionStatus.ERROR);
@@ -237,7 +521,11 @@ export class WebSocketService {
     };
 
     this.ws.onmessage = (event) => {
-      this.handleMessage(event.data);
+      if (event.data instanceof ArrayBuffer) {
+        this.handleBinaryMessage(event.data);
+      } else {
+        this.handleMessage(event.data);
+      }
     };
   }
 
@@ -262,6 +550,62 @@ export class WebSocketService {
           this.handleKeepalivePing(message as KeepalivePingMessage);
           break;
 
+        case 'SESSION':
+          this.handleSession(message as SessionMessage);
+          break;
+
+        case 'COOLDOWN':
+          this.handleCooldown(message as CooldownMessage);
+          break;
+
+        case 'RATE_LIMITED':
+          this.handleRateLimited(message as RateLimitedMessage);
+          break;
+
+        case 'BANNED':
+          this.handleBanned(message as BannedMessage);
+          break;
+
+        case 'MUTED':
+          this.handleMuted(message as MutedMessage);
+          break;
+
+        case 'SANCTION_LIFTED':
+          this.handleSanctionLifted(message as SanctionLiftedMessage);
+          break;
+
+        case 'CHAT_HISTORY':
+          this.handleChatHistory(message as ChatHistoryMessage);
+          break;
+
+        case 'CHAT_MESSAGE':
+          this.handleChatMessage(message as ChatBroadcastMessage);
+          break;
+
+        case 'CHAT_DELETE':
+          this.handleChatDelete(message as ChatDeleteMessage);
+          break;
+
+        case 'CHAT_SETTINGS':
+          this.handleChatSettings(message as ChatSettingsMessage);
+          break;
+
+        case 'DRAW_PIXEL_ACK':
+          this.handleDrawPixelAck(message as DrawPixelAckMessage);
+          break;
+
+        case 'DRAW_PIXELS_ACK':
+          this.handleDrawPixelsAck(message as DrawPixelsAckMessage);
+          break;
+
+        case 'DRAW_PIXELS_REJECTED':
+          this.handleDrawPixelsRejected(message as DrawPixelsRejectedMessage);
+          break;
+
+        case 'ERROR':
+          this.handleServerError(message as ErrorMessage);
+          break;
+
         default:
           console.warn('⚠️ Unknown message type:', message.type);
       }
@@ -270,13 +614,85 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Handle binary frames; only PIXEL_UPDATE is sent in binary
+   */
+  private handleBinaryMessage(data: ArrayBuffer): void {
+    try {
+      const type = getBinaryMessageType(data);
+      if (type !== BINARY_PIXEL_UPDATE) {
+        console.warn('⚠️ Unknown binary message type:', type);
+        return;
+      }
+
+      this.handlePixelUpdate({ type: 'PIXEL_UPDATE', payload: decodePixelUpdate(data) });
+    } catch (error) {
+      console.error('❌ Failed to decode binary WebSocket message:', error);
+    }
+  }
+
   /**
    * Handle PIXEL_UPDATE messages
    */
   private handlePixelUpdate(message: PixelUpdateMessage): void {
-    const pixels = message.payload.pixels;
-    console.log(`🎨 Received pixel update: ${pixels.length} pixels`);
+    const { seq, pixels } = message.payload;
+
+    if (this.lastSeq !== null && seq <= this.lastSeq) {
+      // Already applied (e.g. replayed while the live batch was in flight)
+      return;
+    }
+
+    if (this.lastSeq !== null && seq > this.lastSeq + 1) {
+      // Hold the batch until the missing ones arrive
+      console.warn(`⚠️ Pixel update #${seq} arrived after #${this.lastSeq}, waiting for the missing batches`);
+      this.pendingBatches.set(seq, pixels);
+      if (!this.isResuming) {
+        this.resume();
+      }
+      return;
+    }
+
+    this.applyPixelUpdate(seq, pixels);
+
+    // Apply held batches that are now in order
+    let nextSeq = seq + 1;
+    let next = this.pendingBatches.get(nextSeq);
+    while (next) {
+      this.pendingBatches.delete(nextSeq);
+      this.applyPixelUpdate(nextSeq, next);
+      nextSeq++;
+      next = this.pendingBatches.get(nextSeq);
+    }
+
+    if (this.pendingBatches.size === 0) {
+      this.isResuming = false;
+    }
+  }
+
+  private applyPixelUpdate(seq: number, pixels: PixelUpdateData[]): void {
+    this.lastSeq = seq;
+    console.log(`🎨 Received pixel update #${seq}: ${pixels.length} pixels`);
     this.handlers.onPixelUpdate?.(pixels);
+
+    if (this.drawQueue.length > 0) {
+      this.dropConflictingQueuedPixels(pixels);
+      this.flushDrawQueue();
+    }
+  }
+
+  /**
+   * Ask the server for the batches missed since the last applied one
+   */
+  private resume(): void {
+    if (this.lastSeq === null) return;
+
+    this.isResuming = true;
+    console.log(`⏩ Resuming pixel updates after #${this.lastSeq}`);
+    const message: ResumeMessage = {
+      type: 'RESUME',
+      payload: { lastSeq: this.lastSeq, epoch: this.seqEpoch ?? '' },
+    };
+    this.sendMessage(message);
   }
 
   /**
@@ -284,7 +700,324 @@ export class WebSocketService {
    */
   private handleReloadCanvas(message: ReloadCanvasMessage): void {
     console.log('🔄 Received canvas reload request');
+    // The reloaded canvas already includes everything held back; follow the next batch
+    this.lastSeq = null;
+    this.pendingBatches.clear();
+    this.isResuming = false;
     this.handlers.onReloadCanvas?.();
+    this.checkQueueAfterReload();
+  }
+
+  /**
+   * A reloaded canvas skips the updates missed while offline, so queued placements
+   * are checked against the placements made since the queue started before any is sent
+   */
+  private async checkQueueAfterReload(): Promise<void> {
+    if (this.drawQueue.length === 0) return;
+
+    const check = ++this.queueCheckCounter;
+    this.queueCheck = check;
+    const from = this.queuedSince - QUEUE_CHECK_CLOCK_SLACK_MS;
+    const to = Date.now() + QUEUE_CHECK_CLOCK_SLACK_MS;
+
+    try {
+      let cursor: string | undefined;
+      let pages = 0;
+      do {
+        const page = await apiService.getPixelEvents(from, to, cursor);
+        // A newer reload started its own check
+        if (this.queueCheck !== check) return;
+
+        this.dropConflictingQueuedPixels(page.events);
+        cursor = page.nextCursor ?? undefined;
+        pages++;
+      } while (cursor && this.drawQueue.length > 0 && pages < MAX_QUEUE_CHECK_PAGES);
+
+      if (cursor && this.drawQueue.length > 0) {
+        this.dropAllQueuedPixels('the canvas changed too much in the meantime to check them');
+      }
+    } catch (error) {
+      if (this.queueCheck !== check) return;
+      console.error('❌ Failed to check queued pixels against the reloaded canvas:', error);
+      this.dropAllQueuedPixels('they could not be checked against the reloaded canvas');
+    }
+
+    if (this.queueCheck !== check) return;
+    this.queueCheck = null;
+    this.flushDrawQueue();
+  }
+
+  /**
+   * Handle SESSION messages
+   */
+  private handleSession(message: SessionMessage): void {
+    this.session = message.payload;
+    console.log(`🆔 WebSocket session on board ${message.payload.boardId}: ${message.payload.userId ?? 'anonymous'}${message.payload.readOnly ? ' (read-only)' : ''}`);
+    this.handlers.onSession?.(message.payload);
+
+    const { seq, epoch } = message.payload;
+    const previousEpoch = this.seqEpoch;
+    this.seqEpoch = epoch;
+    if (this.lastSeq === null) {
+      this.lastSeq = seq;
+    } else if (previousEpoch !== epoch) {
+      // The server restarted and its sequence started over
+      console.log('🔄 Pixel update sequence was reset, reloading canvas');
+      this.handleReloadCanvas({ type: 'RELOAD_CANVAS' });
+      this.lastSeq = seq;
+    } else if (this.lastSeq < seq) {
+      // Reconnected after missing some updates
+      this.resume();
+    }
+  }
+
+  /**
+   * Handle COOLDOWN messages
+   */
+  private handleCooldown(message: CooldownMessage): void {
+    this.setCooldown(message.payload);
+  }
+
+  /**
+   * Handle RATE_LIMITED messages
+   */
+  private handleRateLimited(message: RateLimitedMessage): void {
+    const { x, y, retryAfterMs } = message.payload;
+    console.warn(`⏳ Pixel (${x}, ${y}) rejected by rate limit, retry in ${retryAfterMs}ms`);
+    this.setCooldown(message.payload);
+    this.handlers.onRateLimited?.(message.payload);
+  }
+
+  /**
+   * Store a server-announced placement budget and notify handlers
+   */
+  private setCooldown(payload: CooldownPayload): void {
+    this.cooldown = { payload, receivedAt: Date.now() };
+    const state = this.getCooldownState();
+    if (state) {
+      this.handlers.onCooldown?.(state);
+    }
+    this.flushDrawQueue();
+  }
+
+  /**
+   * Send a DRAW_PIXEL frame and spend a placement on it
+   */
+  private sendDrawPixel(payload: DrawPixelPayload): boolean {
+    const message: DrawPixelMessage = { type: 'DRAW_PIXEL', payload };
+    const sent = this.isBinary
+      ? this.sendBinary(encodeDrawPixel(payload), message.type)
+      : this.sendMessage(message);
+    if (sent) {
+      this.consumeCooldownToken();
+    }
+    return sent;
+  }
+
+  /**
+   * Send queued placements in order once the missed updates are in (or a reload has been
+   * checked), as far as the placement budget allows; the rest follows when the budget refills
+   */
+  private flushDrawQueue(): void {
+    if (this.drawQueueTimer) {
+      clearTimeout(this.drawQueueTimer);
+      this.drawQueueTimer = null;
+    }
+    if (this.drawQueue.length === 0 || !this.isConnected() || !this.session || this.isCatchingUp() || this.queueCheck !== null) return;
+
+    if (this.session.readOnly || this.isBanned()) {
+      this.dropAllQueuedPixels(this.session.readOnly ? 'the session is read-only' : 'you are banned from drawing');
+      return;
+    }
+
+    // Writable sessions get their budget right after the session; wait for it
+    if (!this.getCooldownState()) return;
+
+    let sent = 0;
+    while (this.drawQueue.length > 0 && (this.getCooldownState()?.remaining ?? 0) > 0) {
+      const pixel = this.drawQueue[0];
+      if (!this.sendDrawPixel(pixel)) break;
+      this.drawQueue.shift();
+      sent++;
+      this.handlers.onQueuedPixelSent?.(pixel.requestId);
+    }
+    if (sent > 0) {
+      console.log(`📤 Sent ${sent} queued pixels (${this.drawQueue.length} still queued)`);
+    }
+
+    if (this.drawQueue.length > 0) {
+      this.drawQueueTimer = window.setTimeout(() => this.flushDrawQueue(), Math.max(this.getCooldownRemainingMs(), 100));
+    }
+  }
+
+  /**
+   * Check if a resumed connection is still receiving the updates it missed
+   */
+  private isCatchingUp(): boolean {
+    return this.isResuming || (this.session !== null && this.lastSeq !== null && this.lastSeq < this.session.seq);
+  }
+
+  /**
+   * Queued placements were made against an older canvas; the ones another user
+   * has painted over since are dropped instead of overwriting the newer pixel
+   */
+  private dropConflictingQueuedPixels(pixels: Array<{ x: number; y: number; userId: string }>): void {
+    const userId = this.session?.userId;
+    const painted = new Set(pixels.filter(pixel => pixel.userId !== userId).map(pixel => `${pixel.x},${pixel.y}`));
+    const conflicting = this.drawQueue.filter(pixel => painted.has(`${pixel.x},${pixel.y}`));
+    if (conflicting.length === 0) return;
+
+    this.drawQueue = this.drawQueue.filter(pixel => !painted.has(`${pixel.x},${pixel.y}`));
+    this.dropQueuedPixels(
+      conflicting.map(pixel => pixel.requestId),
+      `${conflicting.length} queued pixels were not placed because someone else painted there in the meantime`
+    );
+  }
+
+  private dropAllQueuedPixels(reason: string): void {
+    const requestIds = this.drawQueue.map(pixel => pixel.requestId);
+    this.drawQueue = [];
+    this.dropQueuedPixels(requestIds, `${requestIds.length} queued pixels were discarded because ${reason}`);
+  }
+
+  private dropQueuedPixels(requestIds: number[], reason: string): void {
+    console.warn(`🗑️ Dropped ${requestIds.length} queued pixels: ${reason}`);
+    this.handlers.onQueuedPixelsDropped?.(requestIds, reason);
+  }
+
+  /**
+   * Spend tokens locally until the server confirms the new budget
+   */
+  private consumeCooldownToken(count = 1): void {
+    const state = this.getCooldownState();
+    if (!state) return;
+
+    const remaining = Math.max(0, state.remaining - count);
+    this.cooldown = {
+      payload: {
+        remaining,
+        capacity: state.capacity,
+        refillIntervalMs: state.refillIntervalMs,
+        retryAfterMs: remaining > 0 ? 0 : state.refillIntervalMs,
+        nextAllowedAt: 0,
+      },
+      receivedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Handle BANNED messages
+   */
+  private handleBanned(message: BannedMessage): void {
+    console.warn(`🔨 Banned until ${message.payload.expiresAt ?? 'further notice'}: ${message.payload.reason}`);
+    this.setSanction('ban', message.payload);
+  }
+
+  /**
+   * Handle MUTED messages
+   */
+  private handleMuted(message: MutedMessage): void {
+    console.warn(`🔇 Muted until ${message.payload.expiresAt ?? 'further notice'}: ${message.payload.reason}`);
+    this.setSanction('mute', message.payload);
+  }
+
+  /**
+   * Handle SANCTION_LIFTED messages
+   */
+  private handleSanctionLifted(message: SanctionLiftedMessage): void {
+    console.log(`🕊️ ${message.payload.type} lifted`);
+    this.setSanction(message.payload.type, null);
+  }
+
+  /**
+   * Store a ban or mute, clear it again when it expires, and notify handlers
+   */
+  private setSanction(type: keyof SanctionState, sanction: SanctionPayload | null): void {
+    const timer = this.sanctionExpiryTimers[type];
+    if (timer) {
+      clearTimeout(timer);
+      this.sanctionExpiryTimers[type] = null;
+    }
+
+    if (sanction?.expiresAt) {
+      const remainingMs = new Date(sanction.expiresAt).getTime() - Date.now();
+      if (remainingMs <= 0) {
+        sanction = null;
+      } else {
+        // Re-checked when the timer fires, as timers cannot wait longer than ~24.8 days
+        const expiring = sanction;
+        this.sanctionExpiryTimers[type] = window.setTimeout(() => {
+          this.sanctionExpiryTimers[type] = null;
+          this.setSanction(type, expiring);
+        }, Math.min(remainingMs, 2 ** 31 - 1));
+      }
+    }
+
+    this.sanctions = { ...this.sanctions, [type]: sanction };
+    this.handlers.onSanctionChange?.(this.sanctions);
+  }
+
+  /**
+   * Handle CHAT_HISTORY messages
+   */
+  private handleChatHistory(message: ChatHistoryMessage): void {
+    console.log(`💬 Received ${message.payload.messages.length} chat messages of history`);
+    this.handlers.onChatHistory?.(message.payload);
+  }
+
+  /**
+   * Handle CHAT_MESSAGE messages
+   */
+  private handleChatMessage(message: ChatBroadcastMessage): void {
+    this.handlers.onChatMessage?.(message.payload);
+  }
+
+  /**
+   * Handle CHAT_DELETE messages
+   */
+  private handleChatDelete(message: ChatDeleteMessage): void {
+    console.log(`🗑️ Chat message ${message.payload.id} was deleted by a moderator`);
+    this.handlers.onChatDelete?.(message.payload.id);
+  }
+
+  /**
+   * Handle CHAT_SETTINGS messages
+   */
+  private handleChatSettings(message: ChatSettingsMessage): void {
+    console.log(`💬 Chat settings: slow mode ${message.payload.slowModeMs}ms`);
+    this.handlers.onChatSettings?.(message.payload);
+  }
+
+  /**
+   * Handle DRAW_PIXEL_ACK messages (the pixel arrives with the next PIXEL_UPDATE)
+   */
+  private handleDrawPixelAck(message: DrawPixelAckMessage): void {
+    this.handlers.onDrawPixelAck?.(message.payload);
+  }
+
+  /**
+   * Handle DRAW_PIXELS_ACK messages (the pixels arrive with the next PIXEL_UPDATE)
+   */
+  private handleDrawPixelsAck(message: DrawPixelsAckMessage): void {
+    console.log(`✅ Batch ${message.payload.batchId} placed ${message.payload.count} pixels`);
+    this.handlers.onDrawPixelsAck?.(message.payload);
+  }
+
+  /**
+   * Handle DRAW_PIXELS_REJECTED messages; nothing of the batch was placed
+   */
+  private handleDrawPixelsRejected(message: DrawPixelsRejectedMessage): void {
+    const { batchId, code, index } = message.payload;
+    console.warn(`⚠️ Batch ${batchId} rejected (${code}${index !== null ? ` at pixel ${index}` : ''}): ${message.payload.message}`);
+    this.handlers.onDrawPixelsRejected?.(message.payload);
+  }
+
+  /**
+   * Handle ERROR messages
+   */
+  private handleServerError(message: ErrorMessage): void {
+    console.warn(`⚠️ Server error (${message.payload.code}): ${message.payload.message}`);
+    this.handlers.onServerError?.(message.payload);
   }
 
   /**
@@ -361,6 +1094,11 @@ export class WebSocketService {
       clearInterval(this.heartbeatTimer);
       this.heartbeatTimer = null;
     }
+
+    if (this.drawQueueTimer) {
+      clearTimeout(this.drawQueueTimer);
+      this.drawQueueTimer = null;
+    }
   }
 
   /**
@@ -369,6 +1107,8 @@ export class WebSocketService {
   public destroy(): void {
     console.log('🗑️ Destroying WebSocket service');
     this.disconnect();
+    this.drawQueue = [];
+    Object.values(this.sanctionExpiryTimers).forEach(timer => timer && clearTimeout(timer));
     this.handlers = {};
   }
 }
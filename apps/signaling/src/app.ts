@@ -58,6 +58,23 @@ export class SignalingApp {
       });
     });
 
+    // Sent by the backend when a user's ban or mute changes; sanctions are re-read from the backend
+    this.app.post('/api/sanctions/refresh', (req, res) => {
+      const userId = req.body?.userId;
+      if (typeof userId !== 'string' || userId === '') {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'userId is required'
+        });
+        return;
+      }
+
+      this.signalingService.refreshSanctions(userId).catch((error) => {
+        console.error(`❌ Failed to refresh the sanctions of ${userId}:`, error);
+      });
+      res.status(202).json({ userId });
+    });
+
     // Default route
     this.app.get('/', (req, res) => {
       res.json({
@@ -6,13 +6,22 @@ import {
   LeaveRoomMessage,
   OfferMessage,
   AnswerMessage,
-  IceCandidateMessage 
+  IceCandidateMessage,
+  GetCurrentUserResponse,
+  PeerJoinedPayload,
+  RoomPeersPayload,
+  JoinRefusedPayload,
+  PeerMutedPayload
 } from '@libs/common-types';
 
+// Backend that knows the users' bans and mutes
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:3001';
+
 interface ClientInfo {
   id: string;
   roomId?: string;
   userId?: string;
+  muted?: boolean; // Peers drop chat messages from muted users
 }
 
 interface Room {
@@ -71,7 +80,9 @@ export class SignalingService {
 
     switch (message.type) {
       case 'join-room':
-        this.handleJoinRoom(clientId, message);
+        this.handleJoinRoom(clientId, message).catch((error) => {
+          console.error(`❌ Failed to join room for client ${clientId}:`, error);
+        });
         break;
       case 'leave-room':
         this.handleLeaveRoom(clientId, message);
@@ -90,8 +101,36 @@ export class SignalingService {
     }
   }
 
-  private handleJoinRoom(clientId: string, message: JoinRoomMessage): void {
+  /**
+   * Look up the user behind a socket through its session cookie.
+   * Returns the reason to refuse the join for sockets without a valid session, and
+   * when the backend cannot be reached (bans cannot be checked, so nobody gets in).
+   */
+  private async fetchSessionUser(clientId: string): Promise<{ user: GetCurrentUserResponse } | { refusal: string }> {
+    const cookie = this.io.sockets.sockets.get(clientId)?.handshake.headers.cookie;
+    if (!cookie) {
+      return { refusal: 'A valid session is required to join' };
+    }
+
+    try {
+      const response = await fetch(`${BACKEND_URL}/api/users/me`, { headers: { cookie } });
+      if (response.status >= 500) {
+        console.warn(`⚠️ Could not check the sanctions of client ${clientId}: backend answered ${response.status}`);
+        return { refusal: 'Sessions cannot be checked right now, try again later' };
+      }
+      if (!response.ok) {
+        return { refusal: 'A valid session is required to join' };
+      }
+      return { user: await response.json() as GetCurrentUserResponse };
+    } catch (error) {
+      console.warn(`⚠️ Could not check the sanctions of client ${clientId}:`, error);
+      return { refusal: 'Sessions cannot be checked right now, try again later' };
+    }
+  }
+
+  private async handleJoinRoom(clientId: string, message: JoinRoomMessage): Promise<void> {
     const { roomId } = message.payload;
+    const session = await this.fetchSessionUser(clientId);
     const client = this.clients.get(clientId);
     
     if (!client) {
@@ -99,6 +138,35 @@ export class SignalingService {
       return;
     }
 
+    // Only verified users that are not banned may reach anyone over WebRTC
+    if ('refusal' in session) {
+      console.log(`🚫 Refused room ${roomId} to ${clientId}: ${session.refusal}`);
+      const refusal: JoinRefusedPayload = {
+        roomId,
+        reason: session.refusal,
+        banned: false,
+        expiresAt: null,
+      };
+      this.io.to(clientId).emit('join-refused', refusal);
+      return;
+    }
+
+    const { user } = session;
+    if (user.ban) {
+      console.log(`🔨 Refused room ${roomId} to banned user ${user.userId} (${clientId})`);
+      const refusal: JoinRefusedPayload = {
+        roomId,
+        reason: user.ban.reason,
+        banned: true,
+        expiresAt: user.ban.expiresAt,
+      };
+      this.io.to(clientId).emit('join-refused', refusal);
+      return;
+    }
+
+    client.userId = user.userId;
+    client.muted = !!user.mute;
+
     // Leave current room if any
     if (client.roomId) {
       this.removeClientFromRoom(clientId, client.roomId);
@@ -124,17 +192,62 @@ export class SignalingService {
     console.log(`🏠 Client ${clientId} joined room ${roomId} (${room.clients.size} clients)`);
 
     // Notify other clients in the room about the new peer
-    this.io.to(roomId).except(clientId).emit('peer-joined', {
+    const peerJoined: PeerJoinedPayload = {
       peerId: clientId,
-      roomId: roomId
-    });
+      roomId: roomId,
+      muted: !!client.muted
+    };
+    this.io.to(roomId).except(clientId).emit('peer-joined', peerJoined);
 
     // Send current peers to the joining client
     const otherClients = Array.from(room.clients).filter(id => id !== clientId);
-    this.io.to(clientId).emit('room-peers', {
+    const roomPeers: RoomPeersPayload = {
       roomId: roomId,
-      peers: otherClients
-    });
+      peers: otherClients,
+      mutedPeers: otherClients.filter(id => this.clients.get(id)?.muted)
+    };
+    this.io.to(clientId).emit('room-peers', roomPeers);
+  }
+
+  /**
+   * Re-check the sockets of a user whose ban or mute changed: a mute is announced to
+   * the room right away, and a ban (or a session that no longer checks out) removes them
+   */
+  public async refreshSanctions(userId: string): Promise<void> {
+    const clientIds = Array.from(this.clients.values())
+      .filter(client => client.userId === userId && client.roomId)
+      .map(client => client.id);
+
+    await Promise.all(clientIds.map(async (clientId) => {
+      const session = await this.fetchSessionUser(clientId);
+      const client = this.clients.get(clientId);
+      if (!client?.roomId) return;
+      const roomId = client.roomId;
+
+      if ('refusal' in session) {
+        this.expelFromRoom(clientId, { roomId, reason: session.refusal, banned: false, expiresAt: null });
+        return;
+      }
+      const { user } = session;
+      if (user.ban) {
+        this.expelFromRoom(clientId, { roomId, reason: user.ban.reason, banned: true, expiresAt: user.ban.expiresAt });
+        return;
+      }
+
+      const muted = !!user.mute;
+      if (muted === !!client.muted) return;
+
+      client.muted = muted;
+      console.log(`🔇 ${userId} (${clientId}) is ${muted ? 'now muted' : 'no longer muted'} in room ${roomId}`);
+      const peerMuted: PeerMutedPayload = { peerId: clientId, roomId, muted };
+      this.io.to(roomId).except(clientId).emit('peer-muted', peerMuted);
+    }));
+  }
+
+  private expelFromRoom(clientId: string, refusal: JoinRefusedPayload): void {
+    console.log(`🚫 Removed ${clientId} from room ${refusal.roomId}: ${refusal.reason}`);
+    this.io.to(clientId).emit('join-refused', refusal);
+    this.removeClientFromRoom(clientId, refusal.roomId);
   }
 
   private handleLeaveRoom(clientId: string, message: LeaveRoomMessage): void {
@@ -16,6 +16,7 @@ echo "VITE_WS_URL: ${VITE_WS_URL}"
 echo "VITE_SIGNALING_URL: ${VITE_SIGNALING_URL}"
 echo "VITE_SENTRY_DSN: ${VITE_SENTRY_DSN}"
 echo "VITE_DEBUG_PANELS: ${VITE_DEBUG_PANELS}"
+echo "VITE_MAX_TOOL_PIXELS: ${VITE_MAX_TOOL_PIXELS}"
 echo "---------------------------"
 
 echo "Replacing placeholders in $INDEX_HTML..."
@@ -28,6 +29,7 @@ sed -i \
     -e "s|__VITE_SIGNALING_URL__|${VITE_SIGNALING_URL}|g" \
     -e "s|__VITE_SENTRY_DSN__|${VITE_SENTRY_DSN}|g" \
     -e "s|__VITE_DEBUG_PANELS__|${VITE_DEBUG_PANELS}|g" \
+    -e "s|__VITE_MAX_TOOL_PIXELS__|${VITE_MAX_TOOL_PIXELS}|g" \
     "$INDEX_HTML"
 
 echo "Replacement complete. Verifying content:"
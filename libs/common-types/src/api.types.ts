@@ -1,4 +1,5 @@
 // REST API types for the Infinite Pixel Canvas project
+import { ChatMessageData } from './webrtc.types';
 
 // User creation endpoint types
 export interface CreateUserRequest {
@@ -12,10 +13,15 @@ export interface CreateUserResponse {
 }
 
 // Current user endpoint types
+export type UserRole = 'user' | 'moderator' | 'admin'; // Each role includes the ones before it
+
 export interface GetCurrentUserResponse {
   userId: string;
   nickname: string;
   color: string;
+  role: UserRole;
+  ban: SanctionInfo | null; // Active ban, if any
+  mute: SanctionInfo | null; // Active mute, if any
 }
 
 // Pixel fetch endpoint types
@@ -45,6 +51,217 @@ export interface GetPixelsInRegionResponse {
   pixels: PixelData[];
 }
 
+// Pixel history / time-travel endpoint types
+export interface PixelEventData {
+  x: number;
+  y: number;
+  color: string;
+  userId: string;
+  timestamp: string; // ISO 8601
+}
+
+export interface GetCanvasSnapshotRequest {
+  at: string; // ISO 8601 or ms since epoch
+}
+
+export interface GetCanvasSnapshotResponse {
+  at: string;
+  pixels: PixelData[];
+}
+
+export interface GetPixelHistoryRequest {
+  x: number;
+  y: number;
+  limit?: number;
+  before?: string; // nextBefore of the previous page, or only events strictly before this timestamp
+}
+
+export interface GetPixelHistoryResponse {
+  x: number;
+  y: number;
+  events: PixelEventData[]; // Newest first
+  nextBefore: string | null; // Opaque cursor; pass as `before` to fetch older events
+}
+
+export interface GetPixelEventsRequest {
+  from: string;
+  to: string;
+  limit?: number;
+  cursor?: string; // Opaque cursor from a previous page
+}
+
+export interface GetPixelEventsResponse {
+  from: string;
+  to: string;
+  events: PixelEventData[]; // Oldest first
+  nextCursor: string | null;
+}
+
+// Canvas image export endpoint types (response is image/png)
+export interface GetCanvasImageRequest {
+  minX?: number; // Region defaults to the whole canvas
+  minY?: number;
+  maxX?: number;
+  maxY?: number;
+  scale?: number; // Output pixels per canvas pixel (default 1)
+  at?: string; // ISO 8601 or ms since epoch; defaults to the current state
+  background?: string; // "#RRGGBB" or "RRGGBB"; transparent when omitted
+}
+
+// Board endpoint types
+export type BoardVisibility = 'public' | 'unlisted'; // Unlisted boards are reachable by ID but not listed
+
+export interface BoardInfo {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  palette: string[]; // "#RRGGBB" colors; empty when any color is allowed
+  visibility: BoardVisibility;
+}
+
+export interface GetBoardsResponse {
+  boards: BoardInfo[];
+}
+
+export interface GetBoardResponse {
+  board: BoardInfo;
+}
+
+export interface GetPaletteResponse {
+  boardId: string;
+  colors: string[]; // "#RRGGBB" colors allowed on the board
+  locked: boolean; // false when any color is allowed (colors is then empty)
+}
+
+// Protected region endpoint types
+export type ProtectedRegionShape =
+  | { type: 'rect'; minX: number; minY: number; maxX: number; maxY: number } // Inclusive pixel coordinates
+  | { type: 'polygon'; points: Array<{ x: number; y: number }> }; // Vertices on pixel grid lines
+
+export interface ProtectedRegionOwner {
+  userId: string;
+  nickname: string | null; // null when the user no longer exists
+}
+
+export interface ProtectedRegionInfo {
+  id: string;
+  boardId: string;
+  name: string;
+  shape: ProtectedRegionShape;
+  allowedUsers: ProtectedRegionOwner[]; // Users who may paint inside
+  allowedRoles: UserRole[]; // Roles (and the roles above them) that may paint inside
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface GetProtectedRegionsResponse {
+  boardId: string;
+  regions: ProtectedRegionInfo[];
+}
+
+export interface CreateProtectedRegionRequest {
+  name: string;
+  shape: ProtectedRegionShape;
+  allowedUserIds?: string[];
+  allowedRoles?: UserRole[];
+}
+
+export type UpdateProtectedRegionRequest = Partial<CreateProtectedRegionRequest>;
+
+export interface ProtectedRegionResponse {
+  region: ProtectedRegionInfo;
+}
+
+// Chat history endpoint types
+export interface GetChatHistoryRequest {
+  limit?: number;
+  before?: string; // Only messages strictly before this timestamp
+  cursor?: string; // nextCursor of the previous page
+}
+
+export interface GetChatHistoryResponse {
+  boardId: string;
+  messages: ChatMessageData[]; // Oldest first
+  nextCursor: string | null; // Pass as `cursor` to fetch older messages
+}
+
+// Admin chat moderation endpoint types
+export interface SetSlowModeRequest {
+  intervalMs: number; // Minimum time between two messages of a user; 0 turns slow mode off
+}
+
+export interface SetSlowModeResponse {
+  boardId: string;
+  intervalMs: number;
+}
+
+// Admin role endpoint types
+export interface SetUserRoleRequest {
+  role: UserRole;
+}
+
+export interface SetUserRoleResponse {
+  userId: string;
+  role: UserRole;
+}
+
+// Admin sanction (ban / mute) endpoint types
+export type SanctionType = 'ban' | 'mute'; // Bans block drawing and chat, mutes only block chat
+
+export interface SanctionInfo {
+  id: string;
+  userId: string;
+  type: SanctionType;
+  reason: string;
+  expiresAt: string | null; // ISO 8601; null for permanent sanctions
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface CreateSanctionRequest {
+  userId: string;
+  type: SanctionType;
+  reason: string;
+  durationMs?: number; // Permanent when omitted
+}
+
+export interface CreateSanctionResponse {
+  sanction: SanctionInfo;
+}
+
+export interface GetSanctionsRequest {
+  userId?: string; // Only this user's sanctions
+}
+
+export interface GetSanctionsResponse {
+  sanctions: SanctionInfo[]; // Active sanctions, newest first
+}
+
+// Admin rollback endpoint types
+export interface RollbackRequest {
+  userId?: string; // Revert this user's placements
+  region?: { minX: number; minY: number; maxX: number; maxY: number }; // Inclusive canvas rectangle
+  from?: string; // Time window (ISO 8601 or ms since epoch); required with region
+  to?: string;
+  dryRun?: boolean; // Only report what would change
+}
+
+export interface RollbackPixelChange {
+  x: number;
+  y: number;
+  color: string; // Current color
+  restoredColor: string | null; // Color after the rollback; null when the coordinate becomes empty
+}
+
+export interface RollbackResponse {
+  boardId: string;
+  dryRun: boolean;
+  events: number; // Placements reverted
+  pixels: number; // Coordinates whose pixel changes
+  preview: RollbackPixelChange[]; // First changes, up to ROLLBACK_PREVIEW_LIMIT
+}
+
 // Health check endpoint types
 export interface HealthCheckResponse {
   status: string;
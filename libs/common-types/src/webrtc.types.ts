@@ -69,9 +69,40 @@ export interface CursorUpdateData {
 }
 
 export interface ChatMessageData {
+  id: string; // Picked by the sender; the same message can arrive over WebRTC and from the server
   userId: string;
   nickname: string;
   message: string;
-  timestamp: number;
+  timestamp: number; // ms since epoch; set by the server for stored messages
   color?: string; // User's color for consistent display
+  replyTo: string | null; // ID of the message this one answers
+  mentions: string[]; // @nicknames mentioned in the message (see parseMentions)
+}
+
+// Room events sent by the signaling service
+export interface PeerJoinedPayload {
+  peerId: string;
+  roomId: string;
+  muted: boolean; // Chat messages from muted peers are dropped
+}
+
+export interface RoomPeersPayload {
+  roomId: string;
+  peers: string[];
+  mutedPeers: string[]; // Subset of peers that are muted
+}
+
+// Sent to the room when a peer is muted or unmuted after joining it
+export interface PeerMutedPayload {
+  peerId: string;
+  roomId: string;
+  muted: boolean;
+}
+
+// Sent instead of room-peers when a banned user, or a user whose session cannot be verified, tries to join
+export interface JoinRefusedPayload {
+  roomId: string;
+  reason: string;
+  banned: boolean; // false when the session is missing or could not be checked
+  expiresAt: string | null; // ISO 8601; null for permanent bans (and refusals that are no ban)
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 // WebSocket message types for the Backend Service
+import { ChatMessageData } from './webrtc.types';
 
 // Base message structure
 export interface WebSocketMessage<T = any> {
@@ -11,6 +12,7 @@ export interface DrawPixelPayload {
   x: number;
   y: number;
   color: string;
+  requestId?: number; // Client-chosen uint32, echoed in DRAW_PIXEL_ACK or the rejection
 }
 
 export interface DrawPixelMessage extends WebSocketMessage<DrawPixelPayload> {
@@ -18,19 +20,56 @@ export interface DrawPixelMessage extends WebSocketMessage<DrawPixelPayload> {
   payload: DrawPixelPayload;
 }
 
+// Places several pixels at once; the server accepts or rejects the whole batch
+export interface DrawPixelsPayload {
+  batchId: string; // Picked by the client, echoed in the reply
+  pixels: DrawPixelPayload[]; // Distinct coordinates, one placement token each
+  undo?: boolean; // Restores colors the sender's own latest placements overwrote
+}
+
+export interface DrawPixelsMessage extends WebSocketMessage<DrawPixelsPayload> {
+  type: 'DRAW_PIXELS';
+  payload: DrawPixelsPayload;
+}
+
 export interface KeepalivePongMessage extends WebSocketMessage {
   type: 'KEEPALIVE_PONG';
 }
 
+// Sent after reconnecting to request the updates missed since lastSeq
+export interface ResumePayload {
+  lastSeq: number; // Sequence number of the last PIXEL_UPDATE the client applied
+  epoch: string; // Server run lastSeq belongs to, from SESSION
+}
+
+export interface ResumeMessage extends WebSocketMessage<ResumePayload> {
+  type: 'RESUME';
+  payload: ResumePayload;
+}
+
+// Stored and relayed to everyone on the board
+export interface ChatSendPayload {
+  id: string; // Same ID as the WebRTC mirror of the message
+  message: string;
+  replyTo?: string; // ID of a stored message on the same board
+}
+
+export interface ChatSendMessage extends WebSocketMessage<ChatSendPayload> {
+  type: 'CHAT_SEND';
+  payload: ChatSendPayload;
+}
+
 // Server-to-Client message types
 export interface PixelUpdateData {
   x: number;
   y: number;
   color: string;
   userId: string;
+  erased?: boolean; // The coordinate was emptied by a rollback (color is then meaningless)
 }
 
 export interface PixelUpdatePayload {
+  seq: number; // Increases by one with every broadcast batch
   pixels: PixelUpdateData[];
 }
 
@@ -47,6 +86,198 @@ export interface KeepalivePingMessage extends WebSocketMessage {
   type: 'KEEPALIVE_PING';
 }
 
+// Sent once after the connection is established
+export interface SessionPayload {
+  boardId: string; // Board the connection is subscribed to
+  userId: string | null; // null for anonymous (read-only) connections
+  readOnly: boolean;
+  seq: number; // Sequence number of the latest broadcast batch of the board
+  epoch: string; // Identifies the server run; sequence numbers restart with a new one
+  maxBatchSize: number; // Most pixels a single DRAW_PIXELS message may carry
+}
+
+export interface SessionMessage extends WebSocketMessage<SessionPayload> {
+  type: 'SESSION';
+  payload: SessionPayload;
+}
+
+// Placement budget of the current user (per-user token bucket)
+export interface CooldownPayload {
+  remaining: number; // Placements available right now
+  capacity: number; // Maximum burst size
+  refillIntervalMs: number; // Time to regain a single placement
+  retryAfterMs: number; // Time until the next placement is allowed (0 if allowed now)
+  nextAllowedAt: number; // Server time (ms since epoch) of the next allowed placement
+}
+
+// Sent on connect and after every accepted placement
+export interface CooldownMessage extends WebSocketMessage<CooldownPayload> {
+  type: 'COOLDOWN';
+  payload: CooldownPayload;
+}
+
+export interface RateLimitedPayload extends CooldownPayload {
+  x: number;
+  y: number;
+  requestId?: number; // Echoed from the rejected DRAW_PIXEL
+}
+
+// Sent when a placement is rejected because the bucket is empty
+export interface RateLimitedMessage extends WebSocketMessage<RateLimitedPayload> {
+  type: 'RATE_LIMITED';
+  payload: RateLimitedPayload;
+}
+
+// Active ban or mute of the current user
+export interface SanctionPayload {
+  reason: string;
+  expiresAt: string | null; // ISO 8601; null for permanent sanctions
+}
+
+// Sent on connect while banned, when a ban is issued, and in reply to placements while banned
+export interface BannedMessage extends WebSocketMessage<SanctionPayload> {
+  type: 'BANNED';
+  payload: SanctionPayload;
+}
+
+// Sent on connect while muted and when a mute is issued
+export interface MutedMessage extends WebSocketMessage<SanctionPayload> {
+  type: 'MUTED';
+  payload: SanctionPayload;
+}
+
+export interface SanctionLiftedPayload {
+  type: 'ban' | 'mute';
+}
+
+// Sent when a moderator lifts a ban or mute (expiry is left to the client)
+export interface SanctionLiftedMessage extends WebSocketMessage<SanctionLiftedPayload> {
+  type: 'SANCTION_LIFTED';
+  payload: SanctionLiftedPayload;
+}
+
+// Sent to everyone on the board (including the sender) once a message is stored
+export interface ChatBroadcastMessage extends WebSocketMessage<ChatMessageData> {
+  type: 'CHAT_MESSAGE';
+  payload: ChatMessageData;
+}
+
+export interface ChatHistoryPayload {
+  messages: ChatMessageData[]; // Latest messages of the board, oldest first
+  nextCursor: string | null; // Pass as `cursor` to GET /api/chat for older messages
+}
+
+// Sent once after the connection is established
+export interface ChatHistoryMessage extends WebSocketMessage<ChatHistoryPayload> {
+  type: 'CHAT_HISTORY';
+  payload: ChatHistoryPayload;
+}
+
+export interface ChatDeletePayload {
+  id: string; // ID of the removed message
+}
+
+// Sent to everyone on the board when a moderator deletes a message
+export interface ChatDeleteMessage extends WebSocketMessage<ChatDeletePayload> {
+  type: 'CHAT_DELETE';
+  payload: ChatDeletePayload;
+}
+
+// Chat rules of the board, so clients can respect them before sending
+export interface ChatSettingsPayload {
+  slowModeMs: number; // Minimum time between two messages of a user (0 when off; moderators are exempt)
+  rateLimit: {
+    capacity: number; // Messages that can be sent back-to-back
+    windowMs: number; // Time for a fully drained budget to refill
+  };
+  blockedWords: string[]; // Masked with asterisks, also in messages received over WebRTC
+}
+
+// Sent on connect and whenever a moderator changes the slow mode
+export interface ChatSettingsMessage extends WebSocketMessage<ChatSettingsPayload> {
+  type: 'CHAT_SETTINGS';
+  payload: ChatSettingsPayload;
+}
+
+export type ErrorCode =
+  | 'INVALID_MESSAGE'
+  | 'INVALID_PIXEL'
+  | 'COLOR_NOT_IN_PALETTE'
+  | 'UNAUTHENTICATED'
+  | 'USER_BANNED'
+  | 'USER_MUTED'
+  | 'CHAT_RATE_LIMITED'
+  | 'CHAT_SLOW_MODE'
+  | 'REGION_PROTECTED'
+  | 'PIXEL_RATE_LIMITED'
+  | 'BATCH_TOO_LARGE'
+  | 'UNDO_CONFLICT'
+  | 'INTERNAL_ERROR';
+
+export interface ErrorPayload {
+  message: string;
+  code: ErrorCode;
+  chatMessageId?: string; // Set when a chat message was rejected
+  requestId?: number; // Set when a DRAW_PIXEL with a request ID was rejected
+}
+
+export interface ErrorMessage extends WebSocketMessage<ErrorPayload> {
+  type: 'ERROR';
+  payload: ErrorPayload;
+}
+
+// Sent when a DRAW_PIXEL with a request ID was placed
+export interface DrawPixelAckPayload {
+  requestId: number;
+}
+
+export interface DrawPixelAckMessage extends WebSocketMessage<DrawPixelAckPayload> {
+  type: 'DRAW_PIXEL_ACK';
+  payload: DrawPixelAckPayload;
+}
+
+// Sent when every pixel of a DRAW_PIXELS batch was placed
+export interface DrawPixelsAckPayload {
+  batchId: string;
+  count: number; // Pixels placed
+}
+
+export interface DrawPixelsAckMessage extends WebSocketMessage<DrawPixelsAckPayload> {
+  type: 'DRAW_PIXELS_ACK';
+  payload: DrawPixelsAckPayload;
+}
+
+// Sent when a DRAW_PIXELS batch was rejected; none of its pixels were placed
+export interface DrawPixelsRejectedPayload {
+  batchId: string | null; // null when the message had no valid batch ID
+  code: ErrorCode;
+  message: string;
+  index: number | null; // Position of the offending pixel in the batch; null when the batch as a whole failed
+  pixel: DrawPixelPayload | null;
+}
+
+export interface DrawPixelsRejectedMessage extends WebSocketMessage<DrawPixelsRejectedPayload> {
+  type: 'DRAW_PIXELS_REJECTED';
+  payload: DrawPixelsRejectedPayload;
+}
+
 // Union types for type safety
-export type ClientMessage = DrawPixelMessage | KeepalivePongMessage;
-export type ServerMessage = PixelUpdateMessage | ReloadCanvasMessage | KeepalivePingMessage;
\ No newline at end of file
+export type ClientMessage = DrawPixelMessage | DrawPixelsMessage | KeepalivePongMessage | ResumeMessage | ChatSendMessage;
+export type ServerMessage =
+  | PixelUpdateMessage
+  | ReloadCanvasMessage
+  | KeepalivePingMessage
+  | SessionMessage
+  | CooldownMessage
+  | RateLimitedMessage
+  | BannedMessage
+  | MutedMessage
+  | SanctionLiftedMessage
+  | ChatBroadcastMessage
+  | ChatHistoryMessage
+  | ChatDeleteMessage
+  | ChatSettingsMessage
+  | DrawPixelAckMessage
+  | DrawPixelsAckMessage
+  | DrawPixelsRejectedMessage
+  | ErrorMessage;
\ No newline at end of file
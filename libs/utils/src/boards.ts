@@ -0,0 +1,42 @@
+/**
+ * Board identifiers, shared by backend and frontend.
+ * Every pixel belongs to a board; requests without a board use the main board.
+ */
+export const DEFAULT_BOARD_ID = 'main';
+
+// Board edges are stored as uint16 in the binary pixel formats
+export const MAX_BOARD_SIZE = 65535;
+
+/**
+ * Validates a board ID (used in URLs, so limited to lower-case slugs)
+ * @param boardId - Board ID to validate
+ * @returns true if the ID is 1-32 characters of a-z, 0-9 and dashes, not starting with a dash
+ */
+export function isValidBoardId(boardId: unknown): boardId is string {
+  return typeof boardId === 'string' && /^[a-z0-9][a-z0-9-]{0,31}$/.test(boardId);
+}
+
+/**
+ * Validates board dimensions
+ * @param width - Board width in pixels
+ * @param height - Board height in pixels
+ * @returns true if both are integers between 1 and MAX_BOARD_SIZE
+ */
+export function isValidBoardSize(width: number, height: number): boolean {
+  return [width, height].every(size => Number.isInteger(size) && size >= 1 && size <= MAX_BOARD_SIZE);
+}
+
+
+/**
+ * Checks a color against a board palette
+ * @param color - "#RRGGBB" color
+ * @param palette - Allowed colors; an empty palette allows any color
+ * @returns true if the color may be placed
+ */
+export function isColorInPalette(color: string, palette: string[]): boolean {
+  if (palette.length === 0) {
+    return true;
+  }
+  const normalized = color.toUpperCase();
+  return palette.some(entry => entry.toUpperCase() === normalized);
+}
\ No newline at end of file
@@ -0,0 +1,126 @@
+/**
+ * Chat message limits, shared by backend and frontend.
+ * Message IDs are picked by the sender so the WebRTC mirror and the server copy can be matched.
+ */
+export const MAX_CHAT_MESSAGE_LENGTH = 500;
+
+/**
+ * Validates a chat message ID
+ * @param id - Message ID to validate
+ * @returns true if the ID is 8-64 characters of letters, digits, dashes and underscores
+ */
+export function isValidChatMessageId(id: unknown): id is string {
+  return typeof id === 'string' && /^[A-Za-z0-9_-]{8,64}$/.test(id);
+}
+
+/**
+ * Normalizes chat message text
+ * @param message - Text typed by the user
+ * @returns The trimmed text, or null when it is empty or longer than MAX_CHAT_MESSAGE_LENGTH
+ */
+export function normalizeChatMessage(message: unknown): string | null {
+  if (typeof message !== 'string') {
+    return null;
+  }
+
+  const text = message.trim();
+  return text.length > 0 && text.length <= MAX_CHAT_MESSAGE_LENGTH ? text : null;
+}
+
+/**
+ * Masks blocked words in chat message text
+ * @param message - Message text
+ * @param blockedWords - Words to mask; matched case-insensitively as whole words
+ * @returns The text with every letter of a blocked word replaced by an asterisk
+ */
+export function maskBlockedWords(message: string, blockedWords: string[]): string {
+  const words = blockedWords.map(word => word.trim()).filter(word => word.length > 0);
+  if (words.length === 0) {
+    return message;
+  }
+
+  // Longest first, so a word is not shadowed by one of its prefixes
+  const alternatives = words
+    .sort((a, b) => b.length - a.length)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+
+  return message.replace(pattern, match => '*'.repeat(match.length));
+}
+
+// Mentions kept per message; nicknames are single PascalCase words
+export const MAX_CHAT_MENTIONS = 10;
+
+/**
+ * Parses @nickname mentions out of chat message text
+ * @param message - Message text
+ * @returns The mentioned nicknames in order of appearance, without duplicates (compared case-insensitively)
+ */
+export function parseMentions(message: string): string[] {
+  const mentions: string[] = [];
+  const seen = new Set<string>();
+
+  for (const match of message.matchAll(/(?<![\p{L}\p{N}_@])@([\p{L}\p{N}_-]{2,32})/gu)) {
+    const key = match[1].toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      mentions.push(match[1]);
+    }
+    if (mentions.length === MAX_CHAT_MENTIONS) break;
+  }
+
+  return mentions;
+}
+
+/**
+ * Checks whether a chat message mentions a nickname
+ * @param mentions - Mentions of the message (see parseMentions)
+ * @param nickname - Nickname to look for
+ * @returns true if the nickname is mentioned, ignoring case
+ */
+export function isMentioned(mentions: string[], nickname: string): boolean {
+  const key = nickname.toLowerCase();
+  return mentions.some(mention => mention.toLowerCase() === key);
+}
+
+export interface ChatCoordinateLink {
+  index: number; // Position of the link in the message text
+  text: string; // Matched text, e.g. "1234,567" or "1234,567,8x"
+  x: number;
+  y: number;
+  zoom: number | null; // Zoom (screen pixels per canvas pixel) when given
+}
+
+/**
+ * Finds canvas coordinates in chat message text, written as "x,y" with an optional zoom ("x,y,8x")
+ * @param message - Message text
+ * @returns The coordinates in order of appearance
+ */
+export function findCoordinateLinks(message: string): ChatCoordinateLink[] {
+  const links: ChatCoordinateLink[] = [];
+  const pattern = /(?<![\p{L}\p{N}_.,])(\d{1,6}), ?(\d{1,6})(?:, ?(\d{1,3}(?:\.\d{1,2})?)x)?(?![\p{L}\p{N}_]|[.,]\d)/gu;
+
+  for (const match of message.matchAll(pattern)) {
+    links.push({
+      index: match.index!,
+      text: match[0],
+      x: parseInt(match[1], 10),
+      y: parseInt(match[2], 10),
+      zoom: match[3] !== undefined ? parseFloat(match[3]) : null,
+    });
+  }
+
+  return links;
+}
+
+/**
+ * Formats canvas coordinates the way findCoordinateLinks reads them
+ * @param x - X coordinate
+ * @param y - Y coordinate
+ * @param zoom - Optional zoom, rounded to two decimals
+ * @returns e.g. "1234,567" or "1234,567,8x"
+ */
+export function formatCoordinateLink(x: number, y: number, zoom?: number): string {
+  const coordinates = `${Math.floor(x)},${Math.floor(y)}`;
+  return zoom !== undefined ? `${coordinates},${Math.round(zoom * 100) / 100}x` : coordinates;
+}
\ No newline at end of file
@@ -0,0 +1,120 @@
+/**
+ * Fixed-size chunk grid over a board, shared by backend and frontend.
+ * Chunk (cx, cy) covers canvas pixels [cx * CHUNK_SIZE, (cx + 1) * CHUNK_SIZE).
+ * Functions take the board dimensions and default to the 5000x5000 main board.
+ */
+export const CANVAS_SIZE = 5000;
+export const CHUNK_SIZE = 250;
+export const CHUNKS_PER_AXIS = Math.ceil(CANVAS_SIZE / CHUNK_SIZE);
+
+export interface ChunkBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Builds the map key of a chunk
+ * @param cx - Chunk column
+ * @param cy - Chunk row
+ * @returns Key in the form "cx,cy"
+ */
+export function getChunkKey(cx: number, cy: number): string {
+  return `${cx},${cy}`;
+}
+
+/**
+ * Counts the chunks along each axis of a board
+ * @param width - Board width
+ * @param height - Board height
+ * @returns Number of chunk columns and rows
+ */
+export function getChunkGridSize(width = CANVAS_SIZE, height = CANVAS_SIZE): { columns: number; rows: number } {
+  return { columns: Math.ceil(width / CHUNK_SIZE), rows: Math.ceil(height / CHUNK_SIZE) };
+}
+
+/**
+ * Validates chunk coordinates
+ * @param cx - Chunk column
+ * @param cy - Chunk row
+ * @param width - Board width
+ * @param height - Board height
+ * @returns true if the chunk lies on the board
+ */
+export function isValidChunkCoordinate(cx: number, cy: number, width = CANVAS_SIZE, height = CANVAS_SIZE): boolean {
+  const { columns, rows } = getChunkGridSize(width, height);
+  return (
+    Number.isInteger(cx) &&
+    Number.isInteger(cy) &&
+    cx >= 0 &&
+    cx < columns &&
+    cy >= 0 &&
+    cy < rows
+  );
+}
+
+/**
+ * Finds the chunk containing a canvas pixel
+ * @param x - X coordinate
+ * @param y - Y coordinate
+ * @returns Chunk column and row
+ */
+export function getChunkForPixel(x: number, y: number): { cx: number; cy: number } {
+  return { cx: Math.floor(x / CHUNK_SIZE), cy: Math.floor(y / CHUNK_SIZE) };
+}
+
+/**
+ * Gets the inclusive pixel bounds of a chunk, clipped to the board
+ * @param cx - Chunk column
+ * @param cy - Chunk row
+ * @param width - Board width
+ * @param height - Board height
+ * @returns Bounds of the chunk in canvas coordinates
+ */
+export function getChunkBounds(cx: number, cy: number, width = CANVAS_SIZE, height = CANVAS_SIZE): ChunkBounds {
+  return {
+    minX: cx * CHUNK_SIZE,
+    minY: cy * CHUNK_SIZE,
+    maxX: Math.min((cx + 1) * CHUNK_SIZE, width) - 1,
+    maxY: Math.min((cy + 1) * CHUNK_SIZE, height) - 1,
+  };
+}
+
+/**
+ * Lists the chunks overlapping a rectangle of canvas coordinates
+ * @param minX - Left edge (may be fractional or off-canvas)
+ * @param minY - Top edge
+ * @param maxX - Right edge
+ * @param maxY - Bottom edge
+ * @param width - Board width
+ * @param height - Board height
+ * @returns Chunks on the board that intersect the rectangle
+ */
+export function getChunksInRect(
+  minX: number,
+  minY: number,
+  maxX: number,
+  maxY: number,
+  width = CANVAS_SIZE,
+  height = CANVAS_SIZE
+): Array<{ cx: number; cy: number }> {
+  const chunks: Array<{ cx: number; cy: number }> = [];
+  if (maxX < 0 || maxY < 0 || minX >= width || minY >= height) {
+    return chunks;
+  }
+
+  const { columns, rows } = getChunkGridSize(width, height);
+  const clamp = (value: number, count: number) => Math.max(0, Math.min(count - 1, value));
+  const minCx = clamp(Math.floor(minX / CHUNK_SIZE), columns);
+  const minCy = clamp(Math.floor(minY / CHUNK_SIZE), rows);
+  const maxCx = clamp(Math.floor(maxX / CHUNK_SIZE), columns);
+  const maxCy = clamp(Math.floor(maxY / CHUNK_SIZE), rows);
+
+  for (let cy = minCy; cy <= maxCy; cy++) {
+    for (let cx = minCx; cx <= maxCx; cx++) {
+      chunks.push({ cx, cy });
+    }
+  }
+  return chunks;
+}
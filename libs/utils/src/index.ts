@@ -1,2 +1,8 @@
 // Main export file for utils library
-export * from './nameGenerator';
\ No newline at end of file
+export * from './nameGenerator';
+export * from './pixelCodec';
+export * from './chunks';
+export * from './wsCodec';
+export * from './boards';
+export * from './regions';
+export * from './chat';
\ No newline at end of file
@@ -55,15 +55,17 @@ export function isValidHexColor(color: string): boolean {
  * Validates canvas coordinates
  * @param x - X coordinate
  * @param y - Y coordinate
- * @returns true if coordinates are within the 5000x5000 canvas bounds
+ * @param width - Board width (defaults to the 5000x5000 main board)
+ * @param height - Board height
+ * @returns true if coordinates are within the board bounds
  */
-export function isValidCanvasCoordinate(x: number, y: number): boolean {
+export function isValidCanvasCoordinate(x: number, y: number, width = 5000, height = 5000): boolean {
   return (
     Number.isInteger(x) &&
     Number.isInteger(y) &&
     x >= 0 &&
-    x < 5000 &&
+    x < width &&
     y >= 0 &&
-    y < 5000
+    y < height
   );
 }
\ No newline at end of file
@@ -0,0 +1,87 @@
+/**
+ * Binary encoding of timestamped pixel events, shared by backend and frontend.
+ *
+ * Record layout (16 bytes, little-endian):
+ *   0-1  x (uint16)
+ *   2-3  y (uint16)
+ *   4-6  r, g, b (uint8)
+ *   7    flags (uint8, reserved)
+ *   8-15 timestamp in ms since epoch (float64)
+ */
+export const PIXEL_EVENT_RECORD_SIZE = 16;
+
+export interface EncodablePixelEvent {
+  x: number;
+  y: number;
+  color: string;
+  timestamp: number; // ms since epoch
+}
+
+/**
+ * Converts a "#RRGGBB" color to its RGB components
+ * @param color - Hex color string
+ * @returns Tuple of red, green and blue channel values (0-255)
+ */
+export function hexToRgb(color: string): [number, number, number] {
+  const value = parseInt(color.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Converts RGB components to an upper-case "#RRGGBB" color
+ * @param r - Red channel (0-255)
+ * @param g - Green channel (0-255)
+ * @param b - Blue channel (0-255)
+ * @returns Hex color string
+ */
+export function rgbToHex(r: number, g: number, b: number): string {
+  return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, '0').toUpperCase()}`;
+}
+
+/**
+ * Encodes pixel events into 16-byte records
+ * @param events - Events to encode, in the order they should be replayed
+ * @returns Buffer containing one record per event
+ */
+export function encodePixelEvents(events: EncodablePixelEvent[]): Uint8Array {
+  const bytes = new Uint8Array(events.length * PIXEL_EVENT_RECORD_SIZE);
+  const view = new DataView(bytes.buffer);
+
+  events.forEach((event, index) => {
+    const offset = index * PIXEL_EVENT_RECORD_SIZE;
+    const [r, g, b] = hexToRgb(event.color);
+
+    view.setUint16(offset, event.x, true);
+    view.setUint16(offset + 2, event.y, true);
+    view.setUint8(offset + 4, r);
+    view.setUint8(offset + 5, g);
+    view.setUint8(offset + 6, b);
+    view.setUint8(offset + 7, 0);
+    view.setFloat64(offset + 8, event.timestamp, true);
+  });
+
+  return bytes;
+}
+
+/**
+ * Decodes 16-byte pixel event records
+ * @param buffer - Binary data produced by encodePixelEvents
+ * @returns Decoded events; a trailing partial record is ignored
+ */
+export function decodePixelEvents(buffer: ArrayBuffer): EncodablePixelEvent[] {
+  const view = new DataView(buffer);
+  const count = Math.floor(buffer.byteLength / PIXEL_EVENT_RECORD_SIZE);
+  const events: EncodablePixelEvent[] = new Array(count);
+
+  for (let index = 0; index < count; index++) {
+    const offset = index * PIXEL_EVENT_RECORD_SIZE;
+    events[index] = {
+      x: view.getUint16(offset, true),
+      y: view.getUint16(offset + 2, true),
+      color: rgbToHex(view.getUint8(offset + 4), view.getUint8(offset + 5), view.getUint8(offset + 6)),
+      timestamp: view.getFloat64(offset + 8, true),
+    };
+  }
+
+  return events;
+}
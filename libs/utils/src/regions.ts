@@ -0,0 +1,110 @@
+/**
+ * Protected region shapes, shared by backend and frontend.
+ * A rectangle covers the pixels minX..maxX and minY..maxY (inclusive, like canvas coordinates).
+ * Polygon vertices lie on the pixel grid lines: a pixel belongs to the polygon when its center
+ * (x + 0.5, y + 0.5) is inside, so [(0,0), (10,0), (10,10), (0,10)] covers the same pixels
+ * as the rectangle 0..9 x 0..9.
+ */
+export interface RectRegionShape {
+  type: 'rect';
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface PolygonRegionShape {
+  type: 'polygon';
+  points: Array<{ x: number; y: number }>;
+}
+
+export type RegionShape = RectRegionShape | PolygonRegionShape;
+
+export const MAX_POLYGON_POINTS = 64;
+
+/**
+ * Validates a region shape against a board
+ * @param shape - Untrusted shape (e.g. from a request body)
+ * @param width - Board width
+ * @param height - Board height
+ * @returns An error message, or null if the shape is valid
+ */
+export function validateRegionShape(shape: unknown, width: number, height: number): string | null {
+  const candidate = (shape ?? {}) as Record<string, unknown>;
+  const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+  if (candidate.type === 'rect') {
+    const { minX, minY, maxX, maxY } = candidate;
+    if (
+      !isInteger(minX) || !isInteger(maxX) || !isInteger(minY) || !isInteger(maxY) ||
+      minX < 0 || maxX >= width || minY < 0 || maxY >= height
+    ) {
+      return 'rect coordinates must be integers inside the board';
+    }
+    if (minX > maxX || minY > maxY) {
+      return 'rect must have minX <= maxX and minY <= maxY';
+    }
+    return null;
+  }
+
+  if (candidate.type === 'polygon') {
+    const { points } = candidate;
+    if (!Array.isArray(points) || points.length < 3 || points.length > MAX_POLYGON_POINTS) {
+      return `polygon must have between 3 and ${MAX_POLYGON_POINTS} points`;
+    }
+    const valid = points.every(point =>
+      isInteger(point?.x) && point.x >= 0 && point.x <= width &&
+      isInteger(point?.y) && point.y >= 0 && point.y <= height
+    );
+    return valid ? null : 'polygon points must be integer grid coordinates inside the board';
+  }
+
+  return 'shape type must be rect or polygon';
+}
+
+/**
+ * Computes the pixels a shape may cover
+ * @param shape - Valid region shape
+ * @returns Inclusive pixel bounds
+ */
+export function getRegionShapeBounds(shape: RegionShape): { minX: number; minY: number; maxX: number; maxY: number } {
+  if (shape.type === 'rect') {
+    return { minX: shape.minX, minY: shape.minY, maxX: shape.maxX, maxY: shape.maxY };
+  }
+
+  const xs = shape.points.map(point => point.x);
+  const ys = shape.points.map(point => point.y);
+  return {
+    minX: Math.min(...xs),
+    minY: Math.min(...ys),
+    maxX: Math.max(...xs) - 1,
+    maxY: Math.max(...ys) - 1,
+  };
+}
+
+/**
+ * Checks whether a pixel lies inside a shape
+ * @param x - Pixel column
+ * @param y - Pixel row
+ * @param shape - Valid region shape
+ * @returns true if the pixel is covered
+ */
+export function isPixelInRegionShape(x: number, y: number, shape: RegionShape): boolean {
+  if (shape.type === 'rect') {
+    return x >= shape.minX && x <= shape.maxX && y >= shape.minY && y <= shape.maxY;
+  }
+
+  // Even-odd ray casting from the pixel center; centers never lie on integer edges
+  const cx = x + 0.5;
+  const cy = y + 0.5;
+  const { points } = shape;
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > cy) !== (b.y > cy) && cx < ((b.x - a.x) * (cy - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
\ No newline at end of file
@@ -0,0 +1,233 @@
+import { hexToRgb, rgbToHex } from './pixelCodec';
+
+/**
+ * Binary WebSocket frames for pixel traffic, shared by backend and frontend.
+ * Negotiated with the BINARY_SUBPROTOCOL subprotocol; all other messages stay JSON text frames.
+ * Clients offer JSON_SUBPROTOCOL alongside it so the handshake still succeeds when the
+ * server picks JSON (browsers fail a handshake that answers none of the offered subprotocols).
+ *
+ * PIXEL_UPDATE frame (little-endian):
+ *   0     message type (uint8, BINARY_PIXEL_UPDATE)
+ *   1-4   seq (uint32)
+ *   5-6   user count U (uint16)
+ *   7-10  pixel count N (uint32)
+ *   then U user IDs, each a length byte followed by UTF-8 bytes
+ *   then N records of 10 bytes:
+ *     0-1  x (uint16)
+ *     2-3  y (uint16)
+ *     4-6  r, g, b (uint8)
+ *     7    flags (uint8, PIXEL_FLAG_* bits)
+ *     8-9  index into the frame's user IDs (uint16)
+ *
+ * DRAW_PIXEL frame (8 bytes, or 12 with a request ID):
+ *   0     message type (uint8, BINARY_DRAW_PIXEL)
+ *   1-2   x (uint16)
+ *   3-4   y (uint16)
+ *   5-7   r, g, b (uint8)
+ *   8-11  request ID (uint32, optional)
+ */
+export const BINARY_SUBPROTOCOL = 'pixcanvas.binary.v1';
+export const JSON_SUBPROTOCOL = 'pixcanvas.json.v1';
+
+export const BINARY_PIXEL_UPDATE = 1;
+export const BINARY_DRAW_PIXEL = 2;
+
+// PIXEL_UPDATE record flags
+export const PIXEL_FLAG_ERASED = 1;
+
+export const PIXEL_UPDATE_HEADER_SIZE = 11;
+export const PIXEL_UPDATE_RECORD_SIZE = 10;
+export const DRAW_PIXEL_FRAME_SIZE = 8;
+export const DRAW_PIXEL_REQUEST_FRAME_SIZE = 12;
+
+export interface BinaryPixelUpdate {
+  seq: number;
+  pixels: Array<{ x: number; y: number; color: string; userId: string; erased?: boolean }>;
+}
+
+export interface BinaryDrawPixel {
+  x: number;
+  y: number;
+  color: string;
+  requestId?: number; // uint32 echoed in the acknowledgement
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const toDataView = (data: ArrayBuffer | Uint8Array): DataView => {
+  return data instanceof Uint8Array
+    ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+    : new DataView(data);
+};
+
+/**
+ * Reads the message type of a binary frame
+ * @param data - Received frame
+ * @returns Message type byte, or null for an empty frame
+ */
+export function getBinaryMessageType(data: ArrayBuffer | Uint8Array): number | null {
+  const view = toDataView(data);
+  return view.byteLength > 0 ? view.getUint8(0) : null;
+}
+
+/**
+ * Encodes a batch of pixel updates; each distinct user ID is written once per frame
+ * @param update - Sequence number and pixels of the batch
+ * @returns PIXEL_UPDATE frame
+ */
+export function encodePixelUpdate(update: BinaryPixelUpdate): Uint8Array {
+  const userIndices = new Map<string, number>();
+  const userIdBytes: Uint8Array[] = [];
+
+  update.pixels.forEach(pixel => {
+    if (!userIndices.has(pixel.userId)) {
+      const bytes = textEncoder.encode(pixel.userId);
+      if (bytes.length > 255) {
+        throw new Error(`User ID too long for a binary frame: ${pixel.userId}`);
+      }
+      userIndices.set(pixel.userId, userIdBytes.length);
+      userIdBytes.push(bytes);
+    }
+  });
+
+  if (userIdBytes.length > 0xffff) {
+    throw new Error(`Too many users for a binary frame: ${userIdBytes.length}`);
+  }
+
+  const usersSize = userIdBytes.reduce((sum, bytes) => sum + 1 + bytes.length, 0);
+  const frame = new Uint8Array(PIXEL_UPDATE_HEADER_SIZE + usersSize + update.pixels.length * PIXEL_UPDATE_RECORD_SIZE);
+  const view = new DataView(frame.buffer);
+
+  view.setUint8(0, BINARY_PIXEL_UPDATE);
+  view.setUint32(1, update.seq, true);
+  view.setUint16(5, userIdBytes.length, true);
+  view.setUint32(7, update.pixels.length, true);
+
+  let offset = PIXEL_UPDATE_HEADER_SIZE;
+  userIdBytes.forEach(bytes => {
+    view.setUint8(offset, bytes.length);
+    frame.set(bytes, offset + 1);
+    offset += 1 + bytes.length;
+  });
+
+  update.pixels.forEach(pixel => {
+    const [r, g, b] = hexToRgb(pixel.color);
+
+    view.setUint16(offset, pixel.x, true);
+    view.setUint16(offset + 2, pixel.y, true);
+    view.setUint8(offset + 4, r);
+    view.setUint8(offset + 5, g);
+    view.setUint8(offset + 6, b);
+    view.setUint8(offset + 7, pixel.erased ? PIXEL_FLAG_ERASED : 0);
+    view.setUint16(offset + 8, userIndices.get(pixel.userId)!, true);
+    offset += PIXEL_UPDATE_RECORD_SIZE;
+  });
+
+  return frame;
+}
+
+/**
+ * Decodes a PIXEL_UPDATE frame
+ * @param data - Frame produced by encodePixelUpdate
+ * @returns Sequence number and pixels of the batch
+ * @throws Error if the frame is truncated or not a PIXEL_UPDATE
+ */
+export function decodePixelUpdate(data: ArrayBuffer | Uint8Array): BinaryPixelUpdate {
+  const view = toDataView(data);
+  if (view.byteLength < PIXEL_UPDATE_HEADER_SIZE || view.getUint8(0) !== BINARY_PIXEL_UPDATE) {
+    throw new Error('Invalid PIXEL_UPDATE frame');
+  }
+
+  const seq = view.getUint32(1, true);
+  const userCount = view.getUint16(5, true);
+  const pixelCount = view.getUint32(7, true);
+
+  const userIds: string[] = new Array(userCount);
+  let offset = PIXEL_UPDATE_HEADER_SIZE;
+  for (let index = 0; index < userCount; index++) {
+    if (offset >= view.byteLength) {
+      throw new Error('Truncated PIXEL_UPDATE frame');
+    }
+    const length = view.getUint8(offset);
+    if (offset + 1 + length > view.byteLength) {
+      throw new Error('Truncated PIXEL_UPDATE frame');
+    }
+    userIds[index] = textDecoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 1, length));
+    offset += 1 + length;
+  }
+
+  if (view.byteLength - offset !== pixelCount * PIXEL_UPDATE_RECORD_SIZE) {
+    throw new Error('PIXEL_UPDATE frame size does not match its pixel count');
+  }
+
+  const pixels: BinaryPixelUpdate['pixels'] = new Array(pixelCount);
+  for (let index = 0; index < pixelCount; index++) {
+    const userIndex = view.getUint16(offset + 8, true);
+    if (userIndex >= userCount) {
+      throw new Error(`PIXEL_UPDATE frame references unknown user ${userIndex}`);
+    }
+
+    pixels[index] = {
+      x: view.getUint16(offset, true),
+      y: view.getUint16(offset + 2, true),
+      color: rgbToHex(view.getUint8(offset + 4), view.getUint8(offset + 5), view.getUint8(offset + 6)),
+      userId: userIds[userIndex],
+    };
+    if (view.getUint8(offset + 7) & PIXEL_FLAG_ERASED) {
+      pixels[index].erased = true;
+    }
+    offset += PIXEL_UPDATE_RECORD_SIZE;
+  }
+
+  return { seq, pixels };
+}
+
+/**
+ * Encodes a pixel placement
+ * @param pixel - Coordinates, "#RRGGBB" color and optional request ID
+ * @returns DRAW_PIXEL frame
+ */
+export function encodeDrawPixel(pixel: BinaryDrawPixel): Uint8Array {
+  const hasRequestId = pixel.requestId !== undefined;
+  const frame = new Uint8Array(hasRequestId ? DRAW_PIXEL_REQUEST_FRAME_SIZE : DRAW_PIXEL_FRAME_SIZE);
+  const view = new DataView(frame.buffer);
+  const [r, g, b] = hexToRgb(pixel.color);
+
+  view.setUint8(0, BINARY_DRAW_PIXEL);
+  view.setUint16(1, pixel.x, true);
+  view.setUint16(3, pixel.y, true);
+  view.setUint8(5, r);
+  view.setUint8(6, g);
+  view.setUint8(7, b);
+  if (hasRequestId) {
+    view.setUint32(8, pixel.requestId!, true);
+  }
+
+  return frame;
+}
+
+/**
+ * Decodes a DRAW_PIXEL frame
+ * @param data - Frame produced by encodeDrawPixel
+ * @returns Coordinates, upper-case "#RRGGBB" color and the request ID if the frame has one
+ * @throws Error if the frame has the wrong size or type
+ */
+export function decodeDrawPixel(data: ArrayBuffer | Uint8Array): BinaryDrawPixel {
+  const view = toDataView(data);
+  const validSize = view.byteLength === DRAW_PIXEL_FRAME_SIZE || view.byteLength === DRAW_PIXEL_REQUEST_FRAME_SIZE;
+  if (!validSize || view.getUint8(0) !== BINARY_DRAW_PIXEL) {
+    throw new Error('Invalid DRAW_PIXEL frame');
+  }
+
+  const pixel: BinaryDrawPixel = {
+    x: view.getUint16(1, true),
+    y: view.getUint16(3, true),
+    color: rgbToHex(view.getUint8(5), view.getUint8(6), view.getUint8(7)),
+  };
+  if (view.byteLength === DRAW_PIXEL_REQUEST_FRAME_SIZE) {
+    pixel.requestId = view.getUint32(8, true);
+  }
+
+  return pixel;
+}